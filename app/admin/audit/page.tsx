@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { queryAudit, validateAuditQuery } from "@/lib/audit";
+import { AUDIT_ACTIONS } from "@/lib/types";
+import { AuditLogTable } from "@/components/admin/AuditLogTable";
+
+const PAGE_SIZE = 50;
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Guarded by middleware.ts like every /admin/ page
+export default async function AuditLogPage({ searchParams }: Props) {
+  const search = await searchParams;
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  for (const field of ["action", "actor", "appId", "target", "from", "to", "cursor"]) {
+    const value = search[field];
+    if (typeof value === "string" && value) {
+      params.set(field, value);
+    }
+  }
+  const query = validateAuditQuery(params);
+  const page = query.ok ? await queryAudit(query.value) : null;
+  const older = new URLSearchParams(params);
+  older.delete("limit");
+  if (page?.next) {
+    older.set("cursor", page.next);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 space-y-4">
+        <div>
+          <p className="text-xs uppercase tracking-widest text-slate-400">Admin</p>
+          <h1 className="text-3xl font-semibold">Audit log</h1>
+          <p className="text-sm text-slate-400">Settings, API key and quarantine changes, newest first.</p>
+        </div>
+        <form className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs uppercase tracking-widest text-slate-400">Action</span>
+            <select
+              name="action"
+              defaultValue={params.get("action") ?? ""}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs"
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {action}
+                </option>
+              ))}
+            </select>
+          </label>
+          {(["actor", "appId"] as const).map((field) => (
+            <label key={field} className="flex flex-col gap-1">
+              <span className="text-xs uppercase tracking-widest text-slate-400">{field}</span>
+              <input
+                name={field}
+                defaultValue={params.get(field) ?? ""}
+                className="w-56 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs"
+              />
+            </label>
+          ))}
+          <button type="submit" className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-900 text-xs font-semibold">
+            Filter
+          </button>
+        </form>
+      </div>
+      <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-4">
+        {page ? (
+          <AuditLogTable entries={page.entries} />
+        ) : (
+          <p className="text-sm text-rose-300">
+            {!query.ok && query.errors.map((error) => `${error.field} ${error.message}`).join("; ")}
+          </p>
+        )}
+        {page?.next ? (
+          <Link href={`/admin/audit?${older}`} className="text-xs text-slate-400 hover:text-slate-200">
+            Older entries →
+          </Link>
+        ) : null}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { t } from '@/lib/test'
+import { startMockSmtpServer, startMockWebhookServer } from '../../../test/mock-channels'
+
+const { describe, it, expect, beforeAll, afterAll } = t
+
+const HUB = 'http://hub.test'
+
+let webhooks: Awaited<ReturnType<typeof startMockWebhookServer>>
+let smtp: Awaited<ReturnType<typeof startMockSmtpServer>>
+
+beforeAll(async () => {
+  webhooks = await startMockWebhookServer()
+  smtp = await startMockSmtpServer()
+  // Set before lib/config is imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_SMTP_URL = smtp.url.replace('smtp://', 'smtp://hub:secret@')
+  process.env.UXQA_SMTP_FROM = 'ux.qa <alerts@hub.test>'
+  process.env.UXQA_PUBLIC_URL = HUB
+  process.env.UXQA_DELIVERY_BACKOFF_MS = '1'
+  process.env.UXQA_DELIVERY_MAX_ATTEMPTS = '3'
+})
+
+afterAll(async () => {
+  await webhooks.close()
+  await smtp.close()
+})
+
+async function createRule(body: Record<string, unknown>) {
+  const { POST } = await import('../alerts/rules/route')
+  return POST(new Request(`${HUB}/api/alerts/rules`, { method: 'POST', body: JSON.stringify(body) }), {})
+}
+
+const received = (path: string) => webhooks.requests.filter((request) => request.path === path)
+
+describe('alert channels', () => {
+  it('rejects unknown channel types and incomplete channel options', async () => {
+    const response = await createRule({
+      name: 'Broken',
+      condition: { type: 'coverageBelow', threshold: 80 },
+      channels: [{ type: 'pager' }, { type: 'slack' }, { type: 'email', to: ['not an address'] }],
+    })
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors).toEqual([
+      { field: 'channels[0].type', message: 'must be one of slack, teams, email, webhook' },
+      { field: 'channels[1].webhookUrl', message: 'must be an http(s) URL' },
+      { field: 'channels[2].to', message: 'must be a non-empty array of email addresses' },
+    ])
+  })
+
+  it('delivers to Slack, Teams, email and templated webhooks and logs every delivery', async () => {
+    const created = await createRule({
+      name: 'Coverage gate',
+      appId: 'checkout',
+      condition: { type: 'coverageBelow', threshold: 90 },
+      channels: [
+        { type: 'slack', webhookUrl: `${webhooks.url}/slack` },
+        { type: 'teams', webhookUrl: `${webhooks.url}/teams` },
+        { type: 'email', to: ['qa@example.test', 'lead@example.test'] },
+        {
+          type: 'webhook',
+          url: `${webhooks.url}/custom`,
+          template: '{"summary":"{{text}}","app":"{{run.appId}}","link":"{{url}}"}',
+          headers: { 'x-token': 'abc' },
+        },
+        { type: 'webhook', url: `${webhooks.url}/status/503/down` },
+      ],
+    })
+    expect(created.status).toBe(201)
+    const rule = await created.json()
+
+    const { POST } = await import('../runs/route')
+    const { alertsIdle } = await import('@/lib/alerts')
+    const { outboxIdle } = await import('@/lib/outbox')
+    const run = { appId: 'checkout', suite: 'e2e', environment: 'ci', status: 'passed', total: 4, passed: 4, failed: 0, durationMs: 61000, coverage: 72.5 }
+    await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(run) }), {})
+    await alertsIdle()
+    await outboxIdle()
+
+    const slack = JSON.parse(received('/slack')[0].body)
+    expect(slack.text).toBe('[FIRING] Coverage gate: checkout (e2e, ci) - Coverage 72.5%, threshold 90%')
+    expect(slack.blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'Firing: Coverage gate' } })
+    expect(slack.blocks[2].fields).toContainEqual({ type: 'mrkdwn', text: '*Coverage*\n72.5%' })
+    expect(slack.blocks[3].elements[0].url).toBe(`${HUB}/apps/checkout`)
+
+    const card = JSON.parse(received('/teams')[0].body).attachments[0]
+    expect(card.contentType).toBe('application/vnd.microsoft.card.adaptive')
+    expect(card.content.body[0]).toMatchObject({ type: 'TextBlock', color: 'Attention', text: 'Firing: Coverage gate' })
+    expect(card.content.body[2].facts).toContainEqual({ title: 'Duration', value: '61s' })
+
+    expect(smtp.messages).toHaveLength(1)
+    expect(smtp.messages[0]).toMatchObject({ from: 'alerts@hub.test', to: ['qa@example.test', 'lead@example.test'], user: 'hub' })
+    expect(smtp.messages[0].data).toContain('Subject: [FIRING] Coverage gate: checkout (e2e, ci) - Coverage 72.5%, threshold 90%')
+    expect(smtp.messages[0].data).toContain(`${HUB}/apps/checkout`)
+
+    const [custom] = received('/custom')
+    expect(JSON.parse(custom.body)).toEqual({
+      summary: '[FIRING] Coverage gate: checkout (e2e, ci) - Coverage 72.5%, threshold 90%',
+      app: 'checkout',
+      link: `${HUB}/apps/checkout`,
+    })
+    expect(custom.headers['x-token']).toBe('abc')
+    expect(received('/status/503/down')).toHaveLength(3)
+
+    const { GET } = await import('../alerts/deliveries/route')
+    const response = await GET(new Request(`${HUB}/api/alerts/deliveries?ruleId=${rule.id}&status=failed`), {})
+    expect((await response.json()).deliveries).toEqual([
+      expect.objectContaining({
+        channel: 'webhook',
+        target: webhooks.url.replace('http://', ''),
+        alertStatus: 'firing',
+        status: 'failed',
+        attempts: 3,
+        error: `${webhooks.url.replace('http://', '')} answered 503`,
+      }),
+    ])
+    const all = await GET(new Request(`${HUB}/api/alerts/deliveries?appId=checkout`), {})
+    expect((await all.json()).deliveries.map((delivery: { status: string }) => delivery.status).sort()).toEqual([
+      'delivered',
+      'delivered',
+      'delivered',
+      'delivered',
+      'failed',
+    ])
+  })
+  it('reports dead-lettered deliveries in sink health and retries them on request', async () => {
+    const { GET, POST } = await import('../health/sinks/route')
+    const { outboxIdle } = await import('@/lib/outbox')
+    const sink = `alert:webhook:${webhooks.url.replace('http://', '')}`
+
+    const health = await GET(new Request(`${HUB}/api/health/sinks`), {})
+    expect(health.status).toBe(503)
+    const body = await health.json()
+    expect(body.status).toBe('degraded')
+    expect(body.sinks).toContainEqual(
+      expect.objectContaining({ sink, status: 'degraded', pending: 0, dead: 1, consecutiveFailures: 3, lastError: expect.stringContaining('answered 503') })
+    )
+    expect(body.sinks).toContainEqual(expect.objectContaining({ sink: 'alert:email:qa@example.test, lead@example.test', status: 'healthy' }))
+
+    const invalid = await POST(new Request(`${HUB}/api/health/sinks`, { method: 'POST', body: JSON.stringify({ sink: 5 }) }), {})
+    expect(invalid.status).toBe(400)
+    const retried = await POST(new Request(`${HUB}/api/health/sinks`, { method: 'POST', body: JSON.stringify({ sink }) }), {})
+    expect(await retried.json()).toEqual({ requeued: 1 })
+    await outboxIdle()
+    expect(received('/status/503/down')).toHaveLength(6)
+  })
+  it('masks channel secrets in responses and the audit log and keeps them when the rule is saved back', async () => {
+    const slackUrl = 'https://hooks.slack.test/services/T0/B0/secret'
+    const created = await createRule({
+      name: 'Vault',
+      appId: 'vault',
+      condition: { type: 'coverageBelow', threshold: 10 },
+      webhookUrl: 'https://hooks.test/legacy/secret',
+      channels: [
+        { type: 'slack', webhookUrl: slackUrl },
+        { type: 'webhook', url: 'https://hooks.test/custom?token=secret', headers: { authorization: 'Bearer secret' } },
+        { type: 'email', to: ['qa@example.test'] },
+      ],
+    })
+    expect(created.status).toBe(201)
+    const shown = await created.json()
+    const masked = [
+      { type: 'slack', webhookUrl: 'https://hooks.slack.test/[redacted]' },
+      { type: 'webhook', url: 'https://hooks.test/[redacted]', headers: { authorization: '[redacted]' } },
+      { type: 'email', to: ['qa@example.test'] },
+    ]
+    expect(shown).toMatchObject({ webhookUrl: 'https://hooks.test/[redacted]', channels: masked })
+
+    const { GET } = await import('../alerts/rules/route')
+    const listed = await (await GET(new Request(`${HUB}/api/alerts/rules?appId=vault`), {})).json()
+    expect(listed.rules.find((rule: { id: string }) => rule.id === shown.id)).toEqual(shown)
+
+    const { PATCH } = await import('../alerts/rules/[id]/route')
+    const save = (body: Record<string, unknown>) =>
+      PATCH(new Request(`${HUB}/api/alerts/rules/${shown.id}`, { method: 'PATCH', body: JSON.stringify(body) }), {
+        params: Promise.resolve({ id: shown.id }),
+      })
+    expect((await save({ name: 'Renamed', channels: shown.channels, webhookUrl: shown.webhookUrl })).status).toBe(200)
+    const { getAlertRule } = await import('@/lib/alerts')
+    expect(await getAlertRule(shown.id)).toMatchObject({
+      webhookUrl: 'https://hooks.test/legacy/secret',
+      channels: [
+        { type: 'slack', webhookUrl: slackUrl },
+        { type: 'webhook', url: 'https://hooks.test/custom?token=secret', headers: { authorization: 'Bearer secret' } },
+        { type: 'email', to: ['qa@example.test'] },
+      ],
+    })
+    expect((await save({ channels: [{ ...shown.channels[0], webhookUrl: 'https://hooks.slack.test/services/new' }] })).status).toBe(200)
+    expect((await getAlertRule(shown.id))?.channels).toEqual([{ type: 'slack', webhookUrl: 'https://hooks.slack.test/services/new' }])
+
+    const { GET: audit } = await import('../audit/route')
+    const { entries } = await (await audit(new Request(`${HUB}/api/audit?target=${shown.id}`), {})).json()
+    expect(JSON.stringify(entries)).not.toContain('secret')
+    expect(entries.map((entry: { action: string }) => entry.action).sort()).toEqual(['alertRule.create', 'alertRule.update', 'alertRule.update'])
+  })
+})
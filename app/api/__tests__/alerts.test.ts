@@ -0,0 +1,144 @@
+import { t } from '@/lib/test'
+
+const { describe, it, expect, vi, beforeAll, afterAll, beforeEach } = t
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+process.env.ALERT_WEBHOOK_URL = 'http://hooks.test/default'
+
+const HUB = 'http://hub.test'
+
+const webhook = vi.fn(async (_url: string, _init: RequestInit) => new Response(null, { status: 200 }))
+
+beforeAll(() => {
+  vi.stubGlobal('fetch', webhook)
+})
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+})
+
+beforeEach(() => {
+  webhook.mockClear()
+})
+
+/** Bodies posted to the alert webhooks since the last clear, as `[url, text]`. */
+const notifications = () =>
+  webhook.mock.calls.map(([url, init]) => [url, JSON.parse(String(init.body)).text as string])
+
+async function ingest(appId: string, fields: Record<string, unknown> = {}) {
+  const { POST } = await import('../runs/route')
+  const { alertsIdle } = await import('@/lib/alerts')
+  const { outboxIdle } = await import('@/lib/outbox')
+  // Distinct timestamps keep the run history in ingest order
+  await new Promise((resolve) => setTimeout(resolve, 2))
+  const body = { appId, suite: 'e2e', environment: 'ci', status: 'passed', total: 10, passed: 10, failed: 0, durationMs: 1000, ...fields }
+  const response = await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(body) }), {})
+  expect(response.status).toBe(201)
+  await alertsIdle()
+  await outboxIdle()
+}
+
+const failed = { status: 'failed', passed: 7, failed: 3 }
+
+async function createRule(rule: Record<string, unknown>) {
+  const { POST } = await import('../alerts/rules/route')
+  const response = await POST(new Request(`${HUB}/api/alerts/rules`, { method: 'POST', body: JSON.stringify(rule) }), {})
+  expect(response.status).toBe(201)
+  return (await response.json()).id as string
+}
+
+describe('alert rules', () => {
+  it('falls back to ALERT_WEBHOOK_URL for failed runs until a rule is stored', async () => {
+    await ingest('legacy', failed)
+    expect(notifications()).toEqual([['http://hooks.test/default', '[FIRING] Run failed: legacy (e2e, ci) - 1 failing run in a row']])
+  })
+
+  it('rejects invalid conditions', async () => {
+    const { POST } = await import('../alerts/rules/route')
+    const response = await POST(
+      new Request(`${HUB}/api/alerts/rules`, {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Broken', condition: { type: 'consecutiveFailures', count: 0 } }),
+      }),
+      {}
+    )
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors).toEqual([{ field: 'condition.count', message: 'must be an integer from 1 to 100' }])
+  })
+
+  it('fires once per cooldown and resolves when the condition clears', async () => {
+    const id = await createRule({
+      name: 'Nightly broken',
+      appId: 'checkout',
+      condition: { type: 'consecutiveFailures', count: 2 },
+      cooldownMinutes: 30,
+      webhookUrl: 'http://hooks.test/checkout',
+    })
+    await ingest('checkout', failed)
+    expect(notifications()).toEqual([])
+
+    await ingest('checkout', failed)
+    await ingest('checkout', failed)
+    expect(notifications()).toEqual([
+      ['http://hooks.test/checkout', '[FIRING] Nightly broken: checkout (e2e, ci) - 2 failing runs in a row'],
+    ])
+
+    const { PATCH } = await import('../alerts/rules/[id]/route')
+    await PATCH(
+      new Request(`${HUB}/api/alerts/rules/${id}`, { method: 'PATCH', body: JSON.stringify({ cooldownMinutes: 0 }) }),
+      { params: Promise.resolve({ id }) }
+    )
+    await ingest('checkout', failed)
+    expect(notifications()).toHaveLength(2)
+
+    await ingest('checkout')
+    expect(notifications()[2]).toEqual(['http://hooks.test/checkout', '[RESOLVED] Nightly broken: checkout (e2e, ci) - 0 failing runs in a row'])
+
+    const { GET } = await import('../alerts/route')
+    const body = await (await GET(new Request(`${HUB}/api/alerts?appId=checkout`), {})).json()
+    expect(body.alerts).toMatchObject([{ appId: 'checkout', status: 'resolved' }])
+  })
+
+  it('detects duration regressions, coverage drops and new flaky tests', async () => {
+    await createRule({ name: 'Slower', appId: 'search', condition: { type: 'durationRegression', window: 3, percent: 50 } })
+    await createRule({ name: 'Coverage', appId: 'search', condition: { type: 'coverageDrop', window: 3, drop: 5 } })
+    await createRule({ name: 'Flaky', appId: 'search', condition: { type: 'newFlakyTest', window: 3 }, cooldownMinutes: 0 })
+    const retried = { tests: [{ title: 'pays', titlePath: ['cart', 'pays'], status: 'passed', retries: 1, durationMs: 100 }] }
+    await ingest('search', { coverage: 80, ...retried })
+    await ingest('search', { coverage: 80, ...retried })
+    await ingest('search', { coverage: 80 })
+    expect(notifications().map(([, text]) => text)).toEqual([
+      '[FIRING] Flaky: search (e2e, ci) - New flaky test: cart › pays',
+      '[RESOLVED] Flaky: search (e2e, ci) - Only known flaky tests needed a retry',
+    ])
+    webhook.mockClear()
+
+    await ingest('search', {
+      coverage: 70,
+      durationMs: 2000,
+      tests: [{ title: 'searches', titlePath: ['search', 'searches'], status: 'passed', retries: 2, durationMs: 100 }],
+    })
+    expect(notifications().map(([, text]) => text)).toEqual([
+      '[FIRING] Slower: search (e2e, ci) - Took 2000ms, 100% against the average of 1000ms',
+      '[FIRING] Coverage: search (e2e, ci) - Coverage 70.0%, baseline 80.0%',
+      '[FIRING] Flaky: search (e2e, ci) - New flaky test: search › searches',
+    ])
+  })
+
+  it('deletes rules and their alerts', async () => {
+    const id = await createRule({ name: 'Temporary', appId: 'billing', condition: { type: 'coverageBelow', threshold: 90 } })
+    await ingest('billing', { coverage: 50 })
+    const { PATCH, DELETE } = await import('../alerts/rules/[id]/route')
+    const context = { params: Promise.resolve({ id }) }
+    const patched = await PATCH(
+      new Request(`${HUB}/api/alerts/rules/${id}`, { method: 'PATCH', body: JSON.stringify({ enabled: false, suite: null }) }),
+      context
+    )
+    expect(await patched.json()).toMatchObject({ enabled: false, cooldownMinutes: 60 })
+    expect((await DELETE(new Request(`${HUB}/api/alerts/rules/${id}`, { method: 'DELETE' }), context)).status).toBe(204)
+
+    const { GET } = await import('../alerts/route')
+    expect((await (await GET(new Request(`${HUB}/api/alerts?appId=billing`), {})).json()).alerts).toEqual([])
+  })
+})
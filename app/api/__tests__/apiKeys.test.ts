@@ -0,0 +1,59 @@
+import { t } from '@/lib/test'
+
+const { describe, it, expect } = t
+
+// Set before the routes and lib/config are imported below; no UXQA_API_KEY and no OIDC login
+process.env.UXQA_STORAGE = 'memory'
+
+const HUB = 'http://hub.test'
+
+let keyRequired: string | null = null
+
+const run = { appId: 'checkout', suite: 'e2e', environment: 'ci', status: 'passed', total: 1, passed: 1, failed: 0, durationMs: 10 }
+
+async function listRuns(headers: Record<string, string> = {}) {
+  const { GET } = await import('../runs/route')
+  const response = await GET(new Request(`${HUB}/api/runs`, { headers }), {})
+  if (response.ok) {
+    keyRequired = response.headers.get('x-uxqa-key-required')
+  }
+  return response.status
+}
+
+async function postRun(headers: Record<string, string>, body: Record<string, unknown>) {
+  const { POST } = await import('../runs/route')
+  return (await POST(new Request(`${HUB}/api/runs`, { method: 'POST', headers, body: JSON.stringify(body) }), {})).status
+}
+
+describe('managed keys without a bootstrap key', () => {
+  it('enforces keys as soon as the hub has issued one', async () => {
+    expect(await listRuns()).toBe(200)
+    expect(keyRequired).toBeNull()
+
+    const { POST } = await import('../keys/route')
+    const created = await POST(
+      new Request(`${HUB}/api/keys`, { method: 'POST', body: JSON.stringify({ name: 'ops', role: 'admin', scopes: ['read', 'admin'] }) }),
+      {}
+    )
+    expect(created.status).toBe(201)
+    const admin = { 'x-uxqa-key': (await created.json()).token }
+
+    expect(await listRuns()).toBe(401)
+    expect(await listRuns(admin)).toBe(200)
+    expect(keyRequired).toBe('true')
+
+    const { createApiKey, listApiKeys, revokeApiKey } = await import('@/lib/apiKeys')
+    const ci = await createApiKey({ name: 'checkout CI', role: 'ci', scopes: ['ingest'], appIds: ['checkout'] })
+    const headers = { 'x-uxqa-key': ci.token }
+    expect(await postRun(headers, run)).toBe(201)
+    expect(await postRun(headers, { ...run, appId: 'payments' })).toBe(403)
+    expect(await listRuns(headers)).toBe(403)
+
+    // Revoking every key keeps auth on rather than opening the hub again
+    for (const key of await listApiKeys()) {
+      await revokeApiKey(key.id)
+    }
+    expect(await listRuns()).toBe(401)
+    expect(await listRuns(admin)).toBe(401)
+  })
+})
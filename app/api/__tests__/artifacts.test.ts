@@ -0,0 +1,99 @@
+import { t } from '@/lib/test'
+import { existsSync, mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+const { describe, it, expect, beforeAll } = t
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+process.env.UXQA_BLOB_DIR = mkdtempSync(path.join(tmpdir(), 'uxqa-blobs-'))
+process.env.UXQA_ARTIFACT_SECRET_FILE = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-secret-')), 'artifact-secret')
+
+const HUB = 'http://hub.test'
+
+let runId = ''
+
+beforeAll(async () => {
+  const { addRun } = await import('@/lib/dataStore')
+  const run = await addRun({ appId: 'shop', suite: 'e2e', environment: 'ci', status: 'passed', total: 1, passed: 1, failed: 0, durationMs: 10 })
+  runId = run.id
+})
+
+/** Stores `body` as `name` with the declared content type and fetches it back from the hub. */
+async function roundTrip(name: string, contentType: string, body = '<script>alert(document.cookie)</script>') {
+  const { saveArtifact, withArtifactUrl } = await import('@/lib/artifacts')
+  const { GET } = await import('../runs/[runId]/artifacts/[artifactId]/route')
+  const artifact = withArtifactUrl(await saveArtifact(runId, { name, contentType, data: new TextEncoder().encode(body) }))
+  const served = await GET(new Request(`${HUB}${artifact.url}`), { params: Promise.resolve({ runId, artifactId: artifact.id }) })
+  expect(served.status).toBe(200)
+  return { artifact, headers: served.headers }
+}
+
+describe('artifact content types', () => {
+  it('serves raster images, videos and plain text inline', async () => {
+    for (const [name, type] of [['shot.png', 'image/png'], ['clip.webm', 'video/webm'], ['out.log', 'text/plain']]) {
+      const { headers } = await roundTrip(name, type, 'bytes')
+      expect(headers.get('content-type')).toBe(type)
+      expect(headers.get('content-disposition')).toBe(`inline; filename="${name}"`)
+      expect(headers.get('content-security-policy')).toBe('sandbox')
+      expect(headers.get('x-content-type-options')).toBe('nosniff')
+    }
+  })
+
+  it('sandboxes HTML whatever parameters the uploader declares', async () => {
+    const { artifact, headers } = await roundTrip('report.html', 'text/html; charset=utf-8')
+
+    expect(artifact.contentType).toBe('text/html')
+    expect(headers.get('content-type')).toBe('text/html')
+    expect(headers.get('content-security-policy')).toBe('sandbox allow-scripts')
+  })
+
+  it('downloads scriptable and unknown types instead of rendering them', async () => {
+    const svg = await roundTrip('shot.svg', 'image/svg+xml')
+    expect(svg.headers.get('content-type')).toBe('image/svg+xml')
+    expect(svg.headers.get('content-disposition')).toBe('attachment; filename="shot.svg"')
+    expect(svg.headers.get('content-security-policy')).toBe('sandbox')
+
+    const xhtml = await roundTrip('page.xhtml', 'application/xhtml+xml')
+    expect(xhtml.artifact.contentType).toBe('application/octet-stream')
+    expect(xhtml.headers.get('content-type')).toBe('application/octet-stream')
+    expect(xhtml.headers.get('content-disposition')).toBe('attachment; filename="page.xhtml"')
+  })
+
+  it('resolves the type again for metadata stored before it was checked', async () => {
+    const { artifactHeaders } = await import('@/lib/artifacts')
+
+    expect(artifactHeaders({ name: 'x.png', contentType: 'text/html; charset=utf-8' })).toMatchObject({
+      'Content-Type': 'text/html',
+      'Content-Security-Policy': 'sandbox allow-scripts',
+    })
+    expect(artifactHeaders({ name: 'x.png', contentType: 'application/xhtml+xml' })).toMatchObject({
+      'Content-Type': 'image/png',
+      'Content-Disposition': 'inline; filename="x.png"',
+    })
+  })
+})
+
+describe('signed artifact URLs', () => {
+  const load = async (url: string, artifactId: string) => {
+    const { GET } = await import('../runs/[runId]/artifacts/[artifactId]/route')
+    return (await GET(new Request(`${HUB}${url}`), { params: Promise.resolve({ runId, artifactId }) })).status
+  }
+
+  it('load without a key on hubs that only use managed keys, until they expire', async () => {
+    const { artifactUrl, saveArtifact } = await import('@/lib/artifacts')
+    const { createApiKey } = await import('@/lib/apiKeys')
+    // Issuing a managed key turns authentication on; there is no UXQA_API_KEY to sign with
+    await createApiKey({ name: 'ci', role: 'admin', scopes: ['ingest'] })
+    const artifact = await saveArtifact(runId, { name: 'shot.png', data: new TextEncoder().encode('bytes') })
+    const url = artifactUrl(artifact)
+
+    expect(url).toMatch(/\?expires=\d+&sig=/)
+    expect(existsSync(process.env.UXQA_ARTIFACT_SECRET_FILE!)).toBe(true)
+    expect(await load(url, artifact.id)).toBe(200)
+    expect(await load(url.split('?')[0], artifact.id)).toBe(401)
+    expect(await load(artifactUrl(artifact, Date.now() - 3 * 60 * 60 * 1000), artifact.id)).toBe(401)
+    expect(await load(url.replace(/expires=\d+/, 'expires=99999999999'), artifact.id)).toBe(401)
+  })
+})
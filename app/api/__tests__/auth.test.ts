@@ -0,0 +1,204 @@
+import { readdirSync } from 'node:fs'
+import path from 'node:path'
+import { t } from '@/lib/test'
+import type { ApiKeyScope } from '@/lib/types'
+
+const { describe, it, expect, beforeAll } = t
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+process.env.UXQA_API_KEY = 'bootstrap-key'
+process.env.UXQA_RBAC = 'admin:admin|editor,editor:editor,viewer:viewer'
+
+type Method = 'GET' | 'POST' | 'PATCH' | 'DELETE'
+type Handler = (request: Request, context: unknown) => Promise<Response>
+
+interface Access {
+  /** Scopes a managed key needs, any of them. */
+  scopes: ApiKeyScope[]
+  /** Route declares EDIT_ROLES or KEY_ADMIN_ROLES, which viewers lack. */
+  roles?: boolean
+  /**
+   * `every`: spans all apps, so app-bound keys are refused. `request`: the app comes from the path or query.
+   * Left out when the handler checks the app of the payload or a stored record, which these requests never reach.
+   */
+  app?: 'every' | 'request'
+}
+
+// Login routes have to work before the caller holds any credential
+const PUBLIC = 'public'
+
+// Every handler under app/api must be listed; adding a route without an entry fails the suite
+const ACCESS: Record<string, Partial<Record<Method, Access | typeof PUBLIC>>> = {
+  alerts: { GET: { scopes: ['read'], app: 'request' } },
+  'alerts/deliveries': { GET: { scopes: ['read'], app: 'request' } },
+  'alerts/rules': { GET: { scopes: ['read'], app: 'request' }, POST: { scopes: ['admin'], roles: true } },
+  'alerts/rules/[id]': {
+    PATCH: { scopes: ['admin'], roles: true },
+    DELETE: { scopes: ['admin'], roles: true },
+  },
+  'apps/[appId]/compare': { GET: { scopes: ['read'], app: 'request' } },
+  'apps/[appId]/testcases': { GET: { scopes: ['read'], app: 'request' } },
+  audit: { GET: { scopes: ['admin'], app: 'every' } },
+  'auth/callback': { GET: PUBLIC },
+  'auth/login': { GET: PUBLIC },
+  'auth/logout': { POST: PUBLIC },
+  'auth/session': { GET: PUBLIC },
+  events: { GET: { scopes: ['read'], app: 'request' } },
+  flaky: { GET: { scopes: ['read'], app: 'request' } },
+  graphql: { GET: { scopes: ['read'], app: 'every' }, POST: { scopes: ['read'], app: 'every' } },
+  'health/sinks': { GET: { scopes: ['read'], app: 'every' }, POST: { scopes: ['admin'], roles: true, app: 'every' } },
+  keys: { GET: { scopes: ['admin'], app: 'every' }, POST: { scopes: ['admin'], roles: true, app: 'every' } },
+  'keys/[id]': { DELETE: { scopes: ['admin'], roles: true, app: 'every' } },
+  'keys/[id]/rotate': { POST: { scopes: ['admin'], roles: true, app: 'every' } },
+  'metrics/prometheus': { GET: { scopes: ['read'], app: 'every' } },
+  quarantine: {
+    GET: { scopes: ['read', 'ingest'], app: 'request' },
+    POST: { scopes: ['admin'], roles: true },
+  },
+  'quarantine/[id]': {
+    PATCH: { scopes: ['admin'], roles: true },
+    DELETE: { scopes: ['admin'], roles: true },
+  },
+  runs: { GET: { scopes: ['read'], app: 'request' }, POST: { scopes: ['ingest'] } },
+  'runs/[runId]': { PATCH: { scopes: ['ingest'] } },
+  'runs/[runId]/artifacts': { GET: { scopes: ['read'] }, POST: { scopes: ['ingest'] } },
+  'runs/[runId]/artifacts/[artifactId]': { GET: { scopes: ['read'] } },
+  'runs/[runId]/tests': { GET: { scopes: ['read', 'ingest'] }, POST: { scopes: ['ingest'] } },
+  // Every key and login changes its own settings; only callers without one of their own need EDIT_ROLES
+  settings: { GET: { scopes: ['read'] }, PATCH: { scopes: ['read', 'admin'] } },
+  'settings/team': { GET: { scopes: ['read'] }, PATCH: { scopes: ['admin'], roles: true, app: 'every' } },
+  'telemetry/backfill': { GET: { scopes: ['admin'], app: 'every' }, POST: { scopes: ['admin'], roles: true, app: 'every' } },
+  'telemetry/backfill/[id]': { GET: { scopes: ['admin'], app: 'every' } },
+}
+
+const METHODS: Method[] = ['GET', 'POST', 'PATCH', 'DELETE']
+const SCOPES: ApiKeyScope[] = ['ingest', 'read', 'admin']
+
+const apiDir = path.resolve(__dirname, '..')
+const routes = readdirSync(apiDir, { recursive: true, encoding: 'utf-8' })
+  .filter((file) => file.endsWith('/route.ts'))
+  .map((file) => file.replace(/\/route\.ts$/, ''))
+const load = (route: string): Promise<Partial<Record<Method, Handler>>> => import(path.join(apiDir, route, 'route.ts'))
+
+const keys: Record<string, string> = {}
+
+beforeAll(async () => {
+  const { createApiKey } = await import('@/lib/apiKeys')
+  for (const scope of SCOPES) {
+    keys[scope] = (await createApiKey({ name: scope, role: 'admin', scopes: [scope] })).token
+  }
+  keys.checkout = (await createApiKey({ name: 'checkout', role: 'admin', scopes: SCOPES, appIds: ['checkout'] })).token
+  keys.other = (await createApiKey({ name: 'other', role: 'admin', scopes: SCOPES, appIds: ['other'] })).token
+  keys.viewer = (await createApiKey({ name: 'viewer', role: 'viewer', scopes: SCOPES })).token
+})
+
+async function call(handler: Handler, method: Method, headers: Record<string, string>) {
+  const request = new Request('http://hub.test/api?appId=checkout', {
+    method,
+    headers: { 'content-type': 'application/json', ...headers },
+    // An invalid body stops every write at validation once auth has passed
+    body: method === 'GET' || method === 'DELETE' ? undefined : 'null',
+  })
+  const params = Promise.resolve({ appId: 'checkout', runId: 'missing', artifactId: 'missing', id: 'missing' })
+  const response = await handler(request, { params })
+  await response.body?.cancel()
+  return response.status
+}
+
+const isDenied = (status: number) => status === 401 || status === 403
+
+describe('API authorization', () => {
+  it('declares the access of every route handler', async () => {
+    const declared = Object.entries(ACCESS).flatMap(([route, methods]) =>
+      Object.keys(methods).map((method) => `${method} ${route}`)
+    )
+    const exported: string[] = []
+    for (const route of routes) {
+      const module = await load(route)
+      for (const method of METHODS) {
+        if (module[method]) {
+          exported.push(`${method} ${route}`)
+        }
+      }
+    }
+    expect(exported.sort()).toEqual(declared.sort())
+  })
+
+  for (const route of routes) {
+    for (const [method, access] of Object.entries(ACCESS[route] ?? {}) as [Method, Access | typeof PUBLIC][]) {
+      describe(`${method} /api/${route}`, () => {
+        const send = async (headers: Record<string, string>) => call((await load(route))[method]!, method, headers)
+
+        if (access === PUBLIC) {
+          it('answers without a key', async () => {
+            expect(isDenied(await send({}))).toBe(false)
+          })
+          return
+        }
+
+        it('returns 401 without a key or with an unknown key', async () => {
+          expect(await send({})).toBe(401)
+          expect(await send({ 'x-uxqa-key': 'uxqa_unknown' })).toBe(401)
+        })
+
+        it('returns 403 for managed keys without a required scope', async () => {
+          for (const scope of SCOPES) {
+            const status = await send({ 'x-uxqa-key': keys[scope] })
+            if (access.scopes.includes(scope)) {
+              expect(isDenied(status)).toBe(false)
+            } else {
+              expect(status).toBe(403)
+            }
+          }
+        })
+
+        it('checks the role of the key, never the x-uxqa-role header', async () => {
+          // The bootstrap key always has UXQA_API_KEY_ROLE, which defaults to admin
+          expect(isDenied(await send({ 'x-uxqa-key': 'bootstrap-key', 'x-uxqa-role': 'viewer' }))).toBe(false)
+          const viewer = await send({ 'x-uxqa-key': keys.viewer, 'x-uxqa-role': 'admin' })
+          if (access.roles) {
+            expect(viewer).toBe(403)
+          } else {
+            expect(isDenied(viewer)).toBe(false)
+          }
+        })
+
+        if (access.app === 'every') {
+          it('returns 403 for app-bound keys', async () => {
+            expect(await send({ 'x-uxqa-key': keys.checkout })).toBe(403)
+          })
+        }
+
+        if (access.app === 'request') {
+          it('returns 403 for keys bound to another app', async () => {
+            expect(isDenied(await send({ 'x-uxqa-key': keys.checkout }))).toBe(false)
+            expect(await send({ 'x-uxqa-key': keys.other })).toBe(403)
+          })
+        }
+      })
+    }
+  }
+})
+
+describe('API key management', () => {
+  const post = async (route: 'keys' | 'keys/[id]/rotate', headers: Record<string, string>, body?: unknown, id = 'missing') => {
+    const { POST } = await load(route)
+    const request = new Request('http://hub.test/api/keys', { method: 'POST', headers, body: JSON.stringify(body ?? null) })
+    return (await POST!(request, { params: Promise.resolve({ id }) })).status
+  }
+
+  it('never lets a key issue or take over a role or scopes beyond its own', async () => {
+    const everything = { name: 'root', role: 'admin', scopes: SCOPES }
+    expect(await post('keys', { 'x-uxqa-key': keys.viewer }, everything)).toBe(403)
+    expect(await post('keys', { 'x-uxqa-key': keys.admin }, everything)).toBe(403)
+    expect(await post('keys', { 'x-uxqa-key': keys.admin }, { ...everything, scopes: ['admin'] })).toBe(201)
+    expect(await post('keys', { 'x-uxqa-key': 'bootstrap-key' }, everything)).toBe(201)
+
+    const { createApiKey } = await import('@/lib/apiKeys')
+    const { key } = await createApiKey({ name: 'ci', role: 'ci', scopes: ['ingest', 'admin'] })
+    expect(await post('keys/[id]/rotate', { 'x-uxqa-key': keys.admin }, undefined, key.id)).toBe(403)
+    expect(await post('keys/[id]/rotate', { 'x-uxqa-key': keys.viewer }, undefined, key.id)).toBe(403)
+    expect(await post('keys/[id]/rotate', { 'x-uxqa-key': 'bootstrap-key' }, undefined, key.id)).toBe(200)
+  })
+})
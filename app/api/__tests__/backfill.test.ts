@@ -0,0 +1,111 @@
+import { t } from '@/lib/test'
+import type { TestRun } from '@/lib/types'
+import { startMockWebhookServer } from '../../../test/mock-channels'
+
+const { describe, it, expect, vi, beforeAll, afterAll } = t
+
+const HUB = 'http://hub.test'
+
+let collector: Awaited<ReturnType<typeof startMockWebhookServer>>
+
+const stored = (id: string, appId: string, createdAt: string): TestRun => ({
+  id,
+  appId,
+  suite: 'e2e',
+  environment: 'ci',
+  status: 'passed',
+  total: 1,
+  passed: 1,
+  failed: 0,
+  durationMs: 1000,
+  createdAt,
+})
+
+beforeAll(async () => {
+  collector = await startMockWebhookServer()
+  // Set before lib/config is imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_TELEMETRY = 'prometheus,otlp'
+  process.env.OTEL_EXPORTER_OTLP_ENDPOINT = collector.url
+
+  // History from before the sink was enabled
+  const { getStore } = await import('@/lib/storage')
+  const store = getStore()
+  await store.add(stored('00000000-0000-4000-8000-000000000001', 'shop', '2026-01-01T10:00:00.000Z'))
+  await store.add(stored('00000000-0000-4000-8000-000000000002', 'shop', '2026-01-02T10:00:00.000Z'))
+  await store.add(stored('00000000-0000-4000-8000-000000000003', 'blog', '2026-01-03T10:00:00.000Z'))
+  await store.add(stored('00000000-0000-4000-8000-000000000004', 'shop', '2026-02-01T10:00:00.000Z'))
+})
+
+afterAll(async () => {
+  await collector.close()
+})
+
+async function startBackfill(body: unknown, key?: string) {
+  const { POST } = await import('../telemetry/backfill/route')
+  const headers: Record<string, string> = key ? { 'idempotency-key': key } : {}
+  return POST(new Request(`${HUB}/api/telemetry/backfill`, { method: 'POST', headers, body: JSON.stringify(body) }), {})
+}
+
+async function finished(id: string, status = 'completed') {
+  const { GET } = await import('../telemetry/backfill/[id]/route')
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    const backfill = await (await GET(new Request(`${HUB}/api/telemetry/backfill/${id}`), { params: Promise.resolve({ id }) })).json()
+    if (backfill.status === status) {
+      return backfill
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  throw new Error(`Backfill ${id} is not ${status}`)
+}
+
+describe('telemetry backfill', () => {
+  it('only replays into enabled sinks that export through the outbox', async () => {
+    const response = await startBackfill({ sink: 'prometheus', from: 'yesterday' })
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors).toEqual([
+      { field: 'sink', message: 'must be one of otlp' },
+      { field: 'from', message: 'must be an ISO-8601 date' },
+    ])
+  })
+
+  it('replays stored runs in range with their original timestamps and reports progress', async () => {
+    const response = await startBackfill({ sink: 'otlp', appId: 'shop', to: '2026-01-31T00:00:00.000Z' }, 'shop-january')
+    expect(response.status).toBe(202)
+    const started = await response.json()
+    expect(started).toMatchObject({ sink: 'otlp', appId: 'shop', status: 'scanning', idempotencyKey: 'shop-january' })
+
+    expect(await finished(started.id)).toMatchObject({ runs: 2, queued: 2, skipped: 0, delivered: 2, failedRunIds: [] })
+    const traces = collector.requests
+      .filter((request) => request.path === '/v1/traces')
+      .map((request) => JSON.parse(request.body).resourceSpans[0].scopeSpans[0].spans[0])
+    expect(traces.map((span) => [span.traceId, span.endTimeUnixNano])).toEqual([
+      ['00000000000040008000000000000001', `${Date.parse('2026-01-01T10:00:00.000Z')}000000`],
+      ['00000000000040008000000000000002', `${Date.parse('2026-01-02T10:00:00.000Z')}000000`],
+    ])
+
+    const repeated = await startBackfill({ sink: 'otlp', appId: 'shop' }, 'shop-january')
+    expect(repeated.status).toBe(200)
+    expect((await repeated.json()).id).toBe(started.id)
+    expect(collector.requests).toHaveLength(4)
+
+    const { GET } = await import('../telemetry/backfill/route')
+    const list = await (await GET(new Request(`${HUB}/api/telemetry/backfill`), {})).json()
+    expect(list.sinks).toEqual(['otlp'])
+    expect(list.backfills.map((backfill: { id: string }) => backfill.id)).toEqual([started.id])
+  })
+
+  it('fails instead of scanning forever when the stored runs cannot be read', async () => {
+    const { getStore } = await import('@/lib/storage')
+    const query = vi.spyOn(getStore(), 'query').mockRejectedValueOnce(new Error('database is locked'))
+    try {
+      const response = await startBackfill({ sink: 'otlp', appId: 'blog' })
+      expect(response.status).toBe(202)
+      const failed = await finished((await response.json()).id, 'failed')
+      expect(failed).toMatchObject({ error: 'database is locked', runs: 0, queued: 0 })
+      expect(failed.completedAt).toBeDefined()
+    } finally {
+      query.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,108 @@
+import { t } from '@/lib/test'
+import type { TestRun } from '@/lib/types'
+import { startMockRedisServer } from '../../../test/mock-redis'
+
+const { describe, it, expect, beforeAll, afterAll } = t
+
+const HUB = 'http://hub.test'
+const CHANNEL = 'uxqa:events'
+
+let redis: Awaited<ReturnType<typeof startMockRedisServer>>
+
+beforeAll(async () => {
+  redis = await startMockRedisServer({ password: 's3cret' })
+  // Set before lib/config is imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_EVENT_BUS = 'redis'
+  process.env.UXQA_EVENT_BUS_URL = redis.url
+})
+
+afterAll(async () => {
+  await redis.close()
+})
+
+async function until(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+/** Run events received on `/api/events`, as run ids. */
+async function listen() {
+  const { GET } = await import('../events/route')
+  const response = await GET(new Request(`${HUB}/api/events?types=run`), {})
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  const runIds: string[] = []
+  const read = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) {
+        return
+      }
+      for (const match of decoder.decode(value).matchAll(/event: run\ndata: (.*)\n/g)) {
+        runIds.push((JSON.parse(match[1]) as TestRun).id)
+      }
+    }
+  })()
+  return {
+    runIds,
+    close: async () => {
+      await reader.cancel()
+      await read
+    },
+  }
+}
+
+const remoteRun = (id: string): TestRun => ({
+  id,
+  appId: 'shop',
+  suite: 'e2e',
+  environment: 'ci',
+  status: 'passed',
+  total: 1,
+  passed: 1,
+  failed: 0,
+  durationMs: 1000,
+  createdAt: new Date().toISOString(),
+})
+
+const publishRemote = (run: TestRun) =>
+  redis.publish(CHANNEL, JSON.stringify({ origin: 'replica-b', event: { type: 'run', data: run } }))
+
+describe('Redis event bus', () => {
+  it('streams runs ingested by other instances and publishes local ones once', async () => {
+    const stream = await listen()
+    await until(() => redis.subscriberCount(CHANNEL) === 1)
+
+    publishRemote(remoteRun('remote-1'))
+    await until(() => stream.runIds.length === 1)
+    const { POST } = await import('../runs/route')
+    const body = { appId: 'shop', suite: 'e2e', environment: 'ci', status: 'passed', total: 1, passed: 1, failed: 0, durationMs: 5 }
+    const response = await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(body) }), {})
+    const local = (await response.json()).id as string
+    await until(() => redis.published.length === 2 && stream.runIds.length === 2)
+    // The echo of its own message comes back from Redis and must not show up twice
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await stream.close()
+
+    expect(stream.runIds).toEqual(['remote-1', local])
+    const fannedOut = JSON.parse(redis.published[1].message)
+    expect(fannedOut.origin).not.toBe('replica-b')
+    expect(fannedOut.event).toMatchObject({ type: 'run', data: { id: local } })
+  })
+
+  it('resubscribes after losing the Redis connection', async () => {
+    const stream = await listen()
+    redis.dropClients()
+    await until(() => redis.subscriberCount(CHANNEL) === 0)
+    await until(() => redis.subscriberCount(CHANNEL) === 1)
+    publishRemote(remoteRun('remote-2'))
+    await until(() => stream.runIds.includes('remote-2'))
+    await stream.close()
+  })
+})
@@ -0,0 +1,140 @@
+import { t } from '@/lib/test'
+import type { HubEvent, TestRun } from '@/lib/types'
+
+const { describe, it, expect } = t
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+process.env.UXQA_EVENTS_BUFFER = '3'
+
+const HUB = 'http://hub.test'
+
+/** A hub event as the stream sends it, with the event type as the SSE `event` field. */
+type Pushed<Event> = Event extends HubEvent ? { event: Event['type']; data: Event['data'] } : never
+
+type Received = { id?: string } & (
+  | { event: 'bootstrap'; data: TestRun[] }
+  | { event: 'ping'; data: Record<string, never> }
+  | Pushed<HubEvent>
+)
+
+/** Ids of the runs, alert or quarantine entry an event carries. */
+function subjects(event: Received): string[] {
+  switch (event.event) {
+    case 'bootstrap':
+      return event.data.map((run) => run.id)
+    case 'ping':
+      return []
+    case 'quarantine':
+      return [event.data.entry.id]
+    default:
+      return [event.data.id]
+  }
+}
+
+/** Opens `/api/events` and collects its events until `close` is called. */
+async function connect(query = '', headers: Record<string, string> = {}) {
+  const { GET } = await import('../events/route')
+  const response = await GET(new Request(`${HUB}/api/events${query}`, { headers }), {})
+  expect(response.status).toBe(200)
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  const events: Received[] = []
+  let text = ''
+  const read = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) {
+        return
+      }
+      text += decoder.decode(value)
+      const blocks = text.split('\n\n')
+      text = blocks.pop()!
+      for (const block of blocks) {
+        const fields = Object.fromEntries(block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]))
+        // The route only writes the event types above, each with its own data
+        events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) } as Received)
+      }
+    }
+  })()
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 20))
+  await settle()
+  return {
+    events,
+    settle,
+    close: async () => {
+      await reader.cancel()
+      await read
+    },
+  }
+}
+
+async function ingest(appId: string, fields: Record<string, unknown> = {}) {
+  const { POST } = await import('../runs/route')
+  const body = { appId, suite: 'e2e', environment: 'ci', status: 'passed', total: 1, passed: 1, failed: 0, durationMs: 1000, ...fields }
+  const response = await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(body) }), {})
+  expect(response.status).toBe(201)
+  return (await response.json()).id as string
+}
+
+describe('GET /api/events', () => {
+  it('filters server-side and pushes run updates and quarantine changes', async () => {
+    await ingest('shop')
+    await ingest('blog')
+    const stream = await connect('?appId=shop&status=failed')
+    expect(stream.events.map((event) => event.event)).toEqual(['bootstrap'])
+    expect(stream.events[0].data).toEqual([])
+
+    await ingest('shop')
+    const failed = await ingest('shop', { status: 'failed', passed: 0, failed: 1 })
+    await ingest('blog', { status: 'failed', passed: 0, failed: 1 })
+    const { POST } = await import('../runs/[runId]/tests/route')
+    const tests = [{ title: 'checkout', status: 'failed', durationMs: 10 }]
+    const added = await POST(
+      new Request(`${HUB}/api/runs/${failed}/tests`, { method: 'POST', body: JSON.stringify(tests) }),
+      { params: Promise.resolve({ runId: failed }) }
+    )
+    expect(added.status).toBe(201)
+    const { addQuarantine, removeQuarantine } = await import('@/lib/quarantine')
+    const entry = await addQuarantine({ appId: 'shop', titlePath: ['checkout'], owner: 'qa', reason: 'flaky' })
+    await removeQuarantine(entry.id)
+    await addQuarantine({ appId: 'blog', titlePath: ['home'], owner: 'qa', reason: 'flaky' })
+    await stream.settle()
+    await stream.close()
+
+    expect(stream.events.slice(1).map((event) => [event.event, ...subjects(event)])).toEqual([
+      ['run', failed],
+      ['run.updated', failed],
+      ['quarantine', entry.id],
+      ['quarantine', entry.id],
+    ])
+    expect(stream.events.slice(3).map((event) => event.event === 'quarantine' && event.data.action)).toEqual(['created', 'deleted'])
+    expect(new Set(stream.events.map((event) => event.id)).size).toBe(stream.events.length)
+  })
+
+  it('resumes from Last-Event-ID and falls back to a bootstrap once the id left the buffer', async () => {
+    const first = await connect('?appId=news')
+    const resumeFrom = first.events[0].id!
+    await first.close()
+
+    const missed = await ingest('news')
+    const resumed = await connect('?appId=news', { 'Last-Event-ID': resumeFrom })
+    await resumed.close()
+    expect(resumed.events.map((event) => [event.event, ...subjects(event)])).toEqual([['run', missed]])
+
+    // Overflows the three buffered events
+    for (let index = 0; index < 4; index += 1) {
+      await ingest('other')
+    }
+    const restarted = await connect(`?appId=news&lastEventId=${resumeFrom}`)
+    await restarted.close()
+    expect(restarted.events.map((event) => [event.event, ...subjects(event)])).toEqual([['bootstrap', missed]])
+  })
+
+  it('rejects unknown filters', async () => {
+    const { GET } = await import('../events/route')
+    const response = await GET(new Request(`${HUB}/api/events?status=broken&types=run,deploy`), {})
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors.map((error: { field: string }) => error.field)).toEqual(['status', 'types'])
+  })
+})
@@ -0,0 +1,126 @@
+import { t } from '@/lib/test'
+import type { TestRun } from '@/lib/types'
+
+const { describe, it, expect } = t
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+
+const HUB = 'http://hub.test'
+
+const run = { appId: 'shop', suite: 'e2e', environment: 'ci', total: 0, passed: 0, failed: 0, durationMs: 0 }
+
+async function patch(runId: string, body: Record<string, unknown>) {
+  const { PATCH } = await import('../runs/[runId]/route')
+  return PATCH(
+    new Request(`${HUB}/api/runs/${runId}`, { method: 'PATCH', body: JSON.stringify(body) }),
+    { params: Promise.resolve({ runId }) }
+  )
+}
+
+describe('live runs', () => {
+  it('tallies streamed results while running and closes the run with PATCH', async () => {
+    const { POST } = await import('../runs/route')
+    const opened = await POST(
+      new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify({ ...run, status: 'running', planned: 3 }) }),
+      {}
+    )
+    expect(opened.status).toBe(201)
+    const { id } = await opened.json()
+
+    const { POST: addTests } = await import('../runs/[runId]/tests/route')
+    const tests = [
+      { title: 'logs in', status: 'passed', durationMs: 10 },
+      { title: 'checks out', status: 'failed', durationMs: 20 },
+    ]
+    const added = await addTests(
+      new Request(`${HUB}/api/runs/${id}/tests`, { method: 'POST', body: JSON.stringify(tests) }),
+      { params: Promise.resolve({ runId: id }) }
+    )
+    expect(added.status).toBe(201)
+
+    const { getRun, listRuns } = await import('@/lib/dataStore')
+    const { summarizeRuns } = await import('@/lib/stats')
+    expect(await getRun(id)).toMatchObject({ status: 'running', planned: 3, total: 2, passed: 1, failed: 1 })
+    expect(summarizeRuns(await listRuns()).runCount).toBe(0)
+
+    const closed = await patch(id, {
+      ...run,
+      status: 'failed',
+      total: 3,
+      passed: 2,
+      failed: 1,
+      durationMs: 1200,
+      tests: [{ title: 'searches', status: 'passed', durationMs: 5 }],
+    })
+    expect(closed.status).toBe(200)
+    expect(await closed.json()).toMatchObject({ id, status: 'failed', planned: 3, total: 3, durationMs: 1200 })
+    expect(summarizeRuns(await listRuns()).runCount).toBe(1)
+
+    const { GET } = await import('../runs/[runId]/tests/route')
+    const listed = await GET(new Request(`${HUB}/api/runs/${id}/tests`), { params: Promise.resolve({ runId: id }) })
+    expect((await listed.json()).tests.map((test: { title: string }) => test.title).sort()).toEqual([
+      'checks out',
+      'logs in',
+      'searches',
+    ])
+
+    const again = await patch(id, { ...run, status: 'passed' })
+    expect(again.status).toBe(409)
+  })
+
+  it('rejects closing a run as running and unknown runs', async () => {
+    const invalid = await patch('missing', { ...run, status: 'running' })
+    expect(invalid.status).toBe(404)
+
+    const { POST } = await import('../runs/route')
+    const opened = await POST(
+      new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify({ ...run, status: 'running' }) }),
+      {}
+    )
+    const { id } = await opened.json()
+    const response = await patch(id, { ...run, status: 'running' })
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors).toEqual([{ field: 'status', message: 'must be a final status' }])
+  })
+  it('closes runs whose reporter stopped sending results as interrupted failures', async () => {
+    const { addRun, addTests, closeStaleRuns, getRun } = await import('@/lib/dataStore')
+    const { runStaleMs } = await import('@/lib/config')
+    const abandoned = await addRun({ ...run, appId: 'stale', status: 'running' })
+    const streaming = await addRun({ ...run, appId: 'stale', status: 'running' })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await addTests(streaming.id, [{ title: 'logs in', status: 'failed', durationMs: 10 }])
+
+    // Runs the tests above left open are older still
+    const closed = await closeStaleRuns(Date.parse(abandoned.createdAt) + runStaleMs + 10)
+    expect(closed.filter((entry) => entry.appId === 'stale').map((entry) => entry.id)).toEqual([abandoned.id])
+    expect(await getRun(abandoned.id)).toMatchObject({ status: 'failed', interrupted: true, total: 0 })
+    expect(await getRun(streaming.id)).toMatchObject({ status: 'running', total: 1 })
+
+    // A reporter coming back finds its run closed
+    expect((await patch(abandoned.id, { ...run, status: 'passed' })).status).toBe(409)
+    expect(await closeStaleRuns(Date.now() + runStaleMs)).toMatchObject([{ id: streaming.id, status: 'failed', failed: 1 }])
+  })
+
+  it('picks up runs left open by the last hub process once the server starts', async () => {
+    const { getRun } = await import('@/lib/dataStore')
+    const { getStore } = await import('@/lib/storage')
+    const { register } = await import('../../../instrumentation')
+    const { POST } = await import('../graphql/route')
+    const left: TestRun = { ...run, id: 'left-open', status: 'running', createdAt: '2025-01-01T00:00:00.000Z' }
+    await getStore().add(left)
+
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 20))
+    await settle()
+    expect(await getRun(left.id)).toMatchObject({ status: 'running' })
+
+    process.env.NEXT_RUNTIME = 'nodejs'
+    await register()
+    await settle()
+    expect(await getRun(left.id)).toMatchObject({ status: 'failed', interrupted: true })
+
+    const query = { query: `{ run(id: "${left.id}") { status interrupted } }` }
+    const response = await POST(new Request(`${HUB}/api/graphql`, { method: 'POST', body: JSON.stringify(query) }))
+    expect(await response.json()).toEqual({ data: { run: { status: 'failed', interrupted: true } } })
+  })
+})
@@ -0,0 +1,86 @@
+import { t } from '@/lib/test'
+import { startMockIdp } from '../../../test/mock-idp'
+
+const { describe, it, expect, beforeAll, afterAll } = t
+
+const HUB = 'http://hub.test'
+
+let idp: Awaited<ReturnType<typeof startMockIdp>>
+
+beforeAll(async () => {
+  idp = await startMockIdp()
+  // Set before lib/config and lib/session are imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_OIDC_ISSUER = idp.issuer
+  process.env.UXQA_OIDC_CLIENT_ID = idp.clientId
+  process.env.UXQA_OIDC_CLIENT_SECRET = idp.clientSecret
+  process.env.UXQA_OIDC_ROLE_MAP = 'admin:admin,viewer:viewer'
+  process.env.UXQA_RBAC = 'admin:admin|editor,viewer:viewer'
+})
+
+afterAll(async () => {
+  await idp.close()
+})
+
+/** `name=value` pairs from Set-Cookie, ready for a Cookie header. */
+const cookiesOf = (response: Response) => response.headers.getSetCookie().map((cookie) => cookie.split(';')[0]).join('; ')
+
+/** Walks login → mock IdP → callback like a browser and returns the callback response. */
+async function signIn(user: string, returnTo = '/apps/checkout') {
+  const { GET: login } = await import('../auth/login/route')
+  const { GET: callback } = await import('../auth/callback/route')
+  const started = await login(new Request(`${HUB}/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`))
+  expect(started.status).toBe(307)
+  const approve = new URL('/authorize/approve', idp.issuer)
+  approve.search = new URL(started.headers.get('location')!).search
+  approve.searchParams.set('user', user)
+  const approved = await fetch(approve, { redirect: 'manual' })
+  return callback(new Request(approved.headers.get('location')!, { headers: { cookie: cookiesOf(started) } }))
+}
+
+describe('OIDC login', () => {
+  it('signs in through the identity provider and maps role claims', async () => {
+    const response = await signIn('alice')
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe(`${HUB}/apps/checkout`)
+
+    const { GET: session } = await import('../auth/session/route')
+    const body = await (await session(new Request(`${HUB}/api/auth/session`, { headers: { cookie: cookiesOf(response) } }))).json()
+    expect(body.user).toMatchObject({ sub: 'alice', email: 'alice@example.test', roles: ['admin'] })
+  })
+
+  it('authorizes API calls with the session cookie by role', async () => {
+    const { GET, PATCH } = await import('../settings/route')
+    const { PATCH: patchTeam } = await import('../settings/team/route')
+    const patch = (cookie: string) =>
+      patchTeam(new Request(`${HUB}/api/settings/team`, { method: 'PATCH', headers: { cookie }, body: 'null' }), {})
+
+    const viewer = cookiesOf(await signIn('victor'))
+    expect((await GET(new Request(`${HUB}/api/settings`, { headers: { cookie: viewer } }), {})).status).toBe(200)
+    expect((await patch(viewer)).status).toBe(403)
+    expect((await patch(cookiesOf(await signIn('alice')))).status).toBe(400)
+    // Anyone signed in may change their own settings
+    const own = await PATCH(new Request(`${HUB}/api/settings`, { method: 'PATCH', headers: { cookie: viewer }, body: 'null' }), {})
+    expect(own.status).toBe(400)
+    expect((await GET(new Request(`${HUB}/api/settings`), {})).status).toBe(401)
+  })
+
+  it('rejects callbacks whose state does not match the login', async () => {
+    const { GET: callback } = await import('../auth/callback/route')
+    const response = await callback(new Request(`${HUB}/api/auth/callback?code=forged&state=forged`))
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Login failed: Login state mismatch')
+  })
+
+  it('only returns to paths on the hub', async () => {
+    expect((await signIn('alice', 'https://evil.test/')).headers.get('location')).toBe(`${HUB}/`)
+  })
+
+  it('logs out of the hub and the identity provider', async () => {
+    const { POST: logout } = await import('../auth/logout/route')
+    const response = await logout(new Request(`${HUB}/api/auth/logout`, { method: 'POST' }))
+    expect(response.status).toBe(303)
+    expect(response.headers.get('location')).toContain(`${idp.issuer}/logout`)
+    expect(response.headers.get('set-cookie')).toMatch(/uxqa_session=;/)
+  })
+})
@@ -0,0 +1,100 @@
+import { t } from '@/lib/test'
+import { startMockWebhookServer } from '../../../test/mock-channels'
+
+const { describe, it, expect, beforeAll, afterAll } = t
+
+const HUB = 'http://hub.test'
+
+let collector: Awaited<ReturnType<typeof startMockWebhookServer>>
+
+beforeAll(async () => {
+  collector = await startMockWebhookServer()
+  // Set before lib/config is imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_TELEMETRY = 'prometheus,otlp'
+  process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `${collector.url}/`
+  process.env.OTEL_EXPORTER_OTLP_HEADERS = 'x-scope=ci,authorization=Bearer%20token'
+  process.env.OTEL_SERVICE_NAME = 'qa-hub'
+  process.env.UXQA_OTLP_TEST_SPANS = 'true'
+})
+
+afterAll(async () => {
+  await collector.close()
+})
+
+const attribute = (attributes: Array<{ key: string; value: Record<string, unknown> }>, key: string) =>
+  attributes.find((entry) => entry.key === key)?.value
+
+describe('OTLP telemetry', () => {
+  it('exports run metrics and a trace with file and test spans', async () => {
+    const { POST } = await import('../runs/route')
+    const { outboxIdle } = await import('@/lib/outbox')
+    const run = {
+      appId: 'checkout',
+      suite: 'e2e',
+      environment: 'ci',
+      status: 'failed',
+      total: 3,
+      passed: 2,
+      failed: 1,
+      durationMs: 900,
+      coverage: 81.5,
+      timestamp: '2026-03-01T10:00:00.000Z',
+      tests: [
+        { title: 'pays', titlePath: ['cart', 'pays'], file: 'cart.spec.ts', project: 'chromium', status: 'passed', durationMs: 300 },
+        { title: 'refunds', titlePath: ['cart', 'refunds'], file: 'cart.spec.ts', project: 'chromium', status: 'failed', durationMs: 200, errors: ['boom'] },
+        { title: 'logs in', titlePath: ['login', 'logs in'], file: 'login.spec.ts', project: 'chromium', status: 'passed', durationMs: 100 },
+      ],
+    }
+    const response = await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(run) }), {})
+    const { id } = await response.json()
+    await outboxIdle()
+
+    expect(collector.requests.map((request) => request.path)).toEqual(['/v1/traces', '/v1/metrics'])
+    expect(collector.requests[0].headers).toMatchObject({ 'x-scope': 'ci', authorization: 'Bearer token', 'content-type': 'application/json' })
+
+    const { resourceSpans } = JSON.parse(collector.requests[0].body)
+    expect(attribute(resourceSpans[0].resource.attributes, 'service.name')).toEqual({ stringValue: 'qa-hub' })
+    const spans = resourceSpans[0].scopeSpans[0].spans
+    const root = spans[0]
+    expect(root).toMatchObject({
+      traceId: id.replace(/-/g, ''),
+      name: 'checkout e2e',
+      startTimeUnixNano: `${Date.parse(run.timestamp) - 900}000000`,
+      endTimeUnixNano: `${Date.parse(run.timestamp)}000000`,
+      status: { code: 2, message: '1 of 3 tests failed' },
+    })
+    const files = spans.filter((span: { parentSpanId?: string }) => span.parentSpanId === root.spanId)
+    expect(files.map((span: { name: string; status: { code: number } }) => [span.name, span.status.code])).toEqual([
+      ['cart.spec.ts', 2],
+      ['login.spec.ts', 1],
+    ])
+    const tests = spans.filter((span: { parentSpanId?: string }) => span.parentSpanId === files[0].spanId)
+    expect(tests.map((span: { name: string }) => span.name)).toEqual(['cart › pays', 'cart › refunds'])
+    expect(tests[1]).toMatchObject({ status: { code: 2, message: 'boom' } })
+    expect(BigInt(tests[1].startTimeUnixNano) - BigInt(tests[0].startTimeUnixNano)).toBe(300_000_000n)
+
+    const { resourceMetrics } = JSON.parse(collector.requests[1].body)
+    const metrics = resourceMetrics[0].scopeMetrics[0].metrics
+    expect(metrics.map((metric: { name: string }) => metric.name)).toEqual([
+      'playwright.runs',
+      'playwright.run.tests',
+      'playwright.run.duration',
+      'playwright.run.coverage',
+    ])
+    const [, results, duration, coverage] = metrics
+    expect(results.sum.dataPoints.map((point: { asInt: string }) => point.asInt)).toEqual(['2', '1', '0', '0'])
+    expect(attribute(duration.gauge.dataPoints[0].attributes, 'uxqa.app')).toEqual({ stringValue: 'checkout' })
+    expect(duration.gauge.dataPoints[0].asInt).toBe('900')
+    expect(coverage.gauge.dataPoints[0].asDouble).toBe(81.5)
+  })
+
+  it('reports the export in sink health', async () => {
+    const { sinkHealth } = await import('@/lib/outbox')
+    expect((await sinkHealth()).find((sink) => sink.sink === 'telemetry:otlp')).toMatchObject({
+      status: 'healthy',
+      pending: 0,
+      consecutiveFailures: 0,
+    })
+  })
+})
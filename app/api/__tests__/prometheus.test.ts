@@ -0,0 +1,86 @@
+import { t } from '@/lib/test'
+import type { TestRun } from '@/lib/types'
+
+const { describe, it, expect, beforeAll } = t
+
+const HUB = 'http://hub.test'
+
+beforeAll(async () => {
+  // Set before lib/config is imported by the routes below
+  process.env.UXQA_STORAGE = 'memory'
+  process.env.UXQA_TELEMETRY = 'prometheus'
+  process.env.UXQA_PROMETHEUS_RUN_BUCKETS = '30,60,120'
+  process.env.UXQA_PROMETHEUS_MAX_TEST_SERIES = '2'
+  process.env.UXQA_PROMETHEUS_REBUILD = 'true'
+
+  // Stored before the exporter loads, as if the hub had restarted
+  const { getStore } = await import('@/lib/storage')
+  const stored: TestRun = {
+    id: 'stored-run',
+    appId: 'shop',
+    suite: 'e2e',
+    environment: 'staging',
+    status: 'passed',
+    total: 2,
+    passed: 2,
+    failed: 0,
+    durationMs: 45_000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }
+  await getStore().add(stored)
+})
+
+async function scrape() {
+  const { GET } = await import('../metrics/prometheus/route')
+  const response = await GET(new Request(`${HUB}/api/metrics/prometheus`), {})
+  expect(response.status).toBe(200)
+  return response.text()
+}
+
+async function ingest(fields: Record<string, unknown>) {
+  const { POST } = await import('../runs/route')
+  const body = { appId: 'shop', suite: 'e2e', environment: 'staging', status: 'passed', total: 0, passed: 0, failed: 0, durationMs: 1000, ...fields }
+  const response = await POST(new Request(`${HUB}/api/runs`, { method: 'POST', body: JSON.stringify(body) }), {})
+  expect(response.status).toBe(201)
+  // The Prometheus sink records in-process, right after the run is stored
+  await new Promise((resolve) => setTimeout(resolve, 20))
+}
+
+const labels = 'app="shop",suite="e2e",environment="staging"'
+
+describe('Prometheus metrics', () => {
+  it('rebuilds counters and histograms from stored runs on startup', async () => {
+    const metrics = await scrape()
+    expect(metrics).toContain(`playwright_runs_total{${labels},status="passed"} 1`)
+    expect(metrics).toContain(`playwright_run_duration_seconds_bucket{le="30",${labels}} 0`)
+    expect(metrics).toContain(`playwright_run_duration_seconds_bucket{le="60",${labels}} 1`)
+    expect(metrics).toContain(`playwright_run_last_success_timestamp_seconds{${labels}} ${Date.parse('2026-01-01T00:00:00.000Z') / 1000}`)
+  })
+
+  it('counts tests per result and per test, folding tests past the series limit', async () => {
+    const test = (title: string, status: string, retries = 0) => ({ title, titlePath: ['cart', title], project: 'chromium', status, retries, durationMs: 2000 })
+    await ingest({
+      status: 'failed',
+      total: 3,
+      passed: 1,
+      failed: 1,
+      flaky: 1,
+      durationMs: 100_000,
+      tests: [test('pays', 'passed'), test('refunds', 'passed', 1), test('ships', 'failed')],
+    })
+
+    const metrics = await scrape()
+    expect(metrics).toContain(`playwright_runs_total{${labels},status="failed"} 1`)
+    expect(metrics).toContain(`playwright_run_duration_seconds_bucket{le="120",${labels}} 2`)
+    expect(metrics).toContain(`playwright_run_duration_ms{${labels}} 100000`)
+    expect(metrics).toContain(`playwright_tests_total{${labels},result="passed"} 3`)
+    expect(metrics).toContain(`playwright_tests_total{${labels},result="flaky"} 1`)
+    expect(metrics).toContain(`playwright_test_results_total{${labels},project="chromium",test="cart › pays",result="passed"} 1`)
+    expect(metrics).toContain(`playwright_test_results_total{${labels},project="chromium",test="cart › refunds",result="flaky"} 1`)
+    expect(metrics).toContain(`playwright_test_results_total{${labels},project="",test="__other__",result="failed"} 1`)
+    expect(metrics).toContain('playwright_test_series_overflow_total{app="shop"} 1')
+    expect(metrics).toContain(`playwright_test_duration_seconds_count{${labels}} 3`)
+    // The last passing run is still the stored one
+    expect(metrics).toContain(`playwright_run_last_success_timestamp_seconds{${labels}} ${Date.parse('2026-01-01T00:00:00.000Z') / 1000}`)
+  })
+})
@@ -0,0 +1,150 @@
+import { t } from '@/lib/test'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+const { describe, it, expect, beforeAll } = t
+
+const HUB = 'http://hub.test'
+const settingsFile = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-settings-')), 'settings.json')
+
+// Set before the routes and lib/config are imported below
+process.env.UXQA_STORAGE = 'memory'
+process.env.UXQA_SETTINGS_FILE = settingsFile
+process.env.UXQA_API_KEY = 'bootstrap-key'
+process.env.UXQA_RBAC = 'admin:admin|editor,viewer:viewer'
+// A settings file from before dashboards were configurable and settings were per user
+writeFileSync(settingsFile, JSON.stringify({ hiddenWidgets: ['coverage', 'flaky'], theme: 'light' }))
+
+const admin = { 'x-uxqa-key': 'bootstrap-key' }
+const users: Record<string, Record<string, string>> = {}
+/** `settingsOwner` of each user, as share links name it. */
+const owners: Record<string, string> = {}
+const routes = {
+  settings: () => import('../settings/route'),
+  'settings/team': () => import('../settings/team/route'),
+}
+
+beforeAll(async () => {
+  const { createApiKey } = await import('@/lib/apiKeys')
+  for (const name of ['alice', 'bob']) {
+    const { key, token } = await createApiKey({ name, role: 'viewer', scopes: ['read'] })
+    users[name] = { 'x-uxqa-key': token }
+    owners[name] = `key:${key.id}`
+  }
+  users.viewer = { 'x-uxqa-key': (await createApiKey({ name: 'viewer', role: 'viewer', scopes: ['read', 'admin'] })).token }
+})
+
+async function read(headers: Record<string, string>, route: keyof typeof routes = 'settings') {
+  const { GET } = await routes[route]()
+  const response = await GET(new Request(`${HUB}/api/${route}`, { headers }), {})
+  expect(response.status).toBe(200)
+  return response.json()
+}
+
+async function change(headers: Record<string, string>, body: unknown, route: keyof typeof routes = 'settings') {
+  const { PATCH } = await routes[route]()
+  return PATCH(new Request(`${HUB}/api/${route}`, { method: 'PATCH', headers, body: JSON.stringify(body) }), {})
+}
+
+describe('/api/settings', () => {
+  it('turns older settings into the team defaults', async () => {
+    const team = await read(admin, 'settings/team')
+
+    expect(team.theme).toBe('light')
+    expect(team.hiddenWidgets).toBeUndefined()
+    expect(team.dashboards).toHaveLength(1)
+    expect(team.dashboards[0].widgets.map((widget: { type: string }) => widget.type)).toEqual([
+      'kpis',
+      'timeline',
+      'duration',
+      'hotspots',
+    ])
+    expect(await read(users.alice)).toEqual(team)
+  })
+
+  it('keeps each user their own settings over the team defaults', async () => {
+    const savedFilters = Array.from({ length: 8 }, (_, index) => ({ id: `f${index}`, name: `Filter ${index}`, status: 'failed' }))
+    const response = await change(users.alice, { theme: 'dark', savedFilters })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ theme: 'dark', savedFilters })
+
+    expect((await read(users.bob)).theme).toBe('light')
+    expect((await read(users.bob)).savedFilters).toBeUndefined()
+
+    expect((await change(admin, { theme: 'auto' }, 'settings/team')).status).toBe(200)
+    expect((await read(users.bob)).theme).toBe('auto')
+    expect((await read(users.alice)).theme).toBe('dark')
+
+    // null hands the field back to the team
+    expect((await change(users.alice, { theme: null })).status).toBe(200)
+    expect(await read(users.alice)).toMatchObject({ theme: 'auto', savedFilters })
+
+    const stored = JSON.parse(readFileSync(settingsFile, 'utf-8'))
+    expect(stored.team.theme).toBe('auto')
+    expect(Object.values(stored.users)).toEqual([{ savedFilters }])
+  })
+
+  it('lets only editors change the team defaults', async () => {
+    expect((await change(users.viewer, { theme: 'dark' }, 'settings/team')).status).toBe(403)
+    expect((await change(users.bob, { theme: 'dark' }, 'settings/team')).status).toBe(403)
+
+    // The bootstrap key has no user of its own, so it edits the team defaults
+    expect((await change(admin, { theme: 'light' })).status).toBe(200)
+    expect((await read(users.bob)).theme).toBe('light')
+  })
+
+  it('rejects unknown fields and invalid values', async () => {
+    const response = await change(users.bob, {
+      hiddenWidgets: ['kpis'],
+      theme: 'neon',
+      savedFilters: [{ id: 'a', name: 'A', status: 'broken' }],
+      dashboards: [{ id: 'd', name: '', widgets: [{ id: 'w', type: 'pie', width: 20, height: 1 }] }],
+    })
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors.map((error: { field: string }) => error.field)).toEqual([
+      'hiddenWidgets',
+      'theme',
+      'savedFilters[0].status',
+      'dashboards[0].widgets[0].type',
+      'dashboards[0].widgets[0].width',
+      'dashboards[0].name',
+    ])
+
+    const reset = await change(admin, { theme: null }, 'settings/team')
+    expect(reset.status).toBe(400)
+    expect((await reset.json()).errors).toEqual([{ field: 'theme', message: 'must not be null' }])
+    expect((await change(users.bob, { dashboards: [] })).status).toBe(400)
+  })
+  it('opens shared links with the dashboard of their owner, then of the team', async () => {
+    const { resolveDashboardLink } = await import('@/lib/settings')
+    const team = (await read(admin, 'settings/team')).dashboards
+    const release = { id: 'release', name: 'Release', widgets: [{ id: 'f', type: 'flaky', width: 12, height: 2 }] }
+    const overview = { ...team[0], widgets: team[0].widgets.slice(1) }
+    expect((await change(users.alice, { dashboards: [overview, release] })).status).toBe(200)
+
+    const opened = await resolveDashboardLink(owners.bob, { dashboard: 'release', owner: owners.alice })
+    expect(opened.dashboardId).toBe('release')
+    expect(opened.shared).toEqual({ id: 'release', dashboard: 'release', owner: owners.alice })
+    expect(opened.settings.dashboards).toEqual([...team, release])
+    // Shown to bob, but only saved once they change their layouts
+    expect((await read(users.bob)).dashboards).toEqual(team)
+
+    // Bob has an Overview of their own, so alice's opens next to it
+    const theirs = await resolveDashboardLink(owners.bob, { dashboard: 'default', owner: owners.alice })
+    expect(theirs.dashboardId).toMatch(/^default-\d+$/)
+    expect(theirs.settings.dashboards.map((dashboard) => dashboard.id)).toEqual(['default', theirs.dashboardId])
+    expect(theirs.settings.dashboards[1]).toMatchObject({ name: overview.name, widgets: overview.widgets })
+
+    // The team's Overview is bob's too, and links to alice's own dashboards open them for alice
+    const open = async (viewer: string, dashboard: string, owner: string | null) => {
+      const { dashboardId, shared } = await resolveDashboardLink(viewer, { dashboard, owner })
+      return [dashboardId, shared]
+    }
+    expect(await open(owners.bob, 'default', null)).toEqual(['default', undefined])
+    expect(await open(owners.alice, 'release', owners.alice)).toEqual(['release', undefined])
+    // Not among the owner's or the team's dashboards, so none is picked for the id
+    expect(await open(owners.bob, 'release', null)).toEqual([undefined, undefined])
+    expect(await open(owners.bob, 'gone', owners.alice)).toEqual([undefined, undefined])
+  })
+})
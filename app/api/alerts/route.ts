@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { listAlerts, validateAlertQuery } from "@/lib/alerts";
+import { withAuth } from "@/lib/auth";
+
+export const GET = withAuth(
+  (request) => ({ scopes: ["read"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const query = validateAlertQuery(new URL(request.url).searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
+    }
+    return NextResponse.json({ alerts: await listAlerts(query.value) });
+  }
+);
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getAlertRule, redactAlertRule, removeAlertRule, updateAlertRule, validateAlertRuleUpdate } from "@/lib/alerts";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, canAccessApp, deny, withAuth } from "@/lib/auth";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+
+export const PATCH = withAuth<Context>({ scopes: ["admin"], roles: EDIT_ROLES }, async (request, { params }, auth) => {
+  const { id } = await params;
+  const current = await getAlertRule(id);
+  if (!current) {
+    return notFound();
+  }
+  if (!canAccessApp(auth, current.appId ?? null)) {
+    return deny("forbidden");
+  }
+  const result = validateAlertRuleUpdate(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const rule = await updateAlertRule(id, result.value);
+  if (!rule) {
+    return notFound();
+  }
+  const shown = redactAlertRule(rule);
+  await recordAudit(auth, {
+    action: "alertRule.update",
+    target: id,
+    appId: rule.appId,
+    before: redactAlertRule(current),
+    after: shown
+  });
+  return NextResponse.json(shown);
+});
+
+export const DELETE = withAuth<Context>({ scopes: ["admin"], roles: EDIT_ROLES }, async (_request, { params }, auth) => {
+  const { id } = await params;
+  const current = await getAlertRule(id);
+  if (!current) {
+    return notFound();
+  }
+  if (!canAccessApp(auth, current.appId ?? null)) {
+    return deny("forbidden");
+  }
+  await removeAlertRule(id);
+  await recordAudit(auth, { action: "alertRule.delete", target: id, appId: current.appId, before: redactAlertRule(current) });
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { addAlertRule, listAlertRules, redactAlertRule, validateAlertRulePayload } from "@/lib/alerts";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, canAccessApp, deny, withAuth } from "@/lib/auth";
+
+export const GET = withAuth(
+  (request) => ({ scopes: ["read"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const rules = await listAlertRules({ appId: new URL(request.url).searchParams.get("appId") ?? undefined });
+    return NextResponse.json({ rules: rules.map(redactAlertRule) });
+  }
+);
+
+export const POST = withAuth({ scopes: ["admin"], roles: EDIT_ROLES }, async (request, _context, auth) => {
+  const result = validateAlertRulePayload(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  // Rules without an app watch every app, so only keys that are not bound to apps may create them
+  if (!canAccessApp(auth, result.value.appId ?? null)) {
+    return deny("forbidden");
+  }
+  const rule = await addAlertRule(result.value);
+  const shown = redactAlertRule(rule);
+  await recordAudit(auth, { action: "alertRule.create", target: rule.id, appId: rule.appId, after: shown });
+  return NextResponse.json(shown, { status: 201 });
+});
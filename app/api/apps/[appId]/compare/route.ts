@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { getComparison, validateCompareQuery } from "@/lib/compare";
+
+interface Context {
+  params: Promise<{ appId: string }>;
+}
+
+export const GET = withAuth<Context>(
+  async (_request, { params }) => ({ scopes: ["read"], appId: (await params).appId }),
+  async (request, { params }) => {
+    const { appId } = await params;
+    const query = validateCompareQuery(appId, new URL(request.url).searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
+    }
+    const comparison = await getComparison(query.value);
+    if (!comparison) {
+      return NextResponse.json({ error: "Base or head run not found" }, { status: 404 });
+    }
+    return NextResponse.json(comparison);
+  }
+);
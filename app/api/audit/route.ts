@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { queryAudit, validateAuditQuery } from "@/lib/audit";
+import { withAuth } from "@/lib/auth";
+
+export const GET = withAuth({ scopes: ["admin"], appId: null }, async (request) => {
+  const query = validateAuditQuery(new URL(request.url).searchParams);
+  if (!query.ok) {
+    return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
+  }
+  return NextResponse.json(await queryAudit(query.value));
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { completeLogin, LOGIN_COOKIE, OidcError, redirectUriFor } from "@/lib/oidc";
+import type { LoginTransaction } from "@/lib/oidc";
+import { getCookie, seal, SESSION_COOKIE, sessionTtlSeconds, unseal } from "@/lib/session";
+
+// Public: the identity provider redirects here with the authorization code
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const transaction = await unseal<LoginTransaction>(getCookie(request.headers.get("cookie"), LOGIN_COOKIE));
+  try {
+    const session = await completeLogin(url.searchParams, transaction, redirectUriFor(url.origin));
+    const response = NextResponse.redirect(new URL(transaction!.returnTo, url.origin));
+    response.cookies.set(SESSION_COOKIE, await seal(session), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: url.protocol === "https:",
+      path: "/",
+      maxAge: sessionTtlSeconds
+    });
+    response.cookies.delete({ name: LOGIN_COOKIE, path: "/api/auth" });
+    return response;
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return NextResponse.json({ error: `Login failed: ${error.message}` }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createLogin, LOGIN_COOKIE, LOGIN_TTL_SECONDS, OidcError, redirectUriFor, safeReturnTo } from "@/lib/oidc";
+import { seal } from "@/lib/session";
+
+// Public: starts the OIDC authorization code flow (with PKCE)
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  try {
+    const returnTo = safeReturnTo(url.searchParams.get("returnTo"));
+    const login = await createLogin(redirectUriFor(url.origin), returnTo);
+    const response = NextResponse.redirect(login.url);
+    response.cookies.set(LOGIN_COOKIE, await seal(login.transaction), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: url.protocol === "https:",
+      path: "/api/auth",
+      maxAge: LOGIN_TTL_SECONDS
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    throw error;
+  }
+}
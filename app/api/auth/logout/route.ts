@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { logoutUrl } from "@/lib/oidc";
+import { SESSION_COOKIE } from "@/lib/session";
+
+// Public: clearing the cookie is harmless without a session
+export async function POST(request: Request) {
+  const { origin } = new URL(request.url);
+  const response = NextResponse.redirect((await logoutUrl(`${origin}/`)) ?? new URL("/", origin), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
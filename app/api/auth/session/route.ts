@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getCookie, oidcEnabled, readSession, SESSION_COOKIE } from "@/lib/session";
+
+// Public: tells the UI who is signed in, `{ user: null }` otherwise
+export async function GET(request: Request) {
+  const session = await readSession(getCookie(request.headers.get("cookie"), SESSION_COOKIE));
+  return NextResponse.json({ enabled: oidcEnabled, user: session });
+}
@@ -1,34 +1,83 @@
-import { subscribe } from "@/lib/events";
-import { listRuns } from "@/lib/dataStore";
-import { ensureAuthorized } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { currentEventId, eventsSince, matchesEventFilter, subscribe, validateEventQuery } from "@/lib/events";
+import type { StreamEvent } from "@/lib/events";
+import { queryRuns } from "@/lib/dataStore";
+import { withAuth } from "@/lib/auth";
+import { MAX_PAGE_SIZE } from "@/lib/validation";
 
 const encoder = new TextEncoder();
 
-export async function GET(request: Request) {
-  if (!ensureAuthorized(request)) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
-  const runs = await listRuns();
-  const stream = new ReadableStream<Uint8Array>({
-    start(controller) {
-      controller.enqueue(encoder.encode(`event: bootstrap\ndata: ${JSON.stringify(runs)}\n\n`));
-      const unsubscribe = subscribe((run) => {
-        controller.enqueue(encoder.encode(`event: run\ndata: ${JSON.stringify(run)}\n\n`));
-      });
-      const ping = setInterval(() => {
-        controller.enqueue(encoder.encode(`event: ping\ndata: {}\n\n`));
-      }, 25000);
-      controller.oncancel = () => {
-        clearInterval(ping);
-        unsubscribe();
-      };
-    }
-  });
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache, no-transform",
-      Connection: "keep-alive"
+export const GET = withAuth(
+  (request) => ({ scopes: ["read"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const { searchParams } = new URL(request.url);
+    const query = validateEventQuery(searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
     }
-  });
-}
+    const filter = query.value;
+    // EventSource resends the id of the last event it saw; the query parameter is for clients that cannot set headers
+    const lastEventId = request.headers.get("last-event-id") ?? searchParams.get("lastEventId");
+    let closed = false;
+    let stop = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown, id?: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(`${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+        // Events published while the snapshot loads are held back and sent after it
+        let held: StreamEvent[] | null = [];
+        const unsubscribe = subscribe((event) => {
+          if (!matchesEventFilter(event, filter)) {
+            return;
+          }
+          if (held) {
+            held.push(event);
+          } else {
+            send(event.type, event.data, event.id);
+          }
+        });
+        const ping = setInterval(() => send("ping", {}), 25000);
+        stop = () => {
+          closed = true;
+          clearInterval(ping);
+          unsubscribe();
+        };
+
+        const missed = lastEventId ? eventsSince(lastEventId) : null;
+        if (missed) {
+          held.unshift(...missed.filter((event) => matchesEventFilter(event, filter)));
+        } else {
+          const since = currentEventId();
+          const wantsRuns = !filter.types || filter.types.includes("run");
+          const { runs } = wantsRuns
+            ? await queryRuns({
+                appId: filter.appId,
+                suite: filter.suite,
+                environment: filter.environment,
+                status: filter.status,
+                limit: MAX_PAGE_SIZE
+              })
+            : { runs: [] };
+          send("bootstrap", runs, since);
+        }
+        for (const event of held) {
+          send(event.type, event.data, event.id);
+        }
+        held = null;
+      },
+      cancel() {
+        stop();
+      }
+    });
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive"
+      }
+    });
+  }
+);
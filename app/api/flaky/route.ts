@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { getFlakyTests, validateFlakyQuery } from "@/lib/flaky";
+
+export const GET = withAuth(
+  (request) => ({ scopes: ["read"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const query = validateFlakyQuery(new URL(request.url).searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
+    }
+    return NextResponse.json(await getFlakyTests(query.value));
+  }
+);
@@ -1,19 +1,60 @@
 import { NextResponse } from "next/server";
-import { ensureAuthorized } from "@/lib/auth";
-import { listRuns } from "@/lib/dataStore";
+import { deny, ensureAuthorized } from "@/lib/auth";
+import { executeGraphQL, isMutation } from "@/lib/graphql";
+import type { GraphQLRequest } from "@/lib/graphql";
 
-export async function POST(request: Request) {
-  const auth = ensureAuthorized(request);
+function readRequest(body: unknown): GraphQLRequest | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const cast = body as Record<string, unknown>;
+  if (typeof cast.query !== "string") {
+    return null;
+  }
+  if (cast.variables !== undefined && cast.variables !== null && typeof cast.variables !== "object") {
+    return null;
+  }
+  return {
+    query: cast.query,
+    variables: cast.variables as GraphQLRequest["variables"],
+    operationName: typeof cast.operationName === "string" ? cast.operationName : null
+  };
+}
+
+// Not wrapped in withAuth: the requirement depends on the operation in the body
+async function respond(request: Request, graphqlRequest: GraphQLRequest | null, allowMutations: boolean) {
+  // Queries span every app; mutations check their scope and app in the resolvers
+  const mutation = graphqlRequest !== null && isMutation(graphqlRequest);
+  const auth = await ensureAuthorized(request, mutation ? {} : { scopes: ["read"], appId: null });
   if (auth.status !== "ok") {
-    return new NextResponse("Unauthorized", { status: 401 });
+    return deny(auth.status);
   }
-  const body = await request.json().catch(() => null);
-  if (!body || typeof body.query !== "string") {
-    return NextResponse.json({ errors: ["Invalid GraphQL query"] }, { status: 400 });
+  if (!graphqlRequest) {
+    return NextResponse.json({ errors: [{ message: "Invalid GraphQL query" }] }, { status: 400 });
   }
-  const runs = await listRuns();
-  if (body.query.includes("runs")) {
-    return NextResponse.json({ data: { runs } });
+  if (!allowMutations && mutation) {
+    return NextResponse.json({ errors: [{ message: "Mutations require POST" }] }, { status: 405 });
+  }
+  const result = await executeGraphQL(graphqlRequest, { role: auth.role, key: auth.key, session: auth.session });
+  return NextResponse.json(result);
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  return respond(request, readRequest(body), true);
+}
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  let variables: unknown = null;
+  try {
+    variables = params.get("variables") ? JSON.parse(params.get("variables") as string) : null;
+  } catch {
+    return NextResponse.json({ errors: [{ message: "Invalid variables" }] }, { status: 400 });
   }
-  return NextResponse.json({ errors: ["Not implemented"] }, { status: 400 });
+  return respond(
+    request,
+    readRequest({ query: params.get("query"), variables, operationName: params.get("operationName") }),
+    false
+  );
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { EDIT_ROLES, withAuth } from "@/lib/auth";
+import { retryDeadDeliveries, sinkHealth, validateDeliveryRetryPayload } from "@/lib/outbox";
+import "@/lib/alertChannels";
+import "@/lib/telemetry";
+
+/** Delivery health of every telemetry sink and alert target; answers 503 while any of them is degraded. */
+export const GET = withAuth({ scopes: ["read"], appId: null }, async () => {
+  const sinks = await sinkHealth();
+  const status = sinks.some((sink) => sink.status === "degraded") ? "degraded" : "healthy";
+  return NextResponse.json({ status, sinks }, { status: status === "healthy" ? 200 : 503 });
+});
+
+/** Queues the dead letters of `sink`, or of every sink, for another round of attempts. */
+export const POST = withAuth({ scopes: ["admin"], roles: EDIT_ROLES, appId: null }, async (request) => {
+  // No body retries every sink
+  const result = validateDeliveryRetryPayload(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  return NextResponse.json({ requeued: await retryDeadDeliveries(result.value.sink) });
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getApiKey, rotateApiKey } from "@/lib/apiKeys";
+import { recordAudit } from "@/lib/audit";
+import { KEY_ADMIN_ROLES, deny, grantedScopes, withAuth } from "@/lib/auth";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export const POST = withAuth<Context>({ scopes: ["admin"], appId: null, roles: KEY_ADMIN_ROLES }, async (_request, { params }, auth) => {
+  const { id } = await params;
+  const before = await getApiKey(id);
+  // The new token would hand the caller every scope of the rotated key
+  if (before && !before.scopes.every((scope) => grantedScopes(auth).includes(scope))) {
+    return deny("forbidden");
+  }
+  const rotated = await rotateApiKey(id);
+  if (!rotated) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+  await recordAudit(auth, { action: "apiKey.rotate", target: id, before, after: rotated.key });
+  return NextResponse.json(rotated);
+});
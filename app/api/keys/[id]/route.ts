@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getApiKey, revokeApiKey } from "@/lib/apiKeys";
+import { recordAudit } from "@/lib/audit";
+import { KEY_ADMIN_ROLES, withAuth } from "@/lib/auth";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export const DELETE = withAuth<Context>({ scopes: ["admin"], appId: null, roles: KEY_ADMIN_ROLES }, async (_request, { params }, auth) => {
+  const { id } = await params;
+  const before = await getApiKey(id);
+  const key = await revokeApiKey(id);
+  if (!key) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+  await recordAudit(auth, { action: "apiKey.revoke", target: id, before, after: key });
+  return NextResponse.json(key);
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { createApiKey, listApiKeys, validateApiKeyPayload } from "@/lib/apiKeys";
+import { recordAudit } from "@/lib/audit";
+import { KEY_ADMIN_ROLES, deny, grantedScopes, withAuth } from "@/lib/auth";
+
+export const GET = withAuth({ scopes: ["admin"], appId: null }, async () =>
+  NextResponse.json({ keys: await listApiKeys() })
+);
+
+export const POST = withAuth({ scopes: ["admin"], appId: null, roles: KEY_ADMIN_ROLES }, async (request, _context, auth) => {
+  const result = validateApiKeyPayload(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  // Keys cannot hand out scopes they do not hold themselves
+  if (!result.value.scopes.every((scope) => grantedScopes(auth).includes(scope))) {
+    return deny("forbidden");
+  }
+  const created = await createApiKey(result.value);
+  await recordAudit(auth, { action: "apiKey.create", target: created.key.id, after: created.key });
+  return NextResponse.json(created, { status: 201 });
+});
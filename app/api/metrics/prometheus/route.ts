@@ -1,12 +1,9 @@
 import { NextResponse } from "next/server";
 import { getPrometheusMetrics } from "@/lib/telemetry";
 import { prometheusEnabled } from "@/lib/config";
-import { ensureAuthorized } from "@/lib/auth";
+import { withAuth } from "@/lib/auth";
 
-export async function GET(request: Request) {
-  if (!ensureAuthorized(request)) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
+export const GET = withAuth({ scopes: ["read"], appId: null }, async () => {
   if (!prometheusEnabled) {
     return NextResponse.json({ error: "Prometheus exporter disabled" }, { status: 404 });
   }
@@ -17,4 +14,4 @@ export async function GET(request: Request) {
       "Content-Type": "text/plain"
     }
   });
-}
+});
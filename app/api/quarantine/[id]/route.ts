@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, canAccessApp, deny, withAuth } from "@/lib/auth";
+import { getQuarantine, removeQuarantine, updateQuarantine, validateQuarantineUpdate } from "@/lib/quarantine";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: "Quarantine entry not found" }, { status: 404 });
+
+export const PATCH = withAuth<Context>({ scopes: ["admin"], roles: EDIT_ROLES }, async (request, { params }, auth) => {
+  const { id } = await params;
+  const current = await getQuarantine(id);
+  if (!current) {
+    return notFound();
+  }
+  if (!canAccessApp(auth, current.appId)) {
+    return deny("forbidden");
+  }
+  const result = validateQuarantineUpdate(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const entry = await updateQuarantine(id, result.value);
+  if (!entry) {
+    return notFound();
+  }
+  await recordAudit(auth, { action: "quarantine.update", target: id, appId: entry.appId, before: current, after: entry });
+  return NextResponse.json(entry);
+});
+
+export const DELETE = withAuth<Context>({ scopes: ["admin"], roles: EDIT_ROLES }, async (_request, { params }, auth) => {
+  const { id } = await params;
+  const current = await getQuarantine(id);
+  if (!current) {
+    return notFound();
+  }
+  if (!canAccessApp(auth, current.appId)) {
+    return deny("forbidden");
+  }
+  await removeQuarantine(id);
+  await recordAudit(auth, { action: "quarantine.delete", target: id, appId: current.appId, before: current });
+  return new NextResponse(null, { status: 204 });
+});
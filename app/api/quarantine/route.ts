@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, canAccessApp, deny, withAuth } from "@/lib/auth";
+import { addQuarantine, listQuarantine, validateQuarantinePayload } from "@/lib/quarantine";
+
+// The reporter reads the list with its ingest key
+export const GET = withAuth(
+  (request) => ({ scopes: ["read", "ingest"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const params = new URL(request.url).searchParams;
+    const entries = await listQuarantine({
+      appId: params.get("appId") ?? undefined,
+      active: params.get("active") === "true"
+    });
+    return NextResponse.json({ entries });
+  }
+);
+
+export const POST = withAuth({ scopes: ["admin"], roles: EDIT_ROLES }, async (request, _context, auth) => {
+  const result = validateQuarantinePayload(await request.json().catch(() => null));
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  if (!canAccessApp(auth, result.value.appId)) {
+    return deny("forbidden");
+  }
+  const entry = await addQuarantine(result.value);
+  await recordAudit(auth, { action: "quarantine.create", target: entry.id, appId: entry.appId, after: entry });
+  return NextResponse.json(entry, { status: 201 });
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { artifactHeaders, getArtifact, hasValidSignature, readArtifact } from "@/lib/artifacts";
+import { canAccessApp, deny, ensureAuthorized } from "@/lib/auth";
+import { getRun } from "@/lib/dataStore";
+
+interface Context {
+  params: Promise<{ runId: string; artifactId: string }>;
+}
+
+/** Parses a single `bytes=start-end` range; browsers need it to seek in videos. */
+function parseRange(header: string | null, size: number) {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+  const start = match[1] === "" ? Math.max(size - Number(match[2]), 0) : Number(match[1]);
+  const end = match[1] === "" || match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  return start <= end ? { start, end } : null;
+}
+
+// Not wrapped in withAuth: an unexpired `?expires=&sig=` replaces the key so <img> and <video> can load artifacts
+export async function GET(request: Request, { params }: Context) {
+  const { runId, artifactId } = await params;
+  const artifact = await getArtifact(runId, artifactId);
+  const signed = artifact && hasValidSignature(artifact, new URL(request.url).searchParams);
+  if (!signed) {
+    const auth = await ensureAuthorized(request, { scopes: ["read"] });
+    if (auth.status !== "ok") {
+      return deny(auth.status);
+    }
+    const run = artifact ? await getRun(runId) : undefined;
+    if (run && !canAccessApp(auth, run.appId)) {
+      return deny("forbidden");
+    }
+  }
+  const data = artifact ? await readArtifact(artifact) : null;
+  if (!artifact || !data) {
+    return NextResponse.json({ error: "Artifact not found" }, { status: 404 });
+  }
+  const etag = `"${artifact.checksum}"`;
+  const headers: Record<string, string> = {
+    ...artifactHeaders(artifact),
+    "Cache-Control": "private, max-age=31536000, immutable",
+    ETag: etag,
+    "Accept-Ranges": "bytes"
+  };
+  if (request.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  const range = parseRange(request.headers.get("range"), data.byteLength);
+  if (range) {
+    headers["Content-Range"] = `bytes ${range.start}-${range.end}/${data.byteLength}`;
+    headers["Content-Length"] = String(range.end - range.start + 1);
+    return new NextResponse(new Uint8Array(data.subarray(range.start, range.end + 1)), { status: 206, headers });
+  }
+  headers["Content-Length"] = String(data.byteLength);
+  return new NextResponse(new Uint8Array(data), { headers });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { listArtifacts, saveArtifact, validateArtifactForm, withArtifactUrl } from "@/lib/artifacts";
+import { canAccessApp, deny, withAuth } from "@/lib/auth";
+import { artifactMaxBytes } from "@/lib/config";
+import { getRun, listTests } from "@/lib/dataStore";
+
+interface Context {
+  params: Promise<{ runId: string }>;
+}
+
+export const GET = withAuth<Context>({ scopes: ["read"] }, async (_request, { params }, auth) => {
+  const { runId } = await params;
+  const run = await getRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  if (!canAccessApp(auth, run.appId)) {
+    return deny("forbidden");
+  }
+  const artifacts = await listArtifacts(runId);
+  return NextResponse.json({ runId, artifacts: artifacts.map(withArtifactUrl) });
+});
+
+export const POST = withAuth<Context>({ scopes: ["ingest"] }, async (request, { params }, auth) => {
+  const { runId } = await params;
+  const run = await getRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  if (!canAccessApp(auth, run.appId)) {
+    return deny("forbidden");
+  }
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return NextResponse.json(
+      { error: "Invalid payload", errors: [{ field: "", message: "body must be multipart/form-data" }] },
+      { status: 400 }
+    );
+  }
+  const result = validateArtifactForm(form);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const { file, ...fields } = result.value;
+  if (file.size > artifactMaxBytes) {
+    return NextResponse.json({ error: `Artifact exceeds ${artifactMaxBytes} bytes` }, { status: 413 });
+  }
+  if (fields.testId) {
+    const tests = await listTests(runId);
+    if (!tests.some((test) => test.id === fields.testId)) {
+      return NextResponse.json(
+        { error: "Invalid payload", errors: [{ field: "testId", message: "is not a test of this run" }] },
+        { status: 400 }
+      );
+    }
+  }
+  const artifact = await saveArtifact(runId, { ...fields, data: new Uint8Array(await file.arrayBuffer()) });
+  return NextResponse.json(withArtifactUrl(artifact), { status: 201 });
+});
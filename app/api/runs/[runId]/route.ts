@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { finishRun, getRun, validateRunPayload } from "@/lib/dataStore";
+import { canAccessApp, deny, withAuth } from "@/lib/auth";
+
+interface Context {
+  params: Promise<{ runId: string }>;
+}
+
+// Closes a run the reporter opened with `status: "running"`
+export const PATCH = withAuth<Context>({ scopes: ["ingest"] }, async (request, { params }, auth) => {
+  const { runId } = await params;
+  const run = await getRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  if (!canAccessApp(auth, run.appId)) {
+    return deny("forbidden");
+  }
+  const data = await request.json().catch(() => null);
+  const result = validateRunPayload(data);
+  if (result.ok && result.value.status === "running") {
+    return NextResponse.json(
+      { error: "Invalid payload", errors: [{ field: "status", message: "must be a final status" }] },
+      { status: 400 }
+    );
+  }
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const finished = await finishRun(runId, result.value);
+  if (!finished) {
+    return NextResponse.json({ error: "Run is not running" }, { status: 409 });
+  }
+  return NextResponse.json(finished);
+});
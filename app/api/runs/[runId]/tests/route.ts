@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { addTests, getRun, listTests, validateTestCases } from "@/lib/dataStore";
+import { canAccessApp, deny, withAuth } from "@/lib/auth";
+
+interface Context {
+  params: Promise<{ runId: string }>;
+}
+
+// The reporter reads the stored tests with its ingest key to link uploaded attachments
+export const GET = withAuth<Context>({ scopes: ["read", "ingest"] }, async (_request, { params }, auth) => {
+  const { runId } = await params;
+  const run = await getRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  if (!canAccessApp(auth, run.appId)) {
+    return deny("forbidden");
+  }
+  const tests = await listTests(runId);
+  return NextResponse.json({ runId, tests });
+});
+
+export const POST = withAuth<Context>({ scopes: ["ingest"] }, async (request, { params }, auth) => {
+  const { runId } = await params;
+  const run = await getRun(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  if (!canAccessApp(auth, run.appId)) {
+    return deny("forbidden");
+  }
+  const body = await request.json().catch(() => null);
+  const result = validateTestCases(Array.isArray(body) ? body : body?.tests);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const tests = await addTests(runId, result.value);
+  return NextResponse.json({ runId, tests }, { status: 201 });
+});
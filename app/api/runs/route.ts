@@ -1,54 +1,32 @@
 import { NextResponse } from "next/server";
-import { addRun, listRuns } from "@/lib/dataStore";
-import type { CreateRunPayload } from "@/lib/types";
-import { ensureAuthorized } from "@/lib/auth";
+import { addRun, queryRuns, validateRunPayload, validateRunQuery } from "@/lib/dataStore";
+import { hasApiKeys } from "@/lib/apiKeys";
+import { canAccessApp, deny, withAuth } from "@/lib/auth";
 import { apiKey } from "@/lib/config";
 
-const requiredKeys: Array<keyof CreateRunPayload> = [
-  "appId",
-  "suite",
-  "environment",
-  "status",
-  "total",
-  "passed",
-  "failed",
-  "durationMs"
-];
-
-function validatePayload(body: unknown): body is CreateRunPayload {
-  if (!body || typeof body !== "object") {
-    return false;
-  }
-  for (const key of requiredKeys) {
-    if (!(key in body)) {
-      return false;
+export const GET = withAuth(
+  (request) => ({ scopes: ["read"], appId: new URL(request.url).searchParams.get("appId") }),
+  async (request) => {
+    const query = validateRunQuery(new URL(request.url).searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: "Invalid query", errors: query.errors }, { status: 400 });
     }
+    const page = await queryRuns(query.value);
+    return NextResponse.json(page, {
+      headers: apiKey || (await hasApiKeys()) ? { "x-uxqa-key-required": "true" } : undefined
+    });
   }
-  const cast = body as Record<string, unknown>;
-  if (!["passed", "failed", "unstable"].includes(String(cast.status))) {
-    return false;
-  }
-  return true;
-}
+);
 
-export async function GET(request: Request) {
-  if (!ensureAuthorized(request)) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
-  const runs = await listRuns();
-  return NextResponse.json({ runs }, {
-    headers: apiKey ? { "x-uxqa-key-required": "true" } : undefined
-  });
-}
-
-export async function POST(request: Request) {
-  if (!ensureAuthorized(request)) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
+export const POST = withAuth({ scopes: ["ingest"] }, async (request, _context, auth) => {
   const data = await request.json().catch(() => null);
-  if (!validatePayload(data)) {
-    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  const result = validateRunPayload(data);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  if (!canAccessApp(auth, result.value.appId)) {
+    return deny("forbidden");
   }
-  const run = await addRun(data);
+  const run = await addRun(result.value);
   return NextResponse.json(run, { status: 201 });
-}
+});
@@ -1,29 +1,27 @@
 import { NextResponse } from "next/server";
-import { getSettings, updateSettings } from "@/lib/settings";
-import { ensureAuthorized, hasRole } from "@/lib/auth";
-const AUTH_OK = "ok";
+import { getSettings, settingsOwner, updateSettings, validateSettingsPatch } from "@/lib/settings";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, deny, hasRole, withAuth } from "@/lib/auth";
 
-export async function GET(request: Request) {
-  const auth = ensureAuthorized(request);
-  if (auth.status !== AUTH_OK) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
-  const settings = await getSettings();
+// Each user reads and changes their own settings, laid over the team defaults in /api/settings/team
+export const GET = withAuth({ scopes: ["read"] }, async (_request, _context, auth) => {
+  const settings = await getSettings(settingsOwner(auth));
   return NextResponse.json(settings);
-}
+});
 
-export async function PATCH(request: Request) {
-  const auth = ensureAuthorized(request);
-  if (auth.status !== AUTH_OK) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
-  if (!hasRole(auth.role, ["admin", "editor"])) {
-    return new NextResponse("Unauthorized", { status: 401 });
+export const PATCH = withAuth({ scopes: ["read", "admin"] }, async (request, _context, auth) => {
+  const owner = settingsOwner(auth);
+  // Without a user of its own, the request changes the team defaults
+  if (!owner && !hasRole(auth.role, EDIT_ROLES)) {
+    return deny("forbidden");
   }
   const body = await request.json().catch(() => null);
-  if (!body || typeof body !== "object") {
-    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  const result = validateSettingsPatch(body, { allowReset: owner !== null });
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
   }
-  const updated = await updateSettings(body);
+  const before = await getSettings(owner);
+  const updated = await updateSettings(owner, result.value);
+  await recordAudit(auth, { action: "settings.update", target: owner ?? "team", before, after: updated });
   return NextResponse.json(updated);
-}
+});
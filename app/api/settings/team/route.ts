@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getTeamSettings, updateSettings, validateSettingsPatch } from "@/lib/settings";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, withAuth } from "@/lib/auth";
+
+export const GET = withAuth({ scopes: ["read"] }, async () => {
+  const settings = await getTeamSettings();
+  return NextResponse.json(settings);
+});
+
+// Defaults for every user who has not changed a setting themselves
+export const PATCH = withAuth({ scopes: ["admin"], appId: null, roles: EDIT_ROLES }, async (request, _context, auth) => {
+  const body = await request.json().catch(() => null);
+  const result = validateSettingsPatch(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const before = await getTeamSettings();
+  const updated = await updateSettings(null, result.value);
+  await recordAudit(auth, { action: "settings.update", target: "team", before, after: updated });
+  return NextResponse.json(updated);
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { getBackfill } from "@/lib/telemetry/backfill";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withAuth<Context>({ scopes: ["admin"], appId: null }, async (_request, { params }) => {
+  const backfill = await getBackfill((await params).id);
+  if (!backfill) {
+    return NextResponse.json({ error: "Backfill not found" }, { status: 404 });
+  }
+  return NextResponse.json(backfill);
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { EDIT_ROLES, withAuth } from "@/lib/auth";
+import "@/lib/telemetry";
+import { backfillSinks, findBackfillByKey, listBackfills, startBackfill, validateBackfillPayload } from "@/lib/telemetry/backfill";
+
+export const GET = withAuth({ scopes: ["admin"], appId: null }, async () => {
+  return NextResponse.json({ backfills: await listBackfills(), sinks: backfillSinks() });
+});
+
+/** Replays stored runs through one sink; a repeated `Idempotency-Key` returns the backfill it started instead. */
+export const POST = withAuth({ scopes: ["admin"], roles: EDIT_ROLES, appId: null }, async (request, _context, auth) => {
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim() || undefined;
+  if (idempotencyKey) {
+    const existing = await findBackfillByKey(idempotencyKey);
+    if (existing) {
+      return NextResponse.json(existing);
+    }
+  }
+  const result = validateBackfillPayload(await request.json().catch(() => null), backfillSinks());
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid payload", errors: result.errors }, { status: 400 });
+  }
+  const backfill = await startBackfill({ ...result.value, idempotencyKey });
+  await recordAudit(auth, { action: "telemetry.backfill", target: backfill.id, appId: backfill.appId, after: result.value });
+  return NextResponse.json(backfill, { status: 202 });
+});
@@ -0,0 +1,96 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { queryRuns } from "@/lib/dataStore";
+import { getComparison, validateCompareQuery } from "@/lib/compare";
+import type { TestRun } from "@/lib/types";
+import { ComparisonReport } from "@/components/apps/ComparisonReport";
+
+const PICKER_RUN_LIMIT = 50;
+
+interface Props {
+  params: Promise<{ appId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function runLabel(run: TestRun) {
+  return `${run.suite} • ${run.status} • ${new Date(run.createdAt).toLocaleString()}${run.commit ? ` • ${run.commit.slice(0, 8)}` : ""}`;
+}
+
+/** Without explicit refs, compare the latest run with the previous run of the same suite. */
+function defaultRefs(runs: TestRun[]) {
+  const [head] = runs;
+  const base = runs.find((run) => run.id !== head.id && run.suite === head.suite);
+  return { base: base?.id ?? "", head: head.id };
+}
+
+export default async function CompareRunsPage({ params, searchParams }: Props) {
+  const { appId } = await params;
+  const search = await searchParams;
+  const { runs } = await queryRuns({ appId, limit: PICKER_RUN_LIMIT });
+  if (runs.length === 0) {
+    notFound();
+  }
+  const defaults = defaultRefs(runs);
+  const query = new URLSearchParams({
+    base: typeof search.base === "string" ? search.base : defaults.base,
+    head: typeof search.head === "string" ? search.head : defaults.head
+  });
+  if (typeof search.suite === "string") {
+    query.set("suite", search.suite);
+  }
+  const validated = validateCompareQuery(appId, query);
+  const comparison = validated.ok ? await getComparison(validated.value) : null;
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href={`/apps/${encodeURIComponent(appId)}`}
+        className="text-xs uppercase tracking-[0.3em] text-slate-500 hover:text-slate-300"
+      >
+        ← Back to {appId}
+      </Link>
+      <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 space-y-4">
+        <div>
+          <p className="text-xs uppercase tracking-widest text-slate-400">Compare Runs</p>
+          <h1 className="text-3xl font-semibold">{appId}</h1>
+          <p className="text-sm text-slate-400">Pick two runs, or enter two commit SHAs to compare every suite run on them.</p>
+        </div>
+        <form className="flex flex-wrap items-end gap-3 text-sm">
+          {(["base", "head"] as const).map((field) => (
+            <label key={field} className="flex flex-col gap-1">
+              <span className="text-xs uppercase tracking-widest text-slate-400">{field}</span>
+              <input
+                name={field}
+                list="compare-runs"
+                defaultValue={query.get(field) ?? ""}
+                placeholder="Run id or commit"
+                className="w-80 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 font-mono text-xs"
+              />
+            </label>
+          ))}
+          <button type="submit" className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-900 text-xs font-semibold">
+            Compare
+          </button>
+          <datalist id="compare-runs">
+            {runs.map((run) => (
+              <option key={run.id} value={run.id}>
+                {runLabel(run)}
+              </option>
+            ))}
+          </datalist>
+        </form>
+      </div>
+      <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5">
+        {!validated.ok ? (
+          <p className="text-sm text-slate-400">
+            {defaults.base ? "Enter a base and head to compare." : "This app has only one run of its latest suite; enter two refs to compare."}
+          </p>
+        ) : comparison ? (
+          <ComparisonReport comparison={comparison} />
+        ) : (
+          <p className="text-sm text-slate-400">No runs of {appId} match the base or head.</p>
+        )}
+      </section>
+    </div>
+  );
+}
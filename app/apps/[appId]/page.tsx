@@ -1,8 +1,12 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { listRuns } from "@/lib/dataStore";
-import type { TestRun } from "@/lib/types";
+import { listTests, queryRuns } from "@/lib/dataStore";
+import { listArtifacts, withArtifactUrl } from "@/lib/artifacts";
+import { listQuarantine } from "@/lib/quarantine";
+import type { ArtifactWithUrl, TestCaseResult, TestRun } from "@/lib/types";
 import { ArtifactViewer } from "@/components/apps/ArtifactViewer";
+import { TestCaseTable } from "@/components/apps/TestCaseTable";
+import { QuarantineList } from "@/components/apps/QuarantineList";
 import { generateTestSuggestions } from "@/lib/testCaseGenerator";
 
 function groupBySuite(runs: TestRun[]) {
@@ -15,6 +19,24 @@ function groupBySuite(runs: TestRun[]) {
   }, {});
 }
 
+const ARTIFACT_RUN_LIMIT = 20;
+
+/** Uploaded artifacts and test results for the newest runs, keyed by run id. */
+async function loadArtifacts(runs: TestRun[]) {
+  const artifacts: Record<string, ArtifactWithUrl[]> = {};
+  const tests: Record<string, TestCaseResult[]> = {};
+  await Promise.all(
+    runs.slice(0, ARTIFACT_RUN_LIMIT).map(async (run) => {
+      const stored = await listArtifacts(run.id);
+      if (stored.length > 0) {
+        artifacts[run.id] = stored.map(withArtifactUrl);
+        tests[run.id] = await listTests(run.id);
+      }
+    })
+  );
+  return { artifacts, tests };
+}
+
 function formatDuration(ms: number) {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
@@ -23,15 +45,17 @@ function formatDuration(ms: number) {
 }
 
 export default async function AppDetailPage({ params }: { params: { appId: string } }) {
-  const runs = await listRuns();
-  const filtered = runs.filter((run) => run.appId === params.appId);
+  const { runs: filtered } = await queryRuns({ appId: params.appId });
   if (filtered.length === 0) {
     notFound();
   }
   const suites = groupBySuite(filtered);
   const latest = filtered[0];
   const defaultSuite = latest?.suite ?? Object.keys(suites)[0];
-  const testIdeas = defaultSuite ? generateTestSuggestions(params.appId, defaultSuite, runs) : [];
+  const testIdeas = defaultSuite ? generateTestSuggestions(params.appId, defaultSuite, filtered) : [];
+  const latestTests = await listTests(latest.id);
+  const { artifacts, tests } = await loadArtifacts(filtered);
+  const quarantine = await listQuarantine({ appId: params.appId });
   return (
     <div className="space-y-6">
       <Link href="/" className="text-xs uppercase tracking-[0.3em] text-slate-500 hover:text-slate-300">
@@ -43,8 +67,16 @@ export default async function AppDetailPage({ params }: { params: { appId: strin
             <p className="text-xs uppercase tracking-widest text-slate-400">Application</p>
             <h1 className="text-3xl font-semibold">{params.appId}</h1>
           </div>
-          <div className="text-sm text-slate-400">
-            Latest run {new Date(latest.createdAt).toLocaleString()} • {latest.environment}
+          <div className="text-sm text-slate-400 text-right space-y-1">
+            <p>
+              Latest run {new Date(latest.createdAt).toLocaleString()} • {latest.environment}
+            </p>
+            <Link
+              href={`/apps/${encodeURIComponent(params.appId)}/compare`}
+              className="text-xs text-sky-400 hover:text-sky-300"
+            >
+              Compare runs →
+            </Link>
           </div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
@@ -62,11 +94,31 @@ export default async function AppDetailPage({ params }: { params: { appId: strin
           </div>
           <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
             <p className="text-slate-400 text-xs">Artifacts</p>
-            <p className="text-xl font-semibold">{filtered.filter((run) => run.artifactUrl).length}</p>
+            <p className="text-xl font-semibold">
+              {filtered.filter((run) => run.artifactUrl || artifacts[run.id]).length}
+            </p>
           </div>
         </div>
       </div>
-      <ArtifactViewer runs={filtered} />
+      <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3">
+        <header>
+          <p className="text-xs uppercase tracking-widest text-slate-400">Test Results</p>
+          <p className="text-sm text-slate-400">
+            Latest run of {latest.suite} • {new Date(latest.createdAt).toLocaleString()}
+          </p>
+        </header>
+        <TestCaseTable tests={latestTests} />
+      </section>
+      <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3">
+        <header>
+          <p className="text-xs uppercase tracking-widest text-slate-400">Quarantined Tests</p>
+          <p className="text-sm text-slate-400">
+            Failures of these tests are reported separately and do not fail the run
+          </p>
+        </header>
+        <QuarantineList entries={quarantine} />
+      </section>
+      <ArtifactViewer runs={filtered} artifacts={artifacts} tests={tests} />
       {defaultSuite ? (
         <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3">
           <header className="flex items-center justify-between">
@@ -99,6 +151,7 @@ export default async function AppDetailPage({ params }: { params: { appId: strin
                 <th>Totals</th>
                 <th>Duration</th>
                 <th>Coverage</th>
+                <th>Branch</th>
                 <th>Commit</th>
                 <th>Artifact</th>
               </tr>
@@ -115,6 +168,7 @@ export default async function AppDetailPage({ params }: { params: { appId: strin
                   </td>
                   <td>{formatDuration(run.durationMs)}</td>
                   <td>{typeof run.coverage === "number" ? `${run.coverage.toFixed(1)}%` : "—"}</td>
+                  <td className="text-xs text-slate-400">{run.branch ?? "—"}</td>
                   <td className="font-mono text-xs text-slate-400">{run.commit?.slice(0, 8) ?? "—"}</td>
                   <td>
                     {run.artifactUrl ? (
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { headers } from "next/headers";
 import { marked } from "marked";
 import { ensureAuthorized, hasRole } from "@/lib/auth";
+import type { Role } from "@/lib/auth";
 const AUTH_OK = "ok";
 
 async function getDoc(slug: string) {
@@ -20,7 +21,7 @@ async function getDoc(slug: string) {
   }
 }
 
-async function allowed(slug: string, role: string | null | undefined) {
+async function allowed(slug: string, role: Role) {
   const indexPath = path.join(process.cwd(), "content", "help", "index.json");
   const entries = JSON.parse(await fs.readFile(indexPath, "utf-8")) as Array<{ slug: string; roles?: string[] }>;
   const entry = entries.find((item) => item.slug === slug);
@@ -31,7 +32,7 @@ async function allowed(slug: string, role: string | null | undefined) {
 }
 
 export default async function HelpPage({ params }: { params: { slug: string } }) {
-  const auth = ensureAuthorized(headers());
+  const auth = await ensureAuthorized(await headers(), { scopes: ["read"] });
   if (auth.status !== AUTH_OK || !(await allowed(params.slug, auth.role))) {
     notFound();
   }
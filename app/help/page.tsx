@@ -3,9 +3,10 @@ import path from "node:path";
 import Link from "next/link";
 import { headers } from "next/headers";
 import { ensureAuthorized, hasRole } from "@/lib/auth";
+import type { Role } from "@/lib/auth";
 const AUTH_OK = "ok";
 
-async function getArticles(role: string | null | undefined) {
+async function getArticles(role: Role) {
   const indexPath = path.join(process.cwd(), "content", "help", "index.json");
   const raw = await fs.readFile(indexPath, "utf-8");
   const entries = JSON.parse(raw) as Array<{ slug: string; title: string; roles?: string[] }>;
@@ -13,7 +14,7 @@ async function getArticles(role: string | null | undefined) {
 }
 
 export default async function HelpCenterPage() {
-  const auth = ensureAuthorized(headers());
+  const auth = await ensureAuthorized(await headers(), { scopes: ["read"] });
   if (auth.status !== AUTH_OK) {
     return <div className="text-slate-400">Unauthorized.</div>;
   }
@@ -1,11 +1,24 @@
 import type { ReactNode } from "react";
+import { cookies } from "next/headers";
+import { oidcEnabled, readSession, SESSION_COOKIE } from "@/lib/session";
 import "./globals.css";
 
-export default function RootLayout({ children }: { children: ReactNode }) {
+export default async function RootLayout({ children }: { children: ReactNode }) {
+  const session = oidcEnabled ? await readSession((await cookies()).get(SESSION_COOKIE)?.value) : null;
   return (
     <html lang="en" suppressHydrationWarning>
       <body>
-        <main className="max-w-6xl mx-auto px-6 py-8">{children}</main>
+        <main className="max-w-6xl mx-auto px-6 py-8">
+          {session ? (
+            <form action="/api/auth/logout" method="post" className="flex justify-end items-center gap-3 mb-4 text-xs text-slate-400">
+              <span>Signed in as {session.name ?? session.email ?? session.sub}</span>
+              <button type="submit" className="px-2 py-1 rounded-lg border border-slate-700 hover:border-slate-500">
+                Sign out
+              </button>
+            </form>
+          ) : null}
+          {children}
+        </main>
       </body>
     </html>
   );
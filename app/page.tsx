@@ -1,13 +1,33 @@
 import Link from "next/link";
+import { headers } from "next/headers";
 import { RunDashboard } from "@/components/dashboard/RunDashboard";
-import { listRuns } from "@/lib/dataStore";
-import { getSettings } from "@/lib/settings";
+import { queryRuns } from "@/lib/dataStore";
+import { DEFAULT_FLAKY_WINDOW, getFlakyTests } from "@/lib/flaky";
+import { ensureAuthorized } from "@/lib/auth";
+import { getSettings, resolveDashboardLink, settingsOwner } from "@/lib/settings";
+import type { ResolvedDashboardLink } from "@/lib/settings";
 
 export const dynamic = "force-dynamic";
 
-export default async function Page() {
-  const runs = await listRuns();
-  const settings = await getSettings();
+// RunDashboard keeps at most this many runs client-side
+const DASHBOARD_RUN_LIMIT = 500;
+const FLAKY_LEADERBOARD_SIZE = 10;
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: Props) {
+  const { dashboard, owner } = await searchParams;
+  const { runs } = await queryRuns({ limit: DASHBOARD_RUN_LIMIT });
+  const auth = await ensureAuthorized(await headers(), { scopes: ["read"] });
+  // Visitors the middleware let through without a login see the team defaults
+  const viewer = auth.status === "ok" ? settingsOwner(auth) : null;
+  const { settings, dashboardId, shared }: ResolvedDashboardLink =
+    typeof dashboard === "string"
+      ? await resolveDashboardLink(viewer, { dashboard, owner: typeof owner === "string" ? owner : null })
+      : { settings: await getSettings(viewer) };
+  const flaky = await getFlakyTests({ window: DEFAULT_FLAKY_WINDOW, limit: FLAKY_LEADERBOARD_SIZE });
   if (settings.theme) {
     // pass theme to the client via dataset attribute
   }
@@ -36,7 +56,14 @@ export default async function Page() {
           </Link>
         </nav>
       </div>
-      <RunDashboard initialRuns={runs} initialSettings={settings} />
+      <RunDashboard
+        initialRuns={runs}
+        initialSettings={settings}
+        flakyTests={flaky.tests}
+        initialDashboardId={dashboardId}
+        owner={viewer}
+        sharedDashboard={shared}
+      />
     </div>
   );
 }
@@ -0,0 +1,40 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { NextResponse } from "next/server";
+import { traceViewerDirectory } from "@/lib/config";
+
+interface Context {
+  params: Promise<{ path: string[] }>;
+}
+
+const contentTypes: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".ttf": "font/ttf",
+  ".webmanifest": "application/manifest+json"
+};
+
+/**
+ * Serves the Playwright trace viewer bundled with `playwright-core`, so traces open from
+ * `/trace/index.html?trace=<artifact url>` without leaving the hub.
+ */
+export async function GET(_request: Request, { params }: Context) {
+  const segments = (await params).path;
+  const root = path.resolve(traceViewerDirectory);
+  const target = path.resolve(root, ...segments);
+  if (!target.startsWith(`${root}${path.sep}`)) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+  const data = await fs.readFile(target).catch(() => null);
+  if (!data) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Content-Type": contentTypes[path.extname(target)] ?? "application/octet-stream",
+      "Cache-Control": "public, max-age=3600"
+    }
+  });
+}
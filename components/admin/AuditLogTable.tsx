@@ -0,0 +1,68 @@
+import type { AuditChange, AuditEntry } from "@/lib/types";
+
+interface Props {
+  entries: AuditEntry[];
+}
+
+const formatValue = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value));
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) {
+    return <span className="text-slate-500">No field changes</span>;
+  }
+  return (
+    <ul className="space-y-0.5 font-mono text-xs">
+      {changes.map((change) => (
+        <li key={change.path}>
+          <span className="text-slate-300">{change.path}</span>{" "}
+          <span className="text-rose-300">{formatValue(change.before)}</span>
+          {" → "}
+          <span className="text-emerald-300">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditLogTable({ entries }: Props) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-sm text-slate-400 border border-dashed border-slate-700 rounded-xl p-4">
+        No audit entries match these filters.
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead>
+        <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
+          <th className="py-2">When</th>
+          <th>Actor</th>
+          <th>Action</th>
+          <th>Changes</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.id} className="border-b border-slate-900/60 align-top">
+            <td className="py-2 pr-4 text-slate-400 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+            <td className="pr-4">
+              <p>{entry.actor}</p>
+              {entry.roles.length ? <p className="text-xs text-slate-500">{entry.roles.join(", ")}</p> : null}
+            </td>
+            <td className="pr-4">
+              <p className="font-medium">{entry.action}</p>
+              <p className="text-xs text-slate-500">
+                {[entry.appId, entry.target].filter(Boolean).join(" • ")}
+              </p>
+            </td>
+            <td>
+              <ChangeList changes={entry.changes} />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
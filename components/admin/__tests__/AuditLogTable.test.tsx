@@ -0,0 +1,50 @@
+import { t } from '@/lib/test'
+import { AuditLogTable } from '../AuditLogTable'
+import type { AuditEntry } from '@/lib/types'
+
+const { describe, it, expect, render, screen } = t
+
+const entries: AuditEntry[] = [
+  {
+    id: 'a1',
+    action: 'settings.update',
+    actor: 'alice@example.test',
+    roles: ['admin'],
+    changes: [
+      { path: 'theme', before: 'dark', after: 'light' },
+      { path: 'hiddenWidgets', before: [], after: ['coverage'] },
+    ],
+    createdAt: '2025-01-15T10:00:00.000Z',
+  },
+  {
+    id: 'a2',
+    action: 'quarantine.delete',
+    actor: 'key:uxqa_abc123',
+    roles: [],
+    target: 'q1',
+    appId: 'checkout',
+    changes: [{ path: 'owner', before: 'payments-team' }],
+    createdAt: '2025-01-15T11:00:00.000Z',
+  },
+]
+
+describe('AuditLogTable', () => {
+  it('renders an empty state', () => {
+    render(<AuditLogTable entries={[]} />)
+
+    expect(screen.getByText('No audit entries match these filters.')).toBeInTheDocument()
+  })
+
+  it('shows actor, action and the before/after of each change', () => {
+    render(<AuditLogTable entries={entries} />)
+
+    expect(screen.getByText('alice@example.test')).toBeInTheDocument()
+    expect(screen.getByText('admin')).toBeInTheDocument()
+    expect(screen.getByText('settings.update')).toBeInTheDocument()
+    expect(screen.getByText('"dark"')).toBeInTheDocument()
+    expect(screen.getByText('"light"')).toBeInTheDocument()
+    expect(screen.getByText('["coverage"]')).toBeInTheDocument()
+    expect(screen.getByText('checkout • q1')).toBeInTheDocument()
+    expect(screen.getByText('—')).toBeInTheDocument()
+  })
+})
@@ -1,17 +1,118 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import type { TestRun } from "@/lib/types";
+import type { ArtifactWithUrl, TestCaseResult, TestRun } from "@/lib/types";
 
 interface Props {
   runs: TestRun[];
+  /** Uploaded artifacts keyed by run id. */
+  artifacts?: Record<string, ArtifactWithUrl[]>;
+  /** Test results keyed by run id, used to group artifacts per failing test. */
+  tests?: Record<string, TestCaseResult[]>;
 }
 
-export function ArtifactViewer({ runs }: Props) {
-  const artifacts = useMemo(() => runs.filter((run) => run.artifactUrl), [runs]);
-  const [selectedId, setSelectedId] = useState<string | null>(artifacts[0]?.id ?? null);
+interface Filmstrip {
+  test: TestCaseResult;
+  artifacts: ArtifactWithUrl[];
+}
+
+const isFailure = (test: TestCaseResult) =>
+  test.status === "failed" || test.status === "timedOut" || test.status === "interrupted";
+
+const isMedia = (artifact: ArtifactWithUrl) => artifact.type === "screenshot" || artifact.type === "video";
+
+const imageUrl = /\.(png|jpe?g|gif|webp|svg)(\?.*)?$/i;
+const videoUrl = /\.(webm|mp4)(\?.*)?$/i;
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+}
+
+/** The hub serves the Playwright trace viewer under /trace; it needs an absolute trace URL. */
+function traceViewerUrl(artifact: ArtifactWithUrl) {
+  const traceUrl = new URL(artifact.url, window.location.href).toString();
+  return `/trace/index.html?trace=${encodeURIComponent(traceUrl)}`;
+}
 
-  if (artifacts.length === 0) {
+function Thumbnail({ artifact, active, onSelect }: { artifact: ArtifactWithUrl; active: boolean; onSelect: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      title={artifact.name}
+      aria-label={`Preview ${artifact.name}`}
+      className={`shrink-0 w-28 h-20 rounded-lg overflow-hidden border text-xs text-slate-300 bg-slate-950 ${
+        active ? "border-sky-400" : "border-slate-800 hover:border-slate-600"
+      }`}
+    >
+      {artifact.type === "screenshot" ? (
+        <img src={artifact.url} alt={artifact.name} loading="lazy" className="w-full h-full object-cover" />
+      ) : (
+        <span className="flex h-full items-center justify-center px-2 text-center">
+          {artifact.type === "video" ? "▶ " : ""}
+          {artifact.name}
+        </span>
+      )}
+    </button>
+  );
+}
+
+function Preview({ artifact }: { artifact: ArtifactWithUrl }) {
+  if (artifact.type === "screenshot") {
+    return <img src={artifact.url} alt={artifact.name} className="max-h-[480px] w-full object-contain rounded-lg" />;
+  }
+  if (artifact.type === "video") {
+    return <video src={artifact.url} controls className="max-h-[480px] w-full rounded-lg" aria-label={artifact.name} />;
+  }
+  if (artifact.type === "trace") {
+    const src = traceViewerUrl(artifact);
+    return (
+      <div className="space-y-2">
+        <iframe src={src} title={`Trace ${artifact.name}`} className="w-full h-[560px] rounded-lg border border-slate-800 bg-white" />
+        <a href={src} target="_blank" rel="noreferrer" className="text-xs text-sky-400 hover:text-sky-300">
+          Open trace in a new tab
+        </a>
+      </div>
+    );
+  }
+  return (
+    <p className="text-sm text-slate-300">
+      {artifact.name} ({artifact.contentType}, {formatBytes(artifact.size)}) –{" "}
+      <a href={artifact.url} target="_blank" rel="noreferrer" className="text-sky-400 hover:text-sky-300">
+        open
+      </a>
+    </p>
+  );
+}
+
+export function ArtifactViewer({ runs, artifacts = {}, tests = {} }: Props) {
+  const withArtifacts = useMemo(
+    () => runs.filter((run) => run.artifactUrl || artifacts[run.id]?.length),
+    [runs, artifacts]
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(withArtifacts[0]?.id ?? null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const selected = withArtifacts.find((run) => run.id === selectedId) ?? withArtifacts[0];
+  const runArtifacts = useMemo(() => (selected ? artifacts[selected.id] ?? [] : []), [selected, artifacts]);
+
+  const filmstrips = useMemo<Filmstrip[]>(() => {
+    const runTests = selected ? tests[selected.id] ?? [] : [];
+    return runTests
+      .filter(isFailure)
+      .map((test) => ({ test, artifacts: runArtifacts.filter((artifact) => artifact.testId === test.id) }))
+      .filter((strip) => strip.artifacts.length > 0);
+  }, [selected, tests, runArtifacts]);
+
+  const otherArtifacts = useMemo(() => {
+    const inStrips = new Set(filmstrips.flatMap((strip) => strip.artifacts.map((artifact) => artifact.id)));
+    return runArtifacts.filter((artifact) => !inStrips.has(artifact.id));
+  }, [filmstrips, runArtifacts]);
+
+  if (!selected) {
     return (
       <div className="text-sm text-slate-400 border border-dashed border-slate-700 rounded-xl p-4">
         No artifacts available for this app.
@@ -19,20 +120,29 @@ export function ArtifactViewer({ runs }: Props) {
     );
   }
 
-  const selected = artifacts.find((run) => run.id === selectedId) ?? artifacts[0];
+  // Default to the first screenshot or video of a failing test; traces only open on demand
+  const preview =
+    runArtifacts.find((artifact) => artifact.id === previewId) ??
+    filmstrips.flatMap((strip) => strip.artifacts).find(isMedia) ??
+    null;
+
+  const selectRun = (runId: string) => {
+    setSelectedId(runId);
+    setPreviewId(null);
+  };
 
   return (
     <div className="bg-slate-950/40 border border-slate-900 rounded-2xl">
       <div className="grid grid-cols-1 md:grid-cols-[260px_minmax(0,1fr)]">
         <aside className="border-b md:border-b-0 md:border-r border-slate-900">
           <div className="max-h-72 overflow-auto">
-            {artifacts.map((run) => (
+            {withArtifacts.map((run) => (
               <button
                 key={run.id}
                 type="button"
-                onClick={() => setSelectedId(run.id)}
+                onClick={() => selectRun(run.id)}
                 className={`w-full text-left px-4 py-3 text-sm border-b border-slate-900 hover:bg-slate-900/60 ${
-                  run.id === selectedId ? "bg-slate-900/70" : ""
+                  run.id === selected.id ? "bg-slate-900/70" : ""
                 }`}
               >
                 <p className="text-xs text-slate-400">{new Date(run.createdAt).toLocaleString()}</p>
@@ -42,7 +152,7 @@ export function ArtifactViewer({ runs }: Props) {
             ))}
           </div>
         </aside>
-        <div className="p-4 space-y-3">
+        <div className="p-4 space-y-3 min-w-0">
           <div>
             <p className="text-xs uppercase tracking-widest text-slate-400">Preview</p>
             <h3 className="text-lg font-semibold">
@@ -50,29 +160,69 @@ export function ArtifactViewer({ runs }: Props) {
             </h3>
             <p className="text-xs text-slate-500">Commit {selected.commit ?? "—"}</p>
           </div>
-          <div className="flex gap-3 text-sm">
-            <a
-              href={selected.artifactUrl ?? "#"}
-              target="_blank"
-              rel="noreferrer"
-              className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-900 text-xs font-semibold"
-            >
-              Open Artifact
-            </a>
-            <button
-              type="button"
-              className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs text-slate-200"
-              onClick={() => navigator.clipboard.writeText(selected.artifactUrl ?? "")}
-            >
-              Copy URL
-            </button>
-          </div>
-          <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 text-sm text-slate-300">
-            <p>
-              Inline preview placeholder. Embed screenshots/videos here (e.g., use
-              &lt;video&gt; or &lt;img&gt; when artifact URLs point to accessible media files).
-            </p>
+          {selected.artifactUrl ? (
+            <div className="flex gap-3 text-sm">
+              <a
+                href={selected.artifactUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-900 text-xs font-semibold"
+              >
+                Open Artifact
+              </a>
+              <button
+                type="button"
+                className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs text-slate-200"
+                onClick={() => navigator.clipboard.writeText(selected.artifactUrl ?? "")}
+              >
+                Copy URL
+              </button>
+            </div>
+          ) : null}
+          <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4">
+            {preview ? (
+              <Preview key={preview.id} artifact={preview} />
+            ) : selected.artifactUrl && imageUrl.test(selected.artifactUrl) ? (
+              <img src={selected.artifactUrl} alt={`${selected.suite} artifact`} className="max-h-[480px] w-full object-contain rounded-lg" />
+            ) : selected.artifactUrl && videoUrl.test(selected.artifactUrl) ? (
+              <video src={selected.artifactUrl} controls className="max-h-[480px] w-full rounded-lg" />
+            ) : (
+              <p className="text-sm text-slate-400">
+                {runArtifacts.length > 0
+                  ? "Select an artifact below to preview it."
+                  : "This run only links an external artifact; open it above."}
+              </p>
+            )}
           </div>
+          {filmstrips.map((strip) => (
+            <section key={strip.test.id} className="space-y-2">
+              <p className="text-sm font-medium">
+                <span className="text-rose-400">{strip.test.status}</span> {strip.test.titlePath.join(" › ")}
+              </p>
+              <div className="flex gap-2 overflow-x-auto pb-1" role="list" aria-label={`Artifacts for ${strip.test.title}`}>
+                {strip.artifacts.map((artifact) => (
+                  <div key={artifact.id} role="listitem">
+                    <Thumbnail artifact={artifact} active={artifact.id === preview?.id} onSelect={() => setPreviewId(artifact.id)} />
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+          {otherArtifacts.length > 0 ? (
+            <section className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-400">Other artifacts</p>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {otherArtifacts.map((artifact) => (
+                  <Thumbnail
+                    key={artifact.id}
+                    artifact={artifact}
+                    active={artifact.id === preview?.id}
+                    onSelect={() => setPreviewId(artifact.id)}
+                  />
+                ))}
+              </div>
+            </section>
+          ) : null}
         </div>
       </div>
     </div>
@@ -0,0 +1,100 @@
+import type { ComparisonSide, RunComparison, TestComparison } from "@/lib/compare";
+
+interface Props {
+  comparison: RunComparison;
+}
+
+function formatDuration(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatDelta(value: number, unit: string) {
+  return `${value > 0 ? "+" : ""}${value}${unit}`;
+}
+
+function SideSummary({ label, side }: { label: string; side: ComparisonSide }) {
+  const commits = [...new Set(side.runs.map((run) => run.commit?.slice(0, 8)).filter(Boolean))];
+  return (
+    <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4 space-y-1 text-sm">
+      <p className="text-xs uppercase tracking-widest text-slate-400">{label}</p>
+      <p className="font-mono text-xs text-slate-300 break-all">{side.ref}</p>
+      <p className="text-xs text-slate-500">
+        {side.runs.map((run) => run.suite).join(", ")}
+        {commits.length ? ` • ${commits.join(", ")}` : ""}
+      </p>
+      <p>
+        <span className="text-emerald-400 font-semibold">{side.passed}</span>
+        <span className="text-slate-500">/{side.total} passed</span>
+        {side.failed ? <span className="text-rose-400"> • {side.failed} failed</span> : null}
+      </p>
+      <p className="text-slate-400">
+        {formatDuration(side.durationMs)} • coverage {side.coverage === null ? "—" : `${side.coverage.toFixed(1)}%`}
+      </p>
+    </div>
+  );
+}
+
+function TestList({ title, tests, tone, detail }: { title: string; tests: TestComparison[]; tone: string; detail?: (test: TestComparison) => string }) {
+  return (
+    <section aria-label={title} className="space-y-2">
+      <h3 className={`text-sm font-semibold ${tone}`}>
+        {title} <span className="text-slate-500">({tests.length})</span>
+      </h3>
+      {tests.length === 0 ? (
+        <p className="text-xs text-slate-500">None</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {tests.map((test) => (
+            <li key={test.key} className="border-b border-slate-900/60 pb-1">
+              <p>{test.titlePath.join(" › ")}</p>
+              <p className="text-xs text-slate-500">
+                {test.suite}
+                {test.project ? ` • ${test.project}` : ""}
+                {detail ? ` • ${detail(test)}` : ""}
+              </p>
+              {test.errors?.[0] ? <p className="text-xs text-rose-300 truncate">{test.errors[0]}</p> : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+const slowdown = (test: TestComparison) =>
+  `${formatDuration(test.baseDurationMs!)} → ${formatDuration(test.headDurationMs!)}`;
+
+export function ComparisonReport({ comparison }: Props) {
+  const { base, head, coverageDelta, durationDeltaMs } = comparison;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SideSummary label="Base" side={base} />
+        <SideSummary label="Head" side={head} />
+        <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4 space-y-1 text-sm">
+          <p className="text-xs uppercase tracking-widest text-slate-400">Delta</p>
+          <p>
+            Coverage{" "}
+            <span className={coverageDelta !== null && coverageDelta < 0 ? "text-rose-400" : "text-emerald-400"}>
+              {coverageDelta === null ? "—" : formatDelta(coverageDelta, "%")}
+            </span>
+          </p>
+          <p>
+            Duration{" "}
+            <span className={durationDeltaMs > 0 ? "text-amber-300" : "text-emerald-400"}>
+              {formatDelta(Math.round(durationDeltaMs / 100) / 10, "s")}
+            </span>
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <TestList title="Newly failing" tests={comparison.newlyFailing} tone="text-rose-400" />
+        <TestList title="Newly passing" tests={comparison.newlyPassing} tone="text-emerald-400" />
+        <TestList title="Still failing" tests={comparison.stillFailing} tone="text-amber-300" />
+        <TestList title="Duration regressions" tests={comparison.durationRegressions} tone="text-amber-300" detail={slowdown} />
+        <TestList title="Added tests" tests={comparison.added} tone="text-sky-400" />
+        <TestList title="Removed tests" tests={comparison.removed} tone="text-slate-300" />
+      </div>
+    </div>
+  );
+}
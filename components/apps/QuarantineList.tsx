@@ -0,0 +1,52 @@
+import type { QuarantineEntry } from "@/lib/types";
+
+interface Props {
+  entries: QuarantineEntry[];
+  /** Reference time for expiry badges; defaults to now. */
+  now?: Date;
+}
+
+export function QuarantineList({ entries, now = new Date() }: Props) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-sm text-slate-400 border border-dashed border-slate-700 rounded-xl p-4">
+        No tests are quarantined for this app.
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead>
+        <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
+          <th className="py-2">Test</th>
+          <th>Owner</th>
+          <th>Reason</th>
+          <th>Expires</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => {
+          const expired = Boolean(entry.expiresAt && Date.parse(entry.expiresAt) <= now.getTime());
+          return (
+            <tr key={entry.id} className="border-b border-slate-900/60 align-top">
+              <td className="py-2 pr-4">
+                <p className="font-medium">{entry.titlePath.join(" › ")}</p>
+                <p className="text-xs text-slate-500">
+                  {entry.suite ?? "All suites"}
+                  {entry.project ? ` • ${entry.project}` : ""}
+                </p>
+              </td>
+              <td>{entry.owner}</td>
+              <td className="text-slate-300">{entry.reason}</td>
+              <td className={expired ? "text-rose-300" : "text-slate-400"}>
+                {entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString() : "Never"}
+                {expired ? " (expired)" : ""}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
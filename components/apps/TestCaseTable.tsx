@@ -0,0 +1,102 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TestCaseResult, TestCaseStatus } from "@/lib/types";
+
+interface Props {
+  tests: TestCaseResult[];
+}
+
+const statusOrder: Record<TestCaseStatus, number> = {
+  failed: 0,
+  timedOut: 1,
+  interrupted: 2,
+  passed: 3,
+  skipped: 4
+};
+
+const statusColor: Record<TestCaseStatus, string> = {
+  passed: "text-emerald-400",
+  failed: "text-rose-400",
+  timedOut: "text-rose-400",
+  interrupted: "text-amber-300",
+  skipped: "text-slate-500"
+};
+
+const isFailure = (test: TestCaseResult) =>
+  test.status === "failed" || test.status === "timedOut" || test.status === "interrupted";
+
+function formatMs(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+export function TestCaseTable({ tests }: Props) {
+  const failures = useMemo(() => tests.filter(isFailure), [tests]);
+  const [failuresOnly, setFailuresOnly] = useState(failures.length > 0);
+
+  const visible = useMemo(() => {
+    const source = failuresOnly ? failures : tests;
+    return [...source].sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+  }, [tests, failures, failuresOnly]);
+
+  if (tests.length === 0) {
+    return (
+      <div className="text-sm text-slate-400 border border-dashed border-slate-700 rounded-xl p-4">
+        No test results were reported for this run.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {failures.length} failing of {tests.length} test{tests.length === 1 ? "" : "s"}
+        </span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={failuresOnly} onChange={() => setFailuresOnly((prev) => !prev)} />
+          Failures only
+        </label>
+      </div>
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
+            <th className="py-2">Test</th>
+            <th>Status</th>
+            <th>Project</th>
+            <th>Retries</th>
+            <th>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map((test) => (
+            <tr key={test.id} className="border-b border-slate-900/60 align-top">
+              <td className="py-2 pr-4">
+                <p className="font-medium">{test.titlePath.join(" › ")}</p>
+                {test.file ? (
+                  <p className="font-mono text-xs text-slate-500">
+                    {test.file}
+                    {typeof test.line === "number" ? `:${test.line}` : ""}
+                  </p>
+                ) : null}
+                {test.errors.map((error, index) => (
+                  <pre key={index} className="mt-1 whitespace-pre-wrap text-xs text-rose-300/80">
+                    {error}
+                  </pre>
+                ))}
+              </td>
+              <td className={statusColor[test.status]}>
+                {test.status}
+                {test.status === "passed" && test.retries > 0 ? <span className="text-amber-300"> (flaky)</span> : null}
+                {test.quarantined ? <span className="text-sky-300"> (quarantined)</span> : null}
+              </td>
+              <td className="text-slate-400">{test.project ?? "—"}</td>
+              <td>{test.retries}</td>
+              <td>{formatMs(test.durationMs)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
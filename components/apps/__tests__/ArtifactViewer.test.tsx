@@ -1,6 +1,6 @@
 import { t } from '@/lib/test'
 import { ArtifactViewer } from '../ArtifactViewer'
-import type { TestRun } from '@/lib/types'
+import type { ArtifactWithUrl, TestCaseResult, TestRun } from '@/lib/types'
 
 const { describe, it, expect, vi, render, screen, userEvent } = t
 
@@ -99,4 +99,86 @@ describe('ArtifactViewer', () => {
 
     vi.unstubAllGlobals()
   })
+
+  describe('uploaded artifacts', () => {
+    const run: TestRun = { ...mockRuns[1], id: 'run-3', artifactUrl: undefined }
+    const failing: TestCaseResult = {
+      id: 'test-1',
+      runId: 'run-3',
+      title: 'checkout',
+      titlePath: ['chromium', 'checkout.spec.ts', 'checkout'],
+      status: 'failed',
+      retries: 1,
+      durationMs: 900,
+      errors: ['boom'],
+    }
+    const artifact = (id: string, type: ArtifactWithUrl['type'], name: string): ArtifactWithUrl => ({
+      id,
+      runId: 'run-3',
+      testId: 'test-1',
+      name,
+      type,
+      contentType: type === 'video' ? 'video/webm' : type === 'trace' ? 'application/zip' : 'image/png',
+      size: 2048,
+      checksum: 'abc',
+      createdAt: '2025-01-15T11:00:00Z',
+      url: `/api/runs/run-3/artifacts/${id}`,
+    })
+    const artifacts = {
+      'run-3': [artifact('a1', 'screenshot', 'screenshot'), artifact('a2', 'video', 'video'), artifact('a3', 'trace', 'trace')],
+    }
+
+    it('lists runs that only have uploaded artifacts', () => {
+      render(<ArtifactViewer runs={[run]} artifacts={artifacts} tests={{ 'run-3': [failing] }} />)
+
+      expect(screen.getByRole('heading', { name: /E2E Tests – staging/i })).toBeInTheDocument()
+      expect(screen.queryByRole('link', { name: /Open Artifact/i })).not.toBeInTheDocument()
+    })
+
+    it('shows a filmstrip per failing test and previews the first screenshot', () => {
+      render(<ArtifactViewer runs={[run]} artifacts={artifacts} tests={{ 'run-3': [failing] }} />)
+
+      const strip = screen.getByRole('list', { name: 'Artifacts for checkout' })
+      expect(strip.querySelectorAll('button')).toHaveLength(3)
+      expect(screen.getByText(/checkout\.spec\.ts › checkout/)).toBeInTheDocument()
+      expect(screen.getAllByRole('img', { name: 'screenshot' })[0]).toHaveAttribute('src', '/api/runs/run-3/artifacts/a1')
+    })
+
+    it('plays videos inline', async () => {
+      const user = userEvent.setup()
+      render(<ArtifactViewer runs={[run]} artifacts={artifacts} tests={{ 'run-3': [failing] }} />)
+
+      await user.click(screen.getByRole('button', { name: 'Preview video' }))
+
+      const video = document.querySelector('video')
+      expect(video).toHaveAttribute('src', '/api/runs/run-3/artifacts/a2')
+      expect(video).toHaveAttribute('controls')
+    })
+
+    it('opens traces in the hub trace viewer', async () => {
+      const user = userEvent.setup()
+      render(<ArtifactViewer runs={[run]} artifacts={artifacts} tests={{ 'run-3': [failing] }} />)
+
+      await user.click(screen.getByRole('button', { name: 'Preview trace' }))
+
+      const frame = screen.getByTitle('Trace trace')
+      const src = new URL(frame.getAttribute('src') ?? '', 'http://hub')
+      expect(src.pathname).toBe('/trace/index.html')
+      expect(src.searchParams.get('trace')).toBe(`${window.location.origin}/api/runs/run-3/artifacts/a3`)
+    })
+
+    it('lists artifacts of passing tests separately', () => {
+      render(
+        <ArtifactViewer
+          runs={[run]}
+          artifacts={artifacts}
+          tests={{ 'run-3': [{ ...failing, status: 'passed' }] }}
+        />
+      )
+
+      expect(screen.queryByRole('list', { name: 'Artifacts for checkout' })).not.toBeInTheDocument()
+      expect(screen.getByText('Other artifacts')).toBeInTheDocument()
+      expect(screen.getByText('Select an artifact below to preview it.')).toBeInTheDocument()
+    })
+  })
 })
@@ -0,0 +1,74 @@
+import { t } from '@/lib/test'
+import { ComparisonReport } from '../ComparisonReport'
+import type { ComparisonSide, RunComparison, TestComparison } from '@/lib/compare'
+import type { TestRun } from '@/lib/types'
+
+const { describe, it, expect, render, screen } = t
+
+const run = (id: string, commit: string): TestRun => ({
+  id,
+  appId: 'checkout',
+  suite: 'e2e',
+  environment: 'ci',
+  status: 'failed',
+  total: 3,
+  passed: 2,
+  failed: 1,
+  skipped: 0,
+  durationMs: 60000,
+  commit,
+  createdAt: '2025-01-15T10:30:00.000Z',
+})
+
+const side = (ref: string, coverage: number | null): ComparisonSide => ({
+  ref,
+  runs: [run(ref, `${ref}cafe`)],
+  total: 3,
+  passed: 2,
+  failed: 1,
+  durationMs: 60000,
+  coverage,
+})
+
+const test = (title: string, fields: Partial<TestComparison> = {}): TestComparison => ({
+  key: `e2e||${title}`,
+  suite: 'e2e',
+  title,
+  titlePath: ['cart.spec.ts', title],
+  ...fields,
+})
+
+const comparison: RunComparison = {
+  base: side('base-run', 82.5),
+  head: side('head-run', 80),
+  newlyFailing: [test('applies coupon', { baseStatus: 'passed', headStatus: 'failed', errors: ['Expected 10, received 12'] })],
+  newlyPassing: [],
+  stillFailing: [],
+  added: [test('removes item')],
+  removed: [],
+  durationRegressions: [test('checks out', { baseDurationMs: 1200, headDurationMs: 3400 })],
+  coverageDelta: -2.5,
+  durationDeltaMs: 4000,
+}
+
+describe('ComparisonReport', () => {
+  it('lists changed tests per category', () => {
+    render(<ComparisonReport comparison={comparison} />)
+
+    const failing = screen.getByRole('region', { name: 'Newly failing' })
+    expect(failing).toHaveTextContent('(1)')
+    expect(failing).toHaveTextContent('cart.spec.ts › applies coupon')
+    expect(failing).toHaveTextContent('Expected 10, received 12')
+    expect(screen.getByRole('region', { name: 'Newly passing' })).toHaveTextContent('None')
+    expect(screen.getByRole('region', { name: 'Added tests' })).toHaveTextContent('removes item')
+  })
+
+  it('shows duration regressions and deltas', () => {
+    render(<ComparisonReport comparison={comparison} />)
+
+    expect(screen.getByRole('region', { name: 'Duration regressions' })).toHaveTextContent('1.2s → 3.4s')
+    expect(screen.getByText('-2.5%')).toBeInTheDocument()
+    expect(screen.getByText('+4s')).toBeInTheDocument()
+    expect(screen.getByText('base-run')).toBeInTheDocument()
+  })
+})
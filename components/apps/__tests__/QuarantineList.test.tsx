@@ -0,0 +1,52 @@
+import { t } from '@/lib/test'
+import { QuarantineList } from '../QuarantineList'
+import type { QuarantineEntry } from '@/lib/types'
+
+const { describe, it, expect, render, screen } = t
+
+const entries: QuarantineEntry[] = [
+  {
+    id: 'q1',
+    appId: 'checkout',
+    suite: 'e2e',
+    project: 'webkit',
+    titlePath: ['webkit', 'cart.spec.ts', 'applies coupon'],
+    owner: 'payments-team',
+    reason: 'Coupon service times out on staging',
+    expiresAt: '2025-02-01T00:00:00.000Z',
+    createdAt: '2025-01-10T00:00:00.000Z',
+  },
+  {
+    id: 'q2',
+    appId: 'checkout',
+    titlePath: ['chromium', 'search.spec.ts', 'suggests products'],
+    owner: 'search-team',
+    reason: 'Animation race',
+    createdAt: '2025-01-12T00:00:00.000Z',
+  },
+]
+
+describe('QuarantineList', () => {
+  it('renders an empty state', () => {
+    render(<QuarantineList entries={[]} />)
+
+    expect(screen.getByText('No tests are quarantined for this app.')).toBeInTheDocument()
+  })
+
+  it('shows owner, reason and scope of each entry', () => {
+    render(<QuarantineList entries={entries} now={new Date('2025-01-15T00:00:00.000Z')} />)
+
+    expect(screen.getByText('webkit › cart.spec.ts › applies coupon')).toBeInTheDocument()
+    expect(screen.getByText('e2e • webkit')).toBeInTheDocument()
+    expect(screen.getByText('All suites')).toBeInTheDocument()
+    expect(screen.getByText('payments-team')).toBeInTheDocument()
+    expect(screen.getByText('Coupon service times out on staging')).toBeInTheDocument()
+    expect(screen.getByText('Never')).toBeInTheDocument()
+  })
+
+  it('flags expired entries', () => {
+    render(<QuarantineList entries={entries} now={new Date('2025-03-01T00:00:00.000Z')} />)
+
+    expect(screen.getByText(/\(expired\)/)).toBeInTheDocument()
+  })
+})
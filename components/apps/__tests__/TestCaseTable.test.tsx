@@ -0,0 +1,84 @@
+import { t } from '@/lib/test'
+import { TestCaseTable } from '../TestCaseTable'
+import type { TestCaseResult } from '@/lib/types'
+
+const { describe, it, expect, render, screen, userEvent } = t
+
+const mockTests: TestCaseResult[] = [
+  {
+    id: 't1',
+    runId: 'run-1',
+    title: 'logs in',
+    titlePath: ['auth.spec.ts', 'Login', 'logs in'],
+    file: 'tests/auth.spec.ts',
+    line: 12,
+    project: 'chromium',
+    status: 'passed',
+    retries: 0,
+    durationMs: 1200,
+    errors: [],
+  },
+  {
+    id: 't2',
+    runId: 'run-1',
+    title: 'shows cart',
+    titlePath: ['cart.spec.ts', 'shows cart'],
+    file: 'tests/cart.spec.ts',
+    project: 'firefox',
+    status: 'failed',
+    retries: 2,
+    durationMs: 800,
+    errors: ['Expected "3" but received "2"'],
+  },
+  {
+    id: 't3',
+    runId: 'run-1',
+    title: 'checks out',
+    titlePath: ['checkout.spec.ts', 'checks out'],
+    status: 'passed',
+    retries: 1,
+    durationMs: 300,
+    errors: [],
+  },
+]
+
+describe('TestCaseTable', () => {
+  it('renders empty state when no tests were reported', () => {
+    render(<TestCaseTable tests={[]} />)
+
+    expect(screen.getByText('No test results were reported for this run.')).toBeInTheDocument()
+  })
+
+  it('shows only failures by default when the run has failing tests', () => {
+    render(<TestCaseTable tests={mockTests} />)
+
+    expect(screen.getByText('1 failing of 3 tests')).toBeInTheDocument()
+    expect(screen.getByText('cart.spec.ts › shows cart')).toBeInTheDocument()
+    expect(screen.getByText('Expected "3" but received "2"')).toBeInTheDocument()
+    expect(screen.queryByText('auth.spec.ts › Login › logs in')).not.toBeInTheDocument()
+  })
+
+  it('shows every test when the failures filter is cleared', async () => {
+    const user = userEvent.setup()
+    render(<TestCaseTable tests={mockTests} />)
+
+    await user.click(screen.getByRole('checkbox', { name: /Failures only/i }))
+
+    expect(screen.getByText('auth.spec.ts › Login › logs in')).toBeInTheDocument()
+    expect(screen.getByText('tests/auth.spec.ts:12')).toBeInTheDocument()
+    expect(screen.getByText('(flaky)')).toBeInTheDocument()
+  })
+
+  it('shows all tests when nothing failed', () => {
+    render(<TestCaseTable tests={[mockTests[0]]} />)
+
+    expect(screen.getByRole('checkbox', { name: /Failures only/i })).not.toBeChecked()
+    expect(screen.getByText('auth.spec.ts › Login › logs in')).toBeInTheDocument()
+  })
+
+  it('marks quarantined failures', () => {
+    render(<TestCaseTable tests={[{ ...mockTests[1], quarantined: true }]} />)
+
+    expect(screen.getByText('(quarantined)')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { WIDGET_TYPES, GRID_COLUMNS, createWidget, dashboardUrl, moveWidget, resizeWidget } from "@/lib/dashboards";
+import type { Dashboard, DashboardLink, DashboardWidget, WidgetType } from "@/lib/dashboards";
+import { widgetRegistry } from "@/components/dashboard/widgets";
+import type { WidgetData } from "@/components/dashboard/widgets";
+
+interface Props {
+  dashboards: Dashboard[];
+  active: Dashboard;
+  data: WidgetData;
+  onSelect: (id: string) => void;
+  /** Receives the whole list after any dashboard was added, renamed, removed or laid out differently. */
+  onChange: (dashboards: Dashboard[]) => void;
+  /** What a link to the dashboard names, so others open this layout and not their own under the same id. */
+  linkTo: (id: string) => DashboardLink;
+}
+
+const chip = "text-xs px-3 py-1 rounded-full border";
+const control = "px-1.5 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40";
+
+export function DashboardGrid({ dashboards, active, data, onSelect, onChange, linkTo }: Props) {
+  const [editing, setEditing] = useState(false);
+  const [dragged, setDragged] = useState<number | null>(null);
+  const [newWidget, setNewWidget] = useState<WidgetType>("kpis");
+  const [copied, setCopied] = useState(false);
+
+  const updateActive = (changes: Partial<Dashboard>) =>
+    onChange(dashboards.map((dashboard) => (dashboard.id === active.id ? { ...dashboard, ...changes } : dashboard)));
+
+  const setWidgets = (widgets: DashboardWidget[]) => updateActive({ widgets });
+
+  const addDashboard = () => {
+    const name = prompt("Name this dashboard");
+    if (!name) {
+      return;
+    }
+    const dashboard: Dashboard = { id: `${Date.now()}`, name, widgets: [] };
+    onChange([...dashboards, dashboard]);
+    onSelect(dashboard.id);
+    setEditing(true);
+  };
+
+  const renameDashboard = () => {
+    const name = prompt("Rename this dashboard", active.name);
+    if (name) {
+      updateActive({ name });
+    }
+  };
+
+  const deleteDashboard = () => {
+    const remaining = dashboards.filter((dashboard) => dashboard.id !== active.id);
+    onChange(remaining);
+    onSelect(remaining[0].id);
+  };
+
+  const shareDashboard = () => {
+    navigator.clipboard
+      ?.writeText(dashboardUrl(window.location.href, linkTo(active.id)).toString())
+      .then(() => setCopied(true))
+      .catch(() => undefined);
+  };
+
+  const dropOn = (index: number) => {
+    if (dragged !== null) {
+      setWidgets(moveWidget(active.widgets, dragged, index));
+    }
+    setDragged(null);
+  };
+
+  return (
+    <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {dashboards.map((dashboard) => (
+          <button
+            key={dashboard.id}
+            type="button"
+            aria-pressed={dashboard.id === active.id}
+            onClick={() => {
+              setCopied(false);
+              onSelect(dashboard.id);
+            }}
+            className={`${chip} ${
+              dashboard.id === active.id
+                ? "bg-slate-100 text-slate-900 border-slate-100"
+                : "border-slate-700 text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {dashboard.name}
+          </button>
+        ))}
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <button type="button" onClick={shareDashboard} className={`${chip} border-slate-600 text-slate-200`}>
+            {copied ? "Link copied" : "Share"}
+          </button>
+          <button
+            type="button"
+            aria-pressed={editing}
+            onClick={() => setEditing((value) => !value)}
+            className={`${chip} border-slate-600 text-slate-200`}
+          >
+            {editing ? "Done" : "Edit layout"}
+          </button>
+        </div>
+      </div>
+      {editing ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <select
+            aria-label="Widget to add"
+            value={newWidget}
+            onChange={(event) => setNewWidget(event.target.value as WidgetType)}
+            className="bg-slate-950/60 border border-slate-800 rounded-lg px-2 py-1 text-slate-100"
+          >
+            {WIDGET_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {widgetRegistry[type].label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setWidgets([...active.widgets, createWidget(newWidget)])}
+            className={`${chip} border-slate-600 text-slate-200`}
+          >
+            Add widget
+          </button>
+          <button type="button" onClick={addDashboard} className={`${chip} border-slate-600 text-slate-200`}>
+            New dashboard
+          </button>
+          <button type="button" onClick={renameDashboard} className={`${chip} border-slate-600 text-slate-200`}>
+            Rename
+          </button>
+          <button
+            type="button"
+            onClick={deleteDashboard}
+            disabled={dashboards.length === 1}
+            className={`${chip} border-slate-600 text-slate-200 disabled:opacity-40`}
+          >
+            Delete dashboard
+          </button>
+          <span>Drag widgets to reorder them.</span>
+        </div>
+      ) : null}
+      {active.widgets.length === 0 ? (
+        <div className="text-slate-400 text-sm border border-dashed border-slate-800 rounded-xl p-6">
+          This dashboard has no widgets yet. Use Edit layout to add some.
+        </div>
+      ) : (
+        <div
+          className="grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`, gridAutoRows: "minmax(8rem, auto)" }}
+        >
+          {active.widgets.map((widget, index) => {
+            const { label, render } = widgetRegistry[widget.type];
+            return (
+              <div
+                key={widget.id}
+                data-testid={`widget-${widget.type}`}
+                draggable={editing}
+                onDragStart={() => setDragged(index)}
+                onDragOver={(event) => {
+                  if (editing) {
+                    event.preventDefault();
+                  }
+                }}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  dropOn(index);
+                }}
+                onDragEnd={() => setDragged(null)}
+                className={`flex flex-col gap-2 min-w-0 ${
+                  editing ? "border border-dashed border-slate-700 rounded-xl p-2 cursor-move" : ""
+                } ${dragged === index ? "opacity-50" : ""}`}
+                style={{ gridColumn: `span ${widget.width} / span ${widget.width}`, gridRow: `span ${widget.height}` }}
+              >
+                {editing ? (
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                    <span className="mr-auto">{label}</span>
+                    <button
+                      type="button"
+                      aria-label={`Move ${label} earlier`}
+                      disabled={index === 0}
+                      onClick={() => setWidgets(moveWidget(active.widgets, index, index - 1))}
+                      className={control}
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Move ${label} later`}
+                      disabled={index === active.widgets.length - 1}
+                      onClick={() => setWidgets(moveWidget(active.widgets, index, index + 1))}
+                      className={control}
+                    >
+                      →
+                    </button>
+                    {(
+                      [
+                        ["Narrower", -1, 0],
+                        ["Wider", 1, 0],
+                        ["Shorter", 0, -1],
+                        ["Taller", 0, 1]
+                      ] as const
+                    ).map(([action, columns, rows]) => (
+                      <button
+                        key={action}
+                        type="button"
+                        aria-label={`${action} ${label}`}
+                        onClick={() =>
+                          setWidgets(
+                            active.widgets.map((entry) =>
+                              entry.id === widget.id ? resizeWidget(entry, columns, rows) : entry
+                            )
+                          )
+                        }
+                        className={control}
+                      >
+                        {action}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${label}`}
+                      onClick={() => setWidgets(active.widgets.filter((entry) => entry.id !== widget.id))}
+                      className={`${control} hover:text-rose-400`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ) : null}
+                <div className="flex-1 min-h-0">{render(data)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
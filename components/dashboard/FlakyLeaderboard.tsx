@@ -0,0 +1,69 @@
+import Link from "next/link";
+import type { FlakyTest } from "@/lib/flaky";
+
+interface Props {
+  tests: FlakyTest[];
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString();
+}
+
+function scoreColor(score: number) {
+  if (score >= 50) {
+    return "text-rose-300";
+  }
+  return score >= 20 ? "text-amber-300" : "text-slate-300";
+}
+
+export function FlakyLeaderboard({ tests }: Props) {
+  return (
+    <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3">
+      <header>
+        <p className="text-xs uppercase tracking-widest text-slate-400">Flaky Tests</p>
+        <p className="text-sm text-slate-400">Tests that passed on retry or both passed and failed on the same commit</p>
+      </header>
+      {tests.length === 0 ? (
+        <p className="text-sm text-slate-500">No flaky tests detected in recent runs.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
+              <th className="py-2">Test</th>
+              <th>Application</th>
+              <th>Score</th>
+              <th>Flaky Runs</th>
+              <th>First Seen</th>
+              <th>Last Seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tests.map((test) => (
+              <tr key={test.key} className="border-b border-slate-900/60 align-top">
+                <td className="py-2 pr-4">
+                  <p className="font-medium">{test.titlePath.join(" › ")}</p>
+                  <p className="text-xs text-slate-500">
+                    {test.suite}
+                    {test.project ? ` • ${test.project}` : ""}
+                  </p>
+                </td>
+                <td>
+                  <Link href={`/apps/${encodeURIComponent(test.appId)}`} className="text-sky-400 hover:text-sky-300">
+                    {test.appId}
+                  </Link>
+                </td>
+                <td className={`font-semibold ${scoreColor(test.score)}`}>{test.score}%</td>
+                <td>
+                  {test.flakyRuns}
+                  <span className="text-slate-500">/{test.runs}</span>
+                </td>
+                <td className="text-slate-400">{formatDate(test.firstSeen)}</td>
+                <td className="text-slate-400">{formatDate(test.lastSeen)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -2,61 +2,38 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-import {
-  ResponsiveContainer,
-  LineChart,
-  Line,
-  CartesianGrid,
-  XAxis,
-  YAxis,
-  Tooltip,
-  Legend,
-  BarChart,
-  Bar
-} from "recharts";
 import type { TestRun } from "@/lib/types";
-import type { DashboardSettings, SavedFilter } from "@/lib/settings";
+import type { DashboardSettings, SavedFilter, SharedDashboard } from "@/lib/settings";
+import type { FlakyTest } from "@/lib/flaky";
+import { MAX_SAVED_FILTERS, dashboardUrl, defaultDashboard } from "@/lib/dashboards";
+import type { Dashboard, DashboardLink } from "@/lib/dashboards";
+import { DashboardGrid } from "@/components/dashboard/DashboardGrid";
+import { StatusSparkline, formatDuration, statusColor, statusLabel } from "@/components/dashboard/widgets";
+import type { RunStats, SuiteInsight, WidgetData } from "@/components/dashboard/widgets";
 
 interface Props {
   initialRuns: TestRun[];
   initialSettings: DashboardSettings;
+  flakyTests?: FlakyTest[];
+  /** Dashboard to open, from the `?dashboard=` link it was shared with; unknown ids open the first one. */
+  initialDashboardId?: string;
+  /** Whose settings these are, named in links to the dashboards; `null` for the team defaults. */
+  owner?: string | null;
+  /** Someone else's dashboard the link added to `initialSettings`. */
+  sharedDashboard?: SharedDashboard;
 }
 
 const statusFilters = [
   { label: "All", value: "all" },
   { label: "Passed", value: "passed" },
   { label: "Failed", value: "failed" },
-  { label: "Unstable", value: "unstable" }
-] as const;
-
-const widgetOptions = [
-  { key: "kpis", label: "KPI Cards" },
-  { key: "timeline", label: "Timeline" },
-  { key: "coverage", label: "Coverage Histogram" },
-  { key: "duration", label: "Duration Histogram" }
+  { label: "Unstable", value: "unstable" },
+  { label: "Skipped", value: "skipped" },
+  { label: "Running", value: "running" }
 ] as const;
 
 type StatusFilter = typeof statusFilters[number]["value"];
 
-const statusColor: Record<TestRun["status"], string> = {
-  passed: "text-emerald-400 border-emerald-500/40",
-  failed: "text-rose-400 border-rose-500/40",
-  unstable: "text-amber-300 border-amber-400/40"
-};
-
-const statusLabel: Record<TestRun["status"], string> = {
-  passed: "Passed",
-  failed: "Failed",
-  unstable: "Unstable"
-};
-
-function formatDuration(ms: number) {
-  const seconds = Math.floor(ms / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const rem = seconds % 60;
-  return `${minutes}m ${rem}s`;
-}
-
 function groupRuns(runs: TestRun[]) {
   return runs.reduce<Record<string, TestRun[]>>((acc, run) => {
     if (!acc[run.appId]) {
@@ -67,7 +44,9 @@ function groupRuns(runs: TestRun[]) {
   }, {});
 }
 
-function computeStats(runs: TestRun[]) {
+function computeStats(allRuns: TestRun[]): RunStats {
+  // Runs still in progress have no outcome yet
+  const runs = allRuns.filter((run) => run.status !== "running");
   const total = runs.length;
   const passed = runs.filter((r) => r.status === "passed").length;
   const failed = runs.filter((r) => r.status === "failed").length;
@@ -88,55 +67,23 @@ function computeStats(runs: TestRun[]) {
   };
 }
 
-interface SuiteInsight {
-  id: string;
-  appId: string;
-  suite: string;
-  total: number;
-  failures: number;
-  flake: number;
-  passRate: number;
-  avgDuration: number;
-  lastRun: string;
-}
-
-function StatusSparkline({ runs }: { runs: TestRun[] }) {
-  const bars = runs.slice(0, 12);
-  if (bars.length === 0) {
-    return <div className="text-slate-500 text-xs">No history</div>;
-  }
-  return (
-    <div className="flex items-end gap-1 h-16">
-      {bars.map((run) => {
-        const pct = run.total ? run.passed / run.total : 0;
-        const height = Math.max(8, Math.round(pct * 64));
-        return (
-          <div
-            key={run.id}
-            className={`flex-1 rounded-sm bg-gradient-to-t ${
-              run.status === "passed"
-                ? "from-emerald-600/20 to-emerald-400/80"
-                : run.status === "unstable"
-                ? "from-amber-600/20 to-amber-400/80"
-                : "from-rose-600/20 to-rose-400/80"
-            }`}
-            style={{ height }}
-            title={`${statusLabel[run.status]} • ${(pct * 100).toFixed(0)}% pass • ${new Date(
-              run.createdAt
-            ).toLocaleString()}`}
-          />
-        );
-      })}
-    </div>
-  );
-}
-
-export function RunDashboard({ initialRuns, initialSettings }: Props) {
+export function RunDashboard({
+  initialRuns,
+  initialSettings,
+  flakyTests = [],
+  initialDashboardId,
+  owner = null,
+  sharedDashboard
+}: Props) {
   const [runs, setRuns] = useState<TestRun[]>(initialRuns);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [environmentFilter, setEnvironmentFilter] = useState("");
   const [suiteFilter, setSuiteFilter] = useState("");
-  const [hiddenWidgets, setHiddenWidgets] = useState<string[]>(initialSettings.hiddenWidgets ?? []);
+  const [dashboards, setDashboards] = useState<Dashboard[]>(
+    initialSettings.dashboards?.length ? initialSettings.dashboards : [defaultDashboard()]
+  );
+  const [activeDashboardId, setActiveDashboardId] = useState(initialDashboardId);
+  const [shared, setShared] = useState(sharedDashboard);
   const [theme, setTheme] = useState(initialSettings.theme ?? "dark");
   const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(initialSettings.savedFilters ?? []);
 
@@ -163,11 +110,21 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
         // ignore
       }
     };
+    const runUpdatedListener = (event: MessageEvent) => {
+      try {
+        const run = JSON.parse(event.data) as TestRun;
+        setRuns((prev) => prev.map((existing) => (existing.id === run.id ? run : existing)));
+      } catch {
+        // ignore
+      }
+    };
     source.addEventListener("bootstrap", bootstrapListener);
     source.addEventListener("run", runListener);
+    source.addEventListener("run.updated", runUpdatedListener);
     return () => {
       source.removeEventListener("bootstrap", bootstrapListener as EventListener);
       source.removeEventListener("run", runListener as EventListener);
+      source.removeEventListener("run.updated", runUpdatedListener as EventListener);
       source.close();
     };
   }, []);
@@ -243,28 +200,6 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
       .slice(0, 5);
   }, [filteredRuns]);
 
-  if (runs.length === 0) {
-    return (
-      <div className="text-slate-400 text-sm border border-dashed border-slate-800 rounded-xl p-6">
-        No test runs yet. POST data to <code className="text-slate-200">/api/runs</code> to populate the dashboard.
-      </div>
-    );
-  }
-
-  const appIds = Object.keys(runsByApp);
-
-  const toggleWidget = (key: string) => {
-    setHiddenWidgets((prev) => {
-      const next = prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key];
-      fetch("/api/settings", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hiddenWidgets: next })
-      }).catch(() => undefined);
-      return next;
-    });
-  };
-
   const coverageHistogram = useMemo(() => {
     const buckets: Record<string, number> = {
       "0-49": 0,
@@ -304,6 +239,46 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
     return Object.entries(buckets).map(([range, count]) => ({ range, count }));
   }, [filteredRuns]);
 
+  if (runs.length === 0) {
+    return (
+      <div className="text-slate-400 text-sm border border-dashed border-slate-800 rounded-xl p-6">
+        No test runs yet. POST data to <code className="text-slate-200">/api/runs</code> to populate the dashboard.
+      </div>
+    );
+  }
+
+  const appIds = Object.keys(runsByApp);
+
+  const activeDashboard = dashboards.find((dashboard) => dashboard.id === activeDashboardId) ?? dashboards[0];
+  const widgetData: WidgetData = {
+    aggregate,
+    timeline: timelineData,
+    coverageHistogram,
+    durationHistogram,
+    hotspots: suiteHotspots,
+    flakyTests,
+    runsByApp
+  };
+
+  // Until the viewer saves a shared dashboard, links to it point at the one they opened
+  const linkTo = (id: string): DashboardLink => (shared?.id === id ? shared : { dashboard: id, owner });
+
+  const selectDashboard = (id: string) => {
+    setActiveDashboardId(id);
+    // Keeps the address bar pointing at the open dashboard, so it can be shared as is
+    window.history.replaceState(null, "", dashboardUrl(window.location.href, linkTo(id)));
+  };
+
+  const saveDashboards = (next: Dashboard[]) => {
+    setDashboards(next);
+    setShared(undefined);
+    fetch("/api/settings", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dashboards: next })
+    }).catch(() => undefined);
+  };
+
   const updateTheme = (value: string) => {
     setTheme(value);
     fetch("/api/settings", {
@@ -332,7 +307,7 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
       environment: environmentFilter || undefined,
       suite: suiteFilter || undefined
     };
-    const next = [newFilter, ...savedFilters].slice(0, 5);
+    const next = [newFilter, ...savedFilters].slice(0, MAX_SAVED_FILTERS);
     setSavedFilters(next);
     fetch("/api/settings", {
       method: "PATCH",
@@ -391,135 +366,14 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
           </select>
         </div>
       </section>
-      <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-4">
-        <div className="flex flex-wrap gap-2 text-xs text-slate-400">
-          {widgetOptions.map((widget) => (
-            <label key={widget.key} className="flex items-center gap-1 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={!hiddenWidgets.includes(widget.key)}
-                onChange={() => toggleWidget(widget.key)}
-              />
-              {widget.label}
-            </label>
-          ))}
-        </div>
-        {!hiddenWidgets.includes("kpis") ? (
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
-              <p className="text-slate-400 text-xs">Total Runs</p>
-              <p className="text-2xl font-semibold">{aggregate.total}</p>
-            </div>
-          <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
-            <p className="text-slate-400 text-xs">Pass Rate</p>
-            <p className="text-2xl font-semibold text-emerald-400">{aggregate.passRate}%</p>
-          </div>
-          <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
-            <p className="text-slate-400 text-xs">Avg Duration</p>
-            <p className="text-xl font-semibold">{formatDuration(Math.round(aggregate.avgDuration))}</p>
-          </div>
-          <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
-            <p className="text-slate-400 text-xs">Avg Coverage</p>
-            <p className="text-xl font-semibold">
-              {typeof aggregate.avgCoverage === "number" ? `${aggregate.avgCoverage.toFixed(1)}%` : "n/a"}
-            </p>
-          </div>
-          </div>
-        ) : null}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-          {!hiddenWidgets.includes("timeline") ? (
-            <div>
-              <p className="text-slate-400 text-xs mb-2">Run Timeline</p>
-              <div className="h-64 bg-slate-950/50 border border-slate-900 rounded-xl p-2">
-              {timelineData.length === 0 ? (
-                <div className="text-slate-500 text-sm flex items-center justify-center h-full">No data</div>
-              ) : (
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={timelineData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                    <XAxis dataKey="timestamp" stroke="#475569" />
-                    <YAxis yAxisId="left" stroke="#475569" />
-                    <YAxis yAxisId="right" orientation="right" stroke="#475569" />
-                    <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b" }} />
-                    <Legend />
-                    <Line type="monotone" dataKey="coverage" name="Coverage %" stroke="#34d399" yAxisId="left" dot={false} />
-                    <Line type="monotone" dataKey="duration" name="Duration (min)" stroke="#60a5fa" yAxisId="right" dot={false} />
-                  </LineChart>
-                </ResponsiveContainer>
-              )}
-              </div>
-            </div>
-          ) : null}
-          {!hiddenWidgets.includes("coverage") ? (
-            <div>
-              <p className="text-slate-400 text-xs mb-2">Coverage Distribution</p>
-              <div className="h-64 bg-slate-950/50 border border-slate-900 rounded-xl p-2">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={coverageHistogram}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                  <XAxis dataKey="range" stroke="#475569" />
-                  <YAxis allowDecimals={false} stroke="#475569" />
-                  <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b" }} />
-                  <Bar dataKey="count" fill="#38bdf8" name="Runs" />
-                </BarChart>
-              </ResponsiveContainer>
-              </div>
-            </div>
-          ) : null}
-          {!hiddenWidgets.includes("duration") ? (
-            <div>
-              <p className="text-slate-400 text-xs mb-2">Duration Distribution</p>
-              <div className="h-64 bg-slate-950/50 border border-slate-900 rounded-xl p-2">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={durationHistogram}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                  <XAxis dataKey="range" stroke="#475569" />
-                  <YAxis allowDecimals={false} stroke="#475569" />
-                  <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b" }} />
-                  <Bar dataKey="count" fill="#f472b6" name="Runs" />
-                </BarChart>
-              </ResponsiveContainer>
-              </div>
-            </div>
-          ) : null}
-          </div>
-      </section>
-      {suiteHotspots.length > 0 ? (
-        <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3">
-          <header className="flex items-center justify-between">
-            <div>
-              <p className="text-xs uppercase tracking-widest text-slate-400">Failure Hotspots</p>
-              <p className="text-sm text-slate-400">Top suites by failed + flaky runs</p>
-            </div>
-          </header>
-          <table className="w-full text-sm text-left">
-            <thead>
-              <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
-                <th className="py-2">Application</th>
-                <th>Suite</th>
-                <th>Failures</th>
-                <th>Flaky</th>
-                <th>Pass Rate</th>
-                <th>Avg Duration</th>
-                <th>Last Run</th>
-              </tr>
-            </thead>
-            <tbody>
-              {suiteHotspots.map((entry) => (
-                <tr key={entry.id} className="border-b border-slate-900/60">
-                  <td className="py-2">{entry.appId}</td>
-                  <td>{entry.suite}</td>
-                  <td className="text-rose-300 font-semibold">{entry.failures}</td>
-                  <td className="text-amber-300 font-semibold">{entry.flake}</td>
-                  <td>{entry.passRate}%</td>
-                  <td>{formatDuration(Math.round(entry.avgDuration))}</td>
-                  <td className="text-slate-400">{new Date(entry.lastRun).toLocaleString()}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </section>
-      ) : null}
+      <DashboardGrid
+        dashboards={dashboards}
+        active={activeDashboard}
+        data={widgetData}
+        onSelect={selectDashboard}
+        onChange={saveDashboards}
+        linkTo={linkTo}
+      />
       <div className="flex flex-wrap gap-4 items-center justify-between bg-slate-900/40 border border-slate-800 rounded-2xl p-4">
         <div className="flex flex-wrap gap-2">
           {statusFilters.map((filter) => (
@@ -649,6 +503,11 @@ export function RunDashboard({ initialRuns, initialSettings }: Props) {
                     <td>
                       <span className="text-emerald-400 font-semibold">{run.passed}</span>
                       <span className="text-slate-500">/{run.total}</span>
+                      {run.status === "running" ? (
+                        <span className="ml-2 text-xs text-sky-300">
+                          running{run.planned ? ` · ${run.total} of ${run.planned}` : ""}
+                        </span>
+                      ) : null}
                     </td>
                     <td>{formatDuration(run.durationMs)}</td>
                     <td>{typeof run.coverage === "number" ? `${run.coverage.toFixed(1)}%` : "—"}</td>
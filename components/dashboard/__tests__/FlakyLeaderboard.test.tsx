@@ -0,0 +1,47 @@
+import { t } from '@/lib/test'
+import { FlakyLeaderboard } from '../FlakyLeaderboard'
+import type { FlakyTest } from '@/lib/flaky'
+
+const { describe, it, expect, render, screen } = t
+
+const flakyTest: FlakyTest = {
+  key: 'checkout|e2e|chromium|cart › applies coupon',
+  appId: 'checkout',
+  suite: 'e2e',
+  title: 'applies coupon',
+  titlePath: ['cart', 'applies coupon'],
+  project: 'chromium',
+  runs: 8,
+  flakyRuns: 3,
+  retryPasses: 2,
+  conflicts: 1,
+  score: 37.5,
+  firstSeen: '2025-01-10T10:00:00Z',
+  lastSeen: '2025-01-15T10:00:00Z',
+  lastStatus: 'passed',
+}
+
+describe('FlakyLeaderboard', () => {
+  it('renders an empty state', () => {
+    render(<FlakyLeaderboard tests={[]} />)
+
+    expect(screen.getByText('No flaky tests detected in recent runs.')).toBeInTheDocument()
+  })
+
+  it('lists tests with score, flaky run count and seen dates', () => {
+    render(<FlakyLeaderboard tests={[flakyTest]} />)
+
+    expect(screen.getByText('cart › applies coupon')).toBeInTheDocument()
+    expect(screen.getByText('e2e • chromium')).toBeInTheDocument()
+    expect(screen.getByText('37.5%')).toBeInTheDocument()
+    expect(screen.getByText('/8')).toBeInTheDocument()
+    expect(screen.getByText(new Date(flakyTest.firstSeen).toLocaleDateString())).toBeInTheDocument()
+    expect(screen.getByText(new Date(flakyTest.lastSeen).toLocaleDateString())).toBeInTheDocument()
+  })
+
+  it('links to the application page', () => {
+    render(<FlakyLeaderboard tests={[flakyTest]} />)
+
+    expect(screen.getByRole('link', { name: 'checkout' })).toHaveAttribute('href', '/apps/checkout')
+  })
+})
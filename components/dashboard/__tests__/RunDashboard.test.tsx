@@ -2,6 +2,7 @@ import { t } from '@/lib/test'
 import { RunDashboard } from '../RunDashboard'
 import type { TestRun } from '@/lib/types'
 import type { DashboardSettings } from '@/lib/settings'
+import { defaultDashboard } from '@/lib/dashboards'
 
 const { describe, it, expect, vi, beforeEach, afterEach, render, screen, userEvent } = t
 
@@ -107,7 +108,7 @@ const mockRuns: TestRun[] = [
 ]
 
 const defaultSettings: DashboardSettings = {
-  hiddenWidgets: [],
+  dashboards: [defaultDashboard()],
   theme: 'dark',
   savedFilters: [],
 }
@@ -239,10 +240,10 @@ describe('RunDashboard', () => {
       expect(screen.getByText('Duration Distribution')).toBeInTheDocument()
     })
 
-    it('hides widgets based on settings', () => {
+    it('shows only the widgets of the dashboard', () => {
       const settingsWithHidden: DashboardSettings = {
         ...defaultSettings,
-        hiddenWidgets: ['kpis', 'timeline'],
+        dashboards: [defaultDashboard(['kpis', 'timeline'])],
       }
       render(<RunDashboard initialRuns={mockRuns} initialSettings={settingsWithHidden} />)
 
@@ -251,25 +252,144 @@ describe('RunDashboard', () => {
       expect(screen.getByText('Coverage Distribution')).toBeInTheDocument()
     })
 
-    it('toggles widget visibility and persists to API', async () => {
+    it('shows the flaky test leaderboard unless removed', () => {
+      const { unmount } = render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
+      expect(screen.getByText('Flaky Tests', { selector: 'p' })).toBeInTheDocument()
+      unmount()
+
+      render(
+        <RunDashboard initialRuns={mockRuns} initialSettings={{ ...defaultSettings, dashboards: [defaultDashboard(['flaky'])] }} />
+      )
+      expect(screen.queryByText('Flaky Tests', { selector: 'p' })).not.toBeInTheDocument()
+    })
+
+    it('removes a widget while editing and persists the layout', async () => {
       const user = userEvent.setup()
       const fetchMock = vi.fn().mockResolvedValue({ ok: true })
       vi.stubGlobal('fetch', fetchMock)
 
       render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
 
-      // Find and click the KPI Cards checkbox
-      const kpiCheckbox = screen.getByRole('checkbox', { name: /KPI Cards/i })
-      await user.click(kpiCheckbox)
+      await user.click(screen.getByRole('button', { name: 'Edit layout' }))
+      await user.click(screen.getByRole('button', { name: 'Remove KPI Cards' }))
 
-      // KPI cards should be hidden
       expect(screen.queryByText('Total Runs')).not.toBeInTheDocument()
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+      expect(body.dashboards[0].widgets.map((widget: { type: string }) => widget.type)).not.toContain('kpis')
+    })
+  })
 
-      // Should call API to persist
-      expect(fetchMock).toHaveBeenCalledWith('/api/settings', expect.objectContaining({
-        method: 'PATCH',
-        body: expect.stringContaining('hiddenWidgets'),
-      }))
+  describe('Dashboard layouts', () => {
+    const widgetOrder = () =>
+      screen.getAllByTestId(/^widget-/).map((element) => element.getAttribute('data-testid'))
+
+    it('adds widgets from the registry', async () => {
+      const user = userEvent.setup()
+      render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
+
+      await user.click(screen.getByRole('button', { name: 'Edit layout' }))
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Widget to add' }), 'appTrends')
+      await user.click(screen.getByRole('button', { name: 'Add widget' }))
+
+      expect(screen.getByText('App Trends', { selector: 'p' })).toBeInTheDocument()
+      expect(widgetOrder().at(-1)).toBe('widget-appTrends')
+    })
+
+    it('reorders and resizes widgets', async () => {
+      const user = userEvent.setup()
+      render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
+
+      await user.click(screen.getByRole('button', { name: 'Edit layout' }))
+      await user.click(screen.getByRole('button', { name: 'Move Timeline earlier' }))
+      expect(widgetOrder().slice(0, 2)).toEqual(['widget-timeline', 'widget-kpis'])
+
+      await user.click(screen.getByRole('button', { name: 'Wider Timeline' }))
+      await user.click(screen.getByRole('button', { name: 'Taller Timeline' }))
+      expect(screen.getByTestId('widget-timeline').style.gridColumn).toBe('span 5 / span 5')
+      expect(screen.getByTestId('widget-timeline').style.gridRow).toBe('span 3')
+
+      // KPI cards already span the whole grid
+      await user.click(screen.getByRole('button', { name: 'Wider KPI Cards' }))
+      expect(screen.getByTestId('widget-kpis').style.gridColumn).toBe('span 12 / span 12')
+    })
+
+    it('opens the dashboard named in the link and switches between dashboards', async () => {
+      const user = userEvent.setup()
+      const settings: DashboardSettings = {
+        ...defaultSettings,
+        dashboards: [
+          defaultDashboard(),
+          { id: 'flaky-watch', name: 'Flaky watch', widgets: [{ id: 'f', type: 'flaky', width: 12, height: 2 }] },
+        ],
+      }
+      render(<RunDashboard initialRuns={mockRuns} initialSettings={settings} initialDashboardId="flaky-watch" />)
+
+      expect(widgetOrder()).toEqual(['widget-flaky'])
+      expect(screen.getByRole('button', { name: 'Flaky watch' })).toHaveAttribute('aria-pressed', 'true')
+
+      await user.click(screen.getByRole('button', { name: 'Overview' }))
+      expect(screen.getByText('Total Runs')).toBeInTheDocument()
+      expect(window.location.search).toBe('?dashboard=default')
+    })
+
+    it('copies a link to the open dashboard', async () => {
+      const user = userEvent.setup()
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } })
+
+      render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
+      await user.click(screen.getByRole('button', { name: 'Share' }))
+
+      expect(writeText).toHaveBeenCalledWith(expect.stringContaining('?dashboard=default'))
+      expect(await screen.findByRole('button', { name: 'Link copied' })).toBeInTheDocument()
+    })
+
+    it('links a shared dashboard to its owner until it is saved', async () => {
+      const user = userEvent.setup()
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } })
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true }))
+      const settings: DashboardSettings = {
+        ...defaultSettings,
+        dashboards: [defaultDashboard(), { ...defaultDashboard(['flaky']), id: 'default-1', name: 'Shared overview' }],
+      }
+      render(
+        <RunDashboard
+          initialRuns={mockRuns}
+          initialSettings={settings}
+          initialDashboardId="default-1"
+          owner="key:bob"
+          sharedDashboard={{ id: 'default-1', dashboard: 'default', owner: 'key:alice' }}
+        />
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Share' }))
+      expect(writeText).toHaveBeenLastCalledWith(expect.stringContaining('?dashboard=default&owner=key%3Aalice'))
+      await user.click(screen.getByRole('button', { name: 'Overview' }))
+      expect(window.location.search).toBe('?dashboard=default&owner=key%3Abob')
+
+      await user.click(screen.getByRole('button', { name: 'Edit layout' }))
+      await user.click(screen.getByRole('button', { name: 'Remove KPI Cards' }))
+      await user.click(screen.getByRole('button', { name: 'Shared overview' }))
+      expect(window.location.search).toBe('?dashboard=default-1&owner=key%3Abob')
+    })
+
+    it('creates named dashboards', async () => {
+      const user = userEvent.setup()
+      const fetchMock = vi.fn<typeof fetch>().mockResolvedValue({ ok: true } as Response)
+      vi.stubGlobal('fetch', fetchMock)
+      vi.stubGlobal('prompt', vi.fn().mockReturnValue('Release'))
+
+      render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
+      await user.click(screen.getByRole('button', { name: 'Edit layout' }))
+      await user.click(screen.getByRole('button', { name: 'New dashboard' }))
+
+      expect(screen.getByRole('button', { name: 'Release' })).toHaveAttribute('aria-pressed', 'true')
+      expect(screen.getByText(/This dashboard has no widgets yet/)).toBeInTheDocument()
+      const init = fetchMock.mock.lastCall?.[1]
+      expect(typeof init?.body).toBe('string')
+      const body = JSON.parse(init?.body as string)
+      expect(body.dashboards.map((dashboard: { name: string }) => dashboard.name)).toEqual(['Overview', 'Release'])
     })
   })
 
@@ -452,7 +572,7 @@ describe('RunDashboard', () => {
       expect(MockEventSource.instances[0].url).toBe('/api/events')
     })
 
-    it('registers event listeners for bootstrap and run events', () => {
+    it('registers event listeners for bootstrap, run and run.updated events', () => {
       render(<RunDashboard initialRuns={mockRuns} initialSettings={defaultSettings} />)
 
       const instance = MockEventSource.instances[0]
@@ -460,6 +580,8 @@ describe('RunDashboard', () => {
       expect(instance.listeners['bootstrap'].length).toBe(1)
       expect(instance.listeners['run']).toBeDefined()
       expect(instance.listeners['run'].length).toBe(1)
+      expect(instance.listeners['run.updated']).toBeDefined()
+      expect(instance.listeners['run.updated'].length).toBe(1)
     })
 
     it('does not duplicate runs with same id when run event received', () => {
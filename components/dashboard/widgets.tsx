@@ -0,0 +1,287 @@
+import type { ReactNode } from "react";
+import Link from "next/link";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  BarChart,
+  Bar
+} from "recharts";
+import type { TestRun } from "@/lib/types";
+import type { FlakyTest } from "@/lib/flaky";
+import type { WidgetType } from "@/lib/dashboards";
+import { FlakyLeaderboard } from "@/components/dashboard/FlakyLeaderboard";
+
+export const statusColor: Record<TestRun["status"], string> = {
+  passed: "text-emerald-400 border-emerald-500/40",
+  failed: "text-rose-400 border-rose-500/40",
+  unstable: "text-amber-300 border-amber-400/40",
+  skipped: "text-slate-400 border-slate-600/40",
+  running: "text-sky-300 border-sky-400/40"
+};
+
+export const statusLabel: Record<TestRun["status"], string> = {
+  passed: "Passed",
+  failed: "Failed",
+  unstable: "Unstable",
+  skipped: "Skipped",
+  running: "Running"
+};
+
+export function formatDuration(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const rem = seconds % 60;
+  return `${minutes}m ${rem}s`;
+}
+
+export interface RunStats {
+  total: number;
+  passed: number;
+  failed: number;
+  unstable: number;
+  passRate: number;
+  avgDuration: number;
+  avgCoverage: number | null;
+}
+
+export interface SuiteInsight {
+  id: string;
+  appId: string;
+  suite: string;
+  total: number;
+  failures: number;
+  flake: number;
+  passRate: number;
+  avgDuration: number;
+  lastRun: string;
+}
+
+export interface TimelinePoint {
+  timestamp: string;
+  coverage: number | null;
+  duration: number;
+  passed: number;
+  failed: number;
+}
+
+export interface HistogramBucket {
+  range: string;
+  count: number;
+}
+
+/** Everything widgets render, derived once from the filtered runs. */
+export interface WidgetData {
+  aggregate: RunStats;
+  timeline: TimelinePoint[];
+  coverageHistogram: HistogramBucket[];
+  durationHistogram: HistogramBucket[];
+  hotspots: SuiteInsight[];
+  flakyTests: FlakyTest[];
+  runsByApp: Record<string, TestRun[]>;
+}
+
+export function StatusSparkline({ runs }: { runs: TestRun[] }) {
+  const bars = runs.slice(0, 12);
+  if (bars.length === 0) {
+    return <div className="text-slate-500 text-xs">No history</div>;
+  }
+  return (
+    <div className="flex items-end gap-1 h-16">
+      {bars.map((run) => {
+        const pct = run.total ? run.passed / run.total : 0;
+        const height = Math.max(8, Math.round(pct * 64));
+        return (
+          <div
+            key={run.id}
+            className={`flex-1 rounded-sm bg-gradient-to-t ${
+              run.status === "passed"
+                ? "from-emerald-600/20 to-emerald-400/80"
+                : run.status === "unstable"
+                ? "from-amber-600/20 to-amber-400/80"
+                : run.status === "skipped"
+                ? "from-slate-600/20 to-slate-400/80"
+                : run.status === "running"
+                ? "from-sky-600/20 to-sky-400/80"
+                : "from-rose-600/20 to-rose-400/80"
+            }`}
+            style={{ height }}
+            title={`${statusLabel[run.status]} • ${(pct * 100).toFixed(0)}% pass • ${new Date(
+              run.createdAt
+            ).toLocaleString()}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function KpiCards({ aggregate }: WidgetData) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 h-full">
+      <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
+        <p className="text-slate-400 text-xs">Total Runs</p>
+        <p className="text-2xl font-semibold">{aggregate.total}</p>
+      </div>
+      <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
+        <p className="text-slate-400 text-xs">Pass Rate</p>
+        <p className="text-2xl font-semibold text-emerald-400">{aggregate.passRate}%</p>
+      </div>
+      <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
+        <p className="text-slate-400 text-xs">Avg Duration</p>
+        <p className="text-xl font-semibold">{formatDuration(Math.round(aggregate.avgDuration))}</p>
+      </div>
+      <div className="bg-slate-950/40 border border-slate-900 rounded-xl p-4">
+        <p className="text-slate-400 text-xs">Avg Coverage</p>
+        <p className="text-xl font-semibold">
+          {typeof aggregate.avgCoverage === "number" ? `${aggregate.avgCoverage.toFixed(1)}%` : "n/a"}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Titled box whose chart fills the height the widget was given. */
+function ChartPanel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-col h-full">
+      <p className="text-slate-400 text-xs mb-2">{title}</p>
+      <div className="flex-1 min-h-0 bg-slate-950/50 border border-slate-900 rounded-xl p-2">{children}</div>
+    </div>
+  );
+}
+
+function Timeline({ timeline }: WidgetData) {
+  return (
+    <ChartPanel title="Run Timeline">
+      {timeline.length === 0 ? (
+        <div className="text-slate-500 text-sm flex items-center justify-center h-full">No data</div>
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={timeline} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="timestamp" stroke="#475569" />
+            <YAxis yAxisId="left" stroke="#475569" />
+            <YAxis yAxisId="right" orientation="right" stroke="#475569" />
+            <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b" }} />
+            <Legend />
+            <Line type="monotone" dataKey="coverage" name="Coverage %" stroke="#34d399" yAxisId="left" dot={false} />
+            <Line type="monotone" dataKey="duration" name="Duration (min)" stroke="#60a5fa" yAxisId="right" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </ChartPanel>
+  );
+}
+
+function Histogram({ title, data, fill }: { title: string; data: HistogramBucket[]; fill: string }) {
+  return (
+    <ChartPanel title={title}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+          <XAxis dataKey="range" stroke="#475569" />
+          <YAxis allowDecimals={false} stroke="#475569" />
+          <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b" }} />
+          <Bar dataKey="count" fill={fill} name="Runs" />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartPanel>
+  );
+}
+
+function Hotspots({ hotspots }: WidgetData) {
+  return (
+    <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3 h-full">
+      <header className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-widest text-slate-400">Failure Hotspots</p>
+          <p className="text-sm text-slate-400">Top suites by failed + flaky runs</p>
+        </div>
+      </header>
+      {hotspots.length === 0 ? (
+        <p className="text-sm text-slate-500">No failed or flaky runs in the selected runs.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="text-slate-400 text-xs uppercase border-b border-slate-800">
+              <th className="py-2">Application</th>
+              <th>Suite</th>
+              <th>Failures</th>
+              <th>Flaky</th>
+              <th>Pass Rate</th>
+              <th>Avg Duration</th>
+              <th>Last Run</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hotspots.map((entry) => (
+              <tr key={entry.id} className="border-b border-slate-900/60">
+                <td className="py-2">{entry.appId}</td>
+                <td>{entry.suite}</td>
+                <td className="text-rose-300 font-semibold">{entry.failures}</td>
+                <td className="text-amber-300 font-semibold">{entry.flake}</td>
+                <td>{entry.passRate}%</td>
+                <td>{formatDuration(Math.round(entry.avgDuration))}</td>
+                <td className="text-slate-400">{new Date(entry.lastRun).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function AppTrends({ runsByApp }: WidgetData) {
+  const appIds = Object.keys(runsByApp);
+  return (
+    <section className="bg-slate-900/40 border border-slate-800 rounded-2xl p-5 space-y-3 h-full">
+      <p className="text-xs uppercase tracking-widest text-slate-400">App Trends</p>
+      {appIds.length === 0 ? (
+        <p className="text-sm text-slate-500">No runs match the selected filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {appIds.map((appId) => (
+            <div key={appId} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{appId}</span>
+                <span className={`text-xs ${statusColor[runsByApp[appId][0].status]}`}>
+                  {statusLabel[runsByApp[appId][0].status]}
+                </span>
+              </div>
+              <StatusSparkline runs={runsByApp[appId]} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export interface WidgetDefinition {
+  label: string;
+  render: (data: WidgetData) => ReactNode;
+}
+
+/** Every widget a dashboard can hold; `DashboardWidget.type` picks one. */
+export const widgetRegistry: Record<WidgetType, WidgetDefinition> = {
+  kpis: { label: "KPI Cards", render: (data) => <KpiCards {...data} /> },
+  timeline: { label: "Timeline", render: (data) => <Timeline {...data} /> },
+  coverage: {
+    label: "Coverage Histogram",
+    render: (data) => <Histogram title="Coverage Distribution" data={data.coverageHistogram} fill="#38bdf8" />
+  },
+  duration: {
+    label: "Duration Histogram",
+    render: (data) => <Histogram title="Duration Distribution" data={data.durationHistogram} fill="#f472b6" />
+  },
+  hotspots: { label: "Failure Hotspots", render: (data) => <Hotspots {...data} /> },
+  flaky: { label: "Flaky Tests", render: (data) => <FlakyLeaderboard tests={data.flakyTests} /> },
+  appTrends: { label: "App Trends", render: (data) => <AppTrends {...data} /> }
+};
@@ -0,0 +1,8 @@
+/** Runs once when a Next.js server instance starts. */
+export async function register() {
+  // The edge runtime has no storage drivers to read from
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startStaleRunCheck } = await import("@/lib/dataStore");
+    await startStaleRunCheck();
+  }
+}
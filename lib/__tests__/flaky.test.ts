@@ -0,0 +1,135 @@
+import { t } from '@/lib/test'
+import { analyzeFlakiness, flakyTestKey, getFlakyTests } from '@/lib/flaky'
+import type { TestCaseResult, TestCaseStatus, TestRun } from '@/lib/types'
+
+const { describe, it, expect } = t
+
+const at = (day: number) => new Date(Date.UTC(2025, 0, day)).toISOString()
+
+function makeRun(id: string, day: number, overrides: Partial<TestRun> = {}): TestRun {
+  return {
+    id,
+    appId: 'shop',
+    suite: 'e2e',
+    environment: 'ci',
+    status: 'passed',
+    total: 1,
+    passed: 1,
+    failed: 0,
+    durationMs: 100,
+    createdAt: at(day),
+    ...overrides,
+  }
+}
+
+function makeTest(runId: string, status: TestCaseStatus, retries = 0, overrides: Partial<TestCaseResult> = {}): TestCaseResult {
+  return {
+    id: `${runId}-test`,
+    runId,
+    title: 'checks out',
+    titlePath: ['cart.spec.ts', 'checks out'],
+    status,
+    retries,
+    durationMs: 10,
+    errors: [],
+    ...overrides,
+  }
+}
+
+describe('flakyTestKey', () => {
+  it('identifies a test by app, suite, project and title path', () => {
+    const run = makeRun('r1', 1)
+    const key = flakyTestKey(run, makeTest('r1', 'passed', 0, { project: 'chromium' }))
+
+    expect(key).toBe('shop|e2e|chromium|cart.spec.ts › checks out')
+    expect(flakyTestKey(run, makeTest('r1', 'passed'))).not.toBe(key)
+    expect(flakyTestKey({ ...run, suite: 'smoke' }, makeTest('r1', 'passed', 0, { project: 'chromium' }))).not.toBe(key)
+  })
+})
+
+describe('analyzeFlakiness', () => {
+  it('counts passes after a retry as flaky', () => {
+    const runs = [makeRun('r1', 1), makeRun('r2', 2), makeRun('r3', 3), makeRun('r4', 4)]
+    const [test] = analyzeFlakiness(runs, {
+      r1: [makeTest('r1', 'passed')],
+      r2: [makeTest('r2', 'passed', 1)],
+      r3: [makeTest('r3', 'passed')],
+      r4: [makeTest('r4', 'passed', 2)],
+    })
+
+    expect(test).toMatchObject({ runs: 4, flakyRuns: 2, retryPasses: 2, conflicts: 0, score: 50, firstSeen: at(2), lastSeen: at(4) })
+  })
+
+  it('leaves out tests that only ever passed first time or only ever failed', () => {
+    const runs = [makeRun('r1', 1, { commit: 'abc' }), makeRun('r2', 2, { commit: 'abc' })]
+
+    expect(analyzeFlakiness(runs, { r1: [makeTest('r1', 'passed')], r2: [makeTest('r2', 'passed')] })).toEqual([])
+    expect(analyzeFlakiness(runs, { r1: [makeTest('r1', 'failed')], r2: [makeTest('r2', 'timedOut')] })).toEqual([])
+  })
+
+  it('flags failures on a commit where the same test also passed', () => {
+    const runs = [
+      makeRun('r1', 1, { commit: 'abc' }),
+      makeRun('r2', 2, { commit: 'abc' }),
+      makeRun('r3', 3, { commit: 'def' }),
+      makeRun('r4', 4, { commit: 'ghi' }),
+    ]
+    const [test] = analyzeFlakiness(runs, {
+      r1: [makeTest('r1', 'passed')],
+      r2: [makeTest('r2', 'timedOut')],
+      // Failing on a different commit is a regression, not flakiness
+      r3: [makeTest('r3', 'failed')],
+      r4: [makeTest('r4', 'passed')],
+    })
+
+    expect(test).toMatchObject({ runs: 4, flakyRuns: 1, retryPasses: 0, conflicts: 1, score: 25, lastStatus: 'passed' })
+  })
+
+  it('falls back to the branch for runs without a commit', () => {
+    const runs = [makeRun('r1', 1, { branch: 'main' }), makeRun('r2', 2, { branch: 'main' }), makeRun('r3', 3), makeRun('r4', 4)]
+    const [test] = analyzeFlakiness(runs, {
+      r1: [makeTest('r1', 'failed')],
+      r2: [makeTest('r2', 'passed')],
+      // Runs with neither are never compared
+      r3: [makeTest('r3', 'failed')],
+      r4: [makeTest('r4', 'passed')],
+    })
+
+    expect(test).toMatchObject({ flakyRuns: 1, conflicts: 1, firstSeen: at(1), lastSeen: at(1) })
+  })
+
+  it('ignores skipped runs and sorts the flakiest tests first', () => {
+    const runs = [makeRun('r1', 1), makeRun('r2', 2)]
+    const other = { id: 'other', title: 'pays', titlePath: ['cart.spec.ts', 'pays'] }
+    const tests = analyzeFlakiness(runs, {
+      r1: [makeTest('r1', 'skipped'), makeTest('r1', 'passed', 1, other)],
+      r2: [makeTest('r2', 'passed', 1), makeTest('r2', 'passed', 0, other)],
+    })
+
+    expect(tests.map((test) => [test.title, test.runs, test.score])).toEqual([
+      ['checks out', 1, 100],
+      ['pays', 2, 50],
+    ])
+  })
+})
+
+describe('getFlakyTests', () => {
+  it('analyzes only the most recent runs of the window and applies the run threshold', async () => {
+    const { addRun, addTests } = await import('@/lib/dataStore')
+    const base = { appId: 'window', suite: 'e2e', environment: 'ci', status: 'passed' as const, total: 1, passed: 1, failed: 0, durationMs: 10 }
+    // Oldest first: the retry pass lands outside a window of two
+    for (const retries of [1, 0, 0]) {
+      const run = await addRun(base)
+      await addTests(run.id, [{ title: 'checks out', titlePath: ['checks out'], status: 'passed', retries, durationMs: 10 }])
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+
+    expect(await getFlakyTests({ appId: 'window', window: 2, limit: 10 })).toEqual({ analyzedRuns: 2, tests: [] })
+    const all = await getFlakyTests({ appId: 'window', window: 3, limit: 10 })
+    expect(all.analyzedRuns).toBe(3)
+    expect(all.tests).toHaveLength(1)
+    expect(all.tests[0]).toMatchObject({ runs: 3, flakyRuns: 1, score: 33.3 })
+    expect((await getFlakyTests({ appId: 'window', window: 3, limit: 10, minRuns: 4 })).tests).toEqual([])
+    expect((await getFlakyTests({ appId: 'window', window: 3, limit: 0 })).tests).toEqual([])
+  })
+})
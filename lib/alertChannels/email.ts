@@ -0,0 +1,32 @@
+import { summarizeAlert } from "@/lib/alertChannels/format";
+import { smtpFrom, smtpUrl } from "@/lib/config";
+import { sendMail } from "@/lib/smtp";
+import { registerAlertChannel } from "@/lib/spi/alertChannels";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+
+const isAddressList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === "string" && /^[^\s@<>]+@[^\s@<>]+$/.test(entry));
+
+export function alertMail(notification: AlertNotification, to: string[]) {
+  const summary = summarizeAlert(notification);
+  const width = Math.max(...summary.facts.map(([label]) => label.length));
+  const lines = [
+    summary.message,
+    "",
+    ...summary.facts.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`),
+    ...(summary.url ? ["", summary.url] : [])
+  ];
+  return { from: smtpFrom, to, subject: summary.text, text: lines.join("\n") };
+}
+
+registerAlertChannel({
+  type: "email",
+  validate: (config) => (isAddressList(config.to) ? [] : [["to", "must be a non-empty array of email addresses"]]),
+  describe: (config) => (Array.isArray(config.to) ? config.to.join(", ") : ""),
+  send: async (notification, config) => {
+    if (!smtpUrl) {
+      throw new Error("UXQA_SMTP_URL is not set");
+    }
+    await sendMail(smtpUrl, alertMail(notification, config.to as string[]));
+  }
+});
@@ -0,0 +1,57 @@
+import { publicUrl } from "@/lib/config";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+
+export interface AlertSummary {
+  /** One line for chat previews, mail subjects and plain webhooks. */
+  text: string;
+  title: string;
+  message: string;
+  /** Label and value pairs describing the run. */
+  facts: Array<[string, string]>;
+  /** App page on the hub when `UXQA_PUBLIC_URL` is set, otherwise the run's artifact URL. */
+  url?: string;
+}
+
+export function summarizeAlert({ rule, alert, run }: AlertNotification): AlertSummary {
+  const facts: Array<[string, string | undefined]> = [
+    ["App", run.appId],
+    ["Suite", run.suite],
+    ["Environment", run.environment],
+    ["Run status", run.status],
+    ["Passed", `${run.passed}/${run.total}`],
+    ["Coverage", typeof run.coverage === "number" ? `${run.coverage}%` : undefined],
+    ["Duration", `${Math.round(run.durationMs / 1000)}s`],
+    ["Branch", run.branch],
+    ["Commit", run.commit?.slice(0, 12)]
+  ];
+  return {
+    text: `[${alert.status.toUpperCase()}] ${rule.name}: ${run.appId} (${run.suite}, ${run.environment}) - ${alert.message}`,
+    title: `${alert.status === "firing" ? "Firing" : "Resolved"}: ${rule.name}`,
+    message: alert.message,
+    facts: facts.filter((fact): fact is [string, string] => Boolean(fact[1])),
+    url: publicUrl ? `${publicUrl}/apps/${encodeURIComponent(run.appId)}` : run.artifactUrl
+  };
+}
+
+/** POSTs JSON and rejects on transport errors and non-2xx answers, so the delivery is retried. */
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    signal: AbortSignal.timeout(10_000)
+  });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} answered ${response.status}`);
+  }
+}
+
+export const isHttpUrl = (value: unknown): value is string => typeof value === "string" && /^https?:\/\/\S+$/.test(value);
+
+/** Host of a webhook URL; paths of chat webhooks carry their secret. */
+export const webhookHost = (url: unknown) => (isHttpUrl(url) ? new URL(url).host : "");
+
+export const REDACTED = "[redacted]";
+
+/** A webhook URL with only its origin left, for the same reason as `webhookHost`. */
+export const redactUrl = (url: unknown) => (isHttpUrl(url) ? `${new URL(url).origin}/${REDACTED}` : url);
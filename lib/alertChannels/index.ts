@@ -0,0 +1,102 @@
+import { randomUUID } from "node:crypto";
+import { getAlertChannel } from "@/lib/spi/alertChannels";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+import { enqueueDelivery, registerDeliveryHandler } from "@/lib/outbox";
+import { getStore } from "@/lib/storage";
+import type { AlertDeliveryQuery } from "@/lib/storage/types";
+import type { AlertChannelConfig, AlertDelivery } from "@/lib/types";
+import "@/lib/alertChannels/slack";
+import "@/lib/alertChannels/teams";
+import "@/lib/alertChannels/email";
+import "@/lib/alertChannels/webhook";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, readInteger } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+interface AlertJob {
+  notification: AlertNotification;
+  config: AlertChannelConfig;
+}
+
+function deliveryOf({ notification, config }: AlertJob): AlertDelivery {
+  const { alert } = notification;
+  return {
+    id: randomUUID(),
+    alertId: alert.id,
+    ruleId: alert.ruleId,
+    appId: alert.appId,
+    alertStatus: alert.status,
+    channel: config.type,
+    target: getAlertChannel(config.type)?.describe(config) ?? "",
+    status: "failed",
+    attempts: 0,
+    createdAt: new Date().toISOString()
+  };
+}
+
+registerDeliveryHandler("alert", {
+  async deliver(job) {
+    const { notification, config } = job.payload as AlertJob;
+    const channel = getAlertChannel(config.type);
+    if (!channel) {
+      throw new Error(`Unknown channel type ${config.type}`);
+    }
+    await channel.send(notification, config);
+  },
+  // The delivery log keeps the final outcome of every notification, after its retries
+  async settled(job, delivered) {
+    await store.appendAlertDelivery({
+      ...deliveryOf(job.payload as AlertJob),
+      status: delivered ? "delivered" : "failed",
+      attempts: job.attempts,
+      ...(job.lastError && !delivered ? { error: job.lastError } : {})
+    });
+  }
+});
+
+/**
+ * Queues the notification for every channel; each is retried through the outbox until it is delivered or
+ * dead-lettered. Resolves to whether any channel took it, which fails only for channel types that are not registered.
+ */
+export async function deliverAlert(notification: AlertNotification, channels: AlertChannelConfig[]) {
+  let queued = false;
+  for (const config of channels) {
+    const channel = getAlertChannel(config.type);
+    if (!channel) {
+      await store.appendAlertDelivery({ ...deliveryOf({ notification, config }), error: `Unknown channel type ${config.type}` });
+      continue;
+    }
+    // One sink per target host, so an unreachable endpoint neither holds back nor degrades the others
+    await enqueueDelivery(`alert:${config.type}:${channel.describe(config)}`, { notification, config } satisfies AlertJob);
+    queued = true;
+  }
+  return queued;
+}
+
+export async function queryAlertDeliveries(query: AlertDeliveryQuery) {
+  return store.queryAlertDeliveries(query);
+}
+
+export function validateAlertDeliveryQuery(params: URLSearchParams): ValidationResult<AlertDeliveryQuery> {
+  const errors: FieldError[] = [];
+  const query: AlertDeliveryQuery = { limit: DEFAULT_PAGE_SIZE };
+  for (const field of ["ruleId", "alertId", "appId"] as const) {
+    const value = params.get(field);
+    if (value) {
+      query[field] = value;
+    }
+  }
+  const status = params.get("status");
+  if (status === "delivered" || status === "failed") {
+    query.status = status;
+  } else if (status) {
+    errors.push({ field: "status", message: "must be one of delivered, failed" });
+  }
+  query.limit = readInteger(params, "limit", 1, MAX_PAGE_SIZE, errors) ?? query.limit;
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: query };
+}
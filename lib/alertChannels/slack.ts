@@ -0,0 +1,31 @@
+import { isHttpUrl, postJson, redactUrl, summarizeAlert, webhookHost } from "@/lib/alertChannels/format";
+import { registerAlertChannel } from "@/lib/spi/alertChannels";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+
+/** Block Kit message for a Slack incoming webhook; `text` is the notification fallback. */
+export function slackMessage(notification: AlertNotification) {
+  const summary = summarizeAlert(notification);
+  const blocks: unknown[] = [
+    { type: "header", text: { type: "plain_text", text: summary.title } },
+    { type: "section", text: { type: "mrkdwn", text: summary.message } },
+    {
+      type: "section",
+      fields: summary.facts.map(([label, value]) => ({ type: "mrkdwn", text: `*${label}*\n${value}` }))
+    }
+  ];
+  if (summary.url) {
+    blocks.push({
+      type: "actions",
+      elements: [{ type: "button", text: { type: "plain_text", text: "Open in ux.qa" }, url: summary.url }]
+    });
+  }
+  return { text: summary.text, blocks };
+}
+
+registerAlertChannel({
+  type: "slack",
+  validate: (config) => (isHttpUrl(config.webhookUrl) ? [] : [["webhookUrl", "must be an http(s) URL"]]),
+  describe: (config) => webhookHost(config.webhookUrl),
+  redact: (config) => ({ ...config, webhookUrl: redactUrl(config.webhookUrl) }),
+  send: (notification, config) => postJson(String(config.webhookUrl), slackMessage(notification))
+});
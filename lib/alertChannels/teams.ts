@@ -0,0 +1,43 @@
+import { isHttpUrl, postJson, redactUrl, summarizeAlert, webhookHost } from "@/lib/alertChannels/format";
+import { registerAlertChannel } from "@/lib/spi/alertChannels";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+
+/** Adaptive Card wrapped in the message envelope that Teams incoming webhooks and workflows accept. */
+export function teamsMessage(notification: AlertNotification) {
+  const summary = summarizeAlert(notification);
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              size: "Large",
+              weight: "Bolder",
+              wrap: true,
+              color: notification.alert.status === "firing" ? "Attention" : "Good",
+              text: summary.title
+            },
+            { type: "TextBlock", wrap: true, text: summary.message },
+            { type: "FactSet", facts: summary.facts.map(([title, value]) => ({ title, value })) }
+          ],
+          actions: summary.url ? [{ type: "Action.OpenUrl", title: "Open in ux.qa", url: summary.url }] : []
+        }
+      }
+    ]
+  };
+}
+
+registerAlertChannel({
+  type: "teams",
+  validate: (config) => (isHttpUrl(config.webhookUrl) ? [] : [["webhookUrl", "must be an http(s) URL"]]),
+  describe: (config) => webhookHost(config.webhookUrl),
+  redact: (config) => ({ ...config, webhookUrl: redactUrl(config.webhookUrl) }),
+  send: (notification, config) => postJson(String(config.webhookUrl), teamsMessage(notification))
+});
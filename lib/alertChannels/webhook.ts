@@ -0,0 +1,89 @@
+import { REDACTED, isHttpUrl, postJson, redactUrl, summarizeAlert, webhookHost } from "@/lib/alertChannels/format";
+import { registerAlertChannel } from "@/lib/spi/alertChannels";
+import type { AlertNotification } from "@/lib/spi/alertChannels";
+
+/** The body sent when a webhook has no template, unchanged from the original single webhook. */
+export function defaultWebhookBody(notification: AlertNotification) {
+  const { rule, alert, run } = notification;
+  return {
+    text: summarizeAlert(notification).text,
+    alert: {
+      id: alert.id,
+      ruleId: rule.id,
+      rule: rule.name,
+      status: alert.status,
+      message: alert.message,
+      firedAt: alert.firedAt,
+      resolvedAt: alert.resolvedAt
+    },
+    details: {
+      status: run.status,
+      coverage: run.coverage,
+      totals: `${run.passed}/${run.total}`,
+      environment: run.environment,
+      commit: run.commit,
+      durationMs: run.durationMs,
+      createdAt: run.createdAt,
+      artifactUrl: run.artifactUrl
+    }
+  };
+}
+
+const escapeJson = (value: string) => JSON.stringify(value).slice(1, -1);
+
+/**
+ * Replaces `{{path}}` placeholders with values from the notification: `rule.*`, `alert.*`, `run.*` and the
+ * summary fields `text`, `title`, `message` and `url`. Values are JSON-escaped, so placeholders can sit inside
+ * string literals of a JSON template; objects are inserted as JSON and missing values as an empty string.
+ */
+export function renderTemplate(template: string, notification: AlertNotification, escape = escapeJson) {
+  const summary = summarizeAlert(notification);
+  const context: Record<string, unknown> = { ...notification, ...summary };
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_placeholder, path: string) => {
+    const value = path
+      .split(".")
+      .reduce<unknown>((current, key) => (current && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined), context);
+    if (value === undefined || value === null) {
+      return "";
+    }
+    return escape(typeof value === "object" ? JSON.stringify(value) : String(value));
+  });
+}
+
+const isHeaderMap = (value: unknown): value is Record<string, string> =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value as Record<string, unknown>).every((header) => typeof header === "string");
+
+registerAlertChannel({
+  type: "webhook",
+  validate: (config) => {
+    const problems: Array<[string, string]> = [];
+    if (!isHttpUrl(config.url)) {
+      problems.push(["url", "must be an http(s) URL"]);
+    }
+    if (config.template !== undefined && (typeof config.template !== "string" || !config.template.trim())) {
+      problems.push(["template", "must be a non-empty string"]);
+    }
+    if (config.headers !== undefined && !isHeaderMap(config.headers)) {
+      problems.push(["headers", "must map header names to strings"]);
+    }
+    return problems;
+  },
+  describe: (config) => webhookHost(config.url),
+  // Header values are typically tokens; their names show what is sent
+  redact: (config) => ({
+    ...config,
+    url: redactUrl(config.url),
+    ...(isHeaderMap(config.headers)
+      ? { headers: Object.fromEntries(Object.keys(config.headers).map((name) => [name, REDACTED])) }
+      : {})
+  }),
+  send: (notification, config) =>
+    postJson(
+      String(config.url),
+      typeof config.template === "string" ? renderTemplate(config.template, notification) : defaultWebhookBody(notification),
+      isHeaderMap(config.headers) ? config.headers : {}
+    )
+});
@@ -1,43 +1,490 @@
-import type { TestRun } from "@/lib/types";
+import { randomUUID } from "node:crypto";
+import { isDeepStrictEqual } from "node:util";
+import { deliverAlert } from "@/lib/alertChannels";
+import { redactUrl } from "@/lib/alertChannels/format";
 import { alertCoverageThreshold, alertWebhookUrl } from "@/lib/config";
+import { publish } from "@/lib/events";
+import { flakyTestKey } from "@/lib/flaky";
+import { getAlertChannel, listAlertChannels } from "@/lib/spi/alertChannels";
+import { getStore } from "@/lib/storage";
+import type {
+  Alert,
+  AlertChannelConfig,
+  AlertCondition,
+  AlertConditionType,
+  AlertRule,
+  AlertStatus,
+  CreateAlertRulePayload,
+  TestRun,
+  UpdateAlertRulePayload
+} from "@/lib/types";
+import { asObject, optionalBoolean, optionalCount, optionalString, requireCount, requireString } from "@/lib/validation";
+import type { FieldError, Fields, ValidationResult } from "@/lib/validation";
 
-const shouldAlertOnStatus = (status: TestRun["status"]) => status === "failed" || status === "unstable";
+const store = getStore();
 
-function shouldAlertOnCoverage(run: TestRun) {
-  if (!alertCoverageThreshold || typeof run.coverage !== "number") {
-    return false;
+interface Evaluation {
+  firing: boolean;
+  /** Describes what the rule observed, whether it fired or not. */
+  message: string;
+}
+
+type Evaluators = {
+  [Type in AlertCondition["type"]]: (run: TestRun, condition: Extract<AlertCondition, { type: Type }>) => Promise<Evaluation>;
+};
+
+const isFailure = (status: TestRun["status"]) => status === "failed" || status === "unstable";
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function passRate(runs: TestRun[]) {
+  const total = runs.reduce((sum, run) => sum + run.total, 0);
+  return total ? (runs.reduce((sum, run) => sum + run.passed, 0) / total) * 100 : null;
+}
+
+/** Up to `count` finished runs of the same app, suite and environment that came before `run`, newest first. */
+async function previousRuns(run: TestRun, count: number) {
+  if (count <= 0) {
+    return [];
   }
-  return run.coverage < alertCoverageThreshold;
+  const { runs } = await store.query({
+    appId: run.appId,
+    suite: run.suite,
+    environment: run.environment,
+    to: run.createdAt,
+    limit: count + 1
+  });
+  return runs.filter((entry) => entry.id !== run.id && entry.status !== "running").slice(0, count);
 }
 
-export async function notifyAlerts(run: TestRun) {
+const retryPassKeys = async (run: TestRun) =>
+  (await store.listTests(run.id))
+    .filter((test) => test.status === "passed" && test.retries > 0)
+    .map((test) => ({ key: flakyTestKey(run, test), title: test.titlePath.join(" › ") }));
+
+const evaluators: Evaluators = {
+  async consecutiveFailures(run, { count }) {
+    const runs = [run, ...(await previousRuns(run, count - 1))];
+    const streak = runs.findIndex((entry) => !isFailure(entry.status));
+    const failing = streak === -1 ? runs.length : streak;
+    return { firing: failing >= count, message: `${failing} failing run${failing === 1 ? "" : "s"} in a row` };
+  },
+  async passRateDrop(run, { window, drop }) {
+    const runs = [run, ...(await previousRuns(run, window * 2 - 1))];
+    const current = passRate(runs.slice(0, window));
+    const baseline = runs.length === window * 2 ? passRate(runs.slice(window)) : null;
+    if (current === null || baseline === null) {
+      return { firing: false, message: "Not enough history to compare pass rates" };
+    }
+    return {
+      firing: baseline - current >= drop,
+      message: `Pass rate ${current.toFixed(1)}% over the last ${window} runs, was ${baseline.toFixed(1)}%`
+    };
+  },
+  async durationRegression(run, { window, percent }) {
+    const durations = (await previousRuns(run, window)).map((entry) => entry.durationMs);
+    const baseline = durations.length ? average(durations) : 0;
+    if (!baseline) {
+      return { firing: false, message: "No earlier runs to compare the duration with" };
+    }
+    const increase = ((run.durationMs - baseline) / baseline) * 100;
+    return {
+      firing: increase >= percent,
+      message: `Took ${Math.round(run.durationMs)}ms, ${increase.toFixed(0)}% against the average of ${Math.round(baseline)}ms`
+    };
+  },
+  async newFlakyTest(run, { window }) {
+    const flaky = await retryPassKeys(run);
+    if (!flaky.length) {
+      return { firing: false, message: "No test needed a retry" };
+    }
+    const known = new Set<string>();
+    for (const previous of await previousRuns(run, window)) {
+      (await retryPassKeys(previous)).forEach((test) => known.add(test.key));
+    }
+    const fresh = flaky.filter((test) => !known.has(test.key));
+    return {
+      firing: fresh.length > 0,
+      message: fresh.length
+        ? `New flaky test${fresh.length === 1 ? "" : "s"}: ${fresh.map((test) => test.title).join(", ")}`
+        : "Only known flaky tests needed a retry"
+    };
+  },
+  async coverageDrop(run, { window, drop }) {
+    const coverage = (await previousRuns(run, window))
+      .map((entry) => entry.coverage)
+      .filter((value): value is number => typeof value === "number");
+    if (typeof run.coverage !== "number" || !coverage.length) {
+      return { firing: false, message: "No coverage to compare" };
+    }
+    const baseline = average(coverage);
+    return {
+      firing: baseline - run.coverage >= drop,
+      message: `Coverage ${run.coverage.toFixed(1)}%, baseline ${baseline.toFixed(1)}%`
+    };
+  },
+  async coverageBelow(run, { threshold }) {
+    if (typeof run.coverage !== "number") {
+      return { firing: false, message: "No coverage reported" };
+    }
+    return { firing: run.coverage < threshold, message: `Coverage ${run.coverage.toFixed(1)}%, threshold ${threshold}%` };
+  }
+};
+
+function evaluate(run: TestRun, condition: AlertCondition) {
+  const evaluator = evaluators[condition.type] as (run: TestRun, condition: AlertCondition) => Promise<Evaluation>;
+  return evaluator(run, condition);
+}
+
+/**
+ * Until a rule is stored, `ALERT_WEBHOOK_URL` keeps alerting on every failed or unstable run and on coverage
+ * below `ALERT_COVERAGE_THRESHOLD`, as it did before rules existed.
+ */
+export function defaultAlertRules(): AlertRule[] {
   if (!alertWebhookUrl) {
-    return;
+    return [];
+  }
+  const defaults = { cooldownMinutes: 0, enabled: true, createdAt: new Date(0).toISOString() };
+  const rules: AlertRule[] = [
+    { id: "default-failures", name: "Run failed", condition: { type: "consecutiveFailures", count: 1 }, ...defaults }
+  ];
+  if (alertCoverageThreshold) {
+    rules.push({
+      id: "default-coverage",
+      name: "Coverage below threshold",
+      condition: { type: "coverageBelow", threshold: alertCoverageThreshold },
+      ...defaults
+    });
   }
-  const alertTriggered = shouldAlertOnStatus(run.status) || shouldAlertOnCoverage(run);
-  if (!alertTriggered) {
+  return rules;
+}
+
+/** Stored rules, or the defaults while none are stored. */
+export async function activeAlertRules() {
+  const rules = await store.listAlertRules();
+  return rules.length ? rules : defaultAlertRules();
+}
+
+export async function listAlertRules(options: { appId?: string } = {}) {
+  const rules = await store.listAlertRules();
+  // Rules without an app apply to every app, so they are part of each app's list
+  return rules.filter((rule) => !options.appId || !rule.appId || rule.appId === options.appId);
+}
+
+export async function getAlertRule(id: string) {
+  return (await store.listAlertRules()).find((rule) => rule.id === id);
+}
+
+export async function addAlertRule(payload: CreateAlertRulePayload): Promise<AlertRule> {
+  const rule: AlertRule = { id: randomUUID(), ...payload, createdAt: new Date().toISOString() };
+  await store.putAlertRule(rule);
+  return rule;
+}
+
+const redactChannel = (config: AlertChannelConfig) => getAlertChannel(config.type)?.redact?.(config) ?? config;
+
+/**
+ * The rule as API responses and the audit log show it: webhook URLs reduced to their origin and header values
+ * masked, as anyone who can read rules may not send to their channels.
+ */
+export function redactAlertRule(rule: AlertRule): AlertRule {
+  return {
+    ...rule,
+    ...(rule.channels ? { channels: rule.channels.map(redactChannel) } : {}),
+    ...(rule.webhookUrl ? { webhookUrl: redactUrl(rule.webhookUrl) as string } : {})
+  };
+}
+
+/** Options sent back as `redactAlertRule` showed them keep their stored value, so a rule read from the API saves as is. */
+function unredactChannels(channels: AlertChannelConfig[], stored: AlertChannelConfig[] = []) {
+  return channels.map((config, index) => {
+    const current = stored[index];
+    if (current?.type !== config.type) {
+      return config;
+    }
+    const shown = redactChannel(current);
+    return Object.fromEntries(
+      Object.entries(config).map(([option, value]) => [option, isDeepStrictEqual(value, shown[option]) ? current[option] : value])
+    ) as AlertChannelConfig;
+  });
+}
+
+export async function updateAlertRule(id: string, changes: UpdateAlertRulePayload) {
+  const current = await getAlertRule(id);
+  if (!current) {
+    return undefined;
+  }
+  const { suite, environment, webhookUrl, channels, ...fields } = changes;
+  const next: AlertRule = {
+    ...current,
+    ...fields,
+    ...(channels ? { channels: unredactChannels(channels, current.channels) } : {}),
+    updatedAt: new Date().toISOString()
+  };
+  for (const [field, value] of [
+    ["suite", suite],
+    ["environment", environment],
+    ["webhookUrl", webhookUrl === redactUrl(current.webhookUrl) ? undefined : webhookUrl]
+  ] as const) {
+    if (value === null) {
+      delete next[field];
+    } else if (value !== undefined) {
+      next[field] = value;
+    }
+  }
+  await store.putAlertRule(next);
+  return next;
+}
+
+export async function removeAlertRule(id: string) {
+  return store.deleteAlertRule(id);
+}
+
+/** Alerts of the active rules, most recently fired first. */
+export async function listAlerts(options: { appId?: string; status?: AlertStatus } = {}) {
+  const ruleIds = new Set((await activeAlertRules()).map((rule) => rule.id));
+  return (await store.listAlerts())
+    .filter((alert) => ruleIds.has(alert.ruleId))
+    .filter((alert) => !options.appId || alert.appId === options.appId)
+    .filter((alert) => !options.status || alert.status === options.status)
+    .sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+}
+
+const alertId = (rule: AlertRule, run: TestRun) => [rule.id, run.appId, run.suite, run.environment].join("|");
+
+const matchesScope = (rule: AlertRule, run: TestRun) =>
+  (!rule.appId || rule.appId === run.appId) &&
+  (!rule.suite || rule.suite === run.suite) &&
+  (!rule.environment || rule.environment === run.environment);
+
+/** The rule's channels plus its plain webhook; `ALERT_WEBHOOK_URL` when it has neither. */
+function channelsOf(rule: AlertRule): AlertChannelConfig[] {
+  const channels = [...(rule.channels ?? [])];
+  if (rule.webhookUrl) {
+    channels.push({ type: "webhook", url: rule.webhookUrl });
+  }
+  if (!channels.length && alertWebhookUrl) {
+    channels.push({ type: "webhook", url: alertWebhookUrl });
+  }
+  return channels;
+}
+
+async function sendNotification(rule: AlertRule, alert: Alert, run: TestRun) {
+  const channels = channelsOf(rule);
+  return channels.length > 0 && deliverAlert({ rule, alert, run }, channels);
+}
+
+/**
+ * Moves the rule's alert for the run's app, suite and environment between firing and resolved. A firing alert
+ * notifies at most once per cooldown, however many runs keep it firing; a resolve is sent only for announced alerts.
+ */
+async function applyRule(rule: AlertRule, run: TestRun, current: Alert | undefined) {
+  const { firing, message } = await evaluate(run, rule.condition);
+  const now = new Date().toISOString();
+  const cooledDown =
+    !current?.notifiedAt || Date.now() - Date.parse(current.notifiedAt) >= rule.cooldownMinutes * 60_000;
+  if (firing) {
+    const alert: Alert =
+      current?.status === "firing"
+        ? { ...current, message, runId: run.id }
+        : {
+            id: alertId(rule, run),
+            ruleId: rule.id,
+            appId: run.appId,
+            suite: run.suite,
+            environment: run.environment,
+            status: "firing",
+            message,
+            runId: run.id,
+            firedAt: now,
+            notifiedAt: current?.notifiedAt,
+            announced: false
+          };
+    if (cooledDown && (await sendNotification(rule, alert, run))) {
+      alert.notifiedAt = now;
+      alert.announced = true;
+    }
+    await store.putAlert(alert);
+    if (current?.status !== "firing") {
+      publish({ type: "alert", data: alert });
+    }
+  } else if (current?.status === "firing") {
+    const alert: Alert = { ...current, status: "resolved", message, runId: run.id, resolvedAt: now, announced: false };
+    if (current.announced && (await sendNotification(rule, alert, run))) {
+      alert.notifiedAt = now;
+    }
+    await store.putAlert(alert);
+    publish({ type: "alert", data: alert });
+  }
+}
+
+async function evaluateRun(run: TestRun) {
+  const rules = (await activeAlertRules()).filter((rule) => rule.enabled && matchesScope(rule, run));
+  if (!rules.length) {
     return;
   }
-  const payload = {
-    text: `Playwright alert for ${run.appId} (${run.suite})`,
-    details: {
-      status: run.status,
-      coverage: run.coverage,
-      totals: `${run.passed}/${run.total}`,
-      environment: run.environment,
-      commit: run.commit,
-      durationMs: run.durationMs,
-      createdAt: run.createdAt,
-      artifactUrl: run.artifactUrl
+  const alerts = new Map((await store.listAlerts()).map((alert) => [alert.id, alert]));
+  for (const rule of rules) {
+    await applyRule(rule, run, alerts.get(alertId(rule, run)));
+  }
+}
+
+// Runs are evaluated one at a time so two quick runs cannot both fire the same alert
+let pending: Promise<void> = Promise.resolve();
+
+export function notifyAlerts(run: TestRun) {
+  pending = pending
+    .then(() => evaluateRun(run))
+    .catch((error) => console.error("Failed to evaluate alert rules", error));
+  return pending;
+}
+
+/** Resolves once every run handed to `notifyAlerts` so far has been evaluated. */
+export const alertsIdle = () => pending;
+
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+
+export const MAX_ALERT_WINDOW = 100;
+
+/** Parameters of each condition type with their inclusive upper bound; all must be above zero. */
+const alertConditionParams: Record<AlertConditionType, Record<string, { max: number; integer?: boolean }>> = {
+  consecutiveFailures: { count: { max: MAX_ALERT_WINDOW, integer: true } },
+  passRateDrop: { window: { max: MAX_ALERT_WINDOW, integer: true }, drop: { max: 100 } },
+  durationRegression: { window: { max: MAX_ALERT_WINDOW, integer: true }, percent: { max: 10000 } },
+  newFlakyTest: { window: { max: MAX_ALERT_WINDOW, integer: true } },
+  coverageDrop: { window: { max: MAX_ALERT_WINDOW, integer: true }, drop: { max: 100 } },
+  coverageBelow: { threshold: { max: 100 } }
+};
+
+const alertConditionTypes = Object.keys(alertConditionParams) as AlertConditionType[];
+
+const alertStatuses: AlertStatus[] = ["firing", "resolved"];
+
+function readAlertCondition(value: unknown, errors: FieldError[]): AlertCondition | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push({ field: "condition", message: "must be an object" });
+    return undefined;
+  }
+  const body = value as Fields;
+  const type = body.type as AlertConditionType;
+  if (!alertConditionTypes.includes(type)) {
+    errors.push({ field: "condition.type", message: `must be one of ${alertConditionTypes.join(", ")}` });
+    return undefined;
+  }
+  const condition: Fields = { type };
+  for (const [field, { max, integer }] of Object.entries(alertConditionParams[type])) {
+    const param = body[field];
+    if (typeof param !== "number" || !(param > 0 && param <= max) || (integer && !Number.isInteger(param))) {
+      errors.push({
+        field: `condition.${field}`,
+        message: integer ? `must be an integer from 1 to ${max}` : `must be a number above 0 and at most ${max}`
+      });
+    }
+    condition[field] = param;
+  }
+  return condition as AlertCondition;
+}
+
+/** Channel types are checked against the registry, so channels registered by plugins validate too. */
+function readAlertChannels(value: unknown, errors: FieldError[]): AlertChannelConfig[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push({ field: "channels", message: "must be an array" });
+    return undefined;
+  }
+  return value.map((entry, index) => {
+    const prefix = `channels[${index}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      errors.push({ field: prefix, message: "must be an object" });
+      return { type: "" };
     }
+    const config = entry as AlertChannelConfig;
+    const channel = typeof config.type === "string" ? getAlertChannel(config.type) : undefined;
+    if (!channel) {
+      const types = listAlertChannels().map((registered) => registered.type);
+      errors.push({ field: `${prefix}.type`, message: `must be one of ${types.join(", ")}` });
+      return config;
+    }
+    channel.validate(config).forEach(([option, message]) => errors.push({ field: `${prefix}.${option}`, message }));
+    return config;
+  });
+}
+
+function optionalUrl(body: Fields, field: string, errors: FieldError[]) {
+  const value = optionalString(body, field, errors);
+  if (value !== undefined && !/^https?:\/\/[^\s]+$/.test(value)) {
+    errors.push({ field, message: "must be an http(s) URL" });
+    return undefined;
+  }
+  return value;
+}
+
+export function validateAlertRulePayload(input: unknown): ValidationResult<CreateAlertRulePayload> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const payload: CreateAlertRulePayload = {
+    name: requireString(body, "name", errors),
+    appId: optionalString(body, "appId", errors) || undefined,
+    suite: optionalString(body, "suite", errors) || undefined,
+    environment: optionalString(body, "environment", errors) || undefined,
+    condition: readAlertCondition(body.condition, errors) as AlertCondition,
+    channels: body.channels === undefined ? undefined : readAlertChannels(body.channels, errors),
+    cooldownMinutes: optionalCount(body, "cooldownMinutes", errors) ?? DEFAULT_ALERT_COOLDOWN_MINUTES,
+    webhookUrl: optionalUrl(body, "webhookUrl", errors),
+    enabled: optionalBoolean(body, "enabled", errors) ?? true
   };
-  try {
-    await fetch(alertWebhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload)
-    });
-  } catch (error) {
-    console.error("Failed to send alert webhook", error);
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: payload };
+}
+
+/** The app cannot change, so app-bound keys keep seeing the same rules; create a new rule instead. */
+export function validateAlertRuleUpdate(input: unknown): ValidationResult<UpdateAlertRulePayload> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const changes: UpdateAlertRulePayload = {};
+  if (body.name !== undefined) {
+    changes.name = requireString(body, "name", errors);
+  }
+  if (body.condition !== undefined) {
+    changes.condition = readAlertCondition(body.condition, errors);
+  }
+  if (body.channels !== undefined) {
+    changes.channels = readAlertChannels(body.channels, errors);
+  }
+  if (body.cooldownMinutes !== undefined) {
+    changes.cooldownMinutes = requireCount(body, "cooldownMinutes", errors);
+  }
+  if (body.enabled !== undefined) {
+    changes.enabled = optionalBoolean(body, "enabled", errors);
+  }
+  for (const field of ["suite", "environment", "webhookUrl"] as const) {
+    if (body[field] === null) {
+      changes[field] = null;
+    } else if (body[field] !== undefined) {
+      changes[field] = field === "webhookUrl" ? optionalUrl(body, field, errors) : requireString(body, field, errors);
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: changes };
+}
+
+export function validateAlertQuery(params: URLSearchParams): ValidationResult<{ appId?: string; status?: AlertStatus }> {
+  const status = params.get("status");
+  if (status && !alertStatuses.includes(status as AlertStatus)) {
+    return { ok: false, errors: [{ field: "status", message: `must be one of ${alertStatuses.join(", ")}` }] };
   }
+  return { ok: true, value: { appId: params.get("appId") || undefined, status: (status || undefined) as AlertStatus } };
 }
@@ -0,0 +1,108 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { getStore } from "@/lib/storage";
+import { API_KEY_SCOPES } from "@/lib/types";
+import type { ApiKey, ApiKeyInfo, ApiKeyScope, CreateApiKeyPayload } from "@/lib/types";
+import { asObject, isStringArray, requireString } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+const TOKEN_PREFIX = "uxqa_";
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const generateToken = () => `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+export const toApiKeyInfo = ({ hash: _hash, ...info }: ApiKey): ApiKeyInfo => info;
+
+export async function listApiKeys() {
+  return (await store.listApiKeys()).map(toApiKeyInfo);
+}
+
+export async function getApiKey(id: string) {
+  const key = (await store.listApiKeys()).find((candidate) => candidate.id === id);
+  return key && toApiKeyInfo(key);
+}
+
+/** Revoked keys count too, so revoking every key does not switch auth off again. */
+export async function hasApiKeys() {
+  return (await store.listApiKeys()).length > 0;
+}
+
+/** Resolves a presented token to its active key; revoked and unknown tokens yield `undefined`. */
+export async function findApiKey(token: string) {
+  const hash = hashToken(token);
+  const keys = await store.listApiKeys();
+  return keys.find((key) => key.hash === hash && !key.revokedAt);
+}
+
+/** The token is only returned here and on rotation; the hub keeps nothing but its hash. */
+export async function createApiKey(payload: CreateApiKeyPayload) {
+  const token = generateToken();
+  const key: ApiKey = {
+    id: randomUUID(),
+    ...payload,
+    prefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    hash: hashToken(token),
+    createdAt: new Date().toISOString()
+  };
+  await store.putApiKey(key);
+  return { key: toApiKeyInfo(key), token };
+}
+
+/** Issues a new token for the key; the previous token stops working immediately. */
+export async function rotateApiKey(id: string) {
+  const current = (await store.listApiKeys()).find((key) => key.id === id && !key.revokedAt);
+  if (!current) {
+    return undefined;
+  }
+  const token = generateToken();
+  const key: ApiKey = {
+    ...current,
+    prefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    hash: hashToken(token),
+    rotatedAt: new Date().toISOString()
+  };
+  await store.putApiKey(key);
+  return { key: toApiKeyInfo(key), token };
+}
+
+/** Revoked keys are kept so listings still show who had access. */
+export async function revokeApiKey(id: string) {
+  const current = (await store.listApiKeys()).find((key) => key.id === id);
+  if (!current) {
+    return undefined;
+  }
+  const key: ApiKey = { ...current, revokedAt: current.revokedAt ?? new Date().toISOString() };
+  await store.putApiKey(key);
+  return toApiKeyInfo(key);
+}
+
+export function validateApiKeyPayload(input: unknown): ValidationResult<CreateApiKeyPayload> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const scopes = body.scopes;
+  if (!isStringArray(scopes) || scopes.length === 0 || scopes.some((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+    errors.push({ field: "scopes", message: `must be a non-empty array of ${API_KEY_SCOPES.join(", ")}` });
+  }
+  const appIds = body.appIds;
+  if (appIds !== undefined && (!isStringArray(appIds) || appIds.some((appId) => appId.trim() === ""))) {
+    errors.push({ field: "appIds", message: "must be an array of app ids" });
+  }
+  const payload: CreateApiKeyPayload = {
+    name: requireString(body, "name", errors),
+    role: requireString(body, "role", errors),
+    appIds: isStringArray(appIds) && appIds.length > 0 ? appIds : undefined,
+    scopes: isStringArray(scopes) ? [...new Set(scopes as ApiKeyScope[])] : []
+  };
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: payload };
+}
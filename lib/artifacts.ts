@@ -0,0 +1,209 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { getBlobStore } from "@/lib/blobs";
+import { artifactSecret, artifactSecretFilePath, artifactUrlTtlMs } from "@/lib/config";
+import { publishRunUpdate } from "@/lib/events";
+import { getStore } from "@/lib/storage";
+import type { Artifact, ArtifactType, ArtifactWithUrl } from "@/lib/types";
+import { optionalString } from "@/lib/validation";
+import type { FieldError, Fields, ValidationResult } from "@/lib/validation";
+
+const contentTypes: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".webm": "video/webm",
+  ".mp4": "video/mp4",
+  ".zip": "application/zip",
+  ".html": "text/html",
+  ".json": "application/json",
+  ".txt": "text/plain",
+  ".log": "text/plain"
+};
+
+const GENERIC_CONTENT_TYPE = "application/octet-stream";
+
+const knownContentTypes = new Set(Object.values(contentTypes));
+
+/** Shown in the browser as they are; nothing in them can run script. */
+const inlineContentTypes = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "video/webm", "video/mp4", "text/plain"]);
+
+export interface ArtifactUpload {
+  name: string;
+  data: Uint8Array;
+  contentType?: string;
+  type?: ArtifactType;
+  testId?: string;
+}
+
+/**
+ * Prefers the declared content type when it is one the hub knows, then the file extension. Parameters such as
+ * `charset` are dropped, so the uploader cannot pick a type the hub would serve differently.
+ */
+export function resolveContentType(name: string, declared?: string) {
+  const type = declared?.split(";")[0].trim().toLowerCase();
+  if (type && knownContentTypes.has(type)) {
+    return type;
+  }
+  return contentTypes[path.extname(name).toLowerCase()] ?? GENERIC_CONTENT_TYPE;
+}
+
+/**
+ * Headers deciding how browsers treat served artifact bytes. Raster images, videos and plain text are shown inline,
+ * HTML reports render inline in an opaque origin so their scripts cannot reach the hub, and everything else (SVG
+ * included) is downloaded. The type is resolved again because metadata stored by older hubs kept the declared one.
+ */
+export function artifactHeaders(artifact: Pick<Artifact, "name" | "contentType">): Record<string, string> {
+  const contentType = resolveContentType(artifact.name, artifact.contentType);
+  const html = contentType === "text/html";
+  const disposition = html || inlineContentTypes.has(contentType) ? "inline" : "attachment";
+  return {
+    "Content-Type": contentType,
+    "Content-Disposition": `${disposition}; filename="${encodeURIComponent(artifact.name)}"`,
+    "Content-Security-Policy": html ? "sandbox allow-scripts" : "sandbox",
+    "X-Content-Type-Options": "nosniff"
+  };
+}
+
+export function inferArtifactType(name: string, contentType: string): ArtifactType {
+  if (contentType.startsWith("image/")) {
+    return "screenshot";
+  }
+  if (contentType.startsWith("video/")) {
+    return "video";
+  }
+  if (contentType === "application/zip" && /trace/i.test(name)) {
+    return "trace";
+  }
+  if (contentType === "text/html") {
+    return "report";
+  }
+  return "other";
+}
+
+let generatedSecret: string | undefined;
+
+/**
+ * `UXQA_ARTIFACT_SECRET`, or a random secret created once in `UXQA_ARTIFACT_SECRET_FILE` so signed URLs survive
+ * restarts. Hub instances behind one address must share it.
+ */
+function signingSecret() {
+  if (artifactSecret) {
+    return artifactSecret;
+  }
+  if (!generatedSecret) {
+    try {
+      mkdirSync(path.dirname(artifactSecretFilePath), { recursive: true });
+      writeFileSync(artifactSecretFilePath, randomBytes(32).toString("base64url"), { flag: "wx", mode: 0o600 });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    generatedSecret = readFileSync(artifactSecretFilePath, "utf-8").trim();
+  }
+  return generatedSecret;
+}
+
+const sign = (artifact: Pick<Artifact, "id" | "runId">, expires: string) =>
+  createHmac("sha256", signingSecret()).update(`${artifact.runId}/${artifact.id}/${expires}`).digest("base64url");
+
+/**
+ * The URL carries an expiry and a signature, so `<img>`, `<video>` and the trace viewer can load the artifact
+ * without sending a key. The expiry is rounded up to the next TTL boundary, keeping the URL (and the browser's
+ * cached copy) stable for a while.
+ */
+export function artifactUrl(artifact: Pick<Artifact, "id" | "runId">, now = Date.now()) {
+  const url = `/api/runs/${encodeURIComponent(artifact.runId)}/artifacts/${artifact.id}`;
+  const expires = String(Math.ceil((now + artifactUrlTtlMs) / artifactUrlTtlMs) * (artifactUrlTtlMs / 1000));
+  return `${url}?expires=${expires}&sig=${sign(artifact, expires)}`;
+}
+
+export function hasValidSignature(artifact: Pick<Artifact, "id" | "runId">, params: URLSearchParams, now = Date.now()) {
+  const expires = params.get("expires");
+  const signature = params.get("sig");
+  if (!expires || !signature || !/^\d+$/.test(expires) || Number(expires) * 1000 <= now) {
+    return false;
+  }
+  const expected = Buffer.from(sign(artifact, expires));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export const withArtifactUrl = (artifact: Artifact): ArtifactWithUrl => ({ ...artifact, url: artifactUrl(artifact) });
+
+const blobKey = (artifact: Pick<Artifact, "id" | "runId">) => `${artifact.runId}/${artifact.id}`;
+
+export async function saveArtifact(runId: string, upload: ArtifactUpload): Promise<Artifact> {
+  const contentType = resolveContentType(upload.name, upload.contentType);
+  const artifact: Artifact = {
+    id: randomUUID(),
+    runId,
+    testId: upload.testId,
+    name: upload.name,
+    type: upload.type ?? inferArtifactType(upload.name, contentType),
+    contentType,
+    size: upload.data.byteLength,
+    checksum: createHash("sha256").update(upload.data).digest("hex"),
+    createdAt: new Date().toISOString()
+  };
+  await getBlobStore().put(blobKey(artifact), upload.data);
+  await getStore().addArtifact(artifact);
+  await publishRunUpdate(runId);
+  return artifact;
+}
+
+export async function listArtifacts(runId: string) {
+  return getStore().listArtifacts(runId);
+}
+
+export async function getArtifact(runId: string, artifactId: string) {
+  const artifacts = await listArtifacts(runId);
+  return artifacts.find((artifact) => artifact.id === artifactId);
+}
+
+export async function readArtifact(artifact: Artifact) {
+  return getBlobStore().get(blobKey(artifact));
+}
+
+const artifactTypes: ArtifactType[] = ["screenshot", "video", "trace", "report", "other"];
+
+export interface ArtifactForm {
+  file: File;
+  name: string;
+  contentType?: string;
+  type?: ArtifactType;
+  testId?: string;
+}
+
+/** Reads the multipart body of `POST /api/runs/{runId}/artifacts`; the upload itself is the `file` field. */
+export function validateArtifactForm(form: FormData): ValidationResult<ArtifactForm> {
+  const errors: FieldError[] = [];
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return { ok: false, errors: [{ field: "file", message: "must be a file upload" }] };
+  }
+  const fields: Fields = Object.fromEntries(
+    ["name", "contentType", "type", "testId"].map((field) => [field, form.get(field) ?? undefined])
+  );
+  const type = optionalString(fields, "type", errors);
+  if (type !== undefined && !artifactTypes.includes(type as ArtifactType)) {
+    errors.push({ field: "type", message: `must be one of ${artifactTypes.join(", ")}` });
+  }
+  const artifact: ArtifactForm = {
+    file,
+    name: optionalString(fields, "name", errors) || file.name || "artifact",
+    contentType: optionalString(fields, "contentType", errors) || file.type || undefined,
+    type: type as ArtifactType | undefined,
+    testId: optionalString(fields, "testId", errors) || undefined
+  };
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: artifact };
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from "node:crypto";
+import type { Authorized } from "@/lib/auth";
+import { apiKey } from "@/lib/config";
+import { oidcEnabled } from "@/lib/session";
+import { getStore } from "@/lib/storage";
+import type { AuditQuery } from "@/lib/storage/types";
+import { AUDIT_ACTIONS } from "@/lib/types";
+import type { AuditAction, AuditChange, AuditEntry } from "@/lib/types";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, readCursor, readDateRange, readInteger } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+/** Who acted; GraphQL resolvers pass their context, which carries the same fields. */
+export type AuditActor = Pick<Authorized, "role" | "key" | "session">;
+
+export interface AuditEvent {
+  action: AuditAction;
+  target?: string;
+  appId?: string;
+  /** Record before the change; leave out for creations. */
+  before?: unknown;
+  /** Record after the change; leave out for deletions. */
+  after?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Field-level diff of two JSON values; arrays and scalars are compared as a whole. Objects that were created
+ * or removed are listed field by field too.
+ */
+export function diff(before: unknown, after: unknown, path = ""): AuditChange[] {
+  const objects = (isPlainObject(before) || before === undefined) && (isPlainObject(after) || after === undefined);
+  if (objects && (before !== undefined || after !== undefined)) {
+    const from = (before ?? {}) as Record<string, unknown>;
+    const to = (after ?? {}) as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    return keys.flatMap((key) => diff(from[key], to[key], path ? `${path}.${key}` : key));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  const change: AuditChange = { path };
+  if (before !== undefined) {
+    change.before = before;
+  }
+  if (after !== undefined) {
+    change.after = after;
+  }
+  return [change];
+}
+
+export function describeActor({ key, session }: AuditActor) {
+  if (!apiKey && !oidcEnabled) {
+    return "anonymous";
+  }
+  if (session) {
+    return session.email ?? session.sub;
+  }
+  if (key) {
+    return `key:${key.prefix}`;
+  }
+  return "bootstrap";
+}
+
+export async function recordAudit(actor: AuditActor, event: AuditEvent) {
+  const { role } = actor;
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    action: event.action,
+    actor: describeActor(actor),
+    roles: Array.isArray(role) ? role : role ? [role] : [],
+    target: event.target,
+    appId: event.appId,
+    changes: diff(event.before, event.after),
+    createdAt: new Date().toISOString()
+  };
+  await store.appendAudit(entry);
+  return entry;
+}
+
+export async function queryAudit(query: AuditQuery) {
+  return store.queryAudit(query);
+}
+
+export function validateAuditQuery(params: URLSearchParams): ValidationResult<AuditQuery> {
+  const errors: FieldError[] = [];
+  const query: AuditQuery = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const field of ["actor", "target", "appId"] as const) {
+    const value = params.get(field);
+    if (value) {
+      query[field] = value;
+    }
+  }
+  const action = params.get("action");
+  if (action) {
+    if (AUDIT_ACTIONS.includes(action as AuditAction)) {
+      query.action = action as AuditAction;
+    } else {
+      errors.push({ field: "action", message: `must be one of ${AUDIT_ACTIONS.join(", ")}` });
+    }
+  }
+  readDateRange(params, query, errors);
+  query.limit = readInteger(params, "limit", 1, MAX_PAGE_SIZE, errors) ?? query.limit;
+  query.cursor = readCursor(params, errors);
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: query };
+}
@@ -1,8 +1,41 @@
-import { apiKey, rbacMap } from "@/lib/config";
+import { NextResponse } from "next/server";
+import { findApiKey, hasApiKeys, toApiKeyInfo } from "@/lib/apiKeys";
+import { apiKey, apiKeyRole, rbacMap } from "@/lib/config";
+import { adminRole, getCookie, oidcEnabled, readSession, SESSION_COOKIE } from "@/lib/session";
+import type { Session } from "@/lib/session";
+import { API_KEY_SCOPES } from "@/lib/types";
+import type { ApiKeyInfo, ApiKeyScope } from "@/lib/types";
 
 const AUTH_OK = "ok";
+const AUTH_UNAUTHORIZED = "unauthorized";
 const AUTH_FORBIDDEN = "forbidden";
 
+/** Roles `UXQA_RBAC` must grant to change rules, quarantine, settings and other shared configuration. */
+export const EDIT_ROLES = ["admin", "editor"];
+
+/** Roles `UXQA_RBAC` must grant to issue, rotate or revoke API keys, since a key can be given any role and scope. */
+export const KEY_ADMIN_ROLES = ["admin"];
+
+/** The single role of a key, or every role of a login session. */
+export type Role = string | string[] | null | undefined;
+
+export type Authorized = { status: typeof AUTH_OK; role?: Role; key?: ApiKeyInfo; session?: Session };
+
+/** `unauthorized`: no or unknown credentials (401). `forbidden`: valid credentials outside the route's scopes, apps or roles (403). */
+export type AuthResult = Authorized | { status: typeof AUTH_UNAUTHORIZED } | { status: typeof AUTH_FORBIDDEN };
+
+export interface AuthRequirement {
+  /** Managed keys need at least one of these scopes. */
+  scopes?: ApiKeyScope[];
+  /**
+   * App the request targets. App-bound keys are rejected when it is `null` (the route spans every app)
+   * or outside their apps; leave it out when the route checks with `canAccessApp` itself.
+   */
+  appId?: string | null;
+  /** Checked with `hasRole` against the key's role (`UXQA_API_KEY_ROLE` for the bootstrap key) or the session's roles. */
+  roles?: string[];
+}
+
 function getHeader(source: Request | Headers, key: string) {
   if (source instanceof Request) {
     return source.headers.get(key);
@@ -10,24 +43,105 @@ function getHeader(source: Request | Headers, key: string) {
   return (source as Headers).get(key);
 }
 
-export function ensureAuthorized(source: Request | Headers) {
-  if (!apiKey) {
-    return { status: AUTH_OK };
+export function canAccessApp(auth: AuthResult, appId: string | null) {
+  if (auth.status !== AUTH_OK) {
+    return false;
+  }
+  const appIds = auth.key?.appIds;
+  return !appIds?.length || (appId !== null && appIds.includes(appId));
+}
+
+export function hasRole(role: Role, required: string[]) {
+  const map = rbacMap;
+  if (!map || required.length === 0) {
+    return true;
+  }
+  const roles = Array.isArray(role) ? role : role ? [role] : [];
+  return required.some((r) => roles.some((granted) => map[granted]?.includes(r)));
+}
+
+/** Login sessions can read; only holders of `UXQA_ADMIN_ROLE` get the `admin` scope. */
+export function sessionScopes(session: Session): ApiKeyScope[] {
+  return session.roles.includes(adminRole) ? ["read", "admin"] : ["read"];
+}
+
+/** Scopes the caller holds: a managed key's own, a session's by its roles, and every scope otherwise. */
+export function grantedScopes(auth: Authorized): readonly ApiKeyScope[] {
+  if (auth.key) {
+    return auth.key.scopes;
   }
+  return auth.session ? sessionScopes(auth.session) : API_KEY_SCOPES;
+}
+
+async function authenticate(source: Request | Headers, requirement: AuthRequirement): Promise<AuthResult> {
   const headerKey = getHeader(source, "x-uxqa-key");
-  if (headerKey !== apiKey) {
+  if (!headerKey) {
+    const session = oidcEnabled ? await readSession(getCookie(getHeader(source, "cookie"), SESSION_COOKIE)) : null;
+    if (!session) {
+      return { status: AUTH_UNAUTHORIZED };
+    }
+    if (requirement.scopes && !requirement.scopes.some((scope) => sessionScopes(session).includes(scope))) {
+      return { status: AUTH_FORBIDDEN };
+    }
+    return { status: AUTH_OK, role: session.roles, session };
+  }
+  if (apiKey && headerKey === apiKey) {
+    return { status: AUTH_OK, role: apiKeyRole };
+  }
+  const key = await findApiKey(headerKey);
+  if (!key) {
+    return { status: AUTH_UNAUTHORIZED };
+  }
+  if (requirement.scopes && !requirement.scopes.some((scope) => key.scopes.includes(scope))) {
     return { status: AUTH_FORBIDDEN };
   }
-  const role = getHeader(source, "x-uxqa-role");
-  return { status: AUTH_OK, role };
+  return { status: AUTH_OK, role: key.role, key: toApiKeyInfo(key) };
 }
 
-export function hasRole(role: string | null | undefined, required: string[]) {
-  if (!rbacMap || required.length === 0) {
-    return true;
+/**
+ * Auth is enforced once `UXQA_API_KEY` or OIDC login is configured, or the hub has issued a managed key. The API key
+ * acts as the bootstrap credential with the fixed role `UXQA_API_KEY_ROLE`; hub-managed keys carry their own role,
+ * scopes and apps. Requests without a key fall back to the login session cookie.
+ */
+export async function ensureAuthorized(source: Request | Headers, requirement: AuthRequirement = {}): Promise<AuthResult> {
+  if (!apiKey && !oidcEnabled && !(await hasApiKeys())) {
+    return { status: AUTH_OK };
   }
-  if (!role) {
-    return false;
+  const auth = await authenticate(source, requirement);
+  if (auth.status !== AUTH_OK) {
+    return auth;
   }
-  return required.some((r) => rbacMap[role]?.includes(r));
+  if (requirement.appId !== undefined && !canAccessApp(auth, requirement.appId)) {
+    return { status: AUTH_FORBIDDEN };
+  }
+  if (requirement.roles && !hasRole(auth.role, requirement.roles)) {
+    return { status: AUTH_FORBIDDEN };
+  }
+  return auth;
+}
+
+export function deny(status: typeof AUTH_UNAUTHORIZED | typeof AUTH_FORBIDDEN) {
+  return status === AUTH_FORBIDDEN
+    ? new NextResponse("Forbidden", { status: 403 })
+    : new NextResponse("Unauthorized", { status: 401 });
+}
+
+type RouteHandler<Context> = (request: Request, context: Context, auth: Authorized) => Response | Promise<Response>;
+
+/**
+ * Guards a route handler. Pass the requirement directly, or a function when it depends on the request,
+ * e.g. the app named in the path or query string.
+ */
+export function withAuth<Context = unknown>(
+  requirement: AuthRequirement | ((request: Request, context: Context) => AuthRequirement | Promise<AuthRequirement>),
+  handler: RouteHandler<Context>
+) {
+  return async (request: Request, context: Context) => {
+    const required = typeof requirement === "function" ? await requirement(request, context) : requirement;
+    const auth = await ensureAuthorized(request, required);
+    if (auth.status !== AUTH_OK) {
+      return deny(auth.status);
+    }
+    return handler(request, context, auth);
+  };
 }
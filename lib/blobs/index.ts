@@ -0,0 +1,25 @@
+import { blobDriver } from "@/lib/config";
+import { createLocalBlobStore } from "@/lib/blobs/local";
+import type { BlobStore } from "@/lib/blobs/types";
+
+const drivers: Record<string, () => BlobStore> = {
+  local: () => createLocalBlobStore()
+};
+
+let blobStore: BlobStore | null = null;
+
+/** Makes another blob backend selectable through `UXQA_BLOB_STORE`. */
+export function registerBlobDriver(name: string, factory: () => BlobStore) {
+  drivers[name] = factory;
+}
+
+export function getBlobStore() {
+  if (!blobStore) {
+    const factory = drivers[blobDriver];
+    if (!factory) {
+      throw new Error(`Unknown blob store driver "${blobDriver}"`);
+    }
+    blobStore = factory();
+  }
+  return blobStore;
+}
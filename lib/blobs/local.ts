@@ -0,0 +1,37 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { BlobStore } from "@/lib/blobs/types";
+import { blobDirectory } from "@/lib/config";
+
+export function createLocalBlobStore(root = blobDirectory): BlobStore {
+  const base = path.resolve(root);
+
+  const resolveKey = (key: string) => {
+    const target = path.resolve(base, key);
+    if (!target.startsWith(`${base}${path.sep}`)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return target;
+  };
+
+  return {
+    async put(key, data) {
+      const target = resolveKey(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    }
+  };
+}
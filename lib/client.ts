@@ -1,10 +1,11 @@
-import type { CreateRunPayload, TestRun } from "@/lib/types";
+import type { IngestRunPayload, TestRun } from "@/lib/types";
+import { INGEST_SCHEMA_VERSION } from "@/lib/types";
 
-export async function publishRun(apiUrl: string, payload: CreateRunPayload): Promise<TestRun> {
+export async function publishRun(apiUrl: string, payload: IngestRunPayload): Promise<TestRun> {
   const response = await fetch(new URL("/api/runs", apiUrl), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload)
+    body: JSON.stringify({ schemaVersion: INGEST_SCHEMA_VERSION, ...payload })
   });
   if (!response.ok) {
     throw new Error(`Failed to publish run (${response.status})`);
@@ -0,0 +1,230 @@
+import { getRun, listTests, queryRuns } from "@/lib/dataStore";
+import type { TestCaseResult, TestCaseStatus, TestRun } from "@/lib/types";
+import { readInteger } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+export interface CompareQuery {
+  appId: string;
+  /** Run id or commit SHA (a prefix is enough) on each side. */
+  base: string;
+  head: string;
+  /** Only compare runs of this suite when a side is a commit. */
+  suite?: string;
+  /** Percentage a test's duration has to grow by to count as a regression. */
+  threshold: number;
+}
+
+export interface ComparisonSide {
+  ref: string;
+  /** The run itself, or the latest run of every suite on the commit. */
+  runs: TestRun[];
+  total: number;
+  passed: number;
+  failed: number;
+  durationMs: number;
+  coverage: number | null;
+}
+
+export interface TestComparison {
+  /** Identity of the test on both sides: suite, project and title path. */
+  key: string;
+  suite: string;
+  title: string;
+  titlePath: string[];
+  project?: string;
+  baseStatus?: TestCaseStatus;
+  headStatus?: TestCaseStatus;
+  baseDurationMs?: number;
+  headDurationMs?: number;
+  /** Errors of the head result, for failing tests. */
+  errors?: string[];
+}
+
+export interface RunComparison {
+  base: ComparisonSide;
+  head: ComparisonSide;
+  newlyFailing: TestComparison[];
+  newlyPassing: TestComparison[];
+  stillFailing: TestComparison[];
+  added: TestComparison[];
+  removed: TestComparison[];
+  /** Tests slower than the threshold allows, biggest slowdown first. */
+  durationRegressions: TestComparison[];
+  coverageDelta: number | null;
+  durationDeltaMs: number;
+}
+
+// Ignore slowdowns of fast tests that are within timer noise
+const MIN_REGRESSION_MS = 100;
+
+interface SideTest {
+  suite: string;
+  test: TestCaseResult;
+}
+
+const isFailure = (status: TestCaseStatus) => status === "failed" || status === "timedOut" || status === "interrupted";
+
+const comparisonKey = (suite: string, test: Pick<TestCaseResult, "project" | "titlePath">) =>
+  [suite, test.project ?? "", test.titlePath.join(" › ")].join("|");
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** A run id wins over a commit; a commit resolves to the latest run of each suite built from it. */
+async function resolveRuns(appId: string, ref: string, suite?: string): Promise<TestRun[]> {
+  const run = await getRun(ref);
+  if (run && run.appId === appId) {
+    return [run];
+  }
+  const { runs } = await queryRuns({ appId, suite, commit: ref, limit: 500 });
+  const latest = new Map<string, TestRun>();
+  for (const candidate of runs) {
+    if (!latest.has(candidate.suite)) {
+      latest.set(candidate.suite, candidate);
+    }
+  }
+  return [...latest.values()];
+}
+
+function summarizeSide(ref: string, runs: TestRun[]): ComparisonSide {
+  const covered = runs.filter((run) => typeof run.coverage === "number");
+  return {
+    ref,
+    runs,
+    total: runs.reduce((sum, run) => sum + run.total, 0),
+    passed: runs.reduce((sum, run) => sum + run.passed, 0),
+    failed: runs.reduce((sum, run) => sum + run.failed, 0),
+    durationMs: runs.reduce((sum, run) => sum + run.durationMs, 0),
+    coverage: covered.length ? round(covered.reduce((sum, run) => sum + run.coverage!, 0) / covered.length) : null
+  };
+}
+
+function indexTests(runs: TestRun[], testsByRun: Record<string, TestCaseResult[]>) {
+  const tests = new Map<string, SideTest>();
+  for (const run of runs) {
+    for (const test of testsByRun[run.id] ?? []) {
+      tests.set(comparisonKey(run.suite, test), { suite: run.suite, test });
+    }
+  }
+  return tests;
+}
+
+function describeTest(key: string, base?: SideTest, head?: SideTest): TestComparison {
+  const { suite, test } = (head ?? base)!;
+  return {
+    key,
+    suite,
+    title: test.title,
+    titlePath: test.titlePath,
+    project: test.project,
+    baseStatus: base?.test.status,
+    headStatus: head?.test.status,
+    baseDurationMs: base?.test.durationMs,
+    headDurationMs: head?.test.durationMs,
+    errors: head && isFailure(head.test.status) ? head.test.errors : undefined
+  };
+}
+
+/** Diffs the per-test results of two sets of runs; skipped results count as neither passing nor failing. */
+export function compareRuns(
+  base: { ref: string; runs: TestRun[] },
+  head: { ref: string; runs: TestRun[] },
+  testsByRun: Record<string, TestCaseResult[]>,
+  threshold: number
+): RunComparison {
+  const baseTests = indexTests(base.runs, testsByRun);
+  const headTests = indexTests(head.runs, testsByRun);
+  const comparison: RunComparison = {
+    base: summarizeSide(base.ref, base.runs),
+    head: summarizeSide(head.ref, head.runs),
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: [],
+    added: [],
+    removed: [],
+    durationRegressions: [],
+    coverageDelta: null,
+    durationDeltaMs: 0
+  };
+
+  for (const [key, after] of headTests) {
+    const before = baseTests.get(key);
+    const entry = describeTest(key, before, after);
+    if (!before) {
+      comparison.added.push(entry);
+      continue;
+    }
+    const [was, is] = [before.test.status, after.test.status];
+    if (isFailure(is) && isFailure(was)) {
+      comparison.stillFailing.push(entry);
+    } else if (isFailure(is) && was === "passed") {
+      comparison.newlyFailing.push(entry);
+    } else if (is === "passed" && isFailure(was)) {
+      comparison.newlyPassing.push(entry);
+    }
+    const slowdown = after.test.durationMs - before.test.durationMs;
+    if (
+      was !== "skipped" &&
+      is !== "skipped" &&
+      slowdown >= MIN_REGRESSION_MS &&
+      after.test.durationMs > before.test.durationMs * (1 + threshold / 100)
+    ) {
+      comparison.durationRegressions.push(entry);
+    }
+  }
+  for (const [key, before] of baseTests) {
+    if (!headTests.has(key)) {
+      comparison.removed.push(describeTest(key, before));
+    }
+  }
+
+  comparison.durationRegressions.sort(
+    (a, b) => b.headDurationMs! - b.baseDurationMs! - (a.headDurationMs! - a.baseDurationMs!)
+  );
+  if (comparison.base.coverage !== null && comparison.head.coverage !== null) {
+    comparison.coverageDelta = round(comparison.head.coverage - comparison.base.coverage);
+  }
+  comparison.durationDeltaMs = comparison.head.durationMs - comparison.base.durationMs;
+  return comparison;
+}
+
+/** Resolves both refs within the app; `null` when either side matches no run. */
+export async function getComparison(query: CompareQuery): Promise<RunComparison | null> {
+  const [baseRuns, headRuns] = await Promise.all([
+    resolveRuns(query.appId, query.base, query.suite),
+    resolveRuns(query.appId, query.head, query.suite)
+  ]);
+  if (baseRuns.length === 0 || headRuns.length === 0) {
+    return null;
+  }
+  const testsByRun: Record<string, TestCaseResult[]> = {};
+  await Promise.all(
+    [...baseRuns, ...headRuns].map(async (run) => {
+      testsByRun[run.id] = await listTests(run.id);
+    })
+  );
+  return compareRuns(
+    { ref: query.base, runs: baseRuns },
+    { ref: query.head, runs: headRuns },
+    testsByRun,
+    query.threshold
+  );
+}
+
+export const DEFAULT_REGRESSION_THRESHOLD = 20;
+
+export function validateCompareQuery(appId: string, params: URLSearchParams): ValidationResult<CompareQuery> {
+  const errors: FieldError[] = [];
+  const [base, head] = ["base", "head"].map((field) => {
+    const value = params.get(field)?.trim();
+    if (!value) {
+      errors.push({ field, message: "must be a run id or commit" });
+    }
+    return value ?? "";
+  });
+  const threshold = readInteger(params, "threshold", 1, 1000, errors) ?? DEFAULT_REGRESSION_THRESHOLD;
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { appId, base, head, suite: params.get("suite") || undefined, threshold } };
+}
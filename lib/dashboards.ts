@@ -0,0 +1,122 @@
+import { readObjects, requireInteger, requireString, requireUniqueIds } from "@/lib/validation";
+import type { FieldError, Fields } from "@/lib/validation";
+
+export const WIDGET_TYPES = ["kpis", "timeline", "coverage", "duration", "hotspots", "flaky", "appTrends"] as const;
+
+export type WidgetType = (typeof WIDGET_TYPES)[number];
+
+/** Columns of the dashboard grid; widget widths are counted in these. */
+export const GRID_COLUMNS = 12;
+export const MIN_WIDGET_WIDTH = 3;
+export const MAX_WIDGET_HEIGHT = 4;
+export const MAX_DASHBOARD_WIDGETS = 24;
+/** Per user, like `MAX_SAVED_FILTERS`. */
+export const MAX_DASHBOARDS = 20;
+export const MAX_SAVED_FILTERS = 20;
+
+export interface DashboardWidget {
+  id: string;
+  type: WidgetType;
+  /** Grid columns, `MIN_WIDGET_WIDTH` to `GRID_COLUMNS`. */
+  width: number;
+  /** Grid rows, 1 to `MAX_WIDGET_HEIGHT`. */
+  height: number;
+}
+
+/** A named arrangement of widgets; the order of `widgets` is the order they flow into the grid. */
+export interface Dashboard {
+  id: string;
+  name: string;
+  widgets: DashboardWidget[];
+}
+
+export const widgetSizes: Record<WidgetType, Pick<DashboardWidget, "width" | "height">> = {
+  kpis: { width: 12, height: 1 },
+  timeline: { width: 4, height: 2 },
+  coverage: { width: 4, height: 2 },
+  duration: { width: 4, height: 2 },
+  hotspots: { width: 12, height: 2 },
+  flaky: { width: 12, height: 2 },
+  appTrends: { width: 6, height: 2 }
+};
+
+export const DEFAULT_DASHBOARD_ID = "default";
+
+/** What a `?dashboard=<id>&owner=<owner>` link names: a dashboard and whose it is; `null` for the team's. */
+export interface DashboardLink {
+  dashboard: string;
+  owner: string | null;
+}
+
+/** `href` pointing at the linked dashboard, so others open that layout rather than their own under the same id. */
+export function dashboardUrl(href: string, { dashboard, owner }: DashboardLink) {
+  const url = new URL(href);
+  url.searchParams.set("dashboard", dashboard);
+  if (owner) {
+    url.searchParams.set("owner", owner);
+  } else {
+    url.searchParams.delete("owner");
+  }
+  return url;
+}
+
+export function createWidget(type: WidgetType, id = `${type}-${Date.now()}`): DashboardWidget {
+  return { id, type, ...widgetSizes[type] };
+}
+
+/**
+ * The dashboard as it looked before layouts were configurable. `hiddenWidgets` is the toggle list older settings
+ * files stored; the widgets in it are left out.
+ */
+export function defaultDashboard(hiddenWidgets: string[] = []): Dashboard {
+  const types: WidgetType[] = ["kpis", "timeline", "coverage", "duration", "hotspots", "flaky"];
+  return {
+    id: DEFAULT_DASHBOARD_ID,
+    name: "Overview",
+    widgets: types.filter((type) => !hiddenWidgets.includes(type)).map((type) => createWidget(type, type))
+  };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+/** Changes a widget's size by whole columns and rows, within the grid's bounds. */
+export function resizeWidget(widget: DashboardWidget, columns: number, rows: number): DashboardWidget {
+  return {
+    ...widget,
+    width: clamp(widget.width + columns, MIN_WIDGET_WIDTH, GRID_COLUMNS),
+    height: clamp(widget.height + rows, 1, MAX_WIDGET_HEIGHT)
+  };
+}
+
+/** Moves the widget at `from` to index `to`, shifting the ones in between. */
+export function moveWidget(widgets: DashboardWidget[], from: number, to: number): DashboardWidget[] {
+  if (from === to || from < 0 || from >= widgets.length) {
+    return widgets;
+  }
+  const next = [...widgets];
+  const [widget] = next.splice(from, 1);
+  next.splice(clamp(to, 0, next.length), 0, widget);
+  return next;
+}
+
+function readWidget(body: Fields, prefix: string, errors: FieldError[]): DashboardWidget {
+  const type = body.type as WidgetType;
+  if (!WIDGET_TYPES.includes(type)) {
+    errors.push({ field: `${prefix}type`, message: `must be one of ${WIDGET_TYPES.join(", ")}` });
+  }
+  return {
+    id: requireString(body, "id", errors, prefix),
+    type,
+    width: requireInteger(body, "width", MIN_WIDGET_WIDTH, GRID_COLUMNS, errors, prefix),
+    height: requireInteger(body, "height", 1, MAX_WIDGET_HEIGHT, errors, prefix)
+  };
+}
+
+export function readDashboard(body: Fields, prefix: string, errors: FieldError[]): Dashboard {
+  const field = `${prefix}widgets`;
+  const widgets = readObjects(body.widgets, field, MAX_DASHBOARD_WIDGETS, errors, (widget, widgetPrefix) =>
+    readWidget(widget, widgetPrefix, errors)
+  );
+  requireUniqueIds(widgets, field, errors);
+  return { id: requireString(body, "id", errors, prefix), name: requireString(body, "name", errors, prefix), widgets };
+}
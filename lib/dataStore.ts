@@ -1,29 +1,218 @@
 import { randomUUID } from "node:crypto";
-import type { CreateRunPayload, TestRun } from "@/lib/types";
+import { INGEST_SCHEMA_VERSION } from "@/lib/types";
+import type { CreateRunPayload, CreateTestCasePayload, TestCaseResult, TestCaseStatus, TestRun } from "@/lib/types";
 import { recordRunMetrics } from "@/lib/telemetry";
 import { getStore } from "@/lib/storage";
-import { broadcastRun } from "@/lib/events";
+import type { RunPage, RunQuery } from "@/lib/storage/types";
+import { broadcastRun, publish } from "@/lib/events";
 import { notifyAlerts } from "@/lib/alerts";
+import { runStaleMs } from "@/lib/config";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  optionalBoolean,
+  optionalCount,
+  optionalString,
+  optionalStringArray,
+  readCursor,
+  readDateRange,
+  readInteger,
+  readRunStatus,
+  requireCount,
+  requireString
+} from "@/lib/validation";
+import type { FieldError, Fields, ValidationResult } from "@/lib/validation";
 
 const store = getStore();
 
+function toTestCase(runId: string, payload: CreateTestCasePayload): TestCaseResult {
+  return {
+    id: randomUUID(),
+    runId,
+    title: payload.title,
+    titlePath: payload.titlePath ?? [payload.title],
+    file: payload.file,
+    line: payload.line,
+    project: payload.project,
+    status: payload.status,
+    retries: payload.retries ?? 0,
+    durationMs: payload.durationMs,
+    errors: payload.errors ?? [],
+    quarantined: payload.quarantined
+  };
+}
+
+const isFailure = (test: TestCaseResult) =>
+  test.status === "failed" || test.status === "timedOut" || test.status === "interrupted";
+
+/** Counts of a live run from the tests streamed into it so far, tallied like the reporter does at the end. */
+function tally(run: TestRun, tests: TestCaseResult[]): TestRun {
+  const count = (match: (test: TestCaseResult) => boolean) => tests.filter(match).length;
+  return {
+    ...run,
+    total: tests.length,
+    passed: count((test) => !test.quarantined && test.status === "passed" && test.retries === 0),
+    flaky: count((test) => !test.quarantined && test.status === "passed" && test.retries > 0),
+    skipped: count((test) => !test.quarantined && test.status === "skipped"),
+    failed: count((test) => !test.quarantined && isFailure(test)),
+    quarantined: count((test) => Boolean(test.quarantined)),
+    durationMs: Math.max(0, Date.now() - Date.parse(run.createdAt))
+  };
+}
+
+// Live runs are read, recounted and written back one change at a time, so a late recount never reopens a closed run
+let liveUpdates: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>) {
+  const next = liveUpdates.then(task);
+  liveUpdates = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Stores a run and hands it to subscribers; a finished run also goes to telemetry and alert rules. A `running` run
+ * is left open for `addTests` and closed with `finishRun`.
+ */
 export async function addRun(payload: CreateRunPayload): Promise<TestRun> {
+  const { tests, ...fields } = payload;
   const run: TestRun = {
     id: randomUUID(),
-    ...payload,
+    ...fields,
     createdAt: new Date().toISOString()
   };
   await store.add(run);
-  recordRunMetrics(run);
+  if (tests?.length) {
+    await store.addTests(run.id, tests.map((test) => toTestCase(run.id, test)));
+  }
   broadcastRun(run);
+  if (run.status !== "running") {
+    recordRunMetrics(run);
+    void notifyAlerts(run);
+  } else if (!staleTimer) {
+    await scheduleStaleCheck();
+  }
+  return run;
+}
+
+/** Stores the final state of a live run and hands it to subscribers, telemetry and alert rules. */
+async function close(run: TestRun) {
+  await store.update(run);
+  recordRunMetrics(run);
+  publish({ type: "run.updated", data: run });
   void notifyAlerts(run);
   return run;
 }
 
+/** Closes a live run with the reporter's final results; `undefined` when the run is not (or no longer) running. */
+export function finishRun(runId: string, payload: CreateRunPayload) {
+  // The run keeps the app, suite and environment it was opened with
+  const { tests, appId: _appId, suite: _suite, environment: _environment, ...fields } = payload;
+  return serialized(async () => {
+    const current = await store.get(runId);
+    if (current?.status !== "running") {
+      return undefined;
+    }
+    if (tests?.length) {
+      await store.addTests(runId, tests.map((test) => toTestCase(runId, test)));
+    }
+    return close({ ...current, ...fields, planned: fields.planned ?? current.planned });
+  });
+}
+
+// A live run's duration runs up to the last results streamed into it, so that is when it was last heard of
+const staleAt = (run: TestRun) => Date.parse(run.createdAt) + run.durationMs + runStaleMs;
+
+async function liveRuns() {
+  const runs: TestRun[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.query({ status: "running", cursor, limit: 500 });
+    runs.push(...page.runs);
+    cursor = page.next ?? undefined;
+  } while (cursor);
+  return runs;
+}
+
+/**
+ * Closes live runs that got no results for `UXQA_RUN_STALE_MINUTES`, e.g. because the reporter was killed with its
+ * CI job, as `failed` and marked `interrupted`; their counts stay those streamed so far.
+ */
+export async function closeStaleRuns(now = Date.now()) {
+  const closed: TestRun[] = [];
+  if (runStaleMs) {
+    for (const { id } of (await liveRuns()).filter((run) => staleAt(run) <= now)) {
+      const run = await serialized(async () => {
+        const current = await store.get(id);
+        // Results may have come in since the live runs were listed
+        if (current?.status !== "running" || staleAt(current) > now) {
+          return undefined;
+        }
+        return close({ ...current, status: "failed", interrupted: true });
+      });
+      if (run) {
+        closed.push(run);
+      }
+    }
+  }
+  await scheduleStaleCheck();
+  return closed;
+}
+
+let staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function scheduleStaleCheck() {
+  if (staleTimer) {
+    clearTimeout(staleTimer);
+    staleTimer = null;
+  }
+  const next = runStaleMs ? Math.min(...(await liveRuns()).map(staleAt)) : Infinity;
+  if (Number.isFinite(next)) {
+    // Runs that got results by then are left open and the timer is set again for the next one to go stale
+    staleTimer = setTimeout(
+      () => void closeStaleRuns().catch((error) => console.error("Failed to close abandoned live runs", error)),
+      Math.min(Math.max(0, next - Date.now()), 2 ** 31 - 1)
+    );
+    staleTimer.unref?.();
+  }
+}
+
+/** Picks up the live runs left open when the hub last stopped; called once on server startup from `instrumentation.ts`. */
+export async function startStaleRunCheck() {
+  await scheduleStaleCheck().catch((error) => console.error("Failed to check live runs", error));
+}
+
 export async function listRuns(): Promise<TestRun[]> {
   return store.all();
 }
 
+export async function queryRuns(query: RunQuery): Promise<RunPage> {
+  return store.query(query);
+}
+
+export async function getRun(id: string) {
+  return store.get(id);
+}
+
+export async function addTests(runId: string, payloads: CreateTestCasePayload[]) {
+  const tests = payloads.map((payload) => toTestCase(runId, payload));
+  await store.addTests(runId, tests);
+  await serialized(async () => {
+    let run = await store.get(runId);
+    if (run?.status === "running") {
+      run = tally(run, await store.listTests(runId));
+      await store.update(run);
+    }
+    if (run) {
+      publish({ type: "run.updated", data: run });
+    }
+  });
+  return tests;
+}
+
+export async function listTests(runId: string): Promise<TestCaseResult[]> {
+  return store.listTests(runId);
+}
+
 export async function listByApp() {
   const runs = await listRuns();
   return runs.reduce<Record<string, TestRun[]>>((acc, run) => {
@@ -34,3 +223,137 @@ export async function listByApp() {
     return acc;
   }, {});
 }
+
+const testCaseStatuses: TestCaseStatus[] = ["passed", "failed", "timedOut", "skipped", "interrupted"];
+
+function readTestCase(value: unknown, prefix: string, errors: FieldError[]): CreateTestCasePayload | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push({ field: prefix.slice(0, -1), message: "must be an object" });
+    return null;
+  }
+  const body = value as Fields;
+  const before = errors.length;
+  const title = requireString(body, "title", errors, prefix);
+  const status = body.status as TestCaseStatus;
+  if (!testCaseStatuses.includes(status)) {
+    errors.push({ field: `${prefix}status`, message: `must be one of ${testCaseStatuses.join(", ")}` });
+  }
+  const durationMs = requireCount(body, "durationMs", errors, prefix);
+  const test: CreateTestCasePayload = {
+    title,
+    titlePath: optionalStringArray(body, "titlePath", errors, prefix),
+    file: optionalString(body, "file", errors, prefix),
+    line: optionalCount(body, "line", errors, prefix),
+    project: optionalString(body, "project", errors, prefix),
+    status,
+    retries: optionalCount(body, "retries", errors, prefix),
+    durationMs,
+    errors: optionalStringArray(body, "errors", errors, prefix),
+    quarantined: optionalBoolean(body, "quarantined", errors, prefix)
+  };
+  return errors.length === before ? test : null;
+}
+
+export function validateTestCases(value: unknown, field = "tests"): ValidationResult<CreateTestCasePayload[]> {
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: [{ field, message: "must be an array" }] };
+  }
+  const errors: FieldError[] = [];
+  const tests = value.map((entry, index) => readTestCase(entry, `${field}[${index}].`, errors));
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: tests as CreateTestCasePayload[] };
+}
+
+export function validateRunPayload(input: unknown): ValidationResult<CreateRunPayload> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: "", message: "body must be a JSON object" }] };
+  }
+  const body = input as Fields;
+  const errors: FieldError[] = [];
+
+  if (body.schemaVersion !== undefined && body.schemaVersion !== INGEST_SCHEMA_VERSION) {
+    errors.push({ field: "schemaVersion", message: `unsupported version, expected ${INGEST_SCHEMA_VERSION}` });
+  }
+  const payload: CreateRunPayload = {
+    appId: requireString(body, "appId", errors),
+    suite: requireString(body, "suite", errors),
+    environment: requireString(body, "environment", errors),
+    status: readRunStatus(body.status, "status", errors),
+    total: requireCount(body, "total", errors),
+    passed: requireCount(body, "passed", errors),
+    failed: requireCount(body, "failed", errors),
+    skipped: optionalCount(body, "skipped", errors),
+    flaky: optionalCount(body, "flaky", errors),
+    quarantined: optionalCount(body, "quarantined", errors),
+    durationMs: requireCount(body, "durationMs", errors),
+    commit: optionalString(body, "commit", errors),
+    branch: optionalString(body, "branch", errors),
+    tags: optionalStringArray(body, "tags", errors),
+    artifactUrl: optionalString(body, "artifactUrl", errors),
+    timestamp: optionalString(body, "timestamp", errors),
+    planned: optionalCount(body, "planned", errors)
+  };
+
+  if (body.coverage !== undefined && body.coverage !== null) {
+    if (typeof body.coverage !== "number" || body.coverage < 0 || body.coverage > 100) {
+      errors.push({ field: "coverage", message: "must be a number between 0 and 100" });
+    } else {
+      payload.coverage = body.coverage;
+    }
+  }
+  if (payload.timestamp && Number.isNaN(Date.parse(payload.timestamp))) {
+    errors.push({ field: "timestamp", message: "must be an ISO-8601 date" });
+  }
+  const counted =
+    payload.passed + payload.failed + (payload.skipped ?? 0) + (payload.flaky ?? 0) + (payload.quarantined ?? 0);
+  if (counted > payload.total) {
+    errors.push({ field: "total", message: "must be at least passed + failed + skipped + flaky + quarantined" });
+  }
+  if (body.tests !== undefined) {
+    const tests = validateTestCases(body.tests);
+    if (tests.ok) {
+      payload.tests = tests.value;
+    } else {
+      errors.push(...tests.errors);
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: payload };
+}
+
+export function validateRunQuery(params: URLSearchParams): ValidationResult<RunQuery> {
+  const errors: FieldError[] = [];
+  const query: RunQuery = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const field of ["appId", "suite", "environment", "branch", "commit"] as const) {
+    const value = params.get(field);
+    if (value) {
+      query[field] = value;
+    }
+  }
+  const status = params.get("status");
+  if (status) {
+    query.status = readRunStatus(status, "status", errors);
+  }
+  readDateRange(params, query, errors);
+  const order = params.get("order");
+  if (order) {
+    if (order === "asc" || order === "desc") {
+      query.order = order;
+    } else {
+      errors.push({ field: "order", message: "must be asc or desc" });
+    }
+  }
+  query.limit = readInteger(params, "limit", 1, MAX_PAGE_SIZE, errors) ?? query.limit;
+  query.cursor = readCursor(params, errors);
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: query };
+}
@@ -0,0 +1,32 @@
+import { eventBusDriver } from "@/lib/config";
+import { createRedisEventBus } from "@/lib/eventBus/redis";
+import type { EventBus } from "@/lib/eventBus/types";
+
+/** A single instance has no one to fan out to. */
+const createLocalEventBus = (): EventBus => ({
+  async publish() {},
+  subscribe() {}
+});
+
+const drivers: Record<string, () => EventBus> = {
+  local: createLocalEventBus,
+  redis: () => createRedisEventBus()
+};
+
+let eventBus: EventBus | null = null;
+
+/** Makes another pub/sub backend selectable through `UXQA_EVENT_BUS`. */
+export function registerEventBusDriver(name: string, factory: () => EventBus) {
+  drivers[name] = factory;
+}
+
+export function getEventBus() {
+  if (!eventBus) {
+    const factory = drivers[eventBusDriver];
+    if (!factory) {
+      throw new Error(`Unknown event bus driver "${eventBusDriver}"`);
+    }
+    eventBus = factory();
+  }
+  return eventBus;
+}
@@ -0,0 +1,205 @@
+import net from "node:net";
+import tls from "node:tls";
+import { eventBusChannel, eventBusUrl } from "@/lib/config";
+import type { EventBus, EventBusMessage } from "@/lib/eventBus/types";
+
+type Reply = string | number | null | Error | Reply[];
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/** Multi-bulk request as every Redis server (and RESP-speaking stand-in) accepts it. */
+const encodeCommand = (args: string[]) =>
+  `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`;
+
+/** Parses one RESP2 reply starting at `start`; `undefined` while it has not fully arrived. */
+function parseReply(buffer: Buffer, start = 0): { value: Reply; end: number } | undefined {
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString("utf-8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+  switch (type) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: new Error(line), end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, end: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString("utf-8", next, next + length), end: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, end: next };
+      }
+      const items: Reply[] = [];
+      let end = next;
+      for (let index = 0; index < count; index += 1) {
+        const item = parseReply(buffer, end);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.value);
+        end = item.end;
+      }
+      return { value: items, end };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+interface Connection {
+  command(args: string[]): Promise<Reply>;
+  close(): void;
+}
+
+/**
+ * Opens a connection and authenticates with the credentials in `url`. Replies answer commands in order; with
+ * `onMessage` set, `message` pushes of a subscribed connection go there instead.
+ */
+async function connect(
+  url: URL,
+  { onMessage, onClose }: { onMessage?: (channel: string, payload: string) => void; onClose?: () => void } = {}
+): Promise<Connection> {
+  const secure = url.protocol === "rediss:";
+  const host = url.hostname;
+  const port = Number(url.port || 6379);
+  const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+  // The bus only talks to Redis while there is something to fan out; it never keeps the process running
+  socket.unref();
+  socket.setKeepAlive(true);
+  socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error("Redis connection timed out")));
+
+  let buffer = Buffer.alloc(0);
+  const waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let reply = parseReply(buffer);
+    while (reply) {
+      buffer = buffer.subarray(reply.end);
+      const { value } = reply;
+      if (onMessage && Array.isArray(value) && value[0] === "message") {
+        onMessage(String(value[1]), String(value[2]));
+      } else {
+        waiting.shift()?.resolve(value);
+      }
+      reply = parseReply(buffer);
+    }
+  });
+  socket.on("error", (error) => {
+    failure ??= error;
+  });
+  socket.on("close", () => {
+    failure ??= new Error("Redis connection closed");
+    for (const pending of waiting.splice(0)) {
+      pending.reject(failure);
+    }
+    onClose?.();
+  });
+
+  const command = (args: string[]) =>
+    new Promise<Reply>((resolve, reject) => {
+      if (failure) {
+        return reject(failure);
+      }
+      waiting.push({
+        resolve: (reply) => (reply instanceof Error ? reject(reply) : resolve(reply)),
+        reject
+      });
+      socket.write(encodeCommand(args));
+    });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once(secure ? "secureConnect" : "connect", resolve);
+    socket.once("close", () => reject(failure));
+  });
+  try {
+    if (url.password) {
+      const password = decodeURIComponent(url.password);
+      await command(url.username ? ["AUTH", decodeURIComponent(url.username), password] : ["AUTH", password]);
+    }
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  }
+  socket.setTimeout(0);
+  return { command, close: () => socket.destroy() };
+}
+
+/**
+ * Redis pub/sub on one channel: events go out with PUBLISH on one connection and come in on a second, subscribed
+ * one, which reconnects with backoff when Redis goes away. Events published while an instance is disconnected are
+ * not replayed to it.
+ */
+export function createRedisEventBus(url = eventBusUrl, channel = eventBusChannel): EventBus {
+  const server = new URL(url);
+  let publisher: Promise<Connection> | null = null;
+
+  const openPublisher = () => {
+    publisher ??= connect(server, { onClose: () => (publisher = null) }).catch((error) => {
+      publisher = null;
+      throw error;
+    });
+    return publisher;
+  };
+
+  return {
+    async publish(message: EventBusMessage) {
+      const connection = await openPublisher();
+      await connection.command(["PUBLISH", channel, JSON.stringify(message)]);
+    },
+
+    subscribe(handler) {
+      let failures = 0;
+      const receive = (from: string, payload: string) => {
+        if (from !== channel) {
+          return;
+        }
+        try {
+          handler(JSON.parse(payload) as EventBusMessage);
+        } catch (error) {
+          console.error("Ignoring malformed event bus message", error);
+        }
+      };
+      const start = async () => {
+        try {
+          const connection = await connect(server, { onMessage: receive, onClose: retry });
+          await connection.command(["SUBSCRIBE", channel]);
+          failures = 0;
+        } catch (error) {
+          console.error(`Failed to subscribe to Redis channel ${channel}`, error);
+          retry();
+        }
+      };
+      // Every close of the connection, including one after a failed attempt, ends up here; only one retry is pending
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      function retry() {
+        if (timer) {
+          return;
+        }
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** failures);
+        failures += 1;
+        timer = setTimeout(() => {
+          timer = null;
+          void start();
+        }, delay);
+        timer.unref?.();
+      }
+      void start();
+    }
+  };
+}
@@ -0,0 +1,14 @@
+import type { HubEvent } from "@/lib/types";
+
+/** An event as it travels between hub instances; `origin` tells an instance its own events apart. */
+export interface EventBusMessage {
+  origin: string;
+  event: HubEvent;
+}
+
+/** Fans events out to the other hub instances; each instance still delivers its own events locally. */
+export interface EventBus {
+  publish(message: EventBusMessage): Promise<void>;
+  /** Starts receiving messages of every instance, including the caller's own. */
+  subscribe(handler: (message: EventBusMessage) => void): void;
+}
@@ -1,22 +1,151 @@
-import type { TestRun } from "@/lib/types";
+import { randomUUID } from "node:crypto";
+import { eventsBufferSize } from "@/lib/config";
+import { getEventBus } from "@/lib/eventBus";
+import { getStore } from "@/lib/storage";
+import { HUB_EVENT_TYPES } from "@/lib/types";
+import type { EventFilter, HubEvent, HubEventType, TestRun } from "@/lib/types";
+import { readRunStatus } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
 
-export type RunListener = (run: TestRun) => void;
+/** An event with its stream id, `<instance>-<sequence>`; ids only compare within one process. */
+export type StreamEvent = HubEvent & { id: string };
 
-const listeners = new Set<RunListener>();
+export type HubEventListener = (event: StreamEvent) => void;
 
-export function subscribe(listener: RunListener) {
+const listeners = new Set<HubEventListener>();
+
+// Tells this process apart from other hub instances and from earlier runs of itself, whose ids never resume here
+const instance = randomUUID().slice(0, 8);
+let sequence = 0;
+const buffer: StreamEvent[] = [];
+
+const eventId = (seq: number) => `${instance}-${seq}`;
+
+let receiving = false;
+
+/** Listens for events of the other hub instances once this one has subscribers to pass them to. */
+function receiveRemoteEvents() {
+  if (receiving) {
+    return;
+  }
+  receiving = true;
+  getEventBus().subscribe((message) => {
+    if (message.origin !== instance) {
+      dispatch(message.event);
+    }
+  });
+}
+
+export function subscribe(listener: HubEventListener) {
+  receiveRemoteEvents();
   listeners.add(listener);
   return () => {
     listeners.delete(listener);
   };
 }
 
-export function broadcastRun(run: TestRun) {
+/** Numbers, buffers and hands an event to this instance's listeners. */
+function dispatch(event: HubEvent) {
+  sequence += 1;
+  const entry = { ...event, id: eventId(sequence) } as StreamEvent;
+  buffer.push(entry);
+  if (buffer.length > eventsBufferSize) {
+    buffer.splice(0, buffer.length - eventsBufferSize);
+  }
   for (const listener of listeners) {
     try {
-      listener(run);
+      listener(entry);
     } catch (error) {
-      console.error("Run listener failed", error);
+      console.error("Event listener failed", error);
     }
   }
 }
+
+/** Delivers the event here right away and to the other hub instances through the event bus. */
+export function publish(event: HubEvent) {
+  dispatch(event);
+  getEventBus()
+    .publish({ origin: instance, event })
+    .catch((error) => console.error("Failed to fan out event", error));
+}
+
+export function broadcastRun(run: TestRun) {
+  publish({ type: "run", data: run });
+}
+
+/** Tells subscribers a stored run gained tests or artifacts. */
+export async function publishRunUpdate(runId: string) {
+  const run = await getStore().get(runId);
+  if (run) {
+    publish({ type: "run.updated", data: run });
+  }
+}
+
+/** Id of the latest event; a snapshot taken now is current up to it. */
+export const currentEventId = () => eventId(sequence);
+
+/**
+ * Events published after `lastEventId`, or `null` when they cannot be replayed: the id is from another process or
+ * older than the buffer, so the client needs a fresh snapshot instead.
+ */
+export function eventsSince(lastEventId: string): StreamEvent[] | null {
+  const [idInstance, idSequence] = lastEventId.split("-");
+  const seq = Number(idSequence);
+  if (idInstance !== instance || !Number.isInteger(seq) || seq < 0 || seq > sequence) {
+    return null;
+  }
+  const oldest = buffer[0] ? Number(buffer[0].id.split("-")[1]) : sequence + 1;
+  if (seq < oldest - 1) {
+    return null;
+  }
+  return buffer.filter((event) => Number(event.id.split("-")[1]) > seq);
+}
+
+export function matchesEventFilter(event: HubEvent, filter: EventFilter) {
+  if (filter.types && !filter.types.includes(event.type)) {
+    return false;
+  }
+  const scope = event.type === "quarantine" ? event.data.entry : event.data;
+  if (filter.appId && scope.appId !== filter.appId) {
+    return false;
+  }
+  // Quarantine entries span suites and environments, so only the app narrows them
+  if (event.type === "quarantine") {
+    return true;
+  }
+  if ((filter.suite && event.data.suite !== filter.suite) || (filter.environment && event.data.environment !== filter.environment)) {
+    return false;
+  }
+  return !filter.status || event.type === "alert" || event.data.status === filter.status;
+}
+
+export function validateEventQuery(params: URLSearchParams): ValidationResult<EventFilter> {
+  const errors: FieldError[] = [];
+  const filter: EventFilter = {};
+
+  for (const field of ["appId", "suite", "environment"] as const) {
+    const value = params.get(field);
+    if (value) {
+      filter[field] = value;
+    }
+  }
+  const status = params.get("status");
+  if (status) {
+    filter.status = readRunStatus(status, "status", errors);
+  }
+  const types = params.get("types");
+  if (types) {
+    const values = types.split(",").map((type) => type.trim());
+    const unknown = values.filter((type) => !HUB_EVENT_TYPES.includes(type as HubEventType));
+    if (unknown.length) {
+      errors.push({ field: "types", message: `must be a comma-separated list of ${HUB_EVENT_TYPES.join(", ")}` });
+    } else {
+      filter.types = values as HubEventType[];
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: filter };
+}
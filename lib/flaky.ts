@@ -0,0 +1,163 @@
+import { listTests, queryRuns } from "@/lib/dataStore";
+import type { RunQuery } from "@/lib/storage/types";
+import type { TestCaseResult, TestCaseStatus, TestRun } from "@/lib/types";
+import { MAX_PAGE_SIZE, readDateRange, readInteger } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+export interface FlakyTest {
+  /** Stable identity of the test across runs: app, suite, project and title path. */
+  key: string;
+  appId: string;
+  suite: string;
+  title: string;
+  titlePath: string[];
+  project?: string;
+  file?: string;
+  /** Runs in the analyzed window that executed the test (skips excluded). */
+  runs: number;
+  /** Runs counted as flaky: passed after a retry, or failed where the same code also passed. */
+  flakyRuns: number;
+  retryPasses: number;
+  /** Commits (or branches, for runs without a commit) on which the test both passed and failed. */
+  conflicts: number;
+  /** Percentage of runs that were flaky. */
+  score: number;
+  firstSeen: string;
+  lastSeen: string;
+  lastStatus: TestCaseStatus;
+}
+
+export interface FlakyQuery extends Pick<RunQuery, "appId" | "suite" | "environment" | "branch" | "from" | "to"> {
+  /** Number of most recent runs to analyze. */
+  window: number;
+  /** Maximum number of tests returned. */
+  limit: number;
+  /** Ignore tests seen in fewer runs than this. */
+  minRuns?: number;
+}
+
+export interface FlakyReport {
+  analyzedRuns: number;
+  tests: FlakyTest[];
+}
+
+interface Observation {
+  createdAt: string;
+  code: string | null;
+  status: TestCaseStatus;
+  retries: number;
+}
+
+const isFailure = (status: TestCaseStatus) => status === "failed" || status === "timedOut";
+
+export const flakyTestKey = (run: Pick<TestRun, "appId" | "suite">, test: Pick<TestCaseResult, "project" | "titlePath">) =>
+  [run.appId, run.suite, test.project ?? "", test.titlePath.join(" › ")].join("|");
+
+// Runs of the same commit execute identical code; without a commit the branch is the closest proxy
+const codeVersion = (run: TestRun) => (run.commit ? `commit:${run.commit}` : run.branch ? `branch:${run.branch}` : null);
+
+function scoreTest(observations: Observation[]) {
+  const byCode = new Map<string, Observation[]>();
+  for (const observation of observations) {
+    if (observation.code) {
+      byCode.set(observation.code, [...(byCode.get(observation.code) ?? []), observation]);
+    }
+  }
+  const flaky = new Set(observations.filter((entry) => entry.status === "passed" && entry.retries > 0));
+  const retryPasses = flaky.size;
+  let conflicts = 0;
+  for (const group of byCode.values()) {
+    if (group.some((entry) => entry.status === "passed") && group.some((entry) => isFailure(entry.status))) {
+      conflicts += 1;
+      group.filter((entry) => isFailure(entry.status)).forEach((entry) => flaky.add(entry));
+    }
+  }
+  return { flaky: [...flaky], retryPasses, conflicts };
+}
+
+/** Scores every test seen in `runs`; only tests with at least one flaky run are returned, worst first. */
+export function analyzeFlakiness(runs: TestRun[], testsByRun: Record<string, TestCaseResult[]>): FlakyTest[] {
+  const observations = new Map<string, Observation[]>();
+  const latest = new Map<string, { run: TestRun; test: TestCaseResult }>();
+  const chronological = [...runs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const run of chronological) {
+    for (const test of testsByRun[run.id] ?? []) {
+      if (test.status === "skipped") {
+        continue;
+      }
+      const key = flakyTestKey(run, test);
+      const entry = { createdAt: run.createdAt, code: codeVersion(run), status: test.status, retries: test.retries };
+      observations.set(key, [...(observations.get(key) ?? []), entry]);
+      latest.set(key, { run, test });
+    }
+  }
+
+  const results: FlakyTest[] = [];
+  for (const [key, entries] of observations) {
+    const { flaky, retryPasses, conflicts } = scoreTest(entries);
+    if (flaky.length === 0) {
+      continue;
+    }
+    const { run, test } = latest.get(key)!;
+    const seen = flaky.map((entry) => entry.createdAt).sort();
+    results.push({
+      key,
+      appId: run.appId,
+      suite: run.suite,
+      title: test.title,
+      titlePath: test.titlePath,
+      project: test.project,
+      file: test.file,
+      runs: entries.length,
+      flakyRuns: flaky.length,
+      retryPasses,
+      conflicts,
+      score: Math.round((flaky.length / entries.length) * 1000) / 10,
+      firstSeen: seen[0],
+      lastSeen: seen[seen.length - 1],
+      lastStatus: test.status
+    });
+  }
+  return results.sort((a, b) => b.score - a.score || b.flakyRuns - a.flakyRuns || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+export async function getFlakyTests(query: FlakyQuery): Promise<FlakyReport> {
+  const { window, limit, minRuns = 1, ...filters } = query;
+  const { runs } = await queryRuns({ ...filters, limit: window });
+  const testsByRun: Record<string, TestCaseResult[]> = {};
+  await Promise.all(
+    runs.map(async (run) => {
+      testsByRun[run.id] = await listTests(run.id);
+    })
+  );
+  const tests = analyzeFlakiness(runs, testsByRun).filter((test) => test.runs >= minRuns);
+  return { analyzedRuns: runs.length, tests: tests.slice(0, limit) };
+}
+
+export const DEFAULT_FLAKY_WINDOW = 200;
+
+export const MAX_FLAKY_WINDOW = 1000;
+
+export const DEFAULT_FLAKY_LIMIT = 20;
+
+export function validateFlakyQuery(params: URLSearchParams): ValidationResult<FlakyQuery> {
+  const errors: FieldError[] = [];
+  const query: FlakyQuery = { window: DEFAULT_FLAKY_WINDOW, limit: DEFAULT_FLAKY_LIMIT };
+
+  for (const field of ["appId", "suite", "environment", "branch"] as const) {
+    const value = params.get(field);
+    if (value) {
+      query[field] = value;
+    }
+  }
+  readDateRange(params, query, errors);
+  query.window = readInteger(params, "window", 1, MAX_FLAKY_WINDOW, errors) ?? query.window;
+  query.limit = readInteger(params, "limit", 1, MAX_PAGE_SIZE, errors) ?? query.limit;
+  query.minRuns = readInteger(params, "minRuns", 1, MAX_FLAKY_WINDOW, errors);
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: query };
+}
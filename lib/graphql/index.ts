@@ -0,0 +1,51 @@
+import { GraphQLObjectType, buildSchema, getOperationAST, graphql, parse } from "graphql";
+import type { ExecutionResult, GraphQLSchema } from "graphql";
+import { typeDefs } from "@/lib/graphql/schema";
+import { resolvers } from "@/lib/graphql/resolvers";
+import type { GraphQLContext, Resolvers } from "@/lib/graphql/resolvers";
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+function attachResolvers(target: GraphQLSchema, map: Resolvers) {
+  for (const [typeName, fields] of Object.entries(map)) {
+    const type = target.getType(typeName);
+    if (!(type instanceof GraphQLObjectType)) {
+      throw new Error(`GraphQL resolvers reference unknown type ${typeName}`);
+    }
+    const typeFields = type.getFields();
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      if (!typeFields[fieldName]) {
+        throw new Error(`GraphQL resolvers reference unknown field ${typeName}.${fieldName}`);
+      }
+      typeFields[fieldName].resolve = resolve;
+    }
+  }
+  return target;
+}
+
+export const schema = attachResolvers(buildSchema(typeDefs), resolvers);
+
+export function isMutation(request: GraphQLRequest) {
+  try {
+    return getOperationAST(parse(request.query), request.operationName)?.operation === "mutation";
+  } catch {
+    // Syntax errors are reported by graphql() itself
+    return false;
+  }
+}
+
+export function executeGraphQL(request: GraphQLRequest, context: GraphQLContext): Promise<ExecutionResult> {
+  return graphql({
+    schema,
+    source: request.query,
+    variableValues: request.variables ?? undefined,
+    operationName: request.operationName ?? undefined,
+    contextValue: context
+  });
+}
+
+export type { GraphQLContext } from "@/lib/graphql/resolvers";
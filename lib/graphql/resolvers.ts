@@ -0,0 +1,169 @@
+import { GraphQLError } from "graphql";
+import { listArtifacts, withArtifactUrl } from "@/lib/artifacts";
+import { recordAudit } from "@/lib/audit";
+import { addRun, getRun, listRuns, listTests, queryRuns, validateRunPayload, validateRunQuery } from "@/lib/dataStore";
+import { getSettings, getTeamSettings, settingsOwner, updateSettings, validateSettingsPatch } from "@/lib/settings";
+import type { DashboardSettings } from "@/lib/settings";
+import { canAccessApp, hasRole, sessionScopes } from "@/lib/auth";
+import type { Role } from "@/lib/auth";
+import { groupRunsBy, summarizeRuns } from "@/lib/stats";
+import type { FieldError } from "@/lib/validation";
+import type { Session } from "@/lib/session";
+import type { ApiKeyInfo, ApiKeyScope, TestRun } from "@/lib/types";
+
+export interface GraphQLContext {
+  role?: Role;
+  /** Hub-managed key the request authenticated with. */
+  key?: ApiKeyInfo;
+  /** Login session, for requests from the dashboard. */
+  session?: Session;
+}
+
+type Args = Record<string, unknown>;
+type Resolver<Source> = (source: Source, args: Args, context: GraphQLContext) => unknown;
+type FieldResolvers<Source> = Record<string, Resolver<Source>>;
+
+/** What the parent field resolves to for `App` fields. */
+interface AppSource {
+  id: string;
+}
+
+/** Field resolvers per schema type, keyed by the value their parent field resolves to. */
+export type Resolvers = {
+  Query: FieldResolvers<unknown>;
+  Mutation: FieldResolvers<unknown>;
+  App: FieldResolvers<AppSource>;
+  Run: FieldResolvers<TestRun>;
+  Settings: FieldResolvers<DashboardSettings>;
+};
+
+const INGEST_ROLES = ["admin", "editor", "ingest"];
+const SETTINGS_ROLES = ["admin", "editor"];
+
+function badInput(message: string, errors: FieldError[]) {
+  return new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT", errors } });
+}
+
+function requireRole(context: GraphQLContext, roles: string[]) {
+  if (!hasRole(context.role, roles)) {
+    throw new GraphQLError("Forbidden", { extensions: { code: "FORBIDDEN" } });
+  }
+}
+
+/** Like the REST routes, a managed key or session needs at least one of `scopes`. */
+function requireScope(context: GraphQLContext, scopes: ApiKeyScope | ApiKeyScope[], appId: string | null) {
+  const { key, session } = context;
+  const granted = (held: ApiKeyScope[]) => ([] as ApiKeyScope[]).concat(scopes).some((scope) => held.includes(scope));
+  if (key && (!granted(key.scopes) || !canAccessApp({ status: "ok", key }, appId))) {
+    throw new GraphQLError("Forbidden", { extensions: { code: "FORBIDDEN" } });
+  }
+  if (session && !granted(sessionScopes(session))) {
+    throw new GraphQLError("Forbidden", { extensions: { code: "FORBIDDEN" } });
+  }
+}
+
+// Reuse the REST query validation so both APIs accept exactly the same filters
+async function runConnection(args: Args, scope: Args = {}) {
+  const params = new URLSearchParams();
+  const entries = { ...(args.filter as Args | undefined), ...scope, order: args.order, limit: args.limit, cursor: args.cursor };
+  for (const [key, value] of Object.entries(entries)) {
+    if (value !== undefined && value !== null) {
+      params.set(key, String(value));
+    }
+  }
+  const query = validateRunQuery(params);
+  if (!query.ok) {
+    throw badInput("Invalid run query", query.errors);
+  }
+  const page = await queryRuns(query.value);
+  return { nodes: page.runs, next: page.next };
+}
+
+async function suitesFor(appId: string | undefined, window: number) {
+  const runs = appId ? (await queryRuns({ appId })).runs : await listRuns();
+  const groups = groupRunsBy(runs, (run) => `${run.appId}::${run.suite}`);
+  return Object.values(groups).map((group) => {
+    const recent = group.slice(0, Math.max(window, 1));
+    return {
+      appId: recent[0].appId,
+      name: recent[0].suite,
+      latestRun: recent[0],
+      ...summarizeRuns(recent)
+    };
+  });
+}
+
+/** Validates like `PATCH /api/settings` and changes the settings of `owner`, or the team defaults for `null`. */
+async function changeSettings(context: GraphQLContext, owner: string | null, input: Args) {
+  const result = validateSettingsPatch({ ...input }, { allowReset: owner !== null });
+  if (!result.ok) {
+    throw badInput("Invalid settings", result.errors);
+  }
+  const before = await getSettings(owner);
+  const updated = await updateSettings(owner, result.value);
+  await recordAudit(context, { action: "settings.update", target: owner ?? "team", before, after: updated });
+  return updated;
+}
+
+export const resolvers: Resolvers = {
+  Query: {
+    runs: (_source, args) => runConnection(args),
+    run: (_source, args) => getRun(String(args.id)),
+    apps: async () => {
+      const runs = await listRuns();
+      return Array.from(new Set(runs.map((run) => run.appId)))
+        .sort()
+        .map((id) => ({ id }));
+    },
+    app: async (_source, args) => {
+      const { runs } = await queryRuns({ appId: String(args.id), limit: 1 });
+      return runs.length ? { id: args.id } : null;
+    },
+    suites: (_source, args) => suitesFor(args.appId as string | undefined, Number(args.window)),
+    settings: (_source, _args, context) => getSettings(settingsOwner(context)),
+    teamSettings: () => getTeamSettings()
+  },
+  Mutation: {
+    ingestRun: async (_source, args, context) => {
+      requireRole(context, INGEST_ROLES);
+      const result = validateRunPayload({ ...(args.input as Args) });
+      if (!result.ok) {
+        throw badInput("Invalid run payload", result.errors);
+      }
+      requireScope(context, "ingest", result.value.appId);
+      return addRun(result.value);
+    },
+    updateSettings: (_source, args, context) => {
+      const owner = settingsOwner(context);
+      requireScope(context, ["read", "admin"], null);
+      if (!owner) {
+        requireRole(context, SETTINGS_ROLES);
+      }
+      return changeSettings(context, owner, args.input as Args);
+    },
+    updateTeamSettings: (_source, args, context) => {
+      requireRole(context, SETTINGS_ROLES);
+      requireScope(context, "admin", null);
+      return changeSettings(context, null, args.input as Args);
+    }
+  },
+  App: {
+    latestRun: async (app) => (await queryRuns({ appId: app.id, limit: 1 })).runs[0] ?? null,
+    suites: (app, args) => suitesFor(app.id, Number(args.window)),
+    runs: (app, args) => runConnection(args, { appId: app.id })
+  },
+  Run: {
+    tags: (run) => run.tags ?? [],
+    tests: async (run, args) => {
+      const tests = await listTests(run.id);
+      return args.status ? tests.filter((test) => test.status === args.status) : tests;
+    },
+    artifacts: async (run) => {
+      const stored = (await listArtifacts(run.id)).map(withArtifactUrl);
+      return run.artifactUrl ? [{ name: "report", type: "report", url: run.artifactUrl }, ...stored] : stored;
+    }
+  },
+  Settings: {
+    savedFilters: (settings) => settings.savedFilters ?? []
+  }
+};
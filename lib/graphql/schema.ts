@@ -0,0 +1,220 @@
+export const typeDefs = /* GraphQL */ `
+  enum RunStatus {
+    passed
+    failed
+    unstable
+    skipped
+    running
+  }
+
+  enum TestCaseStatus {
+    passed
+    failed
+    timedOut
+    skipped
+    interrupted
+  }
+
+  enum SortOrder {
+    asc
+    desc
+  }
+
+  type Run {
+    id: ID!
+    appId: String!
+    suite: String!
+    environment: String!
+    status: RunStatus!
+    total: Int!
+    passed: Int!
+    failed: Int!
+    skipped: Int
+    flaky: Int
+    quarantined: Int
+    durationMs: Float!
+    coverage: Float
+    commit: String
+    branch: String
+    tags: [String!]!
+    artifactUrl: String
+    timestamp: String
+    planned: Int
+    "Set on live runs the hub closed as failed after their reporter stopped sending results."
+    interrupted: Boolean
+    createdAt: String!
+    tests(status: TestCaseStatus): [TestCase!]!
+    artifacts: [Artifact!]!
+  }
+
+  type TestCase {
+    id: ID!
+    runId: ID!
+    title: String!
+    titlePath: [String!]!
+    file: String
+    line: Int
+    project: String
+    status: TestCaseStatus!
+    retries: Int!
+    durationMs: Float!
+    errors: [String!]!
+    quarantined: Boolean
+  }
+
+  "Uploaded artifacts carry their metadata; the run-level artifactUrl is exposed as a report without it."
+  type Artifact {
+    id: ID
+    testId: ID
+    name: String!
+    type: String!
+    url: String!
+    contentType: String
+    size: Int
+    checksum: String
+    createdAt: String
+  }
+
+  type RunConnection {
+    nodes: [Run!]!
+    next: String
+  }
+
+  "Aggregates are computed over the newest runs of the suite (see the window argument)."
+  type Suite {
+    appId: String!
+    name: String!
+    runCount: Int!
+    passRate: Float!
+    flakeRate: Float!
+    p95DurationMs: Float
+    latestRun: Run
+  }
+
+  type App {
+    id: ID!
+    latestRun: Run
+    suites(window: Int = 100): [Suite!]!
+    runs(filter: RunFilter, order: SortOrder, limit: Int, cursor: String): RunConnection!
+  }
+
+  type SavedFilter {
+    id: ID!
+    name: String!
+    status: String!
+    environment: String
+    suite: String
+  }
+
+  type DashboardWidget {
+    id: ID!
+    type: String!
+    width: Int!
+    height: Int!
+  }
+
+  type Dashboard {
+    id: ID!
+    name: String!
+    widgets: [DashboardWidget!]!
+  }
+
+  type Settings {
+    dashboards: [Dashboard!]!
+    theme: String
+    savedFilters: [SavedFilter!]!
+  }
+
+  input RunFilter {
+    appId: String
+    suite: String
+    environment: String
+    status: RunStatus
+    branch: String
+    commit: String
+    from: String
+    to: String
+  }
+
+  input TestCaseInput {
+    title: String!
+    titlePath: [String!]
+    file: String
+    line: Int
+    project: String
+    status: TestCaseStatus!
+    retries: Int
+    durationMs: Float!
+    errors: [String!]
+    quarantined: Boolean
+  }
+
+  "Mirrors the POST /api/runs ingestion contract; status also accepts flaky."
+  input RunInput {
+    schemaVersion: Int
+    appId: String!
+    suite: String!
+    environment: String!
+    status: String!
+    total: Int!
+    passed: Int!
+    failed: Int!
+    skipped: Int
+    flaky: Int
+    quarantined: Int
+    durationMs: Float!
+    coverage: Float
+    commit: String
+    branch: String
+    tags: [String!]
+    artifactUrl: String
+    timestamp: String
+    planned: Int
+    tests: [TestCaseInput!]
+  }
+
+  input SavedFilterInput {
+    id: ID!
+    name: String!
+    status: String!
+    environment: String
+    suite: String
+  }
+
+  input DashboardWidgetInput {
+    id: ID!
+    type: String!
+    width: Int!
+    height: Int!
+  }
+
+  input DashboardInput {
+    id: ID!
+    name: String!
+    widgets: [DashboardWidgetInput!]!
+  }
+
+  input SettingsInput {
+    dashboards: [DashboardInput!]
+    theme: String
+    savedFilters: [SavedFilterInput!]
+  }
+
+  type Query {
+    runs(filter: RunFilter, order: SortOrder, limit: Int, cursor: String): RunConnection!
+    run(id: ID!): Run
+    apps: [App!]!
+    app(id: ID!): App
+    suites(appId: String, window: Int = 100): [Suite!]!
+    "The caller's own settings over the team defaults."
+    settings: Settings!
+    teamSettings: Settings!
+  }
+
+  type Mutation {
+    ingestRun(input: RunInput!): Run!
+    "Changes the caller's own settings; null fields fall back to the team defaults."
+    updateSettings(input: SettingsInput!): Settings!
+    updateTeamSettings(input: SettingsInput!): Settings!
+  }
+`;
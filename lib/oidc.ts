@@ -0,0 +1,182 @@
+import { createHash, createPublicKey, randomBytes, verify } from "node:crypto";
+import type { JsonWebKey } from "node:crypto";
+import { oidcConfig, rbacMap } from "@/lib/config";
+import { sessionTtlSeconds } from "@/lib/session";
+import type { Session } from "@/lib/session";
+
+export const LOGIN_COOKIE = "uxqa_oidc";
+export const LOGIN_TTL_SECONDS = 10 * 60;
+// Tolerated clock difference with the identity provider
+const CLOCK_SKEW_SECONDS = 60;
+
+/** Pending login kept in a sealed cookie between the redirect to the provider and the callback. */
+export interface LoginTransaction {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+type Claims = Record<string, unknown>;
+
+export class OidcError extends Error {}
+
+let metadata: Promise<ProviderMetadata> | null = null;
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new OidcError(`${url} responded ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function getMetadata() {
+  if (!oidcConfig.issuer || !oidcConfig.clientId) {
+    throw new OidcError("OIDC login is not configured");
+  }
+  metadata ??= fetchJson<ProviderMetadata>(`${oidcConfig.issuer}/.well-known/openid-configuration`).catch((error) => {
+    metadata = null;
+    throw error;
+  });
+  return metadata;
+}
+
+const randomToken = () => randomBytes(32).toString("base64url");
+
+export const redirectUriFor = (origin: string) => oidcConfig.redirectUri ?? `${origin}/api/auth/callback`;
+
+/** Only same-origin paths, so the callback cannot be turned into an open redirect. */
+export const safeReturnTo = (value: string | null) => (value?.startsWith("/") && !value.startsWith("//") ? value : "/");
+
+export async function createLogin(redirectUri: string, returnTo: string) {
+  const provider = await getMetadata();
+  const transaction: LoginTransaction = { state: randomToken(), nonce: randomToken(), verifier: randomToken(), returnTo };
+  const url = new URL(provider.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: oidcConfig.clientId!,
+    redirect_uri: redirectUri,
+    scope: oidcConfig.scopes,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: createHash("sha256").update(transaction.verifier).digest("base64url"),
+    code_challenge_method: "S256"
+  }).toString();
+  return { url: url.toString(), transaction };
+}
+
+function readClaim(claims: Claims, path: string) {
+  return path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Claims)[key] : undefined), claims);
+}
+
+/**
+ * Claim values are used as roles as-is, or through `UXQA_OIDC_ROLE_MAP` when set (unmapped values are dropped).
+ * With `UXQA_RBAC` set, only roles it defines are kept.
+ */
+export function mapRoles(claims: Claims) {
+  const value = readClaim(claims, oidcConfig.rolesClaim);
+  const values = (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === "string");
+  const roles = values.flatMap((item) => oidcConfig.roleMap?.[item] ?? (oidcConfig.roleMap ? [] : [item]));
+  return [...new Set(roles)].filter((role) => !rbacMap || role in rbacMap);
+}
+
+async function verifyIdToken(idToken: string, nonce: string): Promise<Claims> {
+  const [header, payload, signature] = idToken.split(".");
+  if (!header || !payload || !signature) {
+    throw new OidcError("Malformed ID token");
+  }
+  const { alg, kid } = JSON.parse(Buffer.from(header, "base64url").toString()) as { alg?: string; kid?: string };
+  const algorithm = alg === "RS256" ? "RSA-SHA256" : alg === "ES256" ? "SHA256" : null;
+  if (!algorithm) {
+    throw new OidcError(`Unsupported ID token algorithm ${alg}`);
+  }
+  const provider = await getMetadata();
+  const { keys } = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string }> }>(provider.jwks_uri);
+  const jwk = keys.find((key) => !kid || key.kid === kid);
+  if (!jwk) {
+    throw new OidcError("No matching signing key");
+  }
+  const valid = verify(
+    algorithm,
+    Buffer.from(`${header}.${payload}`),
+    { key: createPublicKey({ key: jwk, format: "jwk" }), dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  if (!valid) {
+    throw new OidcError("Invalid ID token signature");
+  }
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as Claims;
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Date.now() / 1000;
+  if (claims.iss !== provider.issuer || !audience.includes(oidcConfig.clientId)) {
+    throw new OidcError("ID token was issued for another provider or client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new OidcError("ID token expired");
+  }
+  if (claims.nonce !== nonce) {
+    throw new OidcError("ID token nonce mismatch");
+  }
+  return claims;
+}
+
+/** Exchanges the authorization code and turns the verified ID token into a session. */
+export async function completeLogin(params: URLSearchParams, transaction: LoginTransaction | null, redirectUri: string) {
+  if (params.get("error")) {
+    throw new OidcError(`Identity provider returned ${params.get("error")}`);
+  }
+  const code = params.get("code");
+  if (!transaction || !code || params.get("state") !== transaction.state) {
+    throw new OidcError("Login state mismatch");
+  }
+  const provider = await getMetadata();
+  const headers: Record<string, string> = { "content-type": "application/x-www-form-urlencoded" };
+  if (oidcConfig.clientSecret) {
+    const credentials = `${encodeURIComponent(oidcConfig.clientId!)}:${encodeURIComponent(oidcConfig.clientSecret)}`;
+    headers.authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+  const tokens = await fetchJson<{ id_token?: string }>(provider.token_endpoint, {
+    method: "POST",
+    headers,
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: oidcConfig.clientId!,
+      code_verifier: transaction.verifier
+    })
+  });
+  if (!tokens.id_token) {
+    throw new OidcError("Token response has no ID token");
+  }
+  const claims = await verifyIdToken(tokens.id_token, transaction.nonce);
+  const session: Session = {
+    sub: String(claims.sub),
+    name: typeof claims.name === "string" ? claims.name : undefined,
+    email: typeof claims.email === "string" ? claims.email : undefined,
+    roles: mapRoles(claims),
+    expiresAt: Math.floor(Date.now() / 1000) + sessionTtlSeconds
+  };
+  return session;
+}
+
+/** Provider logout URL when it advertises one, so signing out of the hub also ends the SSO session. */
+export async function logoutUrl(postLogoutRedirectUri: string) {
+  const provider = await getMetadata().catch(() => null);
+  if (!provider?.end_session_endpoint) {
+    return null;
+  }
+  const url = new URL(provider.end_session_endpoint);
+  url.searchParams.set("client_id", oidcConfig.clientId!);
+  url.searchParams.set("post_logout_redirect_uri", postLogoutRedirectUri);
+  return url.toString();
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from "node:crypto";
+import { deliveryBackoffMs, deliveryMaxAttempts, deliveryMaxBackoffMs } from "@/lib/config";
+import { getStore } from "@/lib/storage";
+import type { OutboxJob } from "@/lib/types";
+import { asObject, optionalString } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+export interface DeliveryHandler {
+  /** Rejects when the payload was not accepted, so the job is retried. */
+  deliver: (job: OutboxJob) => Promise<void>;
+  /** Called once the job was delivered or dead-lettered, with `job.attempts` and `job.lastError` filled in. */
+  settled?: (job: OutboxJob, delivered: boolean) => void | Promise<void>;
+}
+
+export interface SinkHealth {
+  sink: string;
+  /** `degraded` while the last attempt failed or dead letters are waiting to be retried. */
+  status: "healthy" | "degraded";
+  pending: number;
+  dead: number;
+  consecutiveFailures: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+type Attempts = Pick<SinkHealth, "consecutiveFailures" | "lastSuccessAt" | "lastFailureAt" | "lastError">;
+
+const handlers = new Map<string, DeliveryHandler>();
+const attempts = new Map<string, Attempts>();
+
+/** Handles jobs whose sink is `kind` or starts with `kind:`. */
+export function registerDeliveryHandler(kind: string, handler: DeliveryHandler) {
+  handlers.set(kind, handler);
+}
+
+const handlerOf = (sink: string) => handlers.get(sink) ?? handlers.get(sink.split(":")[0]);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Wait before the attempt after `attempts` failed ones. */
+export const backoffDelay = (attempts: number) =>
+  Math.min(deliveryMaxBackoffMs, deliveryBackoffMs * 2 ** Math.max(0, attempts - 1));
+
+function recordAttempt(sink: string, error?: unknown) {
+  const now = new Date().toISOString();
+  const current = attempts.get(sink) ?? { consecutiveFailures: 0 };
+  attempts.set(
+    sink,
+    error === undefined
+      ? { ...current, consecutiveFailures: 0, lastSuccessAt: now }
+      : { ...current, consecutiveFailures: current.consecutiveFailures + 1, lastFailureAt: now, lastError: errorMessage(error) }
+  );
+}
+
+/** Tries one job; resolves to whether the sink accepted it. */
+async function attempt(job: OutboxJob, handler: DeliveryHandler) {
+  const next: OutboxJob = { ...job, attempts: job.attempts + 1, updatedAt: new Date().toISOString() };
+  try {
+    await handler.deliver(next);
+  } catch (error) {
+    recordAttempt(job.sink, error);
+    next.lastError = errorMessage(error);
+    if (next.attempts < deliveryMaxAttempts) {
+      next.nextAttemptAt = new Date(Date.now() + backoffDelay(next.attempts)).toISOString();
+      await store.putOutboxJob(next);
+      return false;
+    }
+    console.error(`Delivery to ${job.sink} failed after ${next.attempts} attempts, dead-lettered: ${next.lastError}`);
+    await store.putOutboxJob({ ...next, status: "dead" });
+    await handler.settled?.(next, false);
+    return false;
+  }
+  recordAttempt(job.sink);
+  delete next.lastError;
+  await store.deleteOutboxJob(job.id);
+  await handler.settled?.(next, true);
+  return true;
+}
+
+/** Pending jobs a handler is registered for; others wait for the module that handles them. */
+async function deliverableJobs() {
+  return (await store.listOutbox()).filter((job) => job.status === "pending" && handlerOf(job.sink));
+}
+
+/** Due jobs go out oldest first, one at a time per sink; a failure holds back the rest of that sink until its retry. */
+async function drainOnce() {
+  const now = Date.now();
+  const bySink = new Map<string, OutboxJob[]>();
+  for (const job of await deliverableJobs()) {
+    if (Date.parse(job.nextAttemptAt) <= now) {
+      bySink.set(job.sink, [...(bySink.get(job.sink) ?? []), job]);
+    }
+  }
+  await Promise.all(
+    [...bySink.values()].map(async (jobs) => {
+      for (const job of jobs) {
+        if (!(await attempt(job, handlerOf(job.sink)!))) {
+          break;
+        }
+      }
+    })
+  );
+}
+
+let draining: Promise<void> | null = null;
+let rerun = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+async function scheduleNext() {
+  const next = Math.min(...(await deliverableJobs()).map((job) => Date.parse(job.nextAttemptAt)));
+  // A job queued meanwhile started another drain, which schedules once it is done
+  if (draining) {
+    return;
+  }
+  if (timer) {
+    clearTimeout(timer);
+  }
+  if (Number.isFinite(next)) {
+    timer = setTimeout(drain, Math.max(0, next - Date.now()));
+    timer.unref?.();
+  }
+}
+
+function drain() {
+  if (draining) {
+    rerun = true;
+    return draining;
+  }
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  draining = (async () => {
+    do {
+      rerun = false;
+      await drainOnce();
+    } while (rerun);
+  })()
+    .catch((error) => console.error("Failed to drain the delivery outbox", error))
+    .finally(() => {
+      draining = null;
+      void scheduleNext();
+    });
+  return draining;
+}
+
+/**
+ * Persists the payload for `sink` before the first attempt, so it survives outages and restarts; it is retried with
+ * exponential backoff and dead-lettered after `UXQA_DELIVERY_MAX_ATTEMPTS` attempts. A job with the same `id` is replaced.
+ */
+export async function enqueueDelivery(sink: string, payload: unknown, id: string = randomUUID()) {
+  const now = new Date().toISOString();
+  const job: OutboxJob = { id, sink, payload, status: "pending", attempts: 0, nextAttemptAt: now, createdAt: now };
+  await store.putOutboxJob(job);
+  void drain();
+  return job;
+}
+
+/** Puts dead letters, of one sink or all, back in the queue for a fresh set of attempts. */
+export async function retryDeadDeliveries(sink?: string) {
+  const now = new Date().toISOString();
+  const dead = (await store.listOutbox()).filter((job) => job.status === "dead" && (!sink || job.sink === sink));
+  for (const job of dead) {
+    await store.putOutboxJob({ ...job, status: "pending", attempts: 0, nextAttemptAt: now, updatedAt: now });
+  }
+  if (dead.length) {
+    void drain();
+  }
+  return dead.length;
+}
+
+/** Sinks that were attempted since startup or still have queued jobs. */
+export async function sinkHealth(): Promise<SinkHealth[]> {
+  const jobs = await store.listOutbox();
+  const sinks = new Set([...attempts.keys(), ...jobs.map((job) => job.sink)]);
+  return [...sinks].sort().map((sink) => {
+    const pending = jobs.filter((job) => job.sink === sink && job.status === "pending").length;
+    const dead = jobs.filter((job) => job.sink === sink && job.status === "dead").length;
+    const state = attempts.get(sink) ?? { consecutiveFailures: 0 };
+    return { sink, status: state.consecutiveFailures || dead ? "degraded" : "healthy", pending, dead, ...state };
+  });
+}
+
+/** Resolves once every deliverable job was delivered or dead-lettered. */
+export async function outboxIdle() {
+  let jobs = await deliverableJobs();
+  while (jobs.length || draining) {
+    const next = Math.min(...jobs.map((job) => Date.parse(job.nextAttemptAt)));
+    await (draining ?? new Promise((resolve) => setTimeout(resolve, Math.max(1, next - Date.now()))));
+    jobs = await deliverableJobs();
+  }
+}
+
+// Jobs left over from before a restart; deferred so the modules importing this one can register their handlers first
+setTimeout(() => void drain(), 0).unref?.();
+
+export function validateDeliveryRetryPayload(input: unknown): ValidationResult<{ sink?: string }> {
+  const object = asObject(input ?? {});
+  if (!object.ok) {
+    return object;
+  }
+  const errors: FieldError[] = [];
+  const sink = optionalString(object.value, "sink", errors);
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: sink ? { sink } : {} };
+}
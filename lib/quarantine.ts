@@ -0,0 +1,106 @@
+import { randomUUID } from "node:crypto";
+import { publish } from "@/lib/events";
+import { getStore } from "@/lib/storage";
+import type { CreateQuarantinePayload, QuarantineEntry, UpdateQuarantinePayload } from "@/lib/types";
+import { asObject, isStringArray, optionalDate, optionalString, requireString } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+export const isQuarantineExpired = (entry: QuarantineEntry, now = new Date()) =>
+  Boolean(entry.expiresAt && Date.parse(entry.expiresAt) <= now.getTime());
+
+export async function listQuarantine(options: { appId?: string; active?: boolean } = {}) {
+  const entries = await store.listQuarantine(options.appId);
+  return options.active ? entries.filter((entry) => !isQuarantineExpired(entry)) : entries;
+}
+
+export async function getQuarantine(id: string) {
+  return (await store.listQuarantine()).find((entry) => entry.id === id);
+}
+
+export async function addQuarantine(payload: CreateQuarantinePayload): Promise<QuarantineEntry> {
+  const entry: QuarantineEntry = { id: randomUUID(), ...payload, createdAt: new Date().toISOString() };
+  await store.putQuarantine(entry);
+  publish({ type: "quarantine", data: { action: "created", entry } });
+  return entry;
+}
+
+export async function updateQuarantine(id: string, changes: UpdateQuarantinePayload) {
+  const current = await getQuarantine(id);
+  if (!current) {
+    return undefined;
+  }
+  const { expiresAt, ...fields } = changes;
+  const next: QuarantineEntry = { ...current, ...fields, updatedAt: new Date().toISOString() };
+  if (expiresAt === null) {
+    delete next.expiresAt;
+  } else if (expiresAt !== undefined) {
+    next.expiresAt = expiresAt;
+  }
+  await store.putQuarantine(next);
+  publish({ type: "quarantine", data: { action: "updated", entry: next } });
+  return next;
+}
+
+export async function removeQuarantine(id: string) {
+  const entry = await getQuarantine(id);
+  const removed = await store.deleteQuarantine(id);
+  if (entry && removed) {
+    publish({ type: "quarantine", data: { action: "deleted", entry } });
+  }
+  return removed;
+}
+
+export function validateQuarantinePayload(input: unknown): ValidationResult<CreateQuarantinePayload> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const titlePath = body.titlePath;
+  if (!isStringArray(titlePath) || titlePath.length === 0) {
+    errors.push({ field: "titlePath", message: "must be a non-empty array of strings" });
+  }
+  const payload: CreateQuarantinePayload = {
+    appId: requireString(body, "appId", errors),
+    suite: optionalString(body, "suite", errors) || undefined,
+    project: optionalString(body, "project", errors) || undefined,
+    titlePath: isStringArray(titlePath) ? titlePath : [],
+    owner: requireString(body, "owner", errors),
+    reason: requireString(body, "reason", errors),
+    expiresAt: optionalDate(body, "expiresAt", errors)
+  };
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: payload };
+}
+
+/** Only owner, reason and expiry can change; identify a different test by creating a new entry. */
+export function validateQuarantineUpdate(input: unknown): ValidationResult<UpdateQuarantinePayload> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const changes: UpdateQuarantinePayload = {};
+  for (const field of ["owner", "reason"] as const) {
+    if (body[field] !== undefined) {
+      changes[field] = requireString(body, field, errors);
+    }
+  }
+  if (body.expiresAt === null) {
+    changes.expiresAt = null;
+  } else if (body.expiresAt !== undefined) {
+    changes.expiresAt = optionalDate(body, "expiresAt", errors);
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: changes };
+}
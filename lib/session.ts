@@ -0,0 +1,75 @@
+// Reads the environment directly and only uses Web Crypto so middleware can import it
+export const oidcEnabled = Boolean(process.env.UXQA_OIDC_ISSUER && process.env.UXQA_OIDC_CLIENT_ID);
+export const adminRole = process.env.UXQA_ADMIN_ROLE ?? "admin";
+export const sessionTtlSeconds = Number(process.env.UXQA_SESSION_TTL ?? String(8 * 60 * 60));
+const sessionSecret = process.env.UXQA_SESSION_SECRET ?? process.env.UXQA_OIDC_CLIENT_SECRET;
+
+export const SESSION_COOKIE = "uxqa_session";
+
+export interface Session {
+  sub: string;
+  name?: string;
+  email?: string;
+  /** Hub roles mapped from the ID token's claims. */
+  roles: string[];
+  /** Epoch seconds. */
+  expiresAt: number;
+}
+
+const encoder = new TextEncoder();
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey() {
+  if (!sessionSecret) {
+    throw new Error("UXQA_SESSION_SECRET (or UXQA_OIDC_CLIENT_SECRET) is required for login sessions");
+  }
+  signingKey ??= crypto.subtle.importKey("raw", encoder.encode(sessionSecret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify"
+  ]);
+  return signingKey;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/** Serializes `value` as `payload.signature`; the payload is readable, only tampering is prevented. */
+export async function seal(value: unknown) {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** `null` for missing, malformed or tampered values. */
+export async function unseal<T>(sealed: string | null | undefined): Promise<T | null> {
+  const [payload, signature, extra] = sealed?.split(".") ?? [];
+  if (!payload || !signature || extra !== undefined) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await getSigningKey(), fromBase64Url(signature), encoder.encode(payload));
+    return valid ? (JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function readSession(sealed: string | null | undefined) {
+  const session = await unseal<Session>(sealed);
+  return session && session.expiresAt > Date.now() / 1000 ? session : null;
+}
+
+export function getCookie(header: string | null, name: string) {
+  for (const part of header?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
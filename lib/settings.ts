@@ -1,9 +1,19 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import { settingsFilePath } from "@/lib/config";
+import { MAX_DASHBOARDS, MAX_SAVED_FILTERS, defaultDashboard, readDashboard } from "@/lib/dashboards";
+import type { Dashboard, DashboardLink } from "@/lib/dashboards";
+import type { Authorized } from "@/lib/auth";
+import type { RunStatus } from "@/lib/types";
+import { asObject, optionalString, readObjects, requireString, requireUniqueIds } from "@/lib/validation";
+import type { FieldError, Fields, ValidationResult } from "@/lib/validation";
+
+export const THEMES = ["dark", "light", "auto"] as const;
 
 export interface DashboardSettings {
-  hiddenWidgets: string[];
+  /** Named widget layouts; the first one is shown when the URL does not pick another. */
+  dashboards: Dashboard[];
+  /** One of `THEMES`. */
   theme?: string;
   savedFilters?: SavedFilter[];
 }
@@ -11,47 +21,208 @@ export interface DashboardSettings {
 export interface SavedFilter {
   id: string;
   name: string;
-  status: "all" | "passed" | "failed" | "unstable";
+  status: "all" | RunStatus;
   environment?: string;
   suite?: string;
 }
 
+/** Fields to change; for a user, `null` drops their own value so the team default applies again. */
+export type SettingsPatch = { [Field in keyof DashboardSettings]?: DashboardSettings[Field] | null };
+
+interface SettingsFile {
+  /** What everyone sees until they change a setting themselves. */
+  team: DashboardSettings;
+  /** Only the fields each user changed, keyed by `settingsOwner`. */
+  users: Record<string, Partial<DashboardSettings>>;
+}
+
 const defaultSettings: DashboardSettings = {
-  hiddenWidgets: [],
+  dashboards: [defaultDashboard()],
   theme: "dark"
 };
 
-let cache: DashboardSettings | null = null;
+/** Settings files written before dashboards were configurable only list the widgets hidden from the fixed layout. */
+function migrate({
+  hiddenWidgets,
+  ...settings
+}: Partial<DashboardSettings> & { hiddenWidgets?: string[] }): DashboardSettings {
+  return {
+    ...settings,
+    dashboards: settings.dashboards?.length ? settings.dashboards : [defaultDashboard(hiddenWidgets)]
+  };
+}
+
+let cache: SettingsFile | null = null;
 
 async function loadSettings() {
   if (cache) {
     return cache;
   }
   try {
-    const contents = await fs.readFile(settingsFilePath, "utf-8");
-    cache = JSON.parse(contents) as DashboardSettings;
+    const contents = JSON.parse(await fs.readFile(settingsFilePath, "utf-8"));
+    // Files from before per-user settings hold the team's settings at the top level
+    cache = contents.team
+      ? { team: migrate(contents.team), users: contents.users ?? {} }
+      : { team: migrate(contents), users: {} };
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
       console.warn("Failed to load dashboard settings", error);
     }
-    cache = defaultSettings;
+    cache = { team: defaultSettings, users: {} };
   }
   return cache;
 }
 
-async function persist(settings: DashboardSettings) {
+async function persist(settings: SettingsFile) {
   await fs.mkdir(path.dirname(settingsFilePath), { recursive: true });
   await fs.writeFile(settingsFilePath, JSON.stringify(settings, null, 2));
   cache = settings;
 }
 
-export async function getSettings() {
-  return loadSettings();
+/**
+ * Whose settings a request reads and writes: the login's subject or the managed key. `null` when auth is off or
+ * for the bootstrap key, which act on the team defaults.
+ */
+export function settingsOwner({ key, session }: Pick<Authorized, "key" | "session">) {
+  if (session) {
+    return `user:${session.sub}`;
+  }
+  return key ? `key:${key.id}` : null;
+}
+
+export async function getTeamSettings() {
+  return (await loadSettings()).team;
+}
+
+/** The owner's settings laid over the team defaults; the team defaults themselves for `null`. */
+export async function getSettings(owner: string | null = null): Promise<DashboardSettings> {
+  const { team, users } = await loadSettings();
+  return owner ? { ...team, ...users[owner] } : team;
+}
+
+/** A dashboard opened from someone else's link: shown as `id` and still linked as the original until it is saved. */
+export type SharedDashboard = DashboardLink & { id: string };
+
+export interface ResolvedDashboardLink {
+  settings: DashboardSettings;
+  dashboardId?: string;
+  shared?: SharedDashboard;
+}
+
+/**
+ * Settings of `viewer` with the dashboard `link` points at, and the id to open it under. Someone else's dashboard is
+ * looked up among the owner's and then the team's, since the owner may not have changed the team's layouts, and
+ * added to the viewer's (saved once they change their layouts). It keeps its id unless the viewer has a different
+ * dashboard under that id, e.g. their own take on the Overview. No `dashboardId` when the dashboard is gone.
+ */
+export async function resolveDashboardLink(viewer: string | null, link: DashboardLink): Promise<ResolvedDashboardLink> {
+  const settings = await getSettings(viewer);
+  const own = settings.dashboards.find((dashboard) => dashboard.id === link.dashboard);
+  const linked =
+    link.owner === viewer ? own : (await getSettings(link.owner)).dashboards.find((entry) => entry.id === link.dashboard);
+  if (!linked || linked === own || JSON.stringify(linked) === JSON.stringify(own)) {
+    return { settings, dashboardId: linked?.id };
+  }
+  const id = own ? `${linked.id}-${Date.now()}` : linked.id;
+  return {
+    settings: { ...settings, dashboards: [...settings.dashboards, { ...linked, id }] },
+    dashboardId: id,
+    shared: { ...link, id }
+  };
 }
 
-export async function updateSettings(partial: Partial<DashboardSettings>) {
+/** Changes the owner's own settings and returns what they now see; `null` changes the team defaults. */
+export async function updateSettings(owner: string | null, patch: SettingsPatch) {
   const current = await loadSettings();
-  const next = { ...current, ...partial };
-  await persist(next);
-  return next;
+  if (!owner) {
+    const team = { ...current.team, ...withoutResets(patch) };
+    await persist({ ...current, team });
+    return team;
+  }
+  const own: Partial<DashboardSettings> = { ...current.users[owner], ...withoutResets(patch) };
+  for (const [field, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete own[field as keyof DashboardSettings];
+    }
+  }
+  const users = { ...current.users };
+  if (Object.keys(own).length) {
+    users[owner] = own;
+  } else {
+    delete users[owner];
+  }
+  await persist({ ...current, users });
+  return getSettings(owner);
+}
+
+/** Drops the `null` resets; the team has no defaults to fall back to, so they leave its values as they are. */
+function withoutResets(patch: SettingsPatch): Partial<DashboardSettings> {
+  return Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== null && value !== undefined));
+}
+
+const runStatuses: RunStatus[] = ["passed", "failed", "unstable", "skipped", "running"];
+
+const settingsFields = ["dashboards", "theme", "savedFilters"];
+
+function readSavedFilter(body: Fields, prefix: string, errors: FieldError[]): SavedFilter {
+  const status = body.status as SavedFilter["status"];
+  if (status !== "all" && !runStatuses.includes(status)) {
+    errors.push({ field: `${prefix}status`, message: `must be one of all, ${runStatuses.join(", ")}` });
+  }
+  return {
+    id: requireString(body, "id", errors, prefix),
+    name: requireString(body, "name", errors, prefix),
+    status,
+    environment: optionalString(body, "environment", errors, prefix) || undefined,
+    suite: optionalString(body, "suite", errors, prefix) || undefined
+  };
+}
+
+/**
+ * Body of `PATCH /api/settings`. Fields that are not settings are rejected instead of stored; with `allowReset`,
+ * `null` hands a field back to the team default.
+ */
+export function validateSettingsPatch(input: unknown, { allowReset = false } = {}): ValidationResult<SettingsPatch> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const patch: SettingsPatch = {};
+  for (const [field, value] of Object.entries(body)) {
+    if (!settingsFields.includes(field)) {
+      errors.push({ field, message: "is not a setting" });
+    } else if (value === null && !allowReset) {
+      errors.push({ field, message: "must not be null" });
+    } else if (value === null) {
+      patch[field as keyof SettingsPatch] = null;
+    }
+  }
+  if (body.theme !== undefined && body.theme !== null) {
+    if (!THEMES.includes(body.theme as (typeof THEMES)[number])) {
+      errors.push({ field: "theme", message: `must be one of ${THEMES.join(", ")}` });
+    }
+    patch.theme = body.theme as string;
+  }
+  if (body.savedFilters !== undefined && body.savedFilters !== null) {
+    patch.savedFilters = readObjects(body.savedFilters, "savedFilters", MAX_SAVED_FILTERS, errors, (filter, prefix) =>
+      readSavedFilter(filter, prefix, errors)
+    );
+    requireUniqueIds(patch.savedFilters, "savedFilters", errors);
+  }
+  if (body.dashboards !== undefined && body.dashboards !== null) {
+    patch.dashboards = readObjects(body.dashboards, "dashboards", MAX_DASHBOARDS, errors, (dashboard, prefix) =>
+      readDashboard(dashboard, prefix, errors)
+    );
+    if (Array.isArray(body.dashboards) && body.dashboards.length === 0) {
+      errors.push({ field: "dashboards", message: "must have at least one dashboard" });
+    }
+    requireUniqueIds(patch.dashboards, "dashboards", errors);
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: patch };
 }
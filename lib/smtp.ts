@@ -0,0 +1,134 @@
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+/** Reads SMTP replies off a socket; `use` switches to the TLS socket after STARTTLS. */
+class ReplyReader {
+  private buffer = "";
+  private waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  use(socket: net.Socket) {
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf-8");
+      this.flush();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  next() {
+    return new Promise<Reply>((resolve, reject) => {
+      if (this.failure) {
+        return reject(this.failure);
+      }
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+
+  private flush() {
+    // A reply is complete once a line has a space (or nothing) after the code; `250-` lines continue it
+    const match = this.buffer.match(/^(?:\d{3}-[^\r\n]*\r?\n)*\d{3}(?: [^\r\n]*)?\r?\n/);
+    if (!match || !this.waiting) {
+      return;
+    }
+    this.buffer = this.buffer.slice(match[0].length);
+    const lines = match[0].split(/\r?\n/).filter(Boolean);
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting.resolve({ code: Number(lines[lines.length - 1].slice(0, 3)), lines: lines.map((line) => line.slice(4)) });
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+/** RFC 5322 message with CRLF line endings and leading dots doubled for the DATA phase. */
+export function formatMessage(message: MailMessage, date = new Date()) {
+  const domain = message.from.match(/@([^>\s]+)/)?.[1] ?? "localhost";
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit"
+  ];
+  const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+/**
+ * Sends one plain-text mail through the server in `url`: `smtp://` upgrades with STARTTLS when the server offers
+ * it, `smtps://` connects with TLS. Credentials in the URL are sent with AUTH PLAIN.
+ */
+export async function sendMail(url: string, message: MailMessage, timeoutMs = 10_000) {
+  const server = new URL(url);
+  const secure = server.protocol === "smtps:";
+  const host = server.hostname;
+  const port = Number(server.port || (secure ? 465 : 25));
+  const reader = new ReplyReader();
+  let socket: net.Socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP server timed out")));
+  reader.use(socket);
+
+  const expect = async (accepted: number[], command?: string) => {
+    if (command !== undefined) {
+      socket.write(`${command}\r\n`);
+    }
+    const reply = await reader.next();
+    if (!accepted.includes(reply.code)) {
+      throw new Error(`SMTP ${command?.split(" ")[0] ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    const hello = await expect([250], "EHLO ux.qa");
+    if (!secure && hello.lines.some((line) => line.toUpperCase() === "STARTTLS")) {
+      await expect([220], "STARTTLS");
+      socket.removeAllListeners("data");
+      socket = tls.connect({ socket, servername: host });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP server timed out")));
+      reader.use(socket);
+      await expect([250], "EHLO ux.qa");
+    }
+    if (server.username) {
+      const credentials = `\0${decodeURIComponent(server.username)}\0${decodeURIComponent(server.password)}`;
+      await expect([235], `AUTH PLAIN ${Buffer.from(credentials).toString("base64")}`);
+    }
+    await expect([250], `MAIL FROM:<${address(message.from)}>`);
+    for (const recipient of message.to) {
+      await expect([250, 251], `RCPT TO:<${address(recipient)}>`);
+    }
+    await expect([354], "DATA");
+    await expect([250], `${formatMessage(message)}.`);
+    await expect([221], "QUIT").catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,39 @@
+import type { Alert, AlertChannelConfig, AlertRule, TestRun } from "@/lib/types";
+
+export interface AlertNotification {
+  rule: AlertRule;
+  alert: Alert;
+  /** Run that fired or resolved the alert. */
+  run: TestRun;
+}
+
+export interface AlertChannel {
+  /** Matched against `type` in a rule's channel config. */
+  type: string;
+  /** Problems with a rule's config, as `[option, message]` pairs; empty when it is usable. */
+  validate: (config: AlertChannelConfig) => Array<[string, string]>;
+  /** Where the config delivers to, without credentials; shown in the delivery log. */
+  describe: (config: AlertChannelConfig) => string;
+  /** The config with its credentials masked, as API responses and the audit log show it; unchanged when absent. */
+  redact?: (config: AlertChannelConfig) => AlertChannelConfig;
+  /** Rejects when the notification was not accepted, so it can be retried. */
+  send: (notification: AlertNotification, config: AlertChannelConfig) => Promise<void>;
+}
+
+const channels = new Map<string, AlertChannel>();
+
+export function registerAlertChannel(channel: AlertChannel) {
+  channels.set(channel.type, channel);
+}
+
+export function getAlertChannel(type: string) {
+  return channels.get(type);
+}
+
+export function listAlertChannels() {
+  return [...channels.values()];
+}
+
+export function clearAlertChannels() {
+  channels.clear();
+}
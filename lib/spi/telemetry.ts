@@ -1,8 +1,23 @@
+import { enqueueDelivery } from "@/lib/outbox";
 import type { TestRun } from "@/lib/types";
 
+/** Payload of a `telemetry:<id>` outbox job. */
+export interface TelemetryJob {
+  run: TestRun;
+  /** Set for runs replayed by a backfill. */
+  backfillId?: string;
+}
+
 export interface TelemetrySink {
   id: string;
   record: (run: TestRun) => void | Promise<void>;
+  /**
+   * Remote sinks set this so runs are queued in the delivery outbox and retried until `record` resolves;
+   * in-process sinks like Prometheus are recorded right away.
+   */
+  durable?: boolean;
+  /** Runs are not queued for a durable sink while this returns false, e.g. when it is not configured. */
+  enabled?: () => boolean;
 }
 
 const sinks: TelemetrySink[] = [];
@@ -11,8 +26,17 @@ export function registerTelemetrySink(sink: TelemetrySink) {
   sinks.push(sink);
 }
 
+export function getTelemetrySink(id: string) {
+  return sinks.find((sink) => sink.id === id);
+}
+
+/** Records the run in in-process sinks and queues it as a `telemetry:<id>` delivery for enabled durable ones. */
 export async function emitTelemetry(run: TestRun) {
-  await Promise.all(sinks.map((sink) => sink.record(run)));
+  await Promise.all(
+    sinks
+      .filter((sink) => sink.enabled?.() ?? true)
+      .map((sink) => (sink.durable ? enqueueDelivery(`telemetry:${sink.id}`, { run } satisfies TelemetryJob) : sink.record(run)))
+  );
 }
 
 export function clearTelemetrySinks() {
@@ -0,0 +1,45 @@
+import type { TestRun } from "@/lib/types";
+
+export interface RunSummary {
+  runCount: number;
+  passRate: number;
+  flakeRate: number;
+  p95DurationMs: number | null;
+}
+
+export function percentile(values: number[], pct: number) {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+/** Pass and flake rates are percentages of finished runs, matching the dashboard KPIs. */
+export function summarizeRuns(allRuns: TestRun[]): RunSummary {
+  const runs = allRuns.filter((run) => run.status !== "running");
+  const runCount = runs.length;
+  const passed = runs.filter((run) => run.status === "passed").length;
+  const unstable = runs.filter((run) => run.status === "unstable").length;
+  return {
+    runCount,
+    passRate: runCount ? (passed / runCount) * 100 : 0,
+    flakeRate: runCount ? (unstable / runCount) * 100 : 0,
+    p95DurationMs: percentile(
+      runs.map((run) => run.durationMs),
+      95
+    )
+  };
+}
+
+export function groupRunsBy(runs: TestRun[], key: (run: TestRun) => string) {
+  return runs.reduce<Record<string, TestRun[]>>((acc, run) => {
+    const value = key(run);
+    if (!acc[value]) {
+      acc[value] = [];
+    }
+    acc[value].push(run);
+    return acc;
+  }, {});
+}
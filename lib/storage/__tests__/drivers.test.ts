@@ -0,0 +1,421 @@
+import { t } from '@/lib/test'
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import type { TestRunStore } from '@/lib/storage/types'
+import type { AlertRule, ApiKey, Artifact, AuditEntry, OutboxJob, QuarantineEntry, TestCaseResult, TestRun } from '@/lib/types'
+
+const { describe, it, expect } = t
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'uxqa-drivers-'))
+
+// Set before lib/config is imported by the drivers below, so the file driver writes to the temp directory
+const files: Record<string, string> = {
+  UXQA_DATA_FILE: 'runs.json',
+  UXQA_TESTS_FILE: 'tests.json',
+  UXQA_ARTIFACTS_FILE: 'artifacts.json',
+  UXQA_QUARANTINE_FILE: 'quarantine.json',
+  UXQA_API_KEYS_FILE: 'api-keys.json',
+  UXQA_AUDIT_FILE: 'audit.jsonl',
+  UXQA_ALERT_RULES_FILE: 'alert-rules.json',
+  UXQA_ALERTS_FILE: 'alerts.json',
+  UXQA_ALERT_DELIVERIES_FILE: 'alert-deliveries.jsonl',
+  UXQA_OUTBOX_FILE: 'outbox.json',
+  UXQA_BACKFILLS_FILE: 'backfills.json',
+}
+for (const [variable, file] of Object.entries(files)) {
+  process.env[variable] = path.join(dataDir, file)
+}
+
+let sqliteStore: TestRunStore | undefined
+
+// The SQLite store imports the file driver's history when it starts empty, so it is opened once and before the
+// file driver has written anything
+const drivers: Array<[string, () => Promise<TestRunStore>]> = [
+  ['sqlite', async () => (sqliteStore ??= (await import('@/lib/storage/sqlite')).createSqliteStore(':memory:'))],
+  ['memory', async () => (await import('@/lib/storage/memory')).memoryStore],
+  ['file', async () => (await import('@/lib/storage/file')).fileStore],
+]
+
+const at = (minute: number) => new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString()
+
+function makeRun(appId: string, id: string, minute: number, overrides: Partial<TestRun> = {}): TestRun {
+  return {
+    id,
+    appId,
+    suite: 'e2e',
+    environment: 'staging',
+    status: 'passed',
+    total: 1,
+    passed: 1,
+    failed: 0,
+    durationMs: 1000,
+    createdAt: at(minute),
+    ...overrides,
+  }
+}
+
+function makeTest(runId: string, id: string): TestCaseResult {
+  return { id, runId, title: id, titlePath: ['spec', id], status: 'passed', retries: 0, durationMs: 10, errors: [] }
+}
+
+function makeArtifact(runId: string, id: string, minute: number): Artifact {
+  return { id, runId, name: `${id}.png`, type: 'screenshot', contentType: 'image/png', size: 1, checksum: 'abc', createdAt: at(minute) }
+}
+
+function makeAudit(id: string, minute: number, overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return { id, action: 'settings.update', actor: 'alice', roles: ['admin'], changes: [], createdAt: at(minute), ...overrides }
+}
+
+const ids = (runs: Array<{ id: string }>) => runs.map((run) => run.id)
+
+describe('sqlite schema and history import', () => {
+  it('migrates a new database to the latest schema and keeps the audit log append-only', async () => {
+    const { openSqliteDatabase } = await import('@/lib/storage/sqlite')
+    const db = openSqliteDatabase(':memory:')
+    const tables = (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{ name: string }>).map(
+      (table) => table.name
+    )
+
+    expect(db.pragma('user_version', { simple: true })).toBe(11)
+    expect(tables).toEqual(
+      expect.arrayContaining([
+        'runs',
+        'test_cases',
+        'artifacts',
+        'quarantine',
+        'api_keys',
+        'audit_log',
+        'alert_rules',
+        'alerts',
+        'alert_deliveries',
+        'outbox',
+        'telemetry_backfills',
+      ])
+    )
+    db.prepare("INSERT INTO audit_log (id, action, actor, created_at, data) VALUES ('e1', 'settings.update', 'alice', ?, '{}')").run(at(1))
+    expect(() => db.prepare("UPDATE audit_log SET actor = 'mallory'").run()).toThrow('audit log is append-only')
+    expect(() => db.prepare('DELETE FROM audit_log').run()).toThrow('audit log is append-only')
+    db.close()
+  })
+
+  it('reopens an existing database without re-running migrations', async () => {
+    const { createSqliteStore, openSqliteDatabase } = await import('@/lib/storage/sqlite')
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-sqlite-')), 'uxqa.db')
+    await createSqliteStore(file).add(makeRun('reopen', 'reopen-1', 1))
+
+    const db = openSqliteDatabase(file)
+    expect(db.pragma('user_version', { simple: true })).toBe(11)
+    db.close()
+    expect(await createSqliteStore(file).get('reopen-1')).toMatchObject({ appId: 'reopen' })
+  })
+
+  it('imports the JSON history of the file driver once', async () => {
+    const { importJsonHistory, openSqliteDatabase } = await import('@/lib/storage/sqlite')
+    const dir = mkdtempSync(path.join(tmpdir(), 'uxqa-import-'))
+    const file = (name: string, contents: unknown) => {
+      const filePath = path.join(dir, name)
+      writeFileSync(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents))
+      return filePath
+    }
+    const runs = [makeRun('imported', 'imported-2', 2), makeRun('imported', 'imported-1', 1)]
+    const job: OutboxJob = { id: 'j1', sink: 'alert:slack', payload: {}, status: 'pending', attempts: 0, nextAttemptAt: at(1), createdAt: at(1) }
+    const paths = {
+      runs: file('runs.json', runs),
+      tests: file('tests.json', { 'imported-1': [makeTest('imported-1', 't1'), makeTest('imported-1', 't2')] }),
+      artifacts: file('artifacts.json', { 'imported-2': [makeArtifact('imported-2', 'a1', 2)] }),
+      quarantine: file('quarantine.json', [{ id: 'q1', appId: 'imported', titlePath: ['spec'], owner: 'qa', reason: 'flaky', createdAt: at(1) }]),
+      apiKeys: file('api-keys.json', [{ id: 'k1', name: 'ci', prefix: 'uxqa_ab', hash: 'h1', role: 'ci', scopes: ['ingest'], createdAt: at(1) }]),
+      audit: file('audit.jsonl', `${JSON.stringify(makeAudit('e1', 1))}\n${JSON.stringify(makeAudit('e2', 2))}\n`),
+      alertRules: file('alert-rules.json', []),
+      alerts: file('alerts.json', [{ id: 'r1|imported|e2e|staging', ruleId: 'r1', appId: 'imported', suite: 'e2e', environment: 'staging', status: 'firing', message: 'failed', runId: 'imported-2', firedAt: at(2), announced: true }]),
+      alertDeliveries: file('alert-deliveries.jsonl', `${JSON.stringify({ id: 'd1', alertId: 'r1|imported|e2e|staging', ruleId: 'r1', appId: 'imported', alertStatus: 'firing', channel: 'slack', target: 'hooks.slack.com', status: 'delivered', attempts: 1, createdAt: at(2) })}\n`),
+      outbox: file('outbox.json', [job]),
+      backfills: file('backfills.json', [{ id: 'b1', sink: 'datadog', to: at(2), status: 'completed', runs: 2, queued: 2, skipped: 0, delivered: 2, failedRunIds: [], createdAt: at(2) }]),
+    }
+    const db = openSqliteDatabase(':memory:')
+
+    expect(importJsonHistory(db, paths)).toEqual({
+      runs: 2,
+      quarantine: 1,
+      apiKeys: 1,
+      audit: 2,
+      alertRules: 0,
+      alerts: 1,
+      alertDeliveries: 1,
+      outbox: 1,
+      backfills: 1,
+    })
+
+    const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count
+    expect(count('runs')).toBe(2)
+    expect(count('test_cases')).toBe(2)
+    expect(count('artifacts')).toBe(1)
+    expect(count('quarantine')).toBe(1)
+    expect(count('api_keys')).toBe(1)
+    expect(count('audit_log')).toBe(2)
+    expect(count('alerts')).toBe(1)
+    expect(count('alert_deliveries')).toBe(1)
+    expect(count('outbox')).toBe(1)
+    expect(count('telemetry_backfills')).toBe(1)
+
+    // A job delivered since must not come back from the stale file
+    db.prepare('DELETE FROM outbox').run()
+    expect(importJsonHistory(db, paths)).toEqual({})
+    expect(count('outbox')).toBe(0)
+    db.close()
+  })
+
+  it('imports each JSON file on its own', async () => {
+    const { importJsonHistory, openSqliteDatabase } = await import('@/lib/storage/sqlite')
+    const dir = mkdtempSync(path.join(tmpdir(), 'uxqa-import-'))
+    const apiKeys = path.join(dir, 'api-keys.json')
+    writeFileSync(apiKeys, JSON.stringify([{ id: 'k1', name: 'ci', prefix: 'uxqa_ab', hash: 'h1', role: 'ci', scopes: ['ingest'], createdAt: at(1) }]))
+    const missing = path.join(dir, 'missing.json')
+    const paths = {
+      runs: missing,
+      tests: missing,
+      artifacts: missing,
+      quarantine: missing,
+      apiKeys,
+      audit: missing,
+      alertRules: missing,
+      alerts: missing,
+      alertDeliveries: missing,
+      outbox: missing,
+      backfills: missing,
+    }
+    const db = openSqliteDatabase(':memory:')
+
+    // Without runs.json the managed keys must still carry over, or key auth would silently turn off
+    expect(importJsonHistory(db, paths)).toEqual({ apiKeys: 1 })
+    expect(importJsonHistory(db, paths)).toEqual({})
+    db.close()
+  })
+
+  it('skips the import for databases that were switched over before', async () => {
+    const { importJsonHistory, openSqliteDatabase } = await import('@/lib/storage/sqlite')
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-sqlite-')), 'uxqa.db')
+    const db = openSqliteDatabase(file)
+    db.pragma('user_version = 10')
+    db.exec('DROP TABLE json_imports')
+    db.prepare("INSERT INTO runs (id, app_id, suite, environment, status, created_at, data) VALUES ('r1', 'a', 'e2e', 'ci', 'passed', ?, '{}')").run(at(1))
+    db.close()
+
+    const reopened = openSqliteDatabase(file)
+    const outbox = path.join(path.dirname(file), 'outbox.json')
+    writeFileSync(outbox, JSON.stringify([{ id: 'j1', sink: 'alert:slack', payload: {}, status: 'pending', attempts: 0, nextAttemptAt: at(1), createdAt: at(1) }]))
+
+    expect(importJsonHistory(reopened, { outbox })).toEqual({})
+    reopened.close()
+  })
+})
+
+describe('outbox and JSON files', () => {
+  it('keeps the outbox on disk for drivers without a database', async () => {
+    const { createFileOutbox } = await import('@/lib/storage/outboxFile')
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-outbox-')), 'outbox.json')
+    const job: OutboxJob = { id: 'j1', sink: 'alert:slack', payload: {}, status: 'pending', attempts: 0, nextAttemptAt: at(1), createdAt: at(1) }
+    await createFileOutbox(file).putOutboxJob(job)
+
+    // A new instance stands in for a restarted hub
+    const restarted = createFileOutbox(file)
+    expect(await restarted.listOutbox()).toEqual([job])
+    expect(await restarted.deleteOutboxJob('j1')).toBe(true)
+    expect(await createFileOutbox(file).listOutbox()).toEqual([])
+  })
+
+  it('writes JSON files one at a time through a temporary file', async () => {
+    const { writeJson } = await import('@/lib/storage/json')
+    const dir = mkdtempSync(path.join(tmpdir(), 'uxqa-json-'))
+    const file = path.join(dir, 'outbox.json')
+
+    await Promise.all(Array.from({ length: 20 }, (_, index) => writeJson(file, { index })))
+
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({ index: 19 })
+    expect(readdirSync(dir)).toEqual(['outbox.json'])
+  })
+})
+
+for (const [driver, open] of drivers) {
+  describe(`${driver} store`, () => {
+    it('adds, updates and reads runs', async () => {
+      const store = await open()
+      await store.add(makeRun('crud', 'crud-1', 1))
+      await store.update(makeRun('crud', 'crud-1', 1, { status: 'failed', passed: 0, failed: 1 }))
+      await store.update(makeRun('crud', 'unknown', 2))
+
+      expect(await store.get('crud-1')).toMatchObject({ status: 'failed', failed: 1 })
+      expect(await store.get('unknown')).toBeUndefined()
+      expect(ids((await store.query({ appId: 'crud' })).runs)).toEqual(['crud-1'])
+      expect(ids(await store.all())).toContain('crud-1')
+    })
+
+    it('pages through runs with cursors in both orders', async () => {
+      const store = await open()
+      // Two runs share a timestamp, so the id breaks the tie
+      for (const [id, minute] of [['page-a', 1], ['page-b', 2], ['page-c', 2], ['page-d', 3], ['page-e', 4]] as const) {
+        await store.add(makeRun('pages', id, minute))
+      }
+
+      const walk = async (order: 'asc' | 'desc') => {
+        const seen: string[] = []
+        let cursor: string | undefined
+        do {
+          const page = await store.query({ appId: 'pages', order, limit: 2, cursor })
+          expect(page.runs.length).toBeLessThanOrEqual(2)
+          seen.push(...ids(page.runs))
+          cursor = page.next ?? undefined
+        } while (cursor)
+        return seen
+      }
+
+      expect(await walk('desc')).toEqual(['page-e', 'page-d', 'page-c', 'page-b', 'page-a'])
+      expect(await walk('asc')).toEqual(['page-a', 'page-b', 'page-c', 'page-d', 'page-e'])
+      expect((await store.query({ appId: 'pages', limit: 5 })).next).toBeNull()
+    })
+
+    it('filters runs by every query field', async () => {
+      const store = await open()
+      await store.add(makeRun('filters', 'filter-1', 1, { commit: 'abc123', branch: 'main' }))
+      await store.add(makeRun('filters', 'filter-2', 2, { suite: 'smoke', status: 'failed', commit: 'abd456' }))
+      await store.add(makeRun('filters', 'filter-3', 3, { environment: 'prod', branch: 'feature/x', commit: 'a%c' }))
+
+      const matching = async (query: Parameters<TestRunStore['query']>[0]) =>
+        ids((await store.query({ appId: 'filters', order: 'asc', ...query })).runs)
+
+      expect(await matching({ suite: 'smoke' })).toEqual(['filter-2'])
+      expect(await matching({ environment: 'prod' })).toEqual(['filter-3'])
+      expect(await matching({ status: 'failed' })).toEqual(['filter-2'])
+      expect(await matching({ branch: 'main' })).toEqual(['filter-1'])
+      expect(await matching({ commit: 'ab' })).toEqual(['filter-1', 'filter-2'])
+      // Commit prefixes are matched literally, not as patterns
+      expect(await matching({ commit: 'a%' })).toEqual(['filter-3'])
+      expect(await matching({ commit: 'a_c' })).toEqual([])
+      expect(await matching({ from: at(2), to: at(3) })).toEqual(['filter-2', 'filter-3'])
+      expect(await matching({ appId: 'elsewhere' })).toEqual([])
+    })
+
+    it('keeps tests and artifacts per run in order', async () => {
+      const store = await open()
+      await store.add(makeRun('children', 'children-1', 1))
+      await store.addTests('children-1', [makeTest('children-1', 't1'), makeTest('children-1', 't2')])
+      await store.addTests('children-1', [makeTest('children-1', 't3')])
+      await store.addArtifact(makeArtifact('children-1', 'a1', 1))
+      await store.addArtifact(makeArtifact('children-1', 'a2', 2))
+
+      expect(ids(await store.listTests('children-1'))).toEqual(['t1', 't2', 't3'])
+      expect(ids(await store.listArtifacts('children-1'))).toEqual(['a1', 'a2'])
+      expect(await store.listTests('missing')).toEqual([])
+      expect(await store.listArtifacts('missing')).toEqual([])
+    })
+
+    it('upserts and deletes quarantine entries, keys, alert rules, alerts and outbox jobs', async () => {
+      const store = await open()
+      const entry: QuarantineEntry = { id: 'q1', appId: 'quarantined', titlePath: ['spec'], owner: 'qa', reason: 'flaky', createdAt: at(1) }
+      await store.putQuarantine(entry)
+      await store.putQuarantine({ ...entry, reason: 'still flaky' })
+      expect(await store.listQuarantine('quarantined')).toEqual([{ ...entry, reason: 'still flaky' }])
+      expect(await store.deleteQuarantine('q1')).toBe(true)
+      expect(await store.deleteQuarantine('q1')).toBe(false)
+      expect(await store.listQuarantine('quarantined')).toEqual([])
+
+      const key: ApiKey = { id: 'k1', name: 'ci', prefix: 'uxqa_ab', hash: 'h1', role: 'ci', scopes: ['ingest'], createdAt: at(1) }
+      await store.putApiKey(key)
+      await store.putApiKey({ ...key, revokedAt: at(2) })
+      expect((await store.listApiKeys()).filter((entry) => entry.id === 'k1')).toEqual([{ ...key, revokedAt: at(2) }])
+
+      const rule: AlertRule = {
+        id: 'r1',
+        name: 'Failures',
+        condition: { type: 'consecutiveFailures', count: 3 },
+        cooldownMinutes: 60,
+        enabled: true,
+        createdAt: at(1),
+      }
+      await store.putAlertRule(rule)
+      await store.putAlert({
+        id: 'r1|app|e2e|staging',
+        ruleId: 'r1',
+        appId: 'app',
+        suite: 'e2e',
+        environment: 'staging',
+        status: 'firing',
+        message: '3 failed runs',
+        runId: 'run',
+        firedAt: at(2),
+        announced: false,
+      })
+      expect((await store.listAlerts()).map((alert) => alert.id)).toContain('r1|app|e2e|staging')
+      // Deleting a rule drops its alerts with it
+      expect(await store.deleteAlertRule('r1')).toBe(true)
+      expect((await store.listAlertRules()).map((entry) => entry.id)).not.toContain('r1')
+      expect((await store.listAlerts()).map((alert) => alert.id)).not.toContain('r1|app|e2e|staging')
+
+      const job: OutboxJob = { id: 'j1', sink: 'telemetry:datadog', payload: {}, status: 'pending', attempts: 0, nextAttemptAt: at(1), createdAt: at(1) }
+      await store.putOutboxJob(job)
+      await store.putOutboxJob({ ...job, attempts: 1 })
+      expect((await store.listOutbox()).filter((entry) => entry.id === 'j1')).toEqual([{ ...job, attempts: 1 }])
+      expect(await store.deleteOutboxJob('j1')).toBe(true)
+      expect(await store.deleteOutboxJob('j1')).toBe(false)
+    })
+
+    it('queries the audit log and alert deliveries newest first', async () => {
+      const store = await open()
+      await store.appendAudit(makeAudit('e1', 1))
+      await store.appendAudit(makeAudit('e2', 2, { action: 'apiKey.create', target: 'k1' }))
+      await store.appendAudit(makeAudit('e3', 3, { actor: 'bob', appId: 'checkout' }))
+
+      const first = await store.queryAudit({ limit: 2 })
+      expect(ids(first.entries)).toEqual(['e3', 'e2'])
+      expect(ids((await store.queryAudit({ limit: 2, cursor: first.next ?? undefined })).entries)).toEqual(['e1'])
+      expect(ids((await store.queryAudit({ action: 'apiKey.create' })).entries)).toEqual(['e2'])
+      expect(ids((await store.queryAudit({ actor: 'bob' })).entries)).toEqual(['e3'])
+      expect(ids((await store.queryAudit({ target: 'k1' })).entries)).toEqual(['e2'])
+      expect(ids((await store.queryAudit({ appId: 'checkout' })).entries)).toEqual(['e3'])
+      expect(ids((await store.queryAudit({ from: at(2), to: at(2) })).entries)).toEqual(['e2'])
+
+      for (const [id, minute, status] of [['d1', 1, 'delivered'], ['d2', 2, 'failed']] as const) {
+        await store.appendAlertDelivery({
+          id,
+          alertId: 'alert',
+          ruleId: 'rule',
+          appId: 'checkout',
+          alertStatus: 'firing',
+          channel: 'webhook',
+          target: 'hooks.test',
+          status,
+          attempts: 1,
+          createdAt: at(minute),
+        })
+      }
+      expect(ids(await store.queryAlertDeliveries({ ruleId: 'rule' }))).toEqual(['d2', 'd1'])
+      expect(ids(await store.queryAlertDeliveries({ status: 'failed' }))).toEqual(['d2'])
+      expect(ids(await store.queryAlertDeliveries({ ruleId: 'rule', limit: 1 }))).toEqual(['d2'])
+    })
+
+    it('lists telemetry backfills newest first', async () => {
+      const store = await open()
+      for (const [id, minute] of [['b1', 1], ['b2', 2]] as const) {
+        await store.putBackfill({
+          id,
+          sink: 'datadog',
+          to: at(minute),
+          status: 'scanning',
+          runs: 0,
+          queued: 0,
+          skipped: 0,
+          delivered: 0,
+          failedRunIds: [],
+          createdAt: at(minute),
+        })
+      }
+      await store.putBackfill({ ...(await store.listBackfills())[1], status: 'completed' })
+
+      expect((await store.listBackfills()).map((backfill) => [backfill.id, backfill.status])).toEqual([
+        ['b2', 'scanning'],
+        ['b1', 'completed'],
+      ])
+    })
+  })
+}
@@ -1,44 +1,198 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import { readJson, readJsonLines, writeJson } from "@/lib/storage/json";
+import { createFileOutbox } from "@/lib/storage/outboxFile";
 import type { TestRunStore } from "@/lib/storage/types";
-import type { TestRun } from "@/lib/types";
-import { dataFilePath, maxRuns } from "@/lib/config";
+import { applyAlertDeliveryQuery, applyAuditQuery, applyQuery } from "@/lib/storage/query";
+import type { Alert, AlertDelivery, AlertRule, ApiKey, Artifact, AuditEntry, QuarantineEntry, TelemetryBackfill, TestCaseResult, TestRun } from "@/lib/types";
+import {
+  alertDeliveriesFilePath,
+  alertRulesFilePath,
+  alertsFilePath,
+  apiKeysFilePath,
+  artifactsFilePath,
+  auditFilePath,
+  dataFilePath,
+  maxRuns,
+  backfillsFilePath,
+  quarantineFilePath,
+  testsFilePath
+} from "@/lib/config";
 
 let cache: TestRun[] = [];
+let testCache: Record<string, TestCaseResult[]> = {};
+let artifactCache: Record<string, Artifact[]> = {};
+let quarantineCache: QuarantineEntry[] = [];
+let apiKeyCache: ApiKey[] = [];
+let auditCache: AuditEntry[] = [];
+let alertRuleCache: AlertRule[] = [];
+let alertCache: Alert[] = [];
+let alertDeliveryCache: AlertDelivery[] = [];
+let backfillCache: TelemetryBackfill[] = [];
 let loaded = false;
 
 async function ensureLoaded() {
   if (loaded) {
     return;
   }
-  try {
-    const contents = await fs.readFile(dataFilePath, "utf-8");
-    cache = JSON.parse(contents) as TestRun[];
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-      console.warn("Failed to load run history", error);
-    }
-    cache = [];
-  }
+  cache = await readJson<TestRun[]>(dataFilePath, [], "run history");
+  testCache = await readJson<Record<string, TestCaseResult[]>>(testsFilePath, {}, "test results");
+  artifactCache = await readJson<Record<string, Artifact[]>>(artifactsFilePath, {}, "artifact metadata");
+  quarantineCache = await readJson<QuarantineEntry[]>(quarantineFilePath, [], "quarantine list");
+  apiKeyCache = await readJson<ApiKey[]>(apiKeysFilePath, [], "API keys");
+  auditCache = await readJsonLines<AuditEntry>(auditFilePath, "audit log");
+  alertRuleCache = await readJson<AlertRule[]>(alertRulesFilePath, [], "alert rules");
+  alertCache = await readJson<Alert[]>(alertsFilePath, [], "alerts");
+  alertDeliveryCache = await readJsonLines<AlertDelivery>(alertDeliveriesFilePath, "alert delivery log");
+  backfillCache = await readJson<TelemetryBackfill[]>(backfillsFilePath, [], "telemetry backfills");
   loaded = true;
 }
 
-async function persist() {
-  await fs.mkdir(path.dirname(dataFilePath), { recursive: true });
-  await fs.writeFile(dataFilePath, JSON.stringify(cache, null, 2));
-}
+const outbox = createFileOutbox();
 
 export const fileStore: TestRunStore = {
   async add(run) {
     await ensureLoaded();
     cache.unshift(run);
     if (cache.length > maxRuns) {
-      cache.length = maxRuns;
+      const evicted = cache.splice(maxRuns);
+      if (evicted.some((entry) => testCache[entry.id])) {
+        evicted.forEach((entry) => delete testCache[entry.id]);
+        await writeJson(testsFilePath, testCache);
+      }
+      if (evicted.some((entry) => artifactCache[entry.id])) {
+        evicted.forEach((entry) => delete artifactCache[entry.id]);
+        await writeJson(artifactsFilePath, artifactCache);
+      }
+    }
+    await writeJson(dataFilePath, cache);
+  },
+  async update(run) {
+    await ensureLoaded();
+    const index = cache.findIndex((entry) => entry.id === run.id);
+    if (index !== -1) {
+      cache[index] = run;
+      await writeJson(dataFilePath, cache);
     }
-    await persist();
   },
   async all() {
     await ensureLoaded();
     return cache;
+  },
+  async get(id) {
+    await ensureLoaded();
+    return cache.find((run) => run.id === id);
+  },
+  async query(query) {
+    await ensureLoaded();
+    return applyQuery(cache, query);
+  },
+  async addTests(runId, results) {
+    await ensureLoaded();
+    testCache[runId] = [...(testCache[runId] ?? []), ...results];
+    await writeJson(testsFilePath, testCache);
+  },
+  async listTests(runId) {
+    await ensureLoaded();
+    return testCache[runId] ?? [];
+  },
+  async addArtifact(artifact) {
+    await ensureLoaded();
+    artifactCache[artifact.runId] = [...(artifactCache[artifact.runId] ?? []), artifact];
+    await writeJson(artifactsFilePath, artifactCache);
+  },
+  async listArtifacts(runId) {
+    await ensureLoaded();
+    return artifactCache[runId] ?? [];
+  },
+  async listQuarantine(appId) {
+    await ensureLoaded();
+    return quarantineCache.filter((entry) => !appId || entry.appId === appId);
+  },
+  async putQuarantine(entry) {
+    await ensureLoaded();
+    quarantineCache = [...quarantineCache.filter((existing) => existing.id !== entry.id), entry];
+    await writeJson(quarantineFilePath, quarantineCache);
+  },
+  async deleteQuarantine(id) {
+    await ensureLoaded();
+    const remaining = quarantineCache.filter((entry) => entry.id !== id);
+    if (remaining.length === quarantineCache.length) {
+      return false;
+    }
+    quarantineCache = remaining;
+    await writeJson(quarantineFilePath, quarantineCache);
+    return true;
+  },
+  async listApiKeys() {
+    await ensureLoaded();
+    return apiKeyCache;
+  },
+  async putApiKey(key) {
+    await ensureLoaded();
+    apiKeyCache = [...apiKeyCache.filter((existing) => existing.id !== key.id), key];
+    await writeJson(apiKeysFilePath, apiKeyCache);
+  },
+  async appendAudit(entry) {
+    await ensureLoaded();
+    await fs.mkdir(path.dirname(auditFilePath), { recursive: true });
+    await fs.appendFile(auditFilePath, `${JSON.stringify(entry)}\n`);
+    auditCache.push(entry);
+  },
+  async queryAudit(query) {
+    await ensureLoaded();
+    return applyAuditQuery(auditCache, query);
+  },
+  async listAlertRules() {
+    await ensureLoaded();
+    return alertRuleCache;
+  },
+  async putAlertRule(rule) {
+    await ensureLoaded();
+    alertRuleCache = [...alertRuleCache.filter((existing) => existing.id !== rule.id), rule];
+    await writeJson(alertRulesFilePath, alertRuleCache);
+  },
+  async deleteAlertRule(id) {
+    await ensureLoaded();
+    const remaining = alertRuleCache.filter((rule) => rule.id !== id);
+    if (remaining.length === alertRuleCache.length) {
+      return false;
+    }
+    alertRuleCache = remaining;
+    await writeJson(alertRulesFilePath, alertRuleCache);
+    if (alertCache.some((alert) => alert.ruleId === id)) {
+      alertCache = alertCache.filter((alert) => alert.ruleId !== id);
+      await writeJson(alertsFilePath, alertCache);
+    }
+    return true;
+  },
+  async listAlerts() {
+    await ensureLoaded();
+    return alertCache;
+  },
+  async putAlert(alert) {
+    await ensureLoaded();
+    alertCache = [...alertCache.filter((existing) => existing.id !== alert.id), alert];
+    await writeJson(alertsFilePath, alertCache);
+  },
+  async appendAlertDelivery(delivery) {
+    await ensureLoaded();
+    await fs.mkdir(path.dirname(alertDeliveriesFilePath), { recursive: true });
+    await fs.appendFile(alertDeliveriesFilePath, `${JSON.stringify(delivery)}\n`);
+    alertDeliveryCache.push(delivery);
+  },
+  async queryAlertDeliveries(query) {
+    await ensureLoaded();
+    return applyAlertDeliveryQuery(alertDeliveryCache, query);
+  },
+  ...outbox,
+  async listBackfills() {
+    await ensureLoaded();
+    return [...backfillCache].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+  async putBackfill(backfill) {
+    await ensureLoaded();
+    backfillCache = [...backfillCache.filter((existing) => existing.id !== backfill.id), backfill];
+    await writeJson(backfillsFilePath, backfillCache);
   }
 };
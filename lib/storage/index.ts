@@ -1,6 +1,8 @@
 import { storageDriver } from "@/lib/config";
 import { memoryStore } from "@/lib/storage/memory";
 import { fileStore } from "@/lib/storage/file";
+import { createFileOutbox } from "@/lib/storage/outboxFile";
+import { createSqliteStore } from "@/lib/storage/sqlite";
 import type { TestRunStore } from "@/lib/storage/types";
 
 let store: TestRunStore | null = null;
@@ -11,8 +13,11 @@ function resolveStore(): TestRunStore {
   }
   if (storageDriver === "file") {
     store = fileStore;
+  } else if (storageDriver === "sqlite") {
+    store = createSqliteStore();
   } else {
-    store = memoryStore;
+    // Queued deliveries are kept on disk even when runs are not
+    store = { ...memoryStore, ...createFileOutbox() };
   }
   return store;
 }
@@ -0,0 +1,49 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export async function readJson<T>(filePath: string, fallback: T, label: string): Promise<T> {
+  try {
+    const contents = await fs.readFile(filePath, "utf-8");
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Failed to load ${label}`, error);
+    }
+    return fallback;
+  }
+}
+
+export async function readJsonLines<T>(filePath: string, label: string): Promise<T[]> {
+  try {
+    const contents = await fs.readFile(filePath, "utf-8");
+    return contents
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as T);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Failed to load ${label}`, error);
+    }
+    return [];
+  }
+}
+
+const writes = new Map<string, Promise<void>>();
+
+/**
+ * Replaces the file through a temporary file and a rename, so a crash never leaves half of it behind. Writes to the
+ * same file run one at a time in call order; the value is serialized right away, so the last call's state wins.
+ */
+export function writeJson(filePath: string, value: unknown): Promise<void> {
+  const contents = JSON.stringify(value, null, 2);
+  const write = (writes.get(filePath) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const temporary = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, contents);
+      await fs.rename(temporary, filePath);
+    });
+  writes.set(filePath, write);
+  return write;
+}
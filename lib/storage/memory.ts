@@ -1,17 +1,113 @@
 import type { TestRunStore } from "@/lib/storage/types";
-import type { TestRun } from "@/lib/types";
+import { applyAlertDeliveryQuery, applyAuditQuery, applyQuery } from "@/lib/storage/query";
+import type { Alert, AlertDelivery, AlertRule, ApiKey, Artifact, AuditEntry, OutboxJob, QuarantineEntry, TelemetryBackfill, TestCaseResult, TestRun } from "@/lib/types";
 import { maxRuns } from "@/lib/config";
 
 const runs: TestRun[] = [];
+const tests = new Map<string, TestCaseResult[]>();
+const artifacts = new Map<string, Artifact[]>();
+const quarantine = new Map<string, QuarantineEntry>();
+const apiKeys = new Map<string, ApiKey>();
+const audit: AuditEntry[] = [];
+const alertRules = new Map<string, AlertRule>();
+const alerts = new Map<string, Alert>();
+const alertDeliveries: AlertDelivery[] = [];
+const outbox = new Map<string, OutboxJob>();
+const backfills = new Map<string, TelemetryBackfill>();
 
 export const memoryStore: TestRunStore = {
   async add(run) {
     runs.unshift(run);
     if (runs.length > maxRuns) {
-      runs.length = maxRuns;
+      for (const evicted of runs.splice(maxRuns)) {
+        tests.delete(evicted.id);
+        artifacts.delete(evicted.id);
+      }
+    }
+  },
+  async update(run) {
+    const index = runs.findIndex((entry) => entry.id === run.id);
+    if (index !== -1) {
+      runs[index] = run;
     }
   },
   async all() {
     return runs;
+  },
+  async get(id) {
+    return runs.find((run) => run.id === id);
+  },
+  async query(query) {
+    return applyQuery(runs, query);
+  },
+  async addTests(runId, results) {
+    tests.set(runId, [...(tests.get(runId) ?? []), ...results]);
+  },
+  async listTests(runId) {
+    return tests.get(runId) ?? [];
+  },
+  async addArtifact(artifact) {
+    artifacts.set(artifact.runId, [...(artifacts.get(artifact.runId) ?? []), artifact]);
+  },
+  async listArtifacts(runId) {
+    return artifacts.get(runId) ?? [];
+  },
+  async listQuarantine(appId) {
+    return [...quarantine.values()].filter((entry) => !appId || entry.appId === appId);
+  },
+  async putQuarantine(entry) {
+    quarantine.set(entry.id, entry);
+  },
+  async deleteQuarantine(id) {
+    return quarantine.delete(id);
+  },
+  async listApiKeys() {
+    return [...apiKeys.values()];
+  },
+  async putApiKey(key) {
+    apiKeys.set(key.id, key);
+  },
+  async appendAudit(entry) {
+    audit.push(entry);
+  },
+  async queryAudit(query) {
+    return applyAuditQuery(audit, query);
+  },
+  async listAlertRules() {
+    return [...alertRules.values()];
+  },
+  async putAlertRule(rule) {
+    alertRules.set(rule.id, rule);
+  },
+  async deleteAlertRule(id) {
+    [...alerts.values()].filter((alert) => alert.ruleId === id).forEach((alert) => alerts.delete(alert.id));
+    return alertRules.delete(id);
+  },
+  async listAlerts() {
+    return [...alerts.values()];
+  },
+  async putAlert(alert) {
+    alerts.set(alert.id, alert);
+  },
+  async appendAlertDelivery(delivery) {
+    alertDeliveries.push(delivery);
+  },
+  async queryAlertDeliveries(query) {
+    return applyAlertDeliveryQuery(alertDeliveries, query);
+  },
+  async listOutbox() {
+    return [...outbox.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+  async putOutboxJob(job) {
+    outbox.set(job.id, job);
+  },
+  async deleteOutboxJob(id) {
+    return outbox.delete(id);
+  },
+  async listBackfills() {
+    return [...backfills.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+  async putBackfill(backfill) {
+    backfills.set(backfill.id, backfill);
   }
 };
@@ -0,0 +1,42 @@
+import { outboxFilePath } from "@/lib/config";
+import { readJson, writeJson } from "@/lib/storage/json";
+import type { OutboxStore } from "@/lib/storage/types";
+import type { OutboxJob } from "@/lib/types";
+
+/**
+ * Keeps the delivery outbox in `UXQA_OUTBOX_FILE` for the drivers without a database, so queued deliveries survive
+ * restarts even when runs are only kept in memory.
+ */
+export function createFileOutbox(filePath = outboxFilePath): OutboxStore {
+  let jobs: OutboxJob[] = [];
+  // Shared, so requests arriving during the first read do not each replace the jobs with what is on disk
+  let loaded: Promise<void> | null = null;
+  const load = async () => {
+    await (loaded ??= readJson<OutboxJob[]>(filePath, [], "delivery outbox").then((stored) => {
+      jobs = stored;
+    }));
+    return jobs;
+  };
+
+  return {
+    async listOutbox() {
+      return load();
+    },
+    async putOutboxJob(job) {
+      const current = await load();
+      const index = current.findIndex((existing) => existing.id === job.id);
+      jobs = index === -1 ? [...current, job] : current.map((existing, position) => (position === index ? job : existing));
+      await writeJson(filePath, jobs);
+    },
+    async deleteOutboxJob(id) {
+      const current = await load();
+      const remaining = current.filter((job) => job.id !== id);
+      if (remaining.length === current.length) {
+        return false;
+      }
+      jobs = remaining;
+      await writeJson(filePath, jobs);
+      return true;
+    }
+  };
+}
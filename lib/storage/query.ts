@@ -0,0 +1,118 @@
+import type { AlertDeliveryQuery, AuditPage, AuditQuery, RunPage, RunQuery } from "@/lib/storage/types";
+import type { AlertDelivery, AuditEntry, TestRun } from "@/lib/types";
+
+export interface RunCursor {
+  createdAt: string;
+  id: string;
+}
+
+export function encodeCursor(run: RunCursor) {
+  return Buffer.from(`${run.createdAt}|${run.id}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): RunCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf-8").split("|");
+  if (!createdAt || !id || Number.isNaN(Date.parse(createdAt))) {
+    return null;
+  }
+  return { createdAt, id };
+}
+
+function compareRuns(a: RunCursor, b: RunCursor) {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function matchesQuery(run: TestRun, query: RunQuery) {
+  if (query.appId && run.appId !== query.appId) {
+    return false;
+  }
+  if (query.suite && run.suite !== query.suite) {
+    return false;
+  }
+  if (query.environment && run.environment !== query.environment) {
+    return false;
+  }
+  if (query.status && run.status !== query.status) {
+    return false;
+  }
+  if (query.branch && run.branch !== query.branch) {
+    return false;
+  }
+  if (query.commit && !run.commit?.startsWith(query.commit)) {
+    return false;
+  }
+  if (query.from && run.createdAt < query.from) {
+    return false;
+  }
+  if (query.to && run.createdAt > query.to) {
+    return false;
+  }
+  return true;
+}
+
+/** Builds the page result from up to `limit + 1` ordered rows. */
+export function toPage(rows: TestRun[], limit?: number): RunPage {
+  if (typeof limit !== "number" || rows.length <= limit) {
+    return { runs: rows, next: null };
+  }
+  const runs = rows.slice(0, limit);
+  return { runs, next: encodeCursor(runs[runs.length - 1]) };
+}
+
+/** In-process query evaluation for drivers that keep every run in memory. */
+export function applyQuery(runs: TestRun[], query: RunQuery): RunPage {
+  const direction = query.order === "asc" ? 1 : -1;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const matched = runs
+    .filter((run) => matchesQuery(run, query))
+    .filter((run) => !cursor || compareRuns(run, cursor) * direction > 0)
+    .sort((a, b) => compareRuns(a, b) * direction);
+  return toPage(typeof query.limit === "number" ? matched.slice(0, query.limit + 1) : matched, query.limit);
+}
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery) {
+  return (
+    (!query.action || entry.action === query.action) &&
+    (!query.actor || entry.actor === query.actor) &&
+    (!query.target || entry.target === query.target) &&
+    (!query.appId || entry.appId === query.appId) &&
+    (!query.from || entry.createdAt >= query.from) &&
+    (!query.to || entry.createdAt <= query.to)
+  );
+}
+
+/** Builds the audit page from up to `limit + 1` rows, newest first. */
+export function toAuditPage(rows: AuditEntry[], limit?: number): AuditPage {
+  if (typeof limit !== "number" || rows.length <= limit) {
+    return { entries: rows, next: null };
+  }
+  const entries = rows.slice(0, limit);
+  return { entries, next: encodeCursor(entries[entries.length - 1]) };
+}
+
+/** In-process audit query for drivers that keep the log in memory. */
+export function applyAuditQuery(entries: AuditEntry[], query: AuditQuery): AuditPage {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const matched = entries
+    .filter((entry) => matchesAuditQuery(entry, query))
+    .filter((entry) => !cursor || compareRuns(entry, cursor) < 0)
+    .sort((a, b) => compareRuns(b, a));
+  return toAuditPage(typeof query.limit === "number" ? matched.slice(0, query.limit + 1) : matched, query.limit);
+}
+
+/** In-process delivery log query for drivers that keep the log in memory. */
+export function applyAlertDeliveryQuery(deliveries: AlertDelivery[], query: AlertDeliveryQuery): AlertDelivery[] {
+  const matched = deliveries
+    .filter(
+      (delivery) =>
+        (!query.ruleId || delivery.ruleId === query.ruleId) &&
+        (!query.alertId || delivery.alertId === query.alertId) &&
+        (!query.appId || delivery.appId === query.appId) &&
+        (!query.status || delivery.status === query.status)
+    )
+    .sort((a, b) => compareRuns(b, a));
+  return typeof query.limit === "number" ? matched.slice(0, query.limit) : matched;
+}
@@ -0,0 +1,637 @@
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { AlertDeliveryQuery, AuditQuery, RunQuery, TestRunStore } from "@/lib/storage/types";
+import { decodeCursor, toAuditPage, toPage } from "@/lib/storage/query";
+import type { Alert, AlertDelivery, AlertRule, ApiKey, Artifact, AuditEntry, OutboxJob, QuarantineEntry, TelemetryBackfill, TestCaseResult, TestRun } from "@/lib/types";
+import {
+  alertDeliveriesFilePath,
+  alertRulesFilePath,
+  alertsFilePath,
+  apiKeysFilePath,
+  artifactsFilePath,
+  auditFilePath,
+  backfillsFilePath,
+  dataFilePath,
+  outboxFilePath,
+  quarantineFilePath,
+  sqliteFilePath,
+  testsFilePath
+} from "@/lib/config";
+
+type SqliteDatabase = Database.Database;
+
+// Each entry upgrades the schema by one `user_version`; append, never edit.
+const migrations = [
+  `
+  CREATE TABLE runs (
+    id TEXT PRIMARY KEY,
+    app_id TEXT NOT NULL,
+    suite TEXT NOT NULL,
+    environment TEXT NOT NULL,
+    status TEXT NOT NULL,
+    commit_sha TEXT,
+    branch TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX runs_app_created ON runs (app_id, created_at DESC);
+  CREATE INDEX runs_suite ON runs (suite);
+  CREATE INDEX runs_environment ON runs (environment);
+  CREATE INDEX runs_status ON runs (status);
+  CREATE INDEX runs_created ON runs (created_at DESC);
+  CREATE INDEX runs_commit ON runs (commit_sha);
+  CREATE TABLE test_cases (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX test_cases_run ON test_cases (run_id, position);
+  `,
+  `
+  CREATE INDEX runs_branch ON runs (branch);
+  `,
+  `
+  CREATE TABLE artifacts (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+    test_id TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX artifacts_run ON artifacts (run_id, created_at);
+  `,
+  `
+  CREATE TABLE quarantine (
+    id TEXT PRIMARY KEY,
+    app_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX quarantine_app ON quarantine (app_id);
+  `,
+  `
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE audit_log (
+    id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    target TEXT,
+    app_id TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX audit_log_created ON audit_log (created_at DESC);
+  CREATE INDEX audit_log_actor ON audit_log (actor);
+  CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+  CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+  `,
+  `
+  CREATE TABLE alert_rules (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE alerts (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX alerts_rule ON alerts (rule_id);
+  `,
+  `
+  CREATE TABLE alert_deliveries (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL,
+    alert_id TEXT NOT NULL,
+    app_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX alert_deliveries_created ON alert_deliveries (created_at DESC);
+  CREATE INDEX alert_deliveries_rule ON alert_deliveries (rule_id);
+  `,
+  `
+  CREATE TABLE outbox (
+    id TEXT PRIMARY KEY,
+    sink TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX outbox_created ON outbox (created_at);
+  `,
+  `
+  CREATE TABLE telemetry_backfills (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  // A database that already holds runs was switched over from the file driver before, so nothing is imported again
+  `
+  CREATE TABLE json_imports (
+    collection TEXT PRIMARY KEY,
+    imported_at TEXT NOT NULL
+  );
+  INSERT INTO json_imports (collection, imported_at)
+    SELECT column1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    FROM (VALUES ('runs'), ('quarantine'), ('apiKeys'), ('audit'), ('alertRules'), ('alerts'), ('alertDeliveries'), ('outbox'), ('backfills'))
+    WHERE EXISTS (SELECT 1 FROM runs);
+  `
+];
+
+function migrate(db: SqliteDatabase) {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  migrations.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+}
+
+function insertRun(db: SqliteDatabase, run: TestRun) {
+  db.prepare(
+    `INSERT OR IGNORE INTO runs (id, app_id, suite, environment, status, commit_sha, branch, created_at, data)
+     VALUES (@id, @appId, @suite, @environment, @status, @commit, @branch, @createdAt, @data)`
+  ).run({
+    id: run.id,
+    appId: run.appId,
+    suite: run.suite,
+    environment: run.environment,
+    status: run.status,
+    commit: run.commit ?? null,
+    branch: run.branch ?? null,
+    createdAt: run.createdAt,
+    data: JSON.stringify(run)
+  });
+}
+
+function insertArtifact(db: SqliteDatabase, artifact: Artifact) {
+  db.prepare("INSERT OR IGNORE INTO artifacts (id, run_id, test_id, created_at, data) VALUES (?, ?, ?, ?, ?)").run(
+    artifact.id,
+    artifact.runId,
+    artifact.testId ?? null,
+    artifact.createdAt,
+    JSON.stringify(artifact)
+  );
+}
+
+function upsertQuarantine(db: SqliteDatabase, entry: QuarantineEntry) {
+  db.prepare(
+    `INSERT INTO quarantine (id, app_id, created_at, data) VALUES (@id, @appId, @createdAt, @data)
+     ON CONFLICT (id) DO UPDATE SET app_id = excluded.app_id, data = excluded.data`
+  ).run({ id: entry.id, appId: entry.appId, createdAt: entry.createdAt, data: JSON.stringify(entry) });
+}
+
+function upsertApiKey(db: SqliteDatabase, key: ApiKey) {
+  db.prepare(
+    `INSERT INTO api_keys (id, hash, created_at, data) VALUES (@id, @hash, @createdAt, @data)
+     ON CONFLICT (id) DO UPDATE SET hash = excluded.hash, data = excluded.data`
+  ).run({ id: key.id, hash: key.hash, createdAt: key.createdAt, data: JSON.stringify(key) });
+}
+
+function upsertAlertRule(db: SqliteDatabase, rule: AlertRule) {
+  db.prepare(
+    `INSERT INTO alert_rules (id, created_at, data) VALUES (@id, @createdAt, @data)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+  ).run({ id: rule.id, createdAt: rule.createdAt, data: JSON.stringify(rule) });
+}
+
+function insertAudit(db: SqliteDatabase, entry: AuditEntry) {
+  db.prepare(
+    `INSERT OR IGNORE INTO audit_log (id, action, actor, target, app_id, created_at, data)
+     VALUES (@id, @action, @actor, @target, @appId, @createdAt, @data)`
+  ).run({
+    id: entry.id,
+    action: entry.action,
+    actor: entry.actor,
+    target: entry.target ?? null,
+    appId: entry.appId ?? null,
+    createdAt: entry.createdAt,
+    data: JSON.stringify(entry)
+  });
+}
+
+function upsertAlert(db: SqliteDatabase, alert: Alert) {
+  db.prepare(
+    `INSERT INTO alerts (id, rule_id, data) VALUES (@id, @ruleId, @data)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+  ).run({ id: alert.id, ruleId: alert.ruleId, data: JSON.stringify(alert) });
+}
+
+function insertAlertDelivery(db: SqliteDatabase, delivery: AlertDelivery) {
+  db.prepare(
+    `INSERT OR IGNORE INTO alert_deliveries (id, rule_id, alert_id, app_id, status, created_at, data)
+     VALUES (@id, @ruleId, @alertId, @appId, @status, @createdAt, @data)`
+  ).run({
+    id: delivery.id,
+    ruleId: delivery.ruleId,
+    alertId: delivery.alertId,
+    appId: delivery.appId,
+    status: delivery.status,
+    createdAt: delivery.createdAt,
+    data: JSON.stringify(delivery)
+  });
+}
+
+function upsertOutboxJob(db: SqliteDatabase, job: OutboxJob) {
+  db.prepare(
+    `INSERT INTO outbox (id, sink, created_at, data) VALUES (@id, @sink, @createdAt, @data)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+  ).run({ id: job.id, sink: job.sink, createdAt: job.createdAt, data: JSON.stringify(job) });
+}
+
+function upsertBackfill(db: SqliteDatabase, backfill: TelemetryBackfill) {
+  db.prepare(
+    `INSERT INTO telemetry_backfills (id, created_at, data) VALUES (@id, @createdAt, @data)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+  ).run({ id: backfill.id, createdAt: backfill.createdAt, data: JSON.stringify(backfill) });
+}
+
+function insertTests(db: SqliteDatabase, runId: string, tests: TestCaseResult[]) {
+  const row = db.prepare("SELECT COALESCE(MAX(position), -1) AS last FROM test_cases WHERE run_id = ?").get(runId) as {
+    last: number;
+  };
+  const statement = db.prepare(
+    "INSERT OR IGNORE INTO test_cases (id, run_id, position, status, data) VALUES (?, ?, ?, ?, ?)"
+  );
+  tests.forEach((test, index) => {
+    statement.run(test.id, runId, row.last + index + 1, test.status, JSON.stringify(test));
+  });
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (match) => `\\${match}`);
+
+function buildWhere(query: RunQuery) {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const equals: Array<[string, string | undefined]> = [
+    ["app_id", query.appId],
+    ["suite", query.suite],
+    ["environment", query.environment],
+    ["status", query.status],
+    ["branch", query.branch]
+  ];
+  for (const [column, value] of equals) {
+    if (value) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  if (query.commit) {
+    clauses.push("commit_sha LIKE ? ESCAPE '\\'");
+    params.push(`${escapeLike(query.commit)}%`);
+  }
+  if (query.from) {
+    clauses.push("created_at >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    clauses.push("created_at <= ?");
+    params.push(query.to);
+  }
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (cursor) {
+    clauses.push(`(created_at, id) ${query.order === "asc" ? ">" : "<"} (?, ?)`);
+    params.push(cursor.createdAt, cursor.id);
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+function buildAuditWhere(query: AuditQuery) {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const equals: Array<[string, string | undefined]> = [
+    ["action", query.action],
+    ["actor", query.actor],
+    ["target", query.target],
+    ["app_id", query.appId]
+  ];
+  for (const [column, value] of equals) {
+    if (value) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  if (query.from) {
+    clauses.push("created_at >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    clauses.push("created_at <= ?");
+    params.push(query.to);
+  }
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (cursor) {
+    clauses.push("(created_at, id) < (?, ?)");
+    params.push(cursor.createdAt, cursor.id);
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+function buildAlertDeliveryWhere(query: AlertDeliveryQuery) {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const equals: Array<[string, string | undefined]> = [
+    ["rule_id", query.ruleId],
+    ["alert_id", query.alertId],
+    ["app_id", query.appId],
+    ["status", query.status]
+  ];
+  for (const [column, value] of equals) {
+    if (value) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+const parseRows = <T>(rows: unknown[]) => rows.map((row) => JSON.parse((row as { data: string }).data) as T);
+
+/** The files the `file` driver persists to, by the collection they hold. */
+export interface JsonHistoryFiles {
+  runs: string;
+  tests: string;
+  artifacts: string;
+  quarantine: string;
+  apiKeys: string;
+  audit: string;
+  alertRules: string;
+  alerts: string;
+  alertDeliveries: string;
+  outbox: string;
+  backfills: string;
+}
+
+/** Test results and artifact metadata belong to their runs and are imported with them. */
+export type JsonHistoryCollection = Exclude<keyof JsonHistoryFiles, "tests" | "artifacts">;
+
+const jsonHistoryFiles: JsonHistoryFiles = {
+  runs: dataFilePath,
+  tests: testsFilePath,
+  artifacts: artifactsFilePath,
+  quarantine: quarantineFilePath,
+  apiKeys: apiKeysFilePath,
+  audit: auditFilePath,
+  alertRules: alertRulesFilePath,
+  alerts: alertsFilePath,
+  alertDeliveries: alertDeliveriesFilePath,
+  outbox: outboxFilePath,
+  backfills: backfillsFilePath
+};
+
+const readJsonFile = <T>(filePath: string) => JSON.parse(readFileSync(filePath, "utf-8")) as T;
+
+const readJsonLinesFile = <T>(filePath: string) =>
+  readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as T);
+
+/**
+ * Imports the JSON history written by the `file` driver. Each collection is imported on its own, once, as soon as
+ * its file exists; rows already in the database are kept. Returns the number of records imported per collection.
+ */
+export function importJsonHistory(db: SqliteDatabase, paths: Partial<JsonHistoryFiles> = {}) {
+  const files = { ...jsonHistoryFiles, ...paths };
+  // Never overwrite what was written through the database since, e.g. a revoked key or a delivered outbox job
+  const missing = <T extends { id: string }>(table: string, rows: T[]) => {
+    const exists = db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`);
+    return rows.filter((row) => !exists.get(row.id));
+  };
+  const importers: Record<JsonHistoryCollection, () => number> = {
+    runs: () => {
+      const runs = readJsonFile<TestRun[]>(files.runs);
+      const tests = existsSync(files.tests) ? readJsonFile<Record<string, TestCaseResult[]>>(files.tests) : {};
+      const artifacts = existsSync(files.artifacts) ? readJsonFile<Record<string, Artifact[]>>(files.artifacts) : {};
+      const added = missing("runs", runs);
+      for (const run of added) {
+        insertRun(db, run);
+        if (tests[run.id]?.length) {
+          insertTests(db, run.id, tests[run.id]);
+        }
+        for (const artifact of artifacts[run.id] ?? []) {
+          insertArtifact(db, artifact);
+        }
+      }
+      return added.length;
+    },
+    quarantine: () => {
+      const entries = missing("quarantine", readJsonFile<QuarantineEntry[]>(files.quarantine));
+      entries.forEach((entry) => upsertQuarantine(db, entry));
+      return entries.length;
+    },
+    apiKeys: () => {
+      const keys = missing("api_keys", readJsonFile<ApiKey[]>(files.apiKeys));
+      keys.forEach((key) => upsertApiKey(db, key));
+      return keys.length;
+    },
+    audit: () => {
+      const entries = missing("audit_log", readJsonLinesFile<AuditEntry>(files.audit));
+      entries.forEach((entry) => insertAudit(db, entry));
+      return entries.length;
+    },
+    alertRules: () => {
+      const rules = missing("alert_rules", readJsonFile<AlertRule[]>(files.alertRules));
+      rules.forEach((rule) => upsertAlertRule(db, rule));
+      return rules.length;
+    },
+    alerts: () => {
+      const alerts = missing("alerts", readJsonFile<Alert[]>(files.alerts));
+      alerts.forEach((alert) => upsertAlert(db, alert));
+      return alerts.length;
+    },
+    alertDeliveries: () => {
+      const deliveries = missing("alert_deliveries", readJsonLinesFile<AlertDelivery>(files.alertDeliveries));
+      deliveries.forEach((delivery) => insertAlertDelivery(db, delivery));
+      return deliveries.length;
+    },
+    outbox: () => {
+      const jobs = missing("outbox", readJsonFile<OutboxJob[]>(files.outbox));
+      jobs.forEach((job) => upsertOutboxJob(db, job));
+      return jobs.length;
+    },
+    backfills: () => {
+      const backfills = missing("telemetry_backfills", readJsonFile<TelemetryBackfill[]>(files.backfills));
+      backfills.forEach((backfill) => upsertBackfill(db, backfill));
+      return backfills.length;
+    }
+  };
+
+  const done = new Set(
+    (db.prepare("SELECT collection FROM json_imports").all() as Array<{ collection: string }>).map(
+      (row) => row.collection
+    )
+  );
+  const markDone = db.prepare("INSERT INTO json_imports (collection, imported_at) VALUES (?, ?)");
+  const imported: Partial<Record<JsonHistoryCollection, number>> = {};
+  for (const [collection, importer] of Object.entries(importers) as Array<[JsonHistoryCollection, () => number]>) {
+    if (done.has(collection) || !existsSync(files[collection])) {
+      continue;
+    }
+    db.transaction(() => {
+      imported[collection] = importer();
+      markDone.run(collection, new Date().toISOString());
+    })();
+  }
+  return imported;
+}
+
+export function openSqliteDatabase(filePath = sqliteFilePath) {
+  if (filePath !== ":memory:") {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
+
+export function createSqliteStore(filePath = sqliteFilePath): TestRunStore {
+  const db = openSqliteDatabase(filePath);
+  const imported = Object.entries(importJsonHistory(db)).filter(([, count]) => count > 0);
+  if (imported.length > 0) {
+    const summary = imported.map(([collection, count]) => `${count} ${collection}`).join(", ");
+    console.info(`Imported ${summary} from the JSON files of the file driver into ${filePath}`);
+  }
+
+  const query = (runQuery: RunQuery) => {
+    const where = buildWhere(runQuery);
+    const direction = runQuery.order === "asc" ? "ASC" : "DESC";
+    const limit = typeof runQuery.limit === "number" ? runQuery.limit + 1 : -1;
+    const rows = db
+      .prepare(`SELECT data FROM runs ${where.sql} ORDER BY created_at ${direction}, id ${direction} LIMIT ?`)
+      .all(...where.params, limit);
+    return toPage(parseRows<TestRun>(rows), runQuery.limit);
+  };
+
+  return {
+    async add(run) {
+      insertRun(db, run);
+    },
+    async update(run) {
+      db.prepare(
+        "UPDATE runs SET status = @status, commit_sha = @commit, branch = @branch, data = @data WHERE id = @id"
+      ).run({
+        id: run.id,
+        status: run.status,
+        commit: run.commit ?? null,
+        branch: run.branch ?? null,
+        data: JSON.stringify(run)
+      });
+    },
+    async all() {
+      return query({}).runs;
+    },
+    async get(id) {
+      const row = db.prepare("SELECT data FROM runs WHERE id = ?").get(id);
+      return row ? parseRows<TestRun>([row])[0] : undefined;
+    },
+    async query(runQuery) {
+      return query(runQuery);
+    },
+    async addTests(runId, tests) {
+      db.transaction(() => insertTests(db, runId, tests))();
+    },
+    async listTests(runId) {
+      return parseRows<TestCaseResult>(
+        db.prepare("SELECT data FROM test_cases WHERE run_id = ? ORDER BY position").all(runId)
+      );
+    },
+    async addArtifact(artifact) {
+      insertArtifact(db, artifact);
+    },
+    async listArtifacts(runId) {
+      return parseRows<Artifact>(
+        db.prepare("SELECT data FROM artifacts WHERE run_id = ? ORDER BY created_at, id").all(runId)
+      );
+    },
+    async listQuarantine(appId) {
+      const rows = appId
+        ? db.prepare("SELECT data FROM quarantine WHERE app_id = ? ORDER BY created_at").all(appId)
+        : db.prepare("SELECT data FROM quarantine ORDER BY created_at").all();
+      return parseRows<QuarantineEntry>(rows);
+    },
+    async putQuarantine(entry) {
+      upsertQuarantine(db, entry);
+    },
+    async deleteQuarantine(id) {
+      return db.prepare("DELETE FROM quarantine WHERE id = ?").run(id).changes > 0;
+    },
+    async listApiKeys() {
+      return parseRows<ApiKey>(db.prepare("SELECT data FROM api_keys ORDER BY created_at").all());
+    },
+    async putApiKey(key) {
+      upsertApiKey(db, key);
+    },
+    async appendAudit(entry) {
+      insertAudit(db, entry);
+    },
+    async queryAudit(auditQuery) {
+      const where = buildAuditWhere(auditQuery);
+      const limit = typeof auditQuery.limit === "number" ? auditQuery.limit + 1 : -1;
+      const rows = db
+        .prepare(`SELECT data FROM audit_log ${where.sql} ORDER BY created_at DESC, id DESC LIMIT ?`)
+        .all(...where.params, limit);
+      return toAuditPage(parseRows<AuditEntry>(rows), auditQuery.limit);
+    },
+    async listAlertRules() {
+      return parseRows<AlertRule>(db.prepare("SELECT data FROM alert_rules ORDER BY created_at").all());
+    },
+    async putAlertRule(rule) {
+      upsertAlertRule(db, rule);
+    },
+    async deleteAlertRule(id) {
+      // Alerts of the built-in default rules have no row in alert_rules, so there is no foreign key to cascade
+      return db.transaction(() => {
+        db.prepare("DELETE FROM alerts WHERE rule_id = ?").run(id);
+        return db.prepare("DELETE FROM alert_rules WHERE id = ?").run(id).changes > 0;
+      })();
+    },
+    async listAlerts() {
+      return parseRows<Alert>(db.prepare("SELECT data FROM alerts").all());
+    },
+    async putAlert(alert) {
+      upsertAlert(db, alert);
+    },
+    async appendAlertDelivery(delivery) {
+      insertAlertDelivery(db, delivery);
+    },
+    async queryAlertDeliveries(deliveryQuery) {
+      const where = buildAlertDeliveryWhere(deliveryQuery);
+      const limit = typeof deliveryQuery.limit === "number" ? deliveryQuery.limit : -1;
+      const rows = db
+        .prepare(`SELECT data FROM alert_deliveries ${where.sql} ORDER BY created_at DESC, id DESC LIMIT ?`)
+        .all(...where.params, limit);
+      return parseRows<AlertDelivery>(rows);
+    },
+    async listOutbox() {
+      return parseRows<OutboxJob>(db.prepare("SELECT data FROM outbox ORDER BY created_at, id").all());
+    },
+    async putOutboxJob(job) {
+      upsertOutboxJob(db, job);
+    },
+    async deleteOutboxJob(id) {
+      return db.prepare("DELETE FROM outbox WHERE id = ?").run(id).changes > 0;
+    },
+    async listBackfills() {
+      return parseRows<TelemetryBackfill>(db.prepare("SELECT data FROM telemetry_backfills ORDER BY created_at DESC").all());
+    },
+    async putBackfill(backfill) {
+      upsertBackfill(db, backfill);
+    }
+  };
+}
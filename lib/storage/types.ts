@@ -1,6 +1,112 @@
-import type { TestRun } from "@/lib/types";
+import type {
+  Alert,
+  AlertDelivery,
+  AlertRule,
+  ApiKey,
+  Artifact,
+  AuditAction,
+  AuditEntry,
+  OutboxJob,
+  TelemetryBackfill,
+  QuarantineEntry,
+  RunStatus,
+  TestCaseResult,
+  TestRun
+} from "@/lib/types";
+
+export type SortOrder = "asc" | "desc";
+
+export interface RunQuery {
+  appId?: string;
+  suite?: string;
+  environment?: string;
+  status?: RunStatus;
+  branch?: string;
+  /** Matches runs whose commit starts with this value, so short SHAs work. */
+  commit?: string;
+  /** Inclusive lower bound on `createdAt` (ISO-8601). */
+  from?: string;
+  /** Inclusive upper bound on `createdAt` (ISO-8601). */
+  to?: string;
+  /** Sort by `createdAt`; defaults to newest first. */
+  order?: SortOrder;
+  /** Opaque cursor returned as `next` by a previous page. */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface RunPage {
+  runs: TestRun[];
+  next: string | null;
+}
+
+/** Audit entries are always returned newest first. */
+export interface AuditQuery {
+  action?: AuditAction;
+  actor?: string;
+  target?: string;
+  appId?: string;
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  next: string | null;
+}
+
+/** Deliveries are always returned newest first. */
+export interface AlertDeliveryQuery {
+  ruleId?: string;
+  alertId?: string;
+  appId?: string;
+  status?: AlertDelivery["status"];
+  limit?: number;
+}
 
 export interface TestRunStore {
   add(run: TestRun): Promise<void>;
+  /** Replaces the stored run with the same id; unknown ids are ignored. */
+  update(run: TestRun): Promise<void>;
   all(): Promise<TestRun[]>;
+  get(id: string): Promise<TestRun | undefined>;
+  query(query: RunQuery): Promise<RunPage>;
+  addTests(runId: string, tests: TestCaseResult[]): Promise<void>;
+  listTests(runId: string): Promise<TestCaseResult[]>;
+  addArtifact(artifact: Artifact): Promise<void>;
+  listArtifacts(runId: string): Promise<Artifact[]>;
+  listQuarantine(appId?: string): Promise<QuarantineEntry[]>;
+  /** Inserts or replaces the entry with the same id. */
+  putQuarantine(entry: QuarantineEntry): Promise<void>;
+  deleteQuarantine(id: string): Promise<boolean>;
+  /** Includes revoked keys. */
+  listApiKeys(): Promise<ApiKey[]>;
+  /** Inserts or replaces the key with the same id. */
+  putApiKey(key: ApiKey): Promise<void>;
+  appendAudit(entry: AuditEntry): Promise<void>;
+  queryAudit(query: AuditQuery): Promise<AuditPage>;
+  listAlertRules(): Promise<AlertRule[]>;
+  /** Inserts or replaces the rule with the same id. */
+  putAlertRule(rule: AlertRule): Promise<void>;
+  /** Also drops the rule's alerts. */
+  deleteAlertRule(id: string): Promise<boolean>;
+  listAlerts(): Promise<Alert[]>;
+  /** Inserts or replaces the alert with the same id. */
+  putAlert(alert: Alert): Promise<void>;
+  appendAlertDelivery(delivery: AlertDelivery): Promise<void>;
+  queryAlertDeliveries(query: AlertDeliveryQuery): Promise<AlertDelivery[]>;
+  /** Pending and dead jobs, oldest first. */
+  listOutbox(): Promise<OutboxJob[]>;
+  /** Inserts or replaces the job with the same id. */
+  putOutboxJob(job: OutboxJob): Promise<void>;
+  deleteOutboxJob(id: string): Promise<boolean>;
+  /** Newest first. */
+  listBackfills(): Promise<TelemetryBackfill[]>;
+  /** Inserts or replaces the backfill with the same id. */
+  putBackfill(backfill: TelemetryBackfill): Promise<void>;
 }
+
+/** The part of the store backing the delivery outbox. */
+export type OutboxStore = Pick<TestRunStore, "listOutbox" | "putOutboxJob" | "deleteOutboxJob">;
@@ -0,0 +1,172 @@
+import { randomUUID } from "node:crypto";
+import { enqueueDelivery } from "@/lib/outbox";
+import { listTelemetrySinks } from "@/lib/spi/telemetry";
+import type { TelemetryJob } from "@/lib/spi/telemetry";
+import { getStore } from "@/lib/storage";
+import type { OutboxJob, TelemetryBackfill } from "@/lib/types";
+import { asObject, optionalDate, optionalString, requireString } from "@/lib/validation";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+
+const store = getStore();
+
+export interface BackfillRequest {
+  sink: string;
+  appId?: string;
+  from?: string;
+  to?: string;
+  idempotencyKey?: string;
+}
+
+/** Sinks a backfill can replay into: enabled ones that export through the outbox. */
+export function backfillSinks() {
+  return listTelemetrySinks()
+    .filter((sink) => sink.durable && (sink.enabled?.() ?? true))
+    .map((sink) => sink.id);
+}
+
+/** Outbox job of one run for one sink; the same run is never queued twice for a sink while a job for it is waiting. */
+const jobId = (sink: string, runId: string) => `backfill:${sink}:${runId}`;
+
+// Progress is updated from concurrent outbox callbacks, so writes go through one chain per process
+const active = new Map<string, TelemetryBackfill>();
+let writes: Promise<void> = Promise.resolve();
+
+function save(backfill: TelemetryBackfill) {
+  const next = { ...backfill, updatedAt: new Date().toISOString() };
+  if (next.status === "delivering" && next.delivered + next.failedRunIds.length >= next.queued) {
+    next.status = "completed";
+    next.completedAt = next.updatedAt;
+  }
+  active.set(next.id, next);
+  writes = writes
+    .then(() => store.putBackfill(next))
+    .catch((error) => console.error("Failed to save telemetry backfill progress", error));
+  return next;
+}
+
+export async function listBackfills() {
+  await writes;
+  return store.listBackfills();
+}
+
+export async function getBackfill(id: string) {
+  return (await listBackfills()).find((backfill) => backfill.id === id);
+}
+
+export async function findBackfillByKey(idempotencyKey: string) {
+  return (await listBackfills()).find((backfill) => backfill.idempotencyKey === idempotencyKey);
+}
+
+/** Called by the telemetry delivery handler when a replayed run was exported or dead-lettered. */
+export async function recordBackfillProgress(job: OutboxJob, delivered: boolean) {
+  const { run, backfillId } = job.payload as TelemetryJob;
+  // Read and saved without an await in between, so no update of a running scan is lost; after a restart it is loaded
+  const backfill = backfillId ? (active.get(backfillId) ?? (await getBackfill(backfillId))) : undefined;
+  if (!backfill) {
+    return;
+  }
+  const failedRunIds = backfill.failedRunIds.filter((id) => id !== run.id);
+  save(
+    delivered
+      ? { ...backfill, delivered: backfill.delivered + 1, failedRunIds }
+      : { ...backfill, failedRunIds: [...failedRunIds, run.id] }
+  );
+}
+
+/** Queues every stored run in range, oldest first, as an export for the sink. */
+async function scan(backfill: TelemetryBackfill) {
+  const waiting = new Set((await store.listOutbox()).map((job) => job.id));
+  let progress = backfill;
+  let cursor: string | undefined;
+  do {
+    const page = await store.query({
+      appId: progress.appId,
+      from: progress.from,
+      to: progress.to,
+      order: "asc",
+      cursor,
+      limit: 500
+    });
+    let { runs, queued, skipped } = progress;
+    // Runs still in progress are exported once they are closed
+    for (const run of page.runs.filter((entry) => entry.status !== "running")) {
+      runs += 1;
+      const id = jobId(progress.sink, run.id);
+      if (waiting.has(id)) {
+        skipped += 1;
+        continue;
+      }
+      await enqueueDelivery(`telemetry:${progress.sink}`, { run, backfillId: progress.id } satisfies TelemetryJob, id);
+      queued += 1;
+    }
+    // Exports settle while the scan goes on, so counts are merged into the latest progress
+    progress = save({ ...(active.get(progress.id) ?? progress), runs, queued, skipped });
+    cursor = page.next ?? undefined;
+  } while (cursor);
+  save({ ...(active.get(progress.id) ?? progress), status: "delivering" });
+}
+
+/** Starts replaying stored runs through `sink` and resolves with the backfill once it is recorded. */
+export async function startBackfill(request: BackfillRequest): Promise<TelemetryBackfill> {
+  const backfill: TelemetryBackfill = {
+    id: randomUUID(),
+    sink: request.sink,
+    ...(request.idempotencyKey ? { idempotencyKey: request.idempotencyKey } : {}),
+    ...(request.appId ? { appId: request.appId } : {}),
+    ...(request.from ? { from: request.from } : {}),
+    to: request.to ?? new Date().toISOString(),
+    status: "scanning",
+    runs: 0,
+    queued: 0,
+    skipped: 0,
+    delivered: 0,
+    failedRunIds: [],
+    createdAt: new Date().toISOString()
+  };
+  save(backfill);
+  await writes;
+  void scan(backfill).catch((error) => {
+    console.error(`Telemetry backfill ${backfill.id} failed`, error);
+    // Without a final status clients polling the backfill would wait for the scan forever
+    save({
+      ...(active.get(backfill.id) ?? backfill),
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date().toISOString()
+    });
+  });
+  return backfill;
+}
+
+/** `sinks` are the ids a backfill can replay into; see `backfillSinks`. */
+export function validateBackfillPayload(input: unknown, sinks: string[]): ValidationResult<BackfillRequest> {
+  const object = asObject(input);
+  if (!object.ok) {
+    return object;
+  }
+  const body = object.value;
+  const errors: FieldError[] = [];
+  const sink = requireString(body, "sink", errors);
+  if (sink && !sinks.includes(sink)) {
+    errors.push({ field: "sink", message: sinks.length ? `must be one of ${sinks.join(", ")}` : "no durable telemetry sink is enabled" });
+  }
+  const request: BackfillRequest = { sink };
+  const appId = optionalString(body, "appId", errors);
+  if (appId) {
+    request.appId = appId;
+  }
+  for (const field of ["from", "to"] as const) {
+    const value = optionalDate(body, field, errors);
+    if (value) {
+      request[field] = value;
+    }
+  }
+  if (request.from && request.to && request.from > request.to) {
+    errors.push({ field: "from", message: "must not be after to" });
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: request };
+}
@@ -2,6 +2,7 @@ import { datadogApiKey, datadogSite } from "@/lib/config";
 import type { TestRun } from "@/lib/types";
 import { registerTelemetrySink } from "@/lib/spi/telemetry";
 
+/** Rejects when Datadog does not accept the series, so the outbox retries it. */
 export async function pushDatadogMetrics(run: TestRun) {
   if (!datadogApiKey) {
     return;
@@ -10,21 +11,28 @@ export async function pushDatadogMetrics(run: TestRun) {
     {
       metric: "playwright.run.duration",
       type: 0,
-      points: [[Date.now() / 1000, run.durationMs]],
+      // Timestamped with the run, so a delivery retried later still lands where the run happened
+      points: [[Date.parse(run.createdAt) / 1000, run.durationMs]],
       tags: [`app:${run.appId}`, `suite:${run.suite}`, `status:${run.status}`]
     }
   ];
-  await fetch(`https://api.${datadogSite}/api/v1/series`, {
+  const response = await fetch(`https://api.${datadogSite}/api/v1/series`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       "DD-API-KEY": datadogApiKey
     },
-    body: JSON.stringify({ series })
-  }).catch((error) => console.warn("Datadog push failed", error));
+    body: JSON.stringify({ series }),
+    signal: AbortSignal.timeout(10_000)
+  });
+  if (!response.ok) {
+    throw new Error(`Datadog answered ${response.status}`);
+  }
 }
 
 registerTelemetrySink({
   id: "datadog",
+  durable: true,
+  enabled: () => Boolean(datadogApiKey),
   record: (run: TestRun) => pushDatadogMetrics(run)
 });
@@ -1,11 +1,31 @@
+import { registerDeliveryHandler } from "@/lib/outbox";
 import type { TestRun } from "@/lib/types";
-import { emitTelemetry } from "@/lib/spi/telemetry";
+import { emitTelemetry, getTelemetrySink } from "@/lib/spi/telemetry";
+import type { TelemetryJob } from "@/lib/spi/telemetry";
+import { recordBackfillProgress } from "@/lib/telemetry/backfill";
 import "@/lib/telemetry/prometheus";
 import "@/lib/telemetry/influx";
 import "@/lib/telemetry/datadog";
+import "@/lib/telemetry/otlp";
+
+registerDeliveryHandler("telemetry", {
+  async deliver(job) {
+    const id = job.sink.slice("telemetry:".length);
+    const sink = getTelemetrySink(id);
+    if (!sink) {
+      throw new Error(`Unknown telemetry sink ${id}`);
+    }
+    await sink.record((job.payload as TelemetryJob).run);
+  },
+  async settled(job, delivered) {
+    if ((job.payload as TelemetryJob).backfillId) {
+      await recordBackfillProgress(job, delivered);
+    }
+  }
+});
 
 export function recordRunMetrics(run: TestRun) {
-  void emitTelemetry(run);
+  void emitTelemetry(run).catch((error) => console.error("Failed to queue telemetry", error));
 }
 
 export { getPrometheusMetrics } from "@/lib/telemetry/prometheus";
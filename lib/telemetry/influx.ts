@@ -13,7 +13,9 @@ function getWriteApi() {
     writeApi = new InfluxDB({ url: influxConfig.url, token: influxConfig.token }).getWriteApi(
       influxConfig.org,
       influxConfig.bucket,
-      "ns"
+      "ns",
+      // The delivery outbox retries failed writes, so the client must not buffer them too
+      { maxRetries: 0 }
     );
   }
   return writeApi;
@@ -31,7 +33,8 @@ export async function pushInfluxMetrics(run: TestRun) {
     .intField("duration_ms", run.durationMs)
     .intField("total", run.total)
     .intField("passed", run.passed)
-    .intField("failed", run.failed);
+    .intField("failed", run.failed)
+    .timestamp(new Date(run.createdAt));
   if (typeof run.coverage === "number") {
     point.floatField("coverage", run.coverage);
   }
@@ -41,5 +44,7 @@ export async function pushInfluxMetrics(run: TestRun) {
 
 registerTelemetrySink({
   id: "influx",
+  durable: true,
+  enabled: () => getWriteApi() !== null,
   record: (run: TestRun) => pushInfluxMetrics(run)
 });
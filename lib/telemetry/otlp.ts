@@ -0,0 +1,231 @@
+import { createHash } from "node:crypto";
+import { otlpConfig, otlpEnabled } from "@/lib/config";
+import { getStore } from "@/lib/storage";
+import type { TestCaseResult, TestRun } from "@/lib/types";
+import { registerTelemetrySink } from "@/lib/spi/telemetry";
+
+type AttributeValue = string | number | boolean | undefined;
+
+interface KeyValue {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  status: { code: number; message?: string };
+}
+
+// OTLP span kinds and status codes
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const AGGREGATION_DELTA = 1;
+
+const SCOPE = { name: "ux.qa", version: "1.0.0" };
+
+function attributes(values: Record<string, AttributeValue>): KeyValue[] {
+  return Object.entries(values).flatMap(([key, value]): KeyValue[] => {
+    if (value === undefined) {
+      return [];
+    }
+    if (typeof value === "boolean") {
+      return [{ key, value: { boolValue: value } }];
+    }
+    if (typeof value === "number") {
+      return [{ key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } }];
+    }
+    return [{ key, value: { stringValue: value } }];
+  });
+}
+
+const resource = () => ({ attributes: attributes({ "service.name": otlpConfig.serviceName }) });
+
+const nanos = (ms: number) => `${Math.round(ms)}000000`;
+
+/** Span ids derived from the run, so a retried export repeats the same ids instead of forking the trace. */
+const spanId = (...parts: string[]) => createHash("sha256").update(parts.join("\u0000")).digest("hex").slice(0, 16);
+
+function runAttributes(run: TestRun) {
+  return {
+    "uxqa.app": run.appId,
+    "uxqa.suite": run.suite,
+    "uxqa.environment": run.environment,
+    "uxqa.status": run.status
+  };
+}
+
+function runStatus(run: TestRun) {
+  if (run.status === "failed" || run.status === "unstable") {
+    return { code: STATUS_ERROR, message: `${run.failed} of ${run.total} tests failed` };
+  }
+  return { code: run.status === "skipped" ? STATUS_UNSET : STATUS_OK };
+}
+
+function testStatus(test: TestCaseResult) {
+  if ((test.status === "failed" || test.status === "timedOut" || test.status === "interrupted") && !test.quarantined) {
+    return { code: STATUS_ERROR, message: test.errors[0] };
+  }
+  return { code: test.status === "skipped" ? STATUS_UNSET : STATUS_OK };
+}
+
+/**
+ * A trace per run: a span for the run, one per test file (Playwright's suites) and, with `UXQA_OTLP_TEST_SPANS`,
+ * one per test. Results carry durations but no start times, so tests are laid out back to back within their file.
+ */
+export function buildRunTrace(run: TestRun, tests: TestCaseResult[]) {
+  const traceId = run.id.replace(/-/g, "").padEnd(32, "0").slice(0, 32);
+  // The reporter stamps a run when it finishes
+  const end = Date.parse(run.timestamp ?? run.createdAt);
+  const start = end - run.durationMs;
+  const rootId = spanId(run.id);
+  const spans: Span[] = [
+    {
+      traceId,
+      spanId: rootId,
+      name: `${run.appId} ${run.suite}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: nanos(start),
+      endTimeUnixNano: nanos(end),
+      attributes: attributes({
+        ...runAttributes(run),
+        "uxqa.run.id": run.id,
+        "uxqa.tests.total": run.total,
+        "uxqa.tests.passed": run.passed,
+        "uxqa.tests.failed": run.failed,
+        "uxqa.coverage": run.coverage,
+        "vcs.commit": run.commit,
+        "vcs.branch": run.branch
+      }),
+      status: runStatus(run)
+    }
+  ];
+
+  const files = new Map<string, TestCaseResult[]>();
+  for (const test of tests) {
+    const key = JSON.stringify([test.project ?? "", test.file ?? test.titlePath[0] ?? ""]);
+    files.set(key, [...(files.get(key) ?? []), test]);
+  }
+  for (const [key, fileTests] of files) {
+    const [project, file] = JSON.parse(key) as [string, string];
+    const suiteId = spanId(run.id, key);
+    const failed = fileTests.filter((test) => testStatus(test).code === STATUS_ERROR).length;
+    let cursor = start;
+    const testSpans = fileTests.map((test): Span => {
+      const testStart = cursor;
+      cursor += test.durationMs;
+      return {
+        traceId,
+        spanId: spanId(run.id, key, test.id),
+        parentSpanId: suiteId,
+        name: test.titlePath.join(" › "),
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: nanos(testStart),
+        endTimeUnixNano: nanos(cursor),
+        attributes: attributes({
+          "uxqa.test.status": test.status,
+          "uxqa.test.retries": test.retries,
+          "uxqa.test.quarantined": test.quarantined,
+          "code.filepath": test.file,
+          "code.lineno": test.line
+        }),
+        status: testStatus(test)
+      };
+    });
+    spans.push({
+      traceId,
+      spanId: suiteId,
+      parentSpanId: rootId,
+      name: file || "(no file)",
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: nanos(start),
+      endTimeUnixNano: nanos(cursor),
+      attributes: attributes({
+        "uxqa.project": project || undefined,
+        "uxqa.tests.total": fileTests.length,
+        "uxqa.tests.failed": failed
+      }),
+      status: failed ? { code: STATUS_ERROR, message: `${failed} of ${fileTests.length} tests failed` } : { code: STATUS_OK }
+    });
+    if (otlpConfig.testSpans) {
+      spans.push(...testSpans);
+    }
+  }
+  return { resourceSpans: [{ resource: resource(), scopeSpans: [{ scope: SCOPE, spans }] }] };
+}
+
+/** Run metrics as delta sums and gauges, stamped with the time the run was ingested. */
+export function buildRunMetrics(run: TestRun) {
+  const time = nanos(Date.parse(run.createdAt));
+  const labels = attributes(runAttributes(run));
+  const point = (value: number, extra: Record<string, AttributeValue> = {}) => ({
+    timeUnixNano: time,
+    startTimeUnixNano: time,
+    attributes: [...labels, ...attributes(extra)],
+    ...(Number.isInteger(value) ? { asInt: String(value) } : { asDouble: value })
+  });
+  const sum = (name: string, description: string, dataPoints: ReturnType<typeof point>[]) => ({
+    name,
+    description,
+    unit: "1",
+    sum: { aggregationTemporality: AGGREGATION_DELTA, isMonotonic: true, dataPoints }
+  });
+  const gauge = (name: string, description: string, unit: string, dataPoint: ReturnType<typeof point>) => ({
+    name,
+    description,
+    unit,
+    gauge: { dataPoints: [dataPoint] }
+  });
+  const metrics: object[] = [
+    sum("playwright.runs", "Test runs ingested", [point(1)]),
+    sum("playwright.run.tests", "Tests per run by result", [
+      point(run.passed, { "uxqa.test.result": "passed" }),
+      point(run.failed, { "uxqa.test.result": "failed" }),
+      point(run.skipped ?? 0, { "uxqa.test.result": "skipped" }),
+      point(run.flaky ?? 0, { "uxqa.test.result": "flaky" })
+    ]),
+    gauge("playwright.run.duration", "Duration of the run", "ms", point(run.durationMs))
+  ];
+  if (typeof run.coverage === "number") {
+    metrics.push(gauge("playwright.run.coverage", "Coverage reported with the run", "%", point(run.coverage)));
+  }
+  return { resourceMetrics: [{ resource: resource(), scopeMetrics: [{ scope: SCOPE, metrics }] }] };
+}
+
+async function post(signal: "metrics" | "traces", body: unknown) {
+  const response = await fetch(`${otlpConfig.endpoint}/v1/${signal}`, {
+    method: "POST",
+    headers: { ...otlpConfig.headers, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10_000)
+  });
+  if (!response.ok) {
+    throw new Error(`OTLP ${signal} export answered ${response.status}`);
+  }
+}
+
+/** Exports metrics and the trace of the run over OTLP/HTTP (JSON); rejects when the collector refuses either. */
+export async function pushOtlpTelemetry(run: TestRun) {
+  if (!otlpEnabled) {
+    return;
+  }
+  const tests = await getStore().listTests(run.id);
+  // Traces first: resending spans with the same ids is harmless, resending delta metrics would count the run twice
+  await post("traces", buildRunTrace(run, tests));
+  await post("metrics", buildRunMetrics(run));
+}
+
+registerTelemetrySink({
+  id: "otlp",
+  durable: true,
+  enabled: () => otlpEnabled,
+  record: (run: TestRun) => pushOtlpTelemetry(run)
+});
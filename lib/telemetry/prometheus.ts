@@ -1,50 +1,188 @@
-import { Counter, Gauge, Registry, collectDefaultMetrics } from "prom-client";
-import type { TestRun } from "@/lib/types";
-import { prometheusEnabled } from "@/lib/config";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import type { TestCaseResult, TestRun } from "@/lib/types";
+import { prometheusConfig, prometheusEnabled } from "@/lib/config";
+import { getStore } from "@/lib/storage";
 import { registerTelemetrySink } from "@/lib/spi/telemetry";
 
 const registry = new Registry();
 collectDefaultMetrics({ register: registry });
 
+const runLabels = ["app", "suite", "environment"] as const;
+
 const runCounter = new Counter({
   name: "playwright_runs_total",
   help: "Number of test runs ingested",
-  labelNames: ["app", "suite", "status"],
+  labelNames: [...runLabels, "status"],
   registers: [registry]
 });
 
 const coverageGauge = new Gauge({
   name: "playwright_run_coverage",
   help: "Coverage percentage reported with the run",
-  labelNames: ["app", "suite"],
+  labelNames: runLabels,
   registers: [registry]
 });
 
 const durationGauge = new Gauge({
   name: "playwright_run_duration_ms",
   help: "Duration of the latest run in milliseconds",
-  labelNames: ["app", "suite"],
+  labelNames: runLabels,
+  registers: [registry]
+});
+
+const durationHistogram = new Histogram({
+  name: "playwright_run_duration_seconds",
+  help: "Duration of test runs in seconds",
+  labelNames: runLabels,
+  buckets: prometheusConfig.runDurationBuckets,
+  registers: [registry]
+});
+
+const lastRunGauge = new Gauge({
+  name: "playwright_run_last_timestamp_seconds",
+  help: "Unix time the latest run was ingested",
+  labelNames: runLabels,
+  registers: [registry]
+});
+
+const lastSuccessGauge = new Gauge({
+  name: "playwright_run_last_success_timestamp_seconds",
+  help: "Unix time the latest passing run was ingested",
+  labelNames: runLabels,
   registers: [registry]
 });
 
-export function pushPrometheusMetrics(run: TestRun) {
+const testCounter = new Counter({
+  name: "playwright_tests_total",
+  help: "Tests reported with ingested runs, by result",
+  labelNames: [...runLabels, "result"],
+  registers: [registry]
+});
+
+const testResultCounter = new Counter({
+  name: "playwright_test_results_total",
+  help: "Results per test, by result; tests past the per-app series limit share test=\"__other__\"",
+  labelNames: [...runLabels, "project", "test", "result"],
+  registers: [registry]
+});
+
+const testDurationHistogram = new Histogram({
+  name: "playwright_test_duration_seconds",
+  help: "Duration of individual tests in seconds",
+  labelNames: runLabels,
+  buckets: prometheusConfig.testDurationBuckets,
+  registers: [registry]
+});
+
+const overflowCounter = new Counter({
+  name: "playwright_test_series_overflow_total",
+  help: "Test results folded into test=\"__other__\" because the app reached UXQA_PROMETHEUS_MAX_TEST_SERIES",
+  labelNames: ["app"],
+  registers: [registry]
+});
+
+const OTHER_TEST = "__other__";
+const MAX_TEST_LABEL_LENGTH = 200;
+
+/** Tests that own a series, per app; once an app has `maxTestSeries` of them new tests are folded. */
+const testSeries = new Map<string, Set<string>>();
+
+/** `createdAt` of the newest run recorded per label set, so an older run never overwrites the latest-value gauges. */
+const latest = new Map<string, string>();
+
+function testLabel(run: TestRun, test: TestCaseResult) {
+  const title = test.titlePath.join(" › ").slice(0, MAX_TEST_LABEL_LENGTH);
+  const key = `${test.project ?? ""}\u0000${title}`;
+  const series = testSeries.get(run.appId) ?? new Set<string>();
+  testSeries.set(run.appId, series);
+  if (!series.has(key) && series.size >= prometheusConfig.maxTestSeries) {
+    overflowCounter.labels({ app: run.appId }).inc();
+    return { project: "", test: OTHER_TEST };
+  }
+  series.add(key);
+  return { project: test.project ?? "", test: title };
+}
+
+function testResult(test: TestCaseResult) {
+  if (test.status === "passed") {
+    return test.retries > 0 ? "flaky" : "passed";
+  }
+  return test.status === "skipped" ? "skipped" : "failed";
+}
+
+function recordRun(run: TestRun, tests: TestCaseResult[]) {
+  const labels = { app: run.appId, suite: run.suite, environment: run.environment };
+  const seconds = Date.parse(run.createdAt) / 1000;
+  runCounter.labels({ ...labels, status: run.status }).inc();
+  durationHistogram.labels(labels).observe(run.durationMs / 1000);
+  const results = { passed: run.passed, failed: run.failed, skipped: run.skipped ?? 0, flaky: run.flaky ?? 0 };
+  for (const [result, count] of Object.entries(results)) {
+    testCounter.labels({ ...labels, result }).inc(count);
+  }
+
+  const key = JSON.stringify(labels);
+  if ((latest.get(key) ?? "") <= run.createdAt) {
+    latest.set(key, run.createdAt);
+    durationGauge.labels(labels).set(run.durationMs);
+    lastRunGauge.labels(labels).set(seconds);
+    if (typeof run.coverage === "number") {
+      coverageGauge.labels(labels).set(run.coverage);
+    }
+  }
+  if (run.status === "passed") {
+    const successKey = `${key}\u0000passed`;
+    if ((latest.get(successKey) ?? "") <= run.createdAt) {
+      latest.set(successKey, run.createdAt);
+      lastSuccessGauge.labels(labels).set(seconds);
+    }
+  }
+
+  for (const test of tests) {
+    testDurationHistogram.labels(labels).observe(test.durationMs / 1000);
+    if (prometheusConfig.maxTestSeries > 0) {
+      testResultCounter.labels({ ...labels, ...testLabel(run, test), result: testResult(test) }).inc();
+    }
+  }
+}
+
+// Runs ingested from here on are recorded live; the rebuild only replays what was stored before
+const startedAt = new Date().toISOString();
+
+/** Replays stored runs oldest first, so counters and histograms continue from the retained history after a restart. */
+async function rebuildFromHistory() {
+  const store = getStore();
+  let cursor: string | undefined;
+  do {
+    const page = await store.query({ to: startedAt, order: "asc", cursor, limit: 500 });
+    for (const run of page.runs) {
+      // Runs still in progress are recorded live once they are closed
+      if (run.createdAt < startedAt && run.status !== "running") {
+        recordRun(run, await store.listTests(run.id));
+      }
+    }
+    cursor = page.next ?? undefined;
+  } while (cursor);
+}
+
+const rebuilt =
+  prometheusEnabled && prometheusConfig.rebuild
+    ? rebuildFromHistory().catch((error) => console.error("Failed to rebuild Prometheus metrics from history", error))
+    : Promise.resolve();
+
+export async function pushPrometheusMetrics(run: TestRun) {
   if (!prometheusEnabled) {
     return;
   }
-  runCounter.labels({ app: run.appId, suite: run.suite, status: run.status }).inc();
-  durationGauge.labels({ app: run.appId, suite: run.suite }).set(run.durationMs);
-  if (typeof run.coverage === "number") {
-    coverageGauge.labels({ app: run.appId, suite: run.suite }).set(run.coverage);
-  }
+  recordRun(run, await getStore().listTests(run.id));
 }
 
+/** Waits for the rebuild, so a scrape never sees counters that start over. */
 export async function getPrometheusMetrics() {
+  await rebuilt;
   return registry.metrics();
 }
 
 registerTelemetrySink({
   id: "prometheus",
-  record: (run: TestRun) => {
-    pushPrometheusMetrics(run);
-  }
+  record: (run: TestRun) => pushPrometheusMetrics(run)
 });
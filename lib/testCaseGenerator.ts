@@ -3,7 +3,7 @@ import type { TestRun } from "@/lib/types";
 
 export function generateTestSuggestions(appId: string, suite: string, runs: TestRun[]) {
   const recentFailures = runs
-    .filter((run) => run.appId === appId && run.suite === suite && run.status !== "passed")
+    .filter((run) => run.appId === appId && run.suite === suite && (run.status === "failed" || run.status === "unstable"))
     .slice(0, 5);
   const recentCoverage = runs
     .filter((run) => run.appId === appId && run.suite === suite && typeof run.coverage === "number")
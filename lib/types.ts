@@ -1,4 +1,12 @@
-export type RunStatus = "passed" | "failed" | "unstable";
+export const INGEST_SCHEMA_VERSION = 1;
+
+/** `running` while a reporter streams results into the run; it is closed with one of the others. */
+export type RunStatus = "passed" | "failed" | "unstable" | "skipped" | "running";
+
+/** Statuses accepted on the wire; reporters send `flaky` where the hub stores `unstable`. */
+export type IngestRunStatus = RunStatus | "flaky";
+
+export type TestCaseStatus = "passed" | "failed" | "timedOut" | "skipped" | "interrupted";
 
 export interface TestRun {
   id: string;
@@ -10,9 +18,20 @@ export interface TestRun {
   passed: number;
   failed: number;
   durationMs: number;
+  skipped?: number;
+  flaky?: number;
+  /** Failures of quarantined tests; they do not fail the run. */
+  quarantined?: number;
   coverage?: number;
   commit?: string;
+  branch?: string;
+  tags?: string[];
   artifactUrl?: string;
+  timestamp?: string;
+  /** Tests the reporter planned to run, sent when it opens a live run. */
+  planned?: number;
+  /** Set when the hub closed a live run whose reporter stopped sending results. */
+  interrupted?: boolean;
   createdAt: string;
 }
 
@@ -25,7 +44,318 @@ export interface CreateRunPayload {
   passed: number;
   failed: number;
   durationMs: number;
+  skipped?: number;
+  flaky?: number;
+  /** Failures of quarantined tests; they do not fail the run. */
+  quarantined?: number;
   coverage?: number;
   commit?: string;
+  branch?: string;
+  tags?: string[];
   artifactUrl?: string;
+  timestamp?: string;
+  planned?: number;
+  tests?: CreateTestCasePayload[];
+}
+
+/**
+ * Run payload as sent by reporters (mirrors `RunPayload` in `@ux.qa/reporter`).
+ * `validateRunPayload` turns it into a `CreateRunPayload`.
+ */
+export interface IngestRunPayload extends Omit<CreateRunPayload, "status"> {
+  schemaVersion?: typeof INGEST_SCHEMA_VERSION;
+  status: IngestRunStatus;
+}
+
+export interface TestCaseResult {
+  id: string;
+  runId: string;
+  title: string;
+  titlePath: string[];
+  file?: string;
+  line?: number;
+  project?: string;
+  status: TestCaseStatus;
+  retries: number;
+  durationMs: number;
+  errors: string[];
+  /** Set when the test failed but is on the app's quarantine list. */
+  quarantined?: boolean;
+}
+
+export interface CreateTestCasePayload {
+  title: string;
+  titlePath?: string[];
+  file?: string;
+  line?: number;
+  project?: string;
+  status: TestCaseStatus;
+  retries?: number;
+  durationMs: number;
+  errors?: string[];
+  quarantined?: boolean;
+}
+
+export type ArtifactType = "screenshot" | "video" | "trace" | "report" | "other";
+
+export interface Artifact {
+  id: string;
+  runId: string;
+  /** Test case the artifact was attached to; absent for run-level artifacts such as HTML reports. */
+  testId?: string;
+  name: string;
+  type: ArtifactType;
+  contentType: string;
+  size: number;
+  /** Hex-encoded SHA-256 of the stored bytes. */
+  checksum: string;
+  createdAt: string;
+}
+
+/** Artifact metadata plus the hub URL serving its bytes. */
+export interface ArtifactWithUrl extends Artifact {
+  url: string;
+}
+
+/** A known-flaky test whose failures are reported separately instead of failing the run. */
+export interface QuarantineEntry {
+  id: string;
+  appId: string;
+  /** Limits the entry to one suite; applies to every suite of the app when absent. */
+  suite?: string;
+  /** Limits the entry to one Playwright project. */
+  project?: string;
+  titlePath: string[];
+  owner: string;
+  reason: string;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type CreateQuarantinePayload = Omit<QuarantineEntry, "id" | "createdAt" | "updatedAt">;
+
+export type UpdateQuarantinePayload = Partial<Pick<QuarantineEntry, "owner" | "reason">> & {
+  /** `null` removes the expiry. */
+  expiresAt?: string | null;
+};
+
+/** `ingest` publishes runs, tests and artifacts; `read` queries them; `admin` manages hub configuration and keys. */
+export const API_KEY_SCOPES = ["ingest", "read", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** A hub-managed API key. Only the SHA-256 hash of the token is stored. */
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** First characters of the token, so keys can be told apart without revealing them. */
+  prefix: string;
+  hash: string;
+  /** Role used for `UXQA_RBAC` checks. */
+  role: string;
+  /** Apps the key may access; every app when absent. */
+  appIds?: string[];
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+}
+
+export type ApiKeyInfo = Omit<ApiKey, "hash">;
+
+export type CreateApiKeyPayload = Pick<ApiKey, "name" | "role" | "appIds" | "scopes">;
+
+/** What an alert rule checks after every run in its scope. */
+export type AlertCondition =
+  /** The last `count` runs failed or turned unstable. */
+  | { type: "consecutiveFailures"; count: number }
+  /** Test pass rate of the last `window` runs is at least `drop` points below that of the `window` runs before. */
+  | { type: "passRateDrop"; window: number; drop: number }
+  /** The run took at least `percent` longer than the average of the previous `window` runs. */
+  | { type: "durationRegression"; window: number; percent: number }
+  /** A test passed only after a retry although it never needed one in the previous `window` runs. */
+  | { type: "newFlakyTest"; window: number }
+  /** Coverage is at least `drop` points below the average of the previous `window` runs. */
+  | { type: "coverageDrop"; window: number; drop: number }
+  /** Coverage is below `threshold` percent. */
+  | { type: "coverageBelow"; threshold: number };
+
+export type AlertConditionType = AlertCondition["type"];
+
+/** Where a rule's notifications go; `type` names a channel registered in `lib/spi/alertChannels.ts`. */
+export interface AlertChannelConfig {
+  type: string;
+  [option: string]: unknown;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  /** Limits the rule to one app; watches every app when absent. */
+  appId?: string;
+  suite?: string;
+  environment?: string;
+  condition: AlertCondition;
+  /** Minimum minutes between two notifications of the same alert. */
+  cooldownMinutes: number;
+  /** Channels notified instead of `ALERT_WEBHOOK_URL`. */
+  channels?: AlertChannelConfig[];
+  /** Plain JSON webhook, kept from before channels existed; notified alongside `channels`. */
+  webhookUrl?: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type CreateAlertRulePayload = Omit<AlertRule, "id" | "createdAt" | "updatedAt">;
+
+export type UpdateAlertRulePayload = Partial<Pick<AlertRule, "name" | "condition" | "channels" | "cooldownMinutes" | "enabled">> & {
+  /** `null` removes the field. */
+  suite?: string | null;
+  environment?: string | null;
+  webhookUrl?: string | null;
+};
+
+export type AlertStatus = "firing" | "resolved";
+
+/** State of one rule for one app, suite and environment; kept after resolving so the cooldown survives flapping. */
+export interface Alert {
+  /** `<ruleId>|<appId>|<suite>|<environment>` */
+  id: string;
+  ruleId: string;
+  appId: string;
+  suite: string;
+  environment: string;
+  status: AlertStatus;
+  /** Why the alert fired, from the run that last evaluated it. */
+  message: string;
+  /** Last run that evaluated the rule. */
+  runId: string;
+  firedAt: string;
+  resolvedAt?: string;
+  /** Last notification queued for delivery, firing or resolved. */
+  notifiedAt?: string;
+  /** Whether the current firing was notified; only those send a resolve notification. */
+  announced: boolean;
+}
+
+/** One notification of one channel, after all its attempts. */
+export interface AlertDelivery {
+  id: string;
+  alertId: string;
+  ruleId: string;
+  appId: string;
+  /** Whether the firing or the resolve was announced. */
+  alertStatus: AlertStatus;
+  channel: string;
+  /** Destination without credentials, e.g. the webhook host or the mail recipients. */
+  target: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  /** Last failure when every attempt failed. */
+  error?: string;
+  createdAt: string;
+}
+
+/** An outbound delivery to a telemetry sink or alert channel, kept until it succeeds or is dead-lettered. */
+export interface OutboxJob {
+  id: string;
+  /** Health key and handler, e.g. `telemetry:datadog` or `alert:slack`; the part before `:` picks the handler. */
+  sink: string;
+  payload: unknown;
+  /** `dead` once every attempt failed; dead letters stay until they are retried. */
+  status: "pending" | "dead";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * `scanning` while stored runs are being queued, `delivering` until every queued export settled; `failed` when the
+ * scan stopped with an error, after which exports it already queued still settle.
+ */
+export type BackfillStatus = "scanning" | "delivering" | "completed" | "failed";
+
+/** Replay of stored runs through one telemetry sink, with their original timestamps. */
+export interface TelemetryBackfill {
+  id: string;
+  sink: string;
+  /** From the `Idempotency-Key` header; repeating the request with the same key returns this backfill. */
+  idempotencyKey?: string;
+  appId?: string;
+  from?: string;
+  to: string;
+  status: BackfillStatus;
+  /** Stored runs found in range so far. */
+  runs: number;
+  queued: number;
+  /** Runs still queued for the sink by an earlier backfill. */
+  skipped: number;
+  delivered: number;
+  /** Runs whose export was dead-lettered; retried ones move to `delivered` once they go through. */
+  failedRunIds: string[];
+  /** Why the scan stopped, for `failed` backfills. */
+  error?: string;
+  createdAt: string;
+  updatedAt?: string;
+  completedAt?: string;
+}
+
+export const HUB_EVENT_TYPES = ["run", "run.updated", "alert", "quarantine"] as const;
+
+export type HubEventType = (typeof HUB_EVENT_TYPES)[number];
+
+/** Pushed on `/api/events`: a new run, tests or artifacts added to one, an alert firing or resolving, a quarantine change. */
+export type HubEvent =
+  | { type: "run" | "run.updated"; data: TestRun }
+  | { type: "alert"; data: Alert }
+  | { type: "quarantine"; data: { action: "created" | "updated" | "deleted"; entry: QuarantineEntry } };
+
+/** Server-side filter of an event stream; `status` only narrows run events. */
+export interface EventFilter {
+  appId?: string;
+  suite?: string;
+  environment?: string;
+  status?: RunStatus;
+  types?: HubEventType[];
+}
+
+export const AUDIT_ACTIONS = [
+  "settings.update",
+  "apiKey.create",
+  "apiKey.rotate",
+  "apiKey.revoke",
+  "quarantine.create",
+  "quarantine.update",
+  "quarantine.delete",
+  "alertRule.create",
+  "alertRule.update",
+  "alertRule.delete",
+  "telemetry.backfill"
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** One changed field; `path` is dot-separated and a missing side means the field was added or removed. */
+export interface AuditChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Entries are only ever appended; no driver updates or deletes them. */
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  /** Login email or subject, `key:<prefix>` for managed keys, `bootstrap` or `anonymous` when auth is off. */
+  actor: string;
+  roles: string[];
+  /** Id of the changed record, e.g. the key, quarantine entry or alert rule. */
+  target?: string;
+  appId?: string;
+  changes: AuditChange[];
+  createdAt: string;
 }
@@ -0,0 +1,203 @@
+import { decodeCursor } from "@/lib/storage/query";
+import type { IngestRunStatus, RunStatus } from "@/lib/types";
+
+// Field readers shared by the validators next to each domain module; they collect errors instead of throwing
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export type Fields = Record<string, unknown>;
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+export const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+export function requireString(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    errors.push({ field: `${prefix}${field}`, message: "must be a non-empty string" });
+    return "";
+  }
+  return value;
+}
+
+export function requireCount(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  const value = body[field];
+  if (!isCount(value)) {
+    errors.push({ field: `${prefix}${field}`, message: "must be a non-negative integer" });
+    return 0;
+  }
+  return value;
+}
+
+export function optionalCount(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  if (body[field] === undefined) {
+    return undefined;
+  }
+  return requireCount(body, field, errors, prefix);
+}
+
+export function optionalString(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    errors.push({ field: `${prefix}${field}`, message: "must be a string" });
+    return undefined;
+  }
+  return value;
+}
+
+export function optionalStringArray(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isStringArray(value)) {
+    errors.push({ field: `${prefix}${field}`, message: "must be an array of strings" });
+    return undefined;
+  }
+  return value;
+}
+
+export function optionalBoolean(body: Fields, field: string, errors: FieldError[], prefix = "") {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "boolean") {
+    errors.push({ field: `${prefix}${field}`, message: "must be a boolean" });
+    return undefined;
+  }
+  return value;
+}
+
+export function optionalDate(body: Fields, field: string, errors: FieldError[]) {
+  const value = optionalString(body, field, errors);
+  if (value !== undefined && Number.isNaN(Date.parse(value))) {
+    errors.push({ field, message: "must be an ISO-8601 date" });
+    return undefined;
+  }
+  return value === undefined ? undefined : new Date(value).toISOString();
+}
+
+export function asObject(input: unknown): ValidationResult<Fields> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: "", message: "body must be a JSON object" }] };
+  }
+  return { ok: true, value: input as Fields };
+}
+
+/** Reads an array of at most `max` objects, passing each one to `read` with the prefix for its fields. */
+export function readObjects<T>(
+  value: unknown,
+  field: string,
+  max: number,
+  errors: FieldError[],
+  read: (body: Fields, prefix: string) => T
+): T[] {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: "must be an array" });
+    return [];
+  }
+  if (value.length > max) {
+    errors.push({ field, message: `must have at most ${max} entries` });
+    return [];
+  }
+  return value.flatMap((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      errors.push({ field: `${field}[${index}]`, message: "must be an object" });
+      return [];
+    }
+    return [read(entry as Fields, `${field}[${index}].`)];
+  });
+}
+
+export function requireInteger(body: Fields, field: string, min: number, max: number, errors: FieldError[], prefix: string) {
+  const value = body[field];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    errors.push({ field: `${prefix}${field}`, message: `must be an integer between ${min} and ${max}` });
+    return min;
+  }
+  return value;
+}
+
+export function requireUniqueIds(entries: { id: string }[], field: string, errors: FieldError[]) {
+  if (new Set(entries.map((entry) => entry.id)).size !== entries.length) {
+    errors.push({ field, message: "ids must be unique" });
+  }
+}
+
+/** Page sizes of the list endpoints, e.g. `GET /api/runs` and `GET /api/audit`. */
+export const DEFAULT_PAGE_SIZE = 100;
+
+export const MAX_PAGE_SIZE = 500;
+
+export function readDate(params: URLSearchParams, field: string, errors: FieldError[]) {
+  const value = params.get(field);
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    errors.push({ field, message: "must be an ISO-8601 date" });
+    return undefined;
+  }
+  return new Date(time).toISOString();
+}
+
+export function readInteger(params: URLSearchParams, field: string, min: number, max: number, errors: FieldError[]) {
+  const value = params.get(field);
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    errors.push({ field, message: `must be an integer between ${min} and ${max}` });
+    return undefined;
+  }
+  return parsed;
+}
+
+export function readDateRange(params: URLSearchParams, query: { from?: string; to?: string }, errors: FieldError[]) {
+  query.from = readDate(params, "from", errors);
+  query.to = readDate(params, "to", errors);
+  if (query.from && query.to && query.from > query.to) {
+    errors.push({ field: "from", message: "must not be after to" });
+  }
+}
+
+const ingestStatuses: IngestRunStatus[] = ["passed", "failed", "unstable", "skipped", "flaky", "running"];
+
+const statusMap: Record<IngestRunStatus, RunStatus> = {
+  passed: "passed",
+  failed: "failed",
+  unstable: "unstable",
+  skipped: "skipped",
+  flaky: "unstable",
+  running: "running"
+};
+
+/** Reads a run status as reporters send it; `flaky` runs are stored as `unstable`. */
+export function readRunStatus(value: unknown, field: string, errors: FieldError[]): RunStatus {
+  if (!ingestStatuses.includes(value as IngestRunStatus)) {
+    errors.push({ field, message: `must be one of ${ingestStatuses.join(", ")}` });
+  }
+  return statusMap[value as IngestRunStatus];
+}
+
+export function readCursor(params: URLSearchParams, errors: FieldError[]) {
+  const cursor = params.get("cursor");
+  if (cursor && !decodeCursor(cursor)) {
+    errors.push({ field: "cursor", message: "is not a valid cursor" });
+    return undefined;
+  }
+  return cursor || undefined;
+}
@@ -1,22 +1,40 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
+import { adminRole, oidcEnabled, readSession, SESSION_COOKIE } from "@/lib/session";
 
 const PROTECTED_PATHS = [/^\/admin\//];
-const REQUIRED_ROLE = process.env.UXQA_ADMIN_ROLE ?? "admin";
 
-export function middleware(request: NextRequest) {
+function loginRedirect(request: NextRequest) {
+  const url = new URL("/api/auth/login", request.url);
+  url.searchParams.set("returnTo", `${request.nextUrl.pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(url);
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   const isProtected = PROTECTED_PATHS.some((regex) => regex.test(pathname));
+  // With OIDC configured every page needs a login session; admin paths also need the admin role
+  if (oidcEnabled) {
+    const session = await readSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!session) {
+      return loginRedirect(request);
+    }
+    if (isProtected && !session.roles.includes(adminRole)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+    return NextResponse.next();
+  }
   if (!isProtected) {
     return NextResponse.next();
   }
   const rolesHeader = request.headers.get("x-uxqa-role");
-  if (!rolesHeader || !rolesHeader.split(",").includes(REQUIRED_ROLE)) {
+  if (!rolesHeader || !rolesHeader.split(",").includes(adminRole)) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
   return NextResponse.next();
 }
 
 export const config = {
-  matcher: ["/admin/:path*"]
+  // API routes authenticate themselves (key or session cookie); Next assets and the trace viewer bundle hold no data
+  matcher: ["/((?!api/|_next/|favicon.ico|trace/).*)"]
 };
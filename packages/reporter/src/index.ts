@@ -1,4 +1,5 @@
 // Main entry point for @ux.qa/reporter
 
 export { UxQaReporter, default } from './reporter';
-export type { UxQaReporterOptions, RunPayload, TestResultInfo } from './types';
+export { INGEST_SCHEMA_VERSION } from './types';
+export type { UxQaReporterOptions, RunPayload, TestResultInfo, TestCasePayload, AttachmentInfo, QuarantineEntry } from './types';
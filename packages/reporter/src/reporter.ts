@@ -4,9 +4,25 @@ import type {
   Reporter,
   Suite,
   TestCase,
+  TestError,
   TestResult,
 } from '@playwright/test/reporter';
-import type { UxQaReporterOptions, RunPayload, TestResultInfo } from './types';
+import { readFile } from 'fs/promises';
+import { basename, relative } from 'path';
+import { INGEST_SCHEMA_VERSION } from './types';
+import type {
+  UxQaReporterOptions,
+  RunPayload,
+  TestResultInfo,
+  TestCasePayload,
+  AttachmentInfo,
+  QuarantineEntry,
+} from './types';
+
+const ARTIFACT_TYPES = ['screenshot', 'video', 'trace'];
+
+const testKey = (test: { project?: string; titlePath: string[] }) =>
+  [test.project ?? '', ...test.titlePath].join(' > ');
 
 /**
  * UX.QA Playwright Reporter
@@ -34,10 +50,21 @@ export class UxQaReporter implements Reporter {
   private options: Required<Omit<UxQaReporterOptions, 'apiKey' | 'tags'>> & Pick<UxQaReporterOptions, 'apiKey' | 'tags'>;
   private startTime: number = 0;
   private testResults: TestResultInfo[] = [];
+  private testCases = new Map<string, TestCasePayload>();
+  private attachments = new Map<string, AttachmentInfo[]>();
+  private quarantineList: Promise<QuarantineEntry[]> = Promise.resolve([]);
+  private liveRun: Promise<string | undefined> = Promise.resolve(undefined);
+  private pendingKeys: string[] = [];
+  private streamed = new Set<string>();
+  private streaming: Promise<void> = Promise.resolve();
+  private flushing = false;
   private passed = 0;
   private failed = 0;
   private skipped = 0;
   private flaky = 0;
+  private quarantined = 0;
+  private errors: TestError[] = [];
+  private unexpectedPasses = new Set<string>();
 
   constructor(options: UxQaReporterOptions) {
     this.options = {
@@ -49,6 +76,9 @@ export class UxQaReporter implements Reporter {
       verbose: options.verbose || false,
       tags: options.tags,
       timeout: options.timeout || 10000,
+      uploadAttachments: options.uploadAttachments ?? true,
+      quarantine: options.quarantine ?? true,
+      live: options.live ?? false,
     };
 
     if (!this.options.appId) {
@@ -89,16 +119,163 @@ export class UxQaReporter implements Reporter {
   onBegin(config: FullConfig, suite: Suite): void {
     this.startTime = Date.now();
     this.testResults = [];
+    this.testCases = new Map();
+    this.attachments = new Map();
     this.passed = 0;
     this.failed = 0;
     this.skipped = 0;
     this.flaky = 0;
+    this.quarantined = 0;
+    this.errors = [];
+    this.unexpectedPasses = new Set();
+    this.quarantineList = this.options.quarantine ? this.fetchQuarantine() : Promise.resolve([]);
+    this.pendingKeys = [];
+    this.streamed = new Set();
+    this.streaming = Promise.resolve();
+    this.flushing = false;
+    this.liveRun = this.options.live ? this.openRun(suite.allTests().length) : Promise.resolve(undefined);
     this.log(`Starting test run for ${this.options.appId}/${this.options.suite}`);
   }
 
+  /**
+   * Opens a `running` run on the hub that test results are streamed into. Resolves to its id, or `undefined`
+   * when the hub refused it, in which case everything is published at the end.
+   */
+  private async openRun(planned: number): Promise<string | undefined> {
+    const gitInfo = this.getGitInfo();
+    const payload: RunPayload = {
+      schemaVersion: INGEST_SCHEMA_VERSION,
+      appId: this.options.appId,
+      suite: this.options.suite,
+      environment: this.options.environment,
+      status: 'running',
+      total: 0,
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      flaky: 0,
+      quarantined: 0,
+      durationMs: 0,
+      commit: gitInfo.commit,
+      branch: gitInfo.branch,
+      tags: this.options.tags,
+      timestamp: new Date().toISOString(),
+      planned,
+    };
+    try {
+      const response = await this.request(`${this.options.hubUrl}/api/runs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        this.log(`Could not open a live run, publishing at the end: ${response.status} ${await response.text()}`);
+        return undefined;
+      }
+      const { id } = (await response.json()) as { id?: string };
+      this.log(`Opened live run ${id} with ${planned} planned test(s)`);
+      return id;
+    } catch (error) {
+      this.log(`Could not open a live run, publishing at the end: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Sends the final attempts queued by `onTestEnd` to the live run. Only one request is in flight at a time;
+   * results that finish meanwhile go out together with the next one.
+   */
+  private flush(): void {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+    this.streaming = (async () => {
+      const runId = await this.liveRun;
+      const quarantine = await this.quarantineList;
+      while (runId && this.pendingKeys.length > 0) {
+        const keys = this.pendingKeys.splice(0);
+        const tests = keys.map((key) => this.testCases.get(key)!);
+        for (const testCase of tests) {
+          if (this.quarantineEntry(testCase, quarantine)) {
+            testCase.quarantined = true;
+          }
+        }
+        if (await this.streamTests(runId, tests)) {
+          keys.forEach((key) => this.streamed.add(key));
+        }
+      }
+      this.flushing = false;
+    })();
+  }
+
+  /** Failed results left unsent are published with the final payload instead. */
+  private async streamTests(runId: string, tests: TestCasePayload[]): Promise<boolean> {
+    try {
+      const response = await this.request(`${this.options.hubUrl}/api/runs/${encodeURIComponent(runId)}/tests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+        body: JSON.stringify(tests),
+      });
+      if (!response.ok) {
+        this.log(`Could not stream ${tests.length} result(s): ${response.status}`);
+      }
+      return response.ok;
+    } catch (error) {
+      this.log(`Could not stream ${tests.length} result(s): ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Loads the active quarantine entries for this app and suite. Any failure leaves the
+   * list empty so an unreachable hub never hides real failures.
+   */
+  private async fetchQuarantine(): Promise<QuarantineEntry[]> {
+    const url = `${this.options.hubUrl}/api/quarantine?appId=${encodeURIComponent(this.options.appId)}&active=true`;
+    try {
+      const response = await this.request(url, { headers: this.authHeaders() });
+      if (!response.ok) {
+        this.log(`Could not load quarantine list: ${response.status}`);
+        return [];
+      }
+      const { entries = [] } = (await response.json()) as { entries?: QuarantineEntry[] };
+      const now = Date.now();
+      const active = entries.filter(
+        (entry) =>
+          (!entry.suite || entry.suite === this.options.suite) &&
+          (!entry.expiresAt || Date.parse(entry.expiresAt) > now)
+      );
+      this.log(`Loaded ${active.length} quarantined test(s)`);
+      return active;
+    } catch (error) {
+      this.log(`Could not load quarantine list: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  private findQuarantine(testCase: TestCasePayload, entries: QuarantineEntry[]): QuarantineEntry | undefined {
+    const title = testCase.titlePath.join(' > ');
+    return entries.find(
+      (entry) => entry.titlePath.join(' > ') === title && (!entry.project || entry.project === testCase.project)
+    );
+  }
+
+  /** The entry a failed test is quarantined by, if any. */
+  private quarantineEntry(testCase: TestCasePayload, entries: QuarantineEntry[]): QuarantineEntry | undefined {
+    return testCase.status === 'failed' || testCase.status === 'timedOut'
+      ? this.findQuarantine(testCase, entries)
+      : undefined;
+  }
+
   onTestEnd(test: TestCase, result: TestResult): void {
+    const titlePath = test.titlePath?.().filter(Boolean) ?? [test.title];
     const testInfo: TestResultInfo = {
       title: test.title,
+      titlePath,
+      file: test.location ? relative(process.cwd(), test.location.file) : undefined,
+      line: test.location?.line,
+      project: test.parent?.project?.()?.name || undefined,
       status: result.status,
       duration: result.duration,
       retry: result.retry,
@@ -107,24 +284,88 @@ export class UxQaReporter implements Reporter {
 
     this.testResults.push(testInfo);
 
-    // Count results - handle flaky tests (passed after retry)
-    if (result.status === 'passed') {
-      if (result.retry > 0) {
-        this.flaky++;
-      } else {
-        this.passed++;
-      }
-    } else if (result.status === 'failed' || result.status === 'timedOut' || result.status === 'interrupted') {
-      this.failed++;
-    } else if (result.status === 'skipped') {
-      this.skipped++;
+    const key = test.id || titlePath.join(' > ');
+
+    // Attachments from every attempt are kept, e.g. the trace of a failed first try
+    if (result.attachments?.length) {
+      this.attachments.set(key, [...(this.attachments.get(key) ?? []), ...result.attachments]);
+    }
+
+    // Retries report the same test again; keep only the latest attempt
+    this.testCases.set(key, {
+      title: testInfo.title,
+      titlePath,
+      file: testInfo.file,
+      line: testInfo.line,
+      project: testInfo.project,
+      status: testInfo.status,
+      retries: testInfo.retry,
+      durationMs: testInfo.duration,
+      errors: testInfo.errors,
+    });
+
+    // A test expected to fail that passed fails the Playwright run without counting as failed here
+    if (result.status === 'passed' && test.expectedStatus === 'failed') {
+      this.unexpectedPasses.add(key);
+    } else {
+      this.unexpectedPasses.delete(key);
     }
 
     this.log(`Test "${test.title}" ${result.status} (${result.duration}ms)`);
+
+    // Only the last attempt of a test is streamed; a failure with retries left may still turn out flaky
+    const final = result.status === 'skipped' || result.status === test.expectedStatus || result.retry >= (test.retries ?? 0);
+    if (this.options.live && final) {
+      this.pendingKeys.push(key);
+      this.flush();
+    }
+  }
+
+  /** Errors outside of tests, e.g. in global setup, `beforeAll`/`afterAll` hooks or a crashed worker. */
+  onError(error: TestError): void {
+    this.errors.push(error);
+    this.log(`Error outside of a test: ${error.message || error.value || 'unknown error'}`);
   }
 
-  async onEnd(result: FullResult): Promise<void> {
+  private countResults(): void {
+    this.passed = 0;
+    this.failed = 0;
+    this.skipped = 0;
+    this.flaky = 0;
+    this.quarantined = 0;
+
+    // Count final outcomes - a test that passed after a retry is flaky
+    for (const testCase of this.testCases.values()) {
+      if (testCase.quarantined) {
+        this.quarantined++;
+      } else if (testCase.status === 'passed') {
+        if (testCase.retries > 0) {
+          this.flaky++;
+        } else {
+          this.passed++;
+        }
+      } else if (testCase.status === 'skipped') {
+        this.skipped++;
+      } else {
+        this.failed++;
+      }
+    }
+  }
+
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | void> {
     const duration = Date.now() - this.startTime;
+    const quarantine = await this.quarantineList;
+    const liveRunId = await this.liveRun;
+    await this.streaming;
+    const quarantinedFailures: Array<{ testCase: TestCasePayload; entry: QuarantineEntry }> = [];
+    for (const testCase of this.testCases.values()) {
+      const entry = this.quarantineEntry(testCase, quarantine);
+      if (entry) {
+        testCase.quarantined = true;
+        quarantinedFailures.push({ testCase, entry });
+      }
+    }
+    this.countResults();
     const gitInfo = this.getGitInfo();
 
     // Determine overall status
@@ -140,27 +381,127 @@ export class UxQaReporter implements Reporter {
     }
 
     const payload: RunPayload = {
+      schemaVersion: INGEST_SCHEMA_VERSION,
       appId: this.options.appId,
       suite: this.options.suite,
       environment: this.options.environment,
       status,
-      total: this.testResults.length,
+      total: this.testCases.size,
       passed: this.passed,
       failed: this.failed,
       skipped: this.skipped,
       flaky: this.flaky,
+      quarantined: this.quarantined,
       durationMs: duration,
       commit: gitInfo.commit,
       branch: gitInfo.branch,
       tags: this.options.tags,
       timestamp: new Date().toISOString(),
+      // A live run already holds the results streamed into it
+      tests: Array.from(this.testCases.entries())
+        .filter(([key]) => !liveRunId || !this.streamed.has(key))
+        .map(([, testCase]) => testCase),
     };
 
-    await this.publishResults(payload);
+    if (quarantinedFailures.length > 0) {
+      console.log(`[ux.qa] ${quarantinedFailures.length} quarantined test(s) failed and were reported separately:`);
+      for (const { testCase, entry } of quarantinedFailures) {
+        console.log(`[ux.qa]   - ${testCase.titlePath.join(' > ')} (owner: ${entry.owner}, ${entry.reason})`);
+      }
+    }
+
+    const runId = await this.publishResults(payload, liveRunId);
+    if (runId && this.options.uploadAttachments && this.attachments.size > 0) {
+      await this.uploadAttachments(runId);
+    }
+
+    // Quarantined failures alone must not fail the Playwright run, but any other failure still does
+    const onlyQuarantined =
+      quarantinedFailures.length > 0 &&
+      this.failed === 0 &&
+      this.errors.length === 0 &&
+      this.unexpectedPasses.size === 0;
+    if (result.status === 'failed' && onlyQuarantined) {
+      return { status: 'passed' };
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.options.apiKey ? { 'x-uxqa-key': this.options.apiKey } : {};
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
-  private async publishResults(payload: RunPayload): Promise<void> {
-    const url = `${this.options.hubUrl}/api/runs`;
+  /**
+   * Uploads collected attachments to /api/runs/{runId}/artifacts, linking each one to
+   * the hub's id for its test. Failures are logged and never fail the run.
+   */
+  private async uploadAttachments(runId: string): Promise<void> {
+    const runUrl = `${this.options.hubUrl}/api/runs/${encodeURIComponent(runId)}`;
+    let uploaded = 0;
+
+    try {
+      const response = await this.request(`${runUrl}/tests`, { headers: this.authHeaders() });
+      const hubTests: Array<{ id: string; project?: string; titlePath: string[] }> = response.ok
+        ? (await response.json()).tests ?? []
+        : [];
+      const hubIds = new Map(hubTests.map((test) => [testKey(test), test.id]));
+
+      for (const [key, attachments] of this.attachments) {
+        const testCase = this.testCases.get(key);
+        const testId = testCase ? hubIds.get(testKey(testCase)) : undefined;
+
+        for (const attachment of attachments) {
+          const data = attachment.body ?? (attachment.path ? await readFile(attachment.path).catch(() => null) : null);
+          if (!data) {
+            this.log(`Skipping attachment "${attachment.name}": no readable content`);
+            continue;
+          }
+
+          const form = new FormData();
+          const fileName = attachment.path ? basename(attachment.path) : attachment.name;
+          form.append('file', new Blob([new Uint8Array(data)], { type: attachment.contentType }), fileName);
+          form.append('name', attachment.name);
+          form.append('contentType', attachment.contentType);
+          if (ARTIFACT_TYPES.includes(attachment.name)) {
+            form.append('type', attachment.name);
+          }
+          if (testId) {
+            form.append('testId', testId);
+          }
+
+          const upload = await this.request(`${runUrl}/artifacts`, {
+            method: 'POST',
+            headers: this.authHeaders(),
+            body: form,
+          });
+          if (upload.ok) {
+            uploaded++;
+          } else {
+            console.error(`[ux.qa] Failed to upload attachment "${attachment.name}": ${upload.status} ${await upload.text()}`);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[ux.qa] Failed to upload attachments:`, error);
+    }
+
+    this.log(`Uploaded ${uploaded} attachment(s)`);
+  }
+
+  /** Creates the run, or closes the live run `liveRunId` with the final results. */
+  private async publishResults(payload: RunPayload, liveRunId?: string): Promise<string | undefined> {
+    const url = liveRunId
+      ? `${this.options.hubUrl}/api/runs/${encodeURIComponent(liveRunId)}`
+      : `${this.options.hubUrl}/api/runs`;
 
     this.log(`Publishing results to ${url}`);
     this.log(`Payload: ${JSON.stringify(payload, null, 2)}`);
@@ -168,28 +509,19 @@ export class UxQaReporter implements Reporter {
     try {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
+        ...this.authHeaders(),
       };
 
-      if (this.options.apiKey) {
-        headers['x-uxqa-key'] = this.options.apiKey;
-      }
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
-
-      const response = await fetch(url, {
-        method: 'POST',
+      const response = await this.request(url, {
+        method: liveRunId ? 'PATCH' : 'POST',
         headers,
         body: JSON.stringify(payload),
-        signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`[ux.qa] Failed to publish results: ${response.status} ${errorText}`);
-        return;
+        return undefined;
       }
 
       const data = await response.json();
@@ -198,12 +530,14 @@ export class UxQaReporter implements Reporter {
       if (this.options.verbose && data.id) {
         console.log(`[ux.qa] Run ID: ${data.id}`);
       }
+      return data.id;
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         console.error(`[ux.qa] Request timed out after ${this.options.timeout}ms`);
       } else {
         console.error(`[ux.qa] Failed to publish results:`, error);
       }
+      return undefined;
     }
   }
 }
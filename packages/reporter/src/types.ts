@@ -18,21 +18,42 @@ export interface UxQaReporterOptions {
   tags?: string[];
   /** Timeout for API requests in ms (default: 10000) */
   timeout?: number;
+  /** Upload test attachments (screenshots, videos, traces) to the hub after publishing (default: true) */
+  uploadAttachments?: boolean;
+  /** Fetch the hub's quarantine list at start; quarantined failures do not fail the run (default: true) */
+  quarantine?: boolean;
+  /**
+   * Open the run on the hub at start and stream test results as they finish, so it shows as running while the
+   * suite is still going (default: false). Falls back to publishing at the end when the hub cannot open the run.
+   */
+  live?: boolean;
 }
 
+/**
+ * Version of the run ingestion contract spoken by this reporter.
+ * Mirrors `INGEST_SCHEMA_VERSION` in the hub's `lib/types.ts`.
+ */
+export const INGEST_SCHEMA_VERSION = 1;
+
 /**
  * Payload sent to UX.QA API
+ *
+ * `flaky` runs are stored by the hub as `unstable`. A `running` payload opens a live run, which is closed with the
+ * final payload through `PATCH /api/runs/{id}`.
  */
 export interface RunPayload {
+  schemaVersion: typeof INGEST_SCHEMA_VERSION;
   appId: string;
   suite: string;
   environment: string;
-  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  status: 'passed' | 'failed' | 'flaky' | 'skipped' | 'running';
   total: number;
   passed: number;
   failed: number;
   skipped: number;
   flaky: number;
+  /** Failed tests that are on the hub's quarantine list */
+  quarantined: number;
   durationMs: number;
   coverage?: number;
   commit?: string;
@@ -40,6 +61,27 @@ export interface RunPayload {
   artifactUrl?: string;
   tags?: string[];
   timestamp: string;
+  /** Tests Playwright planned to run, sent when a live run is opened */
+  planned?: number;
+  /** Per-test outcomes, one entry per test (last attempt wins) */
+  tests?: TestCasePayload[];
+}
+
+/**
+ * Individual test case result sent with the run
+ */
+export interface TestCasePayload {
+  title: string;
+  titlePath: string[];
+  file?: string;
+  line?: number;
+  project?: string;
+  status: TestResultInfo['status'];
+  retries: number;
+  durationMs: number;
+  errors: string[];
+  /** Set when the test failed but is quarantined on the hub */
+  quarantined?: boolean;
 }
 
 /**
@@ -47,8 +89,36 @@ export interface RunPayload {
  */
 export interface TestResultInfo {
   title: string;
+  titlePath?: string[];
+  file?: string;
+  line?: number;
+  project?: string;
   status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
   duration: number;
   retry: number;
   errors: string[];
 }
+
+/**
+ * Attachment recorded by Playwright for a test attempt
+ */
+export interface AttachmentInfo {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: Buffer;
+}
+
+/**
+ * Quarantine entry returned by the hub's /api/quarantine
+ */
+export interface QuarantineEntry {
+  id: string;
+  appId: string;
+  suite?: string;
+  project?: string;
+  titlePath: string[];
+  owner: string;
+  reason: string;
+  expiresAt?: string;
+}
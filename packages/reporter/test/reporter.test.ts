@@ -2,6 +2,10 @@ import { describe, test, expect, mock, spyOn } from 'bun:test';
 import { UxQaReporter } from '../src/reporter';
 import type { UxQaReporterOptions, RunPayload, TestResultInfo } from '../src/types';
 
+// onBegin also fetches the quarantine list, so look up the run publish explicitly
+const publishCall = (fetchSpy: { mock: { calls: any[][] } }) =>
+  fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/api/runs'))!;
+
 describe('UxQaReporter', () => {
   describe('constructor', () => {
     test('requires appId', () => {
@@ -97,9 +101,9 @@ describe('UxQaReporter', () => {
 
   describe('onEnd', () => {
     test('publishes results on end', async () => {
-      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
         new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
-      );
+      ) as any);
 
       const reporter = new UxQaReporter({
         appId: 'test-app',
@@ -114,10 +118,11 @@ describe('UxQaReporter', () => {
 
       await reporter.onEnd({ status: 'passed' } as any);
 
-      expect(fetchSpy).toHaveBeenCalledTimes(1);
-      expect(fetchSpy.mock.calls[0][0]).toBe('https://test.ux.qa/api/runs');
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(fetchSpy.mock.calls[0][0]).toBe('https://test.ux.qa/api/quarantine?appId=test-app&active=true');
+      expect(fetchSpy.mock.calls[1][0]).toBe('https://test.ux.qa/api/runs');
 
-      const callArgs = fetchSpy.mock.calls[0][1];
+      const callArgs = publishCall(fetchSpy)[1];
       expect(callArgs.method).toBe('POST');
       expect(callArgs.headers['Content-Type']).toBe('application/json');
 
@@ -130,11 +135,55 @@ describe('UxQaReporter', () => {
       fetchSpy.mockRestore();
     });
 
-    test('includes API key in header when provided', async () => {
-      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+    test('includes per-test results, keeping the last retry', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
         new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
+      ) as any);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      const test = {
+        id: 'abc',
+        title: 'logs in',
+        titlePath: () => ['', 'chromium', 'auth.spec.ts', 'logs in'],
+        location: { file: `${process.cwd()}/tests/auth.spec.ts`, line: 7, column: 3 },
+        parent: { project: () => ({ name: 'chromium' }) },
+      };
+
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(
+        test as any,
+        { status: 'failed', duration: 100, retry: 0, errors: [{ message: 'boom' }] } as any
+      );
+      reporter.onTestEnd(
+        test as any,
+        { status: 'passed', duration: 80, retry: 1, errors: [] } as any
       );
 
+      await reporter.onEnd({ status: 'passed' } as any);
+
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
+      expect(body.tests).toEqual([
+        {
+          title: 'logs in',
+          titlePath: ['chromium', 'auth.spec.ts', 'logs in'],
+          file: 'tests/auth.spec.ts',
+          line: 7,
+          project: 'chromium',
+          status: 'passed',
+          retries: 1,
+          durationMs: 80,
+          errors: [],
+        },
+      ]);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('includes API key in header when provided', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+        new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
+      ) as any);
+
       const reporter = new UxQaReporter({
         appId: 'test-app',
         apiKey: 'my-api-key',
@@ -143,16 +192,16 @@ describe('UxQaReporter', () => {
       reporter.onBegin({} as any, {} as any);
       await reporter.onEnd({ status: 'passed' } as any);
 
-      const callArgs = fetchSpy.mock.calls[0][1];
+      const callArgs = publishCall(fetchSpy)[1];
       expect(callArgs.headers['x-uxqa-key']).toBe('my-api-key');
 
       fetchSpy.mockRestore();
     });
 
     test('handles failed status', async () => {
-      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
         new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
-      );
+      ) as any);
 
       const reporter = new UxQaReporter({ appId: 'test-app' });
 
@@ -164,7 +213,7 @@ describe('UxQaReporter', () => {
 
       await reporter.onEnd({ status: 'failed' } as any);
 
-      const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
       expect(body.status).toBe('failed');
       expect(body.failed).toBe(1);
 
@@ -172,9 +221,9 @@ describe('UxQaReporter', () => {
     });
 
     test('handles flaky status', async () => {
-      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
         new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
-      );
+      ) as any);
 
       const reporter = new UxQaReporter({ appId: 'test-app' });
 
@@ -186,13 +235,42 @@ describe('UxQaReporter', () => {
 
       await reporter.onEnd({ status: 'passed' } as any);
 
-      const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
       expect(body.status).toBe('flaky');
       expect(body.flaky).toBe(1);
 
       fetchSpy.mockRestore();
     });
 
+    test('counts a test that failed then passed on retry once, as flaky', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+        new Response(JSON.stringify({ id: 'run_123' }), { status: 200 })
+      ) as any);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(
+        { id: 'retried', title: 'retried test' } as any,
+        { status: 'failed', duration: 100, retry: 0, errors: [{ message: 'Error' }] } as any
+      );
+      reporter.onTestEnd(
+        { id: 'retried', title: 'retried test' } as any,
+        { status: 'passed', duration: 90, retry: 1, errors: [] } as any
+      );
+
+      await reporter.onEnd({ status: 'passed' } as any);
+
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
+      expect(body.schemaVersion).toBe(1);
+      expect(body.status).toBe('flaky');
+      expect(body.total).toBe(1);
+      expect(body.failed).toBe(0);
+      expect(body.flaky).toBe(1);
+
+      fetchSpy.mockRestore();
+    });
+
     test('handles API errors gracefully', async () => {
       const consoleSpy = spyOn(console, 'error').mockImplementation(() => {});
       const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
@@ -228,6 +306,333 @@ describe('UxQaReporter', () => {
     });
   });
 
+  describe('attachment upload', () => {
+    const loginTest = {
+      id: 'abc',
+      title: 'logs in',
+      titlePath: () => ['', 'chromium', 'auth.spec.ts', 'logs in'],
+      parent: { project: () => ({ name: 'chromium' }) },
+    };
+    const screenshot = { name: 'screenshot', contentType: 'image/png', body: Buffer.from('png-bytes') };
+
+    const hubFetch = () =>
+      spyOn(globalThis, 'fetch').mockImplementation((async (url: string) => {
+        if (url.endsWith('/api/runs')) {
+          return new Response(JSON.stringify({ id: 'run_123' }), { status: 201 });
+        }
+        if (url.includes('/api/quarantine')) {
+          return new Response(JSON.stringify({ entries: [] }), { status: 200 });
+        }
+        if (url.endsWith('/tests')) {
+          return new Response(
+            JSON.stringify({ tests: [{ id: 'hub-test-1', project: 'chromium', titlePath: ['chromium', 'auth.spec.ts', 'logs in'] }] }),
+            { status: 200 }
+          );
+        }
+        return new Response(JSON.stringify({ id: 'artifact-1' }), { status: 201 });
+      }) as any);
+
+    test('uploads attachments of every attempt, linked to the hub test id', async () => {
+      const fetchSpy = hubFetch();
+
+      const reporter = new UxQaReporter({ appId: 'test-app', hubUrl: 'https://test.ux.qa', apiKey: 'secret' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(
+        loginTest as any,
+        { status: 'failed', duration: 100, retry: 0, errors: [], attachments: [screenshot] } as any
+      );
+      reporter.onTestEnd(
+        loginTest as any,
+        { status: 'failed', duration: 90, retry: 1, errors: [], attachments: [{ ...screenshot, name: 'trace', contentType: 'application/zip' }] } as any
+      );
+
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      const uploads = fetchSpy.mock.calls.filter(([url]) => String(url).endsWith('/artifacts'));
+      expect(uploads).toHaveLength(2);
+      expect(uploads[0][0]).toBe('https://test.ux.qa/api/runs/run_123/artifacts');
+
+      const init = uploads[0][1] as RequestInit;
+      expect((init.headers as Record<string, string>)['x-uxqa-key']).toBe('secret');
+      const form = init.body as FormData;
+      expect(form.get('testId')).toBe('hub-test-1');
+      expect(form.get('type')).toBe('screenshot');
+      expect(form.get('contentType')).toBe('image/png');
+      expect(form.get('file')).toBeInstanceOf(Blob);
+      expect((uploads[1][1] as RequestInit & { body: FormData }).body.get('type')).toBe('trace');
+
+      fetchSpy.mockRestore();
+    });
+
+    test('skips uploads when disabled', async () => {
+      const fetchSpy = hubFetch();
+
+      const reporter = new UxQaReporter({ appId: 'test-app', uploadAttachments: false });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(
+        loginTest as any,
+        { status: 'failed', duration: 100, retry: 0, errors: [], attachments: [screenshot] } as any
+      );
+
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      // Quarantine lookup and run publish only
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('skips attachments whose file is missing', async () => {
+      const fetchSpy = hubFetch();
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(
+        loginTest as any,
+        { status: 'failed', duration: 100, retry: 0, errors: [], attachments: [{ name: 'video', contentType: 'video/webm', path: '/nonexistent/video.webm' }] } as any
+      );
+
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(fetchSpy.mock.calls.some(([url]) => String(url).endsWith('/artifacts'))).toBe(false);
+
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('quarantine', () => {
+    const checkout = {
+      title: 'pays by card',
+      titlePath: () => ['', 'chromium', 'checkout.spec.ts', 'pays by card'],
+      parent: { project: () => ({ name: 'chromium' }) },
+    };
+    const entry = {
+      id: 'q1',
+      appId: 'test-app',
+      titlePath: ['chromium', 'checkout.spec.ts', 'pays by card'],
+      owner: 'payments',
+      reason: 'Stripe sandbox times out',
+    };
+
+    const quarantineFetch = (entries: unknown[]) =>
+      spyOn(globalThis, 'fetch').mockImplementation((async (url: string) => {
+        if (url.includes('/api/quarantine')) {
+          return new Response(JSON.stringify({ entries }), { status: 200 });
+        }
+        return new Response(JSON.stringify({ id: 'run_123' }), { status: 201 });
+      }) as any);
+
+    test('reports quarantined failures separately and passes the run', async () => {
+      const consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
+      const fetchSpy = quarantineFetch([entry]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app', hubUrl: 'https://test.ux.qa' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+      reporter.onTestEnd({ title: 'logs in' } as any, { status: 'passed', duration: 50, retry: 0, errors: [] } as any);
+
+      const outcome = await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(outcome).toEqual({ status: 'passed' });
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
+      expect(body.status).toBe('passed');
+      expect(body.failed).toBe(0);
+      expect(body.quarantined).toBe(1);
+      expect(body.total).toBe(2);
+      expect(body.tests.find((t: any) => t.title === 'pays by card').quarantined).toBe(true);
+      expect(body.tests.find((t: any) => t.title === 'logs in').quarantined).toBeUndefined();
+      expect(consoleSpy.mock.calls.some(([line]) => String(line).includes('owner: payments'))).toBe(true);
+
+      fetchSpy.mockRestore();
+      consoleSpy.mockRestore();
+    });
+
+    test('still fails on failures that are not quarantined', async () => {
+      const consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
+      const fetchSpy = quarantineFetch([entry]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+      reporter.onTestEnd({ title: 'logs in' } as any, { status: 'failed', duration: 50, retry: 0, errors: [] } as any);
+
+      const outcome = await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(outcome).toBeUndefined();
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
+      expect(body.status).toBe('failed');
+      expect(body.failed).toBe(1);
+      expect(body.quarantined).toBe(1);
+
+      fetchSpy.mockRestore();
+      consoleSpy.mockRestore();
+    });
+
+    test('still fails when errors outside of tests were reported', async () => {
+      const fetchSpy = quarantineFetch([entry]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+      reporter.onError({ message: 'Error in global setup' });
+
+      const outcome = await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(outcome).toBeUndefined();
+      expect(JSON.parse(publishCall(fetchSpy)[1].body).quarantined).toBe(1);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('still fails when a test expected to fail passed', async () => {
+      const fetchSpy = quarantineFetch([entry]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+      reporter.onTestEnd(
+        { title: 'rejects expired cards', expectedStatus: 'failed' } as any,
+        { status: 'passed', duration: 50, retry: 0, errors: [] } as any
+      );
+
+      const outcome = await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(outcome).toBeUndefined();
+
+      fetchSpy.mockRestore();
+    });
+
+    test('ignores expired entries and entries for other projects or suites', async () => {
+      const fetchSpy = quarantineFetch([
+        { ...entry, expiresAt: '2000-01-01T00:00:00.000Z' },
+        { ...entry, id: 'q2', project: 'firefox' },
+        { ...entry, id: 'q3', suite: 'nightly' },
+      ]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app' });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      const body = JSON.parse(publishCall(fetchSpy)[1].body);
+      expect(body.failed).toBe(1);
+      expect(body.quarantined).toBe(0);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('does not fetch the list when disabled', async () => {
+      const fetchSpy = quarantineFetch([entry]);
+
+      const reporter = new UxQaReporter({ appId: 'test-app', quarantine: false });
+      reporter.onBegin({} as any, {} as any);
+      reporter.onTestEnd(checkout as any, { status: 'failed', duration: 100, retry: 0, errors: [] } as any);
+
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      expect(fetchSpy.mock.calls.some(([url]) => String(url).includes('/api/quarantine'))).toBe(false);
+      expect(JSON.parse(publishCall(fetchSpy)[1].body).failed).toBe(1);
+
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('live runs', () => {
+    const suite = { allTests: () => [{}, {}, {}] };
+
+    const liveFetch = (refuseOpen = false) =>
+      spyOn(globalThis, 'fetch').mockImplementation((async (url: string, init?: RequestInit) => {
+        if (url.includes('/api/quarantine')) {
+          return new Response(JSON.stringify({ entries: [] }), { status: 200 });
+        }
+        if (url.endsWith('/api/runs') && init?.method === 'POST') {
+          const running = JSON.parse(String(init.body)).status === 'running';
+          return refuseOpen && running
+            ? new Response('live runs are not supported', { status: 400 })
+            : new Response(JSON.stringify({ id: 'run_live' }), { status: 201 });
+        }
+        return new Response(JSON.stringify({ id: 'run_live' }), { status: 200 });
+      }) as any);
+
+    const calls = (fetchSpy: { mock: { calls: any[][] } }, method: string, suffix: string) =>
+      fetchSpy.mock.calls.filter(([url, init]) => init?.method === method && String(url).endsWith(suffix));
+
+    test('opens a running run, streams final attempts and closes it with the rest', async () => {
+      const fetchSpy = liveFetch();
+
+      const reporter = new UxQaReporter({ appId: 'test-app', live: true });
+      reporter.onBegin({} as any, suite as any);
+      reporter.onTestEnd({ id: 'a', title: 'logs in' } as any, { status: 'passed', duration: 50, retry: 0, errors: [] } as any);
+      // A failed first attempt with a retry left is held back until the retry finishes
+      const flaky = { id: 'b', title: 'checks out', retries: 1, expectedStatus: 'passed' };
+      reporter.onTestEnd(flaky as any, { status: 'failed', duration: 80, retry: 0, errors: [] } as any);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      reporter.onTestEnd(flaky as any, { status: 'passed', duration: 70, retry: 1, errors: [] } as any);
+      reporter.onTestEnd({ id: 'c', title: 'searches' } as any, { status: 'skipped', duration: 0, retry: 0, errors: [] } as any);
+
+      await reporter.onEnd({ status: 'passed' } as any);
+
+      const opened = JSON.parse(calls(fetchSpy, 'POST', '/api/runs')[0][1].body);
+      expect(opened).toMatchObject({ status: 'running', planned: 3, total: 0 });
+      const streamed = calls(fetchSpy, 'POST', '/api/runs/run_live/tests').flatMap(([, init]) => JSON.parse(init.body));
+      expect(streamed.map((t: any) => [t.title, t.status])).toEqual([
+        ['logs in', 'passed'],
+        ['checks out', 'passed'],
+        ['searches', 'skipped'],
+      ]);
+      const closing = calls(fetchSpy, 'PATCH', '/api/runs/run_live');
+      expect(closing.length).toBe(1);
+      const body = JSON.parse(closing[0][1].body);
+      expect(body).toMatchObject({ status: 'flaky', total: 3, passed: 1, flaky: 1, skipped: 1 });
+      expect(body.tests).toEqual([]);
+      expect(calls(fetchSpy, 'POST', '/api/runs').length).toBe(1);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('sends results that could not be streamed with the final payload', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (url: string, init?: RequestInit) => {
+        if (url.includes('/api/quarantine')) {
+          return new Response(JSON.stringify({ entries: [] }), { status: 200 });
+        }
+        if (url.endsWith('/tests')) {
+          return new Response('unavailable', { status: 503 });
+        }
+        return new Response(JSON.stringify({ id: 'run_live' }), { status: init?.method === 'POST' ? 201 : 200 });
+      }) as any);
+
+      const reporter = new UxQaReporter({ appId: 'test-app', live: true });
+      reporter.onBegin({} as any, suite as any);
+      reporter.onTestEnd({ id: 'a', title: 'logs in' } as any, { status: 'failed', duration: 50, retry: 0, errors: [] } as any);
+      await reporter.onEnd({ status: 'failed' } as any);
+
+      const body = JSON.parse(calls(fetchSpy, 'PATCH', '/api/runs/run_live')[0][1].body);
+      expect(body.tests.map((t: any) => t.title)).toEqual(['logs in']);
+
+      fetchSpy.mockRestore();
+    });
+
+    test('falls back to publishing at the end when the hub refuses the live run', async () => {
+      const fetchSpy = liveFetch(true);
+
+      const reporter = new UxQaReporter({ appId: 'test-app', live: true });
+      reporter.onBegin({} as any, suite as any);
+      reporter.onTestEnd({ id: 'a', title: 'logs in' } as any, { status: 'passed', duration: 50, retry: 0, errors: [] } as any);
+      await reporter.onEnd({ status: 'passed' } as any);
+
+      const posts = calls(fetchSpy, 'POST', '/api/runs');
+      expect(posts.length).toBe(2);
+      const body = JSON.parse(posts[1][1].body);
+      expect(body.status).toBe('passed');
+      expect(body.tests.map((t: any) => t.title)).toEqual(['logs in']);
+      expect(calls(fetchSpy, 'PATCH', '/api/runs/run_live').length).toBe(0);
+      expect(fetchSpy.mock.calls.some(([url]) => String(url).endsWith('/tests'))).toBe(false);
+
+      fetchSpy.mockRestore();
+    });
+  });
+
   describe('verbose logging', () => {
     test('logs when verbose is enabled', () => {
       const consoleSpy = spyOn(console, 'log').mockImplementation(() => {});
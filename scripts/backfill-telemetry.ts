@@ -0,0 +1,68 @@
+// Replays stored runs through a telemetry sink and prints progress until it completes, fails or times out:
+//   bun scripts/backfill-telemetry.ts <sink> [--app <appId>] [--from <date>] [--to <date>] [--key <idempotency key>]
+//     [--timeout <minutes, default 60>]
+// Talks to the hub at UXQA_HUB_URL (default http://localhost:3000) with UXQA_API_KEY, which needs the admin scope
+// and a role UXQA_RBAC lets edit (the bootstrap key's UXQA_API_KEY_ROLE, or a managed key's own role).
+const [sink, ...rest] = process.argv.slice(2);
+const options = new Map<string, string>();
+for (let index = 0; index < rest.length; index += 2) {
+  options.set(rest[index].replace(/^--/, ''), rest[index + 1]);
+}
+if (!sink || sink.startsWith('--')) {
+  console.error(
+    'Usage: bun scripts/backfill-telemetry.ts <sink> [--app <appId>] [--from <date>] [--to <date>] [--key <key>] [--timeout <minutes>]'
+  );
+  process.exit(1);
+}
+const timeoutMinutes = Number(options.get('timeout') ?? 60);
+if (!(timeoutMinutes > 0)) {
+  console.error('--timeout must be a positive number of minutes');
+  process.exit(1);
+}
+
+const hub = (process.env.UXQA_HUB_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+const headers: Record<string, string> = { 'content-type': 'application/json' };
+if (process.env.UXQA_API_KEY) {
+  headers['x-uxqa-key'] = process.env.UXQA_API_KEY;
+}
+if (options.has('key')) {
+  headers['idempotency-key'] = options.get('key')!;
+}
+
+const response = await fetch(`${hub}/api/telemetry/backfill`, {
+  method: 'POST',
+  headers,
+  body: JSON.stringify({ sink, appId: options.get('app'), from: options.get('from'), to: options.get('to') }),
+});
+let backfill = await response.json();
+if (!response.ok) {
+  console.error(`Backfill rejected (${response.status}):`, JSON.stringify(backfill.errors ?? backfill.error));
+  process.exit(1);
+}
+console.log(`Backfill ${backfill.id} into ${backfill.sink}, runs up to ${backfill.to}`);
+
+const deadline = Date.now() + timeoutMinutes * 60_000;
+while (backfill.status !== 'completed' && backfill.status !== 'failed') {
+  if (Date.now() > deadline) {
+    console.error(`Backfill ${backfill.id} still ${backfill.status} after ${timeoutMinutes} minutes; it keeps running on the hub`);
+    process.exit(1);
+  }
+  await new Promise((resolve) => setTimeout(resolve, 2000));
+  const progress = await fetch(`${hub}/api/telemetry/backfill/${backfill.id}`, { headers });
+  if (!progress.ok) {
+    console.error(`Reading backfill ${backfill.id} failed (${progress.status}):`, await progress.text());
+    process.exit(1);
+  }
+  backfill = await progress.json();
+  console.log(
+    `${backfill.status}: ${backfill.runs} runs found, ${backfill.queued} queued, ${backfill.skipped} skipped, ` +
+      `${backfill.delivered} delivered, ${backfill.failedRunIds.length} failed`
+  );
+}
+if (backfill.status === 'failed') {
+  console.error(`Backfill ${backfill.id} failed: ${backfill.error}`);
+}
+process.exit(backfill.status === 'failed' || backfill.failedRunIds.length ? 1 : 0);
+
+// Top-level await needs the file to be a module
+export {};
@@ -0,0 +1,21 @@
+import { startMockSmtpServer, startMockWebhookServer } from '../test/mock-channels';
+
+// Local webhook and SMTP stand-ins for trying alert channels: bun scripts/mock-channels.ts
+const webhooks = await startMockWebhookServer({ port: Number(process.env.MOCK_WEBHOOK_PORT ?? '4020') });
+const smtp = await startMockSmtpServer({ port: Number(process.env.MOCK_SMTP_PORT ?? '4025') });
+
+console.log(`Mock webhooks on ${webhooks.url} (use ${webhooks.url}/status/500 to simulate failures)
+Mock SMTP on ${smtp.url}; start the hub with:
+  UXQA_SMTP_URL=${smtp.url} bun run dev`);
+
+const logged = { requests: 0, messages: 0 };
+setInterval(() => {
+  for (const request of webhooks.requests.slice(logged.requests)) {
+    console.log(`POST ${request.path}\n${request.body}\n`);
+  }
+  for (const message of smtp.messages.slice(logged.messages)) {
+    console.log(`MAIL ${message.from} -> ${message.to.join(', ')}\n${message.data}\n`);
+  }
+  logged.requests = webhooks.requests.length;
+  logged.messages = smtp.messages.length;
+}, 500);
@@ -0,0 +1,8 @@
+import { DEFAULT_USERS, startMockIdp } from '../test/mock-idp';
+
+// Local identity provider for trying the dashboard login: bun scripts/mock-idp.ts
+const idp = await startMockIdp({ port: Number(process.env.MOCK_IDP_PORT ?? '4010') });
+
+console.log(`Mock IdP listening on ${idp.issuer}; start the hub with:
+  UXQA_OIDC_ISSUER=${idp.issuer} UXQA_OIDC_CLIENT_ID=${idp.clientId} UXQA_OIDC_CLIENT_SECRET=${idp.clientSecret} bun run dev
+Users: ${DEFAULT_USERS.map((user) => `${user.sub} (${user.roles.join(', ')})`).join(', ')}`);
@@ -0,0 +1,15 @@
+import { startMockRedisServer } from '../test/mock-redis';
+
+// Local Redis stand-in for trying the cross-instance event bus: bun scripts/mock-redis.ts
+const redis = await startMockRedisServer({ port: Number(process.env.MOCK_REDIS_PORT ?? '4030') });
+
+console.log(`Mock Redis on ${redis.url}; start each hub instance with:
+  UXQA_EVENT_BUS=redis UXQA_EVENT_BUS_URL=${redis.url} bun run dev --port <port>`);
+
+let logged = 0;
+setInterval(() => {
+  for (const { channel, message } of redis.published.slice(logged)) {
+    console.log(`PUBLISH ${channel} ${message.slice(0, 200)}`);
+  }
+  logged = redis.published.length;
+}, 500);
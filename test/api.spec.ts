@@ -35,7 +35,32 @@ test.describe('API /api/runs', () => {
     expect(response.status()).toBe(200);
 
     const body = await response.json();
-    expect(Array.isArray(body)).toBe(true);
+    expect(Array.isArray(body.runs)).toBe(true);
+    expect(body).toHaveProperty('next');
+  });
+
+  test('GET /api/runs filters and paginates with a cursor', async ({ request }) => {
+    const appId = `paged-${Date.now()}`;
+    for (let i = 0; i < 3; i++) {
+      await request.post('/api/runs', { data: { ...testRunPayload, appId } });
+    }
+
+    const first = await (await request.get(`/api/runs?appId=${appId}&limit=2`)).json();
+    expect(first.runs).toHaveLength(2);
+    expect(first.next).toBeTruthy();
+
+    const second = await (await request.get(`/api/runs?appId=${appId}&limit=2&cursor=${first.next}`)).json();
+    expect(second.runs).toHaveLength(1);
+    expect(second.next).toBeNull();
+
+    const ids = [...first.runs, ...second.runs].map((run: { id: string }) => run.id);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  test('GET /api/runs rejects invalid query parameters', async ({ request }) => {
+    const response = await request.get('/api/runs?limit=0&order=sideways');
+
+    expect(response.status()).toBe(400);
   });
 
   test('POST /api/runs validates required fields', async ({ request }) => {
@@ -46,6 +71,54 @@ test.describe('API /api/runs', () => {
     expect(response.status()).toBe(400);
   });
 
+  test('POST /api/runs returns field-level validation errors', async ({ request }) => {
+    const response = await request.post('/api/runs', {
+      data: { ...testRunPayload, status: 'broken', total: 'ten' },
+    });
+
+    expect(response.status()).toBe(400);
+
+    const body = await response.json();
+    expect(body.errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: 'status' }),
+        expect.objectContaining({ field: 'total' }),
+      ])
+    );
+  });
+
+  test('POST /api/runs stores reporter flaky runs as unstable', async ({ request }) => {
+    const response = await request.post('/api/runs', {
+      data: {
+        ...testRunPayload,
+        schemaVersion: 1,
+        status: 'flaky',
+        passed: 9,
+        flaky: 1,
+        skipped: 0,
+        branch: 'main',
+        tags: ['nightly'],
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    expect(response.status()).toBe(201);
+
+    const body = await response.json();
+    expect(body.status).toBe('unstable');
+    expect(body.flaky).toBe(1);
+    expect(body.branch).toBe('main');
+    expect(body.tags).toEqual(['nightly']);
+  });
+
+  test('POST /api/runs rejects unknown schema versions', async ({ request }) => {
+    const response = await request.post('/api/runs', {
+      data: { ...testRunPayload, schemaVersion: 99 },
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
   test('POST /api/runs with failed status', async ({ request }) => {
     const failedRun = {
       ...testRunPayload,
@@ -66,6 +139,363 @@ test.describe('API /api/runs', () => {
   });
 });
 
+test.describe('API /api/runs/[runId]/tests', () => {
+  test('stores test cases sent with the run', async ({ request }) => {
+    const created = await request.post('/api/runs', {
+      data: {
+        ...testRunPayload,
+        tests: [
+          { title: 'loads dashboard', status: 'passed', durationMs: 120 },
+          { title: 'saves filter', status: 'failed', durationMs: 340, retries: 1, errors: ['boom'] },
+        ],
+      },
+    });
+    expect(created.status()).toBe(201);
+    const run = await created.json();
+    expect(run.tests).toBeUndefined();
+
+    const response = await request.get(`/api/runs/${run.id}/tests`);
+    expect(response.status()).toBe(200);
+
+    const body = await response.json();
+    expect(body.runId).toBe(run.id);
+    expect(body.tests).toHaveLength(2);
+    expect(body.tests[1].errors).toEqual(['boom']);
+  });
+
+  test('rejects malformed test cases', async ({ request }) => {
+    const response = await request.post('/api/runs', {
+      data: { ...testRunPayload, tests: [{ title: 'missing status' }] },
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('returns 404 for unknown runs', async ({ request }) => {
+    const response = await request.get('/api/runs/does-not-exist/tests');
+
+    expect(response.status()).toBe(404);
+  });
+});
+
+test.describe('API /api/runs/[runId]/artifacts', () => {
+  test('uploads, lists and serves an artifact', async ({ request }) => {
+    const run = await (
+      await request.post('/api/runs', {
+        data: { ...testRunPayload, tests: [{ title: 'checkout', status: 'failed', durationMs: 900 }] },
+      })
+    ).json();
+    const { tests } = await (await request.get(`/api/runs/${run.id}/tests`)).json();
+
+    const upload = await request.post(`/api/runs/${run.id}/artifacts`, {
+      multipart: {
+        file: { name: 'checkout-failed-1.png', mimeType: 'image/png', buffer: Buffer.from('fake-png') },
+        testId: tests[0].id,
+      },
+    });
+
+    expect(upload.status()).toBe(201);
+    const artifact = await upload.json();
+    expect(artifact.type).toBe('screenshot');
+    expect(artifact.size).toBe(8);
+    expect(artifact.testId).toBe(tests[0].id);
+    expect(artifact.checksum).toMatch(/^[0-9a-f]{64}$/);
+
+    const list = await (await request.get(`/api/runs/${run.id}/artifacts`)).json();
+    expect(list.artifacts.map((entry: { id: string }) => entry.id)).toContain(artifact.id);
+
+    const served = await request.get(artifact.url);
+    expect(served.status()).toBe(200);
+    expect(served.headers()['content-type']).toBe('image/png');
+    expect((await served.body()).toString()).toBe('fake-png');
+  });
+
+  test('serves byte ranges for video seeking', async ({ request }) => {
+    const run = await (await request.post('/api/runs', { data: testRunPayload })).json();
+    const artifact = await (
+      await request.post(`/api/runs/${run.id}/artifacts`, {
+        multipart: { file: { name: 'video.webm', mimeType: 'video/webm', buffer: Buffer.from('0123456789') } },
+      })
+    ).json();
+
+    const response = await request.get(artifact.url, { headers: { range: 'bytes=2-4' } });
+
+    expect(response.status()).toBe(206);
+    expect(response.headers()['content-range']).toBe('bytes 2-4/10');
+    expect((await response.body()).toString()).toBe('234');
+  });
+
+  test('rejects unknown test ids', async ({ request }) => {
+    const run = await (await request.post('/api/runs', { data: testRunPayload })).json();
+
+    const response = await request.post(`/api/runs/${run.id}/artifacts`, {
+      multipart: {
+        file: { name: 'trace.zip', mimeType: 'application/zip', buffer: Buffer.from('zip') },
+        testId: 'missing',
+      },
+    });
+
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errors[0].field).toBe('testId');
+  });
+
+  test('returns 404 for unknown artifacts', async ({ request }) => {
+    const run = await (await request.post('/api/runs', { data: testRunPayload })).json();
+
+    const response = await request.get(`/api/runs/${run.id}/artifacts/missing`);
+
+    expect(response.status()).toBe(404);
+  });
+});
+
+test.describe('API /api/flaky', () => {
+  test('ranks tests that fail and pass on the same commit', async ({ request }) => {
+    const appId = `flaky-${Date.now()}`;
+    const run = (status: 'passed' | 'failed') => ({
+      ...testRunPayload,
+      appId,
+      commit: 'f1a2b3c',
+      status,
+      total: 1,
+      passed: status === 'passed' ? 1 : 0,
+      failed: status === 'failed' ? 1 : 0,
+      tests: [{ title: 'adds to cart', status, durationMs: 500 }],
+    });
+    await request.post('/api/runs', { data: run('passed') });
+    await request.post('/api/runs', { data: run('failed') });
+
+    const response = await request.get(`/api/flaky?appId=${appId}`);
+
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.analyzedRuns).toBe(2);
+    expect(body.tests[0]).toMatchObject({ title: 'adds to cart', runs: 2, flakyRuns: 1, conflicts: 1, score: 50 });
+  });
+
+  test('rejects invalid parameters', async ({ request }) => {
+    const response = await request.get('/api/flaky?window=0');
+
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('API /api/apps/{appId}/compare', () => {
+  test('diffs two runs test by test', async ({ request }) => {
+    const appId = `compare-${Date.now()}`;
+    const run = (tests: { title: string; status: string; durationMs: number }[], coverage: number) =>
+      request.post('/api/runs', { data: { ...testRunPayload, appId, coverage, tests } });
+    const base = await (
+      await run(
+        [
+          { title: 'logs in', status: 'passed', durationMs: 1000 },
+          { title: 'checks out', status: 'failed', durationMs: 800 },
+        ],
+        80
+      )
+    ).json();
+    const head = await (
+      await run(
+        [
+          { title: 'logs in', status: 'failed', durationMs: 3000 },
+          { title: 'checks out', status: 'passed', durationMs: 800 },
+          { title: 'searches', status: 'passed', durationMs: 500 },
+        ],
+        78
+      )
+    ).json();
+
+    const response = await request.get(`/api/apps/${appId}/compare?base=${base.id}&head=${head.id}`);
+
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.newlyFailing.map((t: { title: string }) => t.title)).toEqual(['logs in']);
+    expect(body.newlyPassing.map((t: { title: string }) => t.title)).toEqual(['checks out']);
+    expect(body.added.map((t: { title: string }) => t.title)).toEqual(['searches']);
+    expect(body.durationRegressions.map((t: { title: string }) => t.title)).toEqual(['logs in']);
+    expect(body.coverageDelta).toBe(-2);
+  });
+
+  test('requires base and head', async ({ request }) => {
+    const response = await request.get('/api/apps/checkout/compare?head=abc');
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('returns 404 for unknown refs', async ({ request }) => {
+    const response = await request.get('/api/apps/checkout/compare?base=missing&head=missing');
+
+    expect(response.status()).toBe(404);
+  });
+});
+
+test.describe('API /api/quarantine', () => {
+  test('creates, lists, updates and removes entries', async ({ request }) => {
+    const appId = `quarantine-${Date.now()}`;
+    const created = await request.post('/api/quarantine', {
+      data: { appId, titlePath: ['chromium', 'checkout.spec.ts', 'pays by card'], owner: 'payments', reason: 'Sandbox timeouts' },
+    });
+    expect(created.status()).toBe(201);
+    const entry = await created.json();
+
+    const list = await (await request.get(`/api/quarantine?appId=${appId}&active=true`)).json();
+    expect(list.entries).toHaveLength(1);
+    expect(list.entries[0]).toMatchObject({ id: entry.id, owner: 'payments' });
+
+    const expired = await request.patch(`/api/quarantine/${entry.id}`, { data: { expiresAt: '2000-01-01T00:00:00Z' } });
+    expect(expired.status()).toBe(200);
+    const active = await (await request.get(`/api/quarantine?appId=${appId}&active=true`)).json();
+    expect(active.entries).toHaveLength(0);
+
+    const removed = await request.delete(`/api/quarantine/${entry.id}`);
+    expect(removed.status()).toBe(204);
+    expect((await request.delete(`/api/quarantine/${entry.id}`)).status()).toBe(404);
+  });
+
+  test('rejects entries without an owner', async ({ request }) => {
+    const response = await request.post('/api/quarantine', {
+      data: { appId: 'checkout', titlePath: ['pays by card'], reason: 'Sandbox timeouts' },
+    });
+
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errors).toContainEqual({ field: 'owner', message: 'must be a non-empty string' });
+  });
+});
+
+test.describe('API /api/keys', () => {
+  test('creates, rotates and revokes keys without exposing tokens', async ({ request }) => {
+    const created = await request.post('/api/keys', {
+      data: { name: `ci-${Date.now()}`, role: 'ci', appIds: ['checkout'], scopes: ['ingest'] },
+    });
+    expect(created.status()).toBe(201);
+    const { key, token } = await created.json();
+    expect(token).toMatch(/^uxqa_/);
+    expect(token.startsWith(key.prefix)).toBe(true);
+    expect(key.hash).toBeUndefined();
+
+    const list = await (await request.get('/api/keys')).json();
+    expect(JSON.stringify(list)).not.toContain(token);
+
+    const rotated = await (await request.post(`/api/keys/${key.id}/rotate`)).json();
+    expect(rotated.token).not.toBe(token);
+    expect(rotated.key.rotatedAt).toBeTruthy();
+
+    const revoked = await request.delete(`/api/keys/${key.id}`);
+    expect((await revoked.json()).revokedAt).toBeTruthy();
+    expect((await request.post(`/api/keys/${key.id}/rotate`)).status()).toBe(404);
+  });
+
+  test('rejects unknown scopes', async ({ request }) => {
+    const response = await request.post('/api/keys', { data: { name: 'ci', role: 'ci', scopes: ['write'] } });
+
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('API /api/audit', () => {
+  test('records key changes with a before/after diff', async ({ request }) => {
+    const created = await request.post('/api/keys', {
+      data: { name: `audit-${Date.now()}`, role: 'ci', scopes: ['read'] },
+    });
+    const { key } = await created.json();
+    await request.delete(`/api/keys/${key.id}`);
+
+    const response = await request.get(`/api/audit?target=${key.id}`);
+    expect(response.status()).toBe(200);
+    const { entries } = await response.json();
+    expect(entries.map((entry: { action: string }) => entry.action)).toEqual(['apiKey.revoke', 'apiKey.create']);
+    expect(entries[0].changes).toEqual([{ path: 'revokedAt', after: expect.any(String) }]);
+  });
+
+  test('rejects unknown actions', async ({ request }) => {
+    const response = await request.get('/api/audit?action=deleteEverything');
+
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('API /api/alerts/rules', () => {
+  test('creates, updates and deletes a rule', async ({ request }) => {
+    const created = await request.post('/api/alerts/rules', {
+      data: { name: 'e2e failures', appId: `alerts-${Date.now()}`, condition: { type: 'consecutiveFailures', count: 2 } },
+    });
+    expect(created.status()).toBe(201);
+    const rule = await created.json();
+    expect(rule).toMatchObject({ cooldownMinutes: 60, enabled: true });
+
+    const updated = await request.patch(`/api/alerts/rules/${rule.id}`, { data: { enabled: false } });
+    expect((await updated.json()).enabled).toBe(false);
+
+    expect((await request.delete(`/api/alerts/rules/${rule.id}`)).status()).toBe(204);
+    expect((await request.delete(`/api/alerts/rules/${rule.id}`)).status()).toBe(404);
+  });
+
+  test('rejects unknown condition types', async ({ request }) => {
+    const response = await request.post('/api/alerts/rules', {
+      data: { name: 'broken', condition: { type: 'moonPhase' } },
+    });
+
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('Trace viewer', () => {
+  test('serves the bundled Playwright trace viewer', async ({ request }) => {
+    const page = await request.get('/trace/index.html');
+    expect(page.status()).toBe(200);
+    expect(await page.text()).toContain('Playwright Trace Viewer');
+
+    const worker = await request.get('/trace/sw.bundle.js');
+    expect(worker.headers()['content-type']).toContain('javascript');
+  });
+});
+
+test.describe('API /api/graphql', () => {
+  test('queries runs with filters', async ({ request }) => {
+    await request.post('/api/runs', { data: { ...testRunPayload, appId: 'graphql-app' } });
+
+    const response = await request.post('/api/graphql', {
+      data: {
+        query: 'query($appId: String) { runs(filter: { appId: $appId }, limit: 5) { nodes { id appId } next } }',
+        variables: { appId: 'graphql-app' },
+      },
+    });
+
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.errors).toBeUndefined();
+    expect(body.data.runs.nodes[0].appId).toBe('graphql-app');
+  });
+
+  test('returns suite aggregates', async ({ request }) => {
+    const response = await request.post('/api/graphql', {
+      data: { query: '{ suites(appId: "graphql-app") { name runCount passRate flakeRate p95DurationMs } }' },
+    });
+
+    const body = await response.json();
+    expect(body.data.suites[0].runCount).toBeGreaterThan(0);
+  });
+
+  test('supports introspection', async ({ request }) => {
+    const response = await request.post('/api/graphql', {
+      data: { query: '{ __schema { queryType { name } mutationType { name } } }' },
+    });
+
+    const body = await response.json();
+    expect(body.data.__schema.queryType.name).toBe('Query');
+    expect(body.data.__schema.mutationType.name).toBe('Mutation');
+  });
+
+  test('rejects mutations over GET', async ({ request }) => {
+    const response = await request.get(
+      `/api/graphql?query=${encodeURIComponent('mutation { updateSettings(input: { theme: "light" }) { theme } }')}`
+    );
+
+    expect(response.status()).toBe(405);
+  });
+});
+
 test.describe('API /api/metrics', () => {
   test('GET /api/metrics/prometheus returns prometheus format', async ({ request }) => {
     const response = await request.get('/api/metrics/prometheus');
@@ -76,3 +506,14 @@ test.describe('API /api/metrics', () => {
     expect(contentType).toContain('text/plain');
   });
 });
+
+test.describe('API /api/health/sinks', () => {
+  test('reports the delivery health of every sink', async ({ request }) => {
+    const response = await request.get('/api/health/sinks');
+
+    expect([200, 503]).toContain(response.status());
+    const body = await response.json();
+    expect(body.status).toBe(response.status() === 200 ? 'healthy' : 'degraded');
+    expect(Array.isArray(body.sinks)).toBe(true);
+  });
+});
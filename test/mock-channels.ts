@@ -0,0 +1,111 @@
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createTcpServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+export interface ReceivedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  /** Raw message as sent after DATA, with dot-stuffing removed. */
+  data: string;
+  /** Decoded `user` of AUTH PLAIN, when the client authenticated. */
+  user?: string;
+}
+
+/**
+ * Stand-in for Slack, Teams and plain webhook endpoints: records every request and answers `200`, or the
+ * status in the path for `/status/{code}/...`, so retries and failures can be exercised.
+ */
+export async function startMockWebhookServer({ port = 0 }: { port?: number } = {}) {
+  const requests: ReceivedRequest[] = [];
+  const server = createHttpServer(async (request, response) => {
+    let body = '';
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    const path = request.url ?? '/';
+    requests.push({ path, headers: request.headers, body });
+    const status = Number(path.match(/^\/status\/(\d{3})/)?.[1] ?? '200');
+    response.writeHead(status, { 'content-type': 'text/plain' });
+    response.end(status < 300 ? 'ok' : 'error');
+  });
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    url,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** Minimal SMTP server (EHLO, AUTH PLAIN, MAIL, RCPT, DATA, QUIT) that keeps the messages it receives. */
+export async function startMockSmtpServer({ port = 0 }: { port?: number } = {}) {
+  const messages: ReceivedMail[] = [];
+  const server = createTcpServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    let user: string | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 mock-smtp ready');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) {
+            return;
+          }
+          mail.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push({ ...mail, user });
+          mail = { from: '', to: [], data: '' };
+          reply('250 queued');
+          continue;
+        }
+        const newline = buffer.indexOf('\r\n');
+        if (newline === -1) {
+          return;
+        }
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.split(' ')[0].toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250-mock-smtp');
+          reply('250 AUTH PLAIN');
+        } else if (command === 'AUTH') {
+          user = Buffer.from(line.split(' ')[2] ?? '', 'base64').toString('utf-8').split('\0')[1];
+          reply('235 authenticated');
+        } else if (command === 'MAIL') {
+          mail.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+          reply('250 ok');
+        } else if (command === 'RCPT') {
+          mail.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+          reply('250 ok');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 end with <CRLF>.<CRLF>');
+        } else if (command === 'QUIT') {
+          reply('221 bye');
+          socket.end();
+        } else {
+          reply('502 not implemented');
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+  return {
+    url: `smtp://127.0.0.1:${boundPort}`,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
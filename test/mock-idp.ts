@@ -0,0 +1,169 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface MockUser {
+  sub: string;
+  name: string;
+  email: string;
+  /** Emitted as the `roles` claim. */
+  roles: string[];
+}
+
+export interface MockIdpOptions {
+  port?: number;
+  clientId?: string;
+  clientSecret?: string;
+  users?: MockUser[];
+}
+
+export const DEFAULT_USERS: MockUser[] = [
+  { sub: 'alice', name: 'Alice Admin', email: 'alice@example.test', roles: ['admin'] },
+  { sub: 'victor', name: 'Victor Viewer', email: 'victor@example.test', roles: ['viewer'] },
+];
+
+interface PendingCode {
+  user: MockUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+}
+
+const KEY_ID = 'mock-idp';
+
+/**
+ * Minimal OpenID Connect provider for local development and tests: discovery, an authorize page that lets
+ * you pick a user, the token endpoint (with PKCE), JWKS and end-session. Not for production use.
+ */
+export async function startMockIdp({
+  port = 0,
+  clientId = 'uxqa-hub',
+  clientSecret = 'mock-secret',
+  users = DEFAULT_USERS,
+}: MockIdpOptions = {}) {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+
+  const signIdToken = (claims: Record<string, unknown>) => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${encode(claims)}`;
+    return `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+  };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', issuer);
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+    const redirect = (location: string) => {
+      response.writeHead(302, { location });
+      response.end();
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        end_session_endpoint: `${issuer}/logout`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+    }
+    if (url.pathname === '/authorize') {
+      if (url.searchParams.get('client_id') !== clientId) {
+        return json(400, { error: 'unauthorized_client' });
+      }
+      const links = users
+        .map((user) => {
+          const approve = new URL('/authorize/approve', issuer);
+          approve.search = url.search;
+          approve.searchParams.set('user', user.sub);
+          return `<li><a href="${approve}">${user.name} (${user.roles.join(', ')})</a></li>`;
+        })
+        .join('');
+      response.writeHead(200, { 'content-type': 'text/html' });
+      return response.end(`<!doctype html><h1>Mock IdP: sign in as</h1><ul>${links}</ul>`);
+    }
+    if (url.pathname === '/authorize/approve') {
+      const user = users.find((candidate) => candidate.sub === url.searchParams.get('user'));
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (!user || !redirectUri) {
+        return json(400, { error: 'invalid_request' });
+      }
+      const code = randomBytes(16).toString('base64url');
+      codes.set(code, {
+        user,
+        clientId: url.searchParams.get('client_id') ?? '',
+        redirectUri,
+        nonce: url.searchParams.get('nonce') ?? undefined,
+        codeChallenge: url.searchParams.get('code_challenge') ?? undefined,
+      });
+      const callback = new URL(redirectUri);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+      return redirect(callback.toString());
+    }
+    if (url.pathname === '/token' && request.method === 'POST') {
+      let raw = '';
+      for await (const chunk of request) {
+        raw += chunk;
+      }
+      const body = new URLSearchParams(raw);
+      const expectedAuth = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+      const pending = codes.get(body.get('code') ?? '');
+      codes.delete(body.get('code') ?? '');
+      if (request.headers.authorization !== expectedAuth) {
+        return json(401, { error: 'invalid_client' });
+      }
+      const verifier = body.get('code_verifier') ?? '';
+      if (
+        !pending ||
+        pending.redirectUri !== body.get('redirect_uri') ||
+        (pending.codeChallenge && createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge)
+      ) {
+        return json(400, { error: 'invalid_grant' });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const { user } = pending;
+      return json(200, {
+        token_type: 'Bearer',
+        access_token: randomBytes(16).toString('base64url'),
+        expires_in: 3600,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: pending.clientId,
+          sub: user.sub,
+          name: user.name,
+          email: user.email,
+          roles: user.roles,
+          nonce: pending.nonce,
+          iat: now,
+          exp: now + 3600,
+        }),
+      });
+    }
+    if (url.pathname === '/logout') {
+      return redirect(url.searchParams.get('post_logout_redirect_uri') ?? issuer);
+    }
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
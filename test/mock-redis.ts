@@ -0,0 +1,138 @@
+import { createServer } from 'node:net';
+import type { AddressInfo, Socket } from 'node:net';
+
+export interface PublishedMessage {
+  channel: string;
+  message: string;
+}
+
+export interface MockRedisOptions {
+  port?: number;
+  /** Required with AUTH before any other command when set. */
+  password?: string;
+}
+
+const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+const array = (values: (string | number)[]) =>
+  `*${values.length}\r\n${values.map((value) => (typeof value === 'number' ? `:${value}\r\n` : bulk(value))).join('')}`;
+
+/** Reads one multi-bulk command off the buffer; `undefined` until it has fully arrived. */
+function readCommand(buffer: Buffer): { args: string[]; end: number } | undefined {
+  let offset = 0;
+  const line = () => {
+    const end = buffer.indexOf('\r\n', offset);
+    if (end === -1) {
+      return undefined;
+    }
+    const text = buffer.toString('utf-8', offset, end);
+    offset = end + 2;
+    return text;
+  };
+  const header = line();
+  if (header === undefined) {
+    return undefined;
+  }
+  const args: string[] = [];
+  for (let index = 0; index < Number(header.slice(1)); index += 1) {
+    const length = line();
+    if (length === undefined || buffer.length < offset + Number(length.slice(1)) + 2) {
+      return undefined;
+    }
+    args.push(buffer.toString('utf-8', offset, offset + Number(length.slice(1))));
+    offset += Number(length.slice(1)) + 2;
+  }
+  return { args, end: offset };
+}
+
+/**
+ * Redis stand-in with just enough of the protocol for pub/sub (AUTH, PING, PUBLISH, SUBSCRIBE, UNSUBSCRIBE, QUIT).
+ * Keeps every published message and can drop its clients to exercise reconnects.
+ */
+export async function startMockRedisServer({ port = 0, password }: MockRedisOptions = {}) {
+  const published: PublishedMessage[] = [];
+  const subscribers = new Map<Socket, Set<string>>();
+  const clients = new Set<Socket>();
+
+  const deliver = (channel: string, message: string) => {
+    published.push({ channel, message });
+    let receivers = 0;
+    for (const [socket, channels] of subscribers) {
+      if (channels.has(channel)) {
+        socket.write(array(['message', channel, message]));
+        receivers += 1;
+      }
+    }
+    return receivers;
+  };
+
+  const server = createServer((socket) => {
+    clients.add(socket);
+    let buffer = Buffer.alloc(0);
+    let authenticated = !password;
+    socket.on('close', () => {
+      clients.delete(socket);
+      subscribers.delete(socket);
+    });
+    socket.on('error', () => undefined);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let command = readCommand(buffer);
+      while (command) {
+        buffer = buffer.subarray(command.end);
+        const [name = '', ...args] = command.args;
+        const verb = name.toUpperCase();
+        if (verb === 'AUTH') {
+          authenticated = !password || args[args.length - 1] === password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid username-password pair\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else if (verb === 'PING') {
+          socket.write('+PONG\r\n');
+        } else if (verb === 'PUBLISH') {
+          socket.write(`:${deliver(args[0], args[1])}\r\n`);
+        } else if (verb === 'SUBSCRIBE') {
+          const channels = subscribers.get(socket) ?? new Set<string>();
+          subscribers.set(socket, channels);
+          for (const channel of args) {
+            channels.add(channel);
+            socket.write(array(['subscribe', channel, channels.size]));
+          }
+        } else if (verb === 'UNSUBSCRIBE') {
+          const channels = subscribers.get(socket) ?? new Set<string>();
+          for (const channel of args) {
+            channels.delete(channel);
+            socket.write(array(['unsubscribe', channel, channels.size]));
+          }
+        } else if (verb === 'QUIT') {
+          socket.end('+OK\r\n');
+        } else {
+          socket.write(`-ERR unknown command '${name}'\r\n`);
+        }
+        command = readCommand(buffer);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const url = `redis://${password ? `:${encodeURIComponent(password)}@` : ''}127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    url,
+    published,
+    /** Publishes like another hub instance would. */
+    publish: deliver,
+    /** Number of connections subscribed to `channel`. */
+    subscriberCount: (channel: string) => [...subscribers.values()].filter((channels) => channels.has(channel)).length,
+    /** Closes every client connection, as a Redis restart would. */
+    dropClients: () => {
+      for (const socket of clients) {
+        socket.destroy();
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of clients) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
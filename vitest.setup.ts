@@ -1 +1,7 @@
 import '@testing-library/jest-dom/vitest'
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+// The memory driver keeps the outbox on disk too; every test file gets a fresh one unless it picks its own
+process.env.UXQA_OUTBOX_FILE = path.join(mkdtempSync(path.join(tmpdir(), 'uxqa-outbox-')), 'outbox.json')